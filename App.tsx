@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback, useEffect, lazy, Suspense } from 'react';
+import React, { useState, useRef, useCallback, useEffect, useMemo, lazy, Suspense } from 'react';
 import { SpeedInsights } from "@vercel/speed-insights/react";
 import { User } from 'firebase/auth';
 import * as firebaseService from './services/firebaseService';
@@ -13,22 +13,40 @@ const LoginScreen = lazy(() => import('./components/LoginScreen').then(module =>
 import { ControlsPanel } from './components/ControlsPanel';
 import { TranscriptionPanel } from './components/TranscriptionPanel';
 import { InsightsPanel } from './components/InsightsPanel';
-import { Logo } from './components/Logo';
+import { RecoveryDialog } from './components/RecoveryDialog';
+import { UnlockScreen } from './components/UnlockScreen';
+import { CLINIC_NAME, Logo } from './components/Logo';
 import { Clock } from './components/Clock';
 import { SessionTimer } from './components/SessionTimer';
 
 // Serviços - lazy load apenas quando necessário
-import { generateInsightsWithFailover, generateAnamnesisWithFailover } from './services/geminiService';
-import { AudioRecordingService } from './services/audioRecordingService';
-import { GeminiLiveService } from './services/geminiLiveService';
-import { tokenTracker, TokenStats } from './services/tokenTracker';
+import { generateInsightsWithFailover, generateAnamnesisWithFailover, updateAnamnesisWithFailover } from './services/geminiService';
+import { GenerationScheduler } from './services/generationScheduler';
+import { estimateCostUsd } from './services/llmProviders';
+import type { LLMProviderId, ProviderCredentials, ProviderOptions } from './services/llmProviders';
+import { DEFAULT_TRANSCRIPTION_SETTINGS, TranscriptionManager, TranscriptionSettings } from './services/transcriptionEngines';
+import type { VadResult } from './services/voiceActivityDetector';
+import type { CaptionSegment } from './services/liveCaptionTrack';
+import { tokenTracker, TokenStats, SessionTokenSummary } from './services/tokenTracker';
+import { sessionBackupService, SessionBackup, createSessionId } from './services/sessionBackupService';
+import { sessionRepository, SyncStatus } from './services/sessionRepository';
+import { cryptoService, EncryptionMetadata } from './services/cryptoService';
 import { medicalKnowledgeService } from './services/medicalKnowledgeService';
 import { proceduralMemoryService } from './services/proceduralMemoryService';
-import { useLogger } from './hooks/useLogger';
-import { uploadFile } from './services/googleDriveService';
+import { useLogger, LogEntry } from './hooks/useLogger';
+import { DriveFileIds, driveSyncService } from './services/driveSyncService';
+import { DriveAuthStatus, driveAuthManager } from './services/driveAuthManager';
+import { AudioImportProgress, transcribeAudioFile } from './services/audioImportService';
+import { audioArchiveService, AudioArchiveSettings, DEFAULT_AUDIO_ARCHIVE_SETTINGS, RecordedAudio, SessionAudio, SessionAudioRecorder } from './services/audioArchiveService';
 import { getPatientName } from './utils/sessionUtils';
-
-import type { SettingsData, WaveformStyle, InsightProvider, PrebuiltVoice } from './components/SettingsPanel';
+import { PhiAuditEntry, PhiVault } from './services/deidentificationService';
+import { createPatient, Patient, patientRepository } from './services/patientRepository';
+import { PriorVisitContext, priorVisitService } from './services/priorVisitService';
+import { TranscriptTurn, Speaker, formatTurnsAsDialogue } from './utils/transcriptUtils';
+import { AnamnesisDocument, createEmptyAnamnesis, isAnamnesisEmpty } from './services/anamnesisSchema';
+import { AnamnesisTemplate, BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID, findTemplate, getCustomTemplates, mergeWithBuiltInTemplates, migrateLegacyPrompt } from './services/anamnesisTemplates';
+
+import type { SettingsData, WaveformStyle, InsightProvider, PrebuiltVoice, AnamnesisUpdateMode } from './components/SettingsPanel';
 import type { GDriveSettings } from './services/googleDriveService';
 
 type AppState = 'pre-session' | 'in-session';
@@ -57,86 +75,51 @@ export interface SessionData {
     startTime: Date;
     endTime: Date | null;
     location: SerializableLocation | null; // Use the serializable type
-    transcriptionHistory: string[];
-    anamnesis: string;
+    transcriptionHistory: TranscriptTurn[];
+    anamnesis: AnamnesisDocument;
+    templateId?: string; // Modelo de anamnese usado (sessões antigas não possuem)
+    insights?: SessionInsight[];
+    tokenSummary?: SessionTokenSummary;
+    logExcerpt?: LogEntry[]; // Últimos eventos da sessão, se habilitado nas configurações
+    revision?: number; // Incrementada a cada gravação; resolve conflitos de sincronização
+    phiAudit?: PhiAuditEntry[]; // Dados mascarados antes do envio a provedores em nuvem
+    patientId?: string; // Sessões antigas ou sem nome identificado não têm paciente
+    driveFiles?: DriveFileIds; // Arquivos já enviados ao Google Drive, atualizados a cada novo envio
+    audio?: SessionAudio; // Gravação da consulta, se habilitada; removida pela política de retenção
 }
 
-interface SessionInfo {
-    startTime: Date;
-    location: GeolocationPosition | null;
+export interface SessionInsight {
+    text: string;
+    timestamp: Date;
+    provider: LLMProviderId | null; // null quando nenhum provedor respondeu
 }
 
-const DEFAULT_ANAMNESIS_PROMPT = `Você é um assistente de IA especializado em documentação médica. Sua tarefa é ouvir a transcrição de uma consulta e preencher a seguinte anamnese estruturada em tempo real. Use as informações fornecidas na transcrição para preencher cada seção da forma mais completa possível. Se uma informação não for mencionada, deixe o campo em branco ou indique "não informado". ATUALIZE a anamnese com base em TODA a transcrição a cada turno da conversa.
-
----
-[NOME DO PACIENTE]
-(escreva o nome do paciente conforme sea detectado no audio)
-
-[QUEIXA PRINCIPAL]
-(descreva com as palavras do paciente)
-
-[HISTÓRIA DA DOENÇA ATUAL]
-(tempo de início, evolução, fatores agravantes e atenuantes, tratamentos anteriores)
-
-[MEDICAMENTOS EM USO]
-(nome do medicamento – dose – frequência)
-
-[ALERGIAS]
-(a medicamentos, alimentos e ambientais – especificar tipo de reação)
-
-[PATOLOGIAS PREGRESSAS]
-(diabetes, hipertensão, dislipidemia, doenças autoimunes, etc)
-
-[CIRURGIAS PRÉVIas]
-(tipo de cirurgia – ano – intercorrências)
-
-[HISTÓRICO FAMILIAR]
-(câncer, diabetes, hipertensão, doenças neurológicas, etc)
-
-[HISTÓRICO SEXUAL E REPRODUTIVO]
-– Filhos? (quantos, idades)
-– Libido sexual (normal / reduzida / aumentada)
-– Preventivos em dia? (mamografia, papanicolau, toque retal)
+// Quantidade de eventos de log anexados à sessão salva
+const SESSION_LOG_EXCERPT_SIZE = 200;
 
-[ESTILO DE VIDA]
-– Álcool: (frequência / quantidade)
-– Tabagismo: (ativo / cessado / nunca fumou)
-– Drogas recreativas: (tipo / uso atual ou passado)
-– Sono: (horas por noite / qualidade)
-– Estresse: (nível subjetivo de 0 a 10)
-– Atividade física: (tipo / frequência)
+// Agrupa edições seguidas de uma sessão salva (ex.: troca de locutores) em um único envio ao Drive
+const DRIVE_UPDATE_DELAY_MS = 5000;
 
-[HISTÓRICO NUTRICIONAL]
-– Frequência de consumo de ultraprocessados
-– Consome vegetais e frutas diariamente?
-– Hidratação adequada? (litros/dia)
-
-[FLEXIBilidade ALIMENTAR]
-(restrições – dietas – relação com a comida)
-
-[EXAME FÍSICO]
-
-Inspeção geral:
-– Estado geral, hidratação, coloração de pele e mucosas
-
-Antropometria:
-– Peso: ___ kg
-– Altura: ___ m
-– IMC: ___ kg/m²
+interface SessionInfo {
+    id: string; // Identifica o backup local da sessão
+    startTime: Date;
+    location: SerializableLocation | null;
+}
 
-Sinais vitais:
-– Frequência respiratória: ___ rpm
-– Frequência cardíaca: ___ bpm
-– Pressão arterial: ___ mmHg
+const toSerializableLocation = (position: GeolocationPosition): SerializableLocation => ({
+    coords: {
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        altitude: position.coords.altitude,
+        altitudeAccuracy: position.coords.altitudeAccuracy,
+        heading: position.coords.heading,
+        speed: position.coords.speed,
+    },
+    timestamp: position.timestamp,
+});
 
-Avaliação sistêmica:
-– Cardiorrespiratório: (ex. murmúrios vesiculares presentes e simétricos, bulhas normofonéticas)
-– Digestivo: (ex. abdome flácido, indolor, sem visceromegalia)
-– Neurológico: (ex. reflexos preservados, força muscular 5/5)
 
-[OBSERVAÇÕES FINAIS]
-(anotações livres, suspeitas diagnósticas, diagnósticos diferenciais, condutas iniciais)
----`;
 
 const SettingsIcon: React.FC<{ className?: string }> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor">
@@ -154,24 +137,35 @@ const App: React.FC = () => {
     const [authLoading, setAuthLoading] = useState(true);
     const [isFirebaseConfigured, setIsFirebaseConfigured] = useState(true);
 
+    // Encryption State (apenas para usuários com login)
+    const [encryptionState, setEncryptionState] = useState<'setup' | 'locked' | 'unlocked'>('locked');
+    const [encryptionMetadata, setEncryptionMetadata] = useState<EncryptionMetadata | null>(null);
+    const resyncAfterLoadRef = useRef(false); // Recriptografa as sessões após o próximo carregamento
+
     // App State
     const [appState, setAppState] = useState<AppState>('pre-session');
     const [sessionInfo, setSessionInfo] = useState<SessionInfo | null>(null);
+    const [interruptedBackups, setInterruptedBackups] = useState<SessionBackup[]>([]);
+    const [isSavingBackup, setIsSavingBackup] = useState(false);
+    const recoveryCheckedRef = useRef(false);
+    // Marcadores de PHI da sessão atual: estáveis entre chamadas e restaurados nas respostas
+    const phiVaultRef = useRef(new PhiVault());
 
     // Session State
     const [isListening, setIsListening] = useState(false);
     const [isMuted, setIsMuted] = useState(false);
     const [statusMessage, setStatusMessage] = useState('Pressione Iniciar para começar');
-    const [transcriptionHistory, setTranscriptionHistory] = useState<string[]>([]);
+    const [transcriptionHistory, setTranscriptionHistory] = useState<TranscriptTurn[]>([]);
 
-    // Gemini Live State
+    // Texto parcial do turno em andamento (motor de transcrição)
     const [currentLiveTranscript, setCurrentLiveTranscript] = useState('');
+    const [captions, setCaptions] = useState<CaptionSegment[]>([]); // Legendas provisórias (Web Speech)
 
     // AI State
-    const [insights, setInsights] = useState<string[]>([]);
+    const [insights, setInsights] = useState<SessionInsight[]>([]);
     const [isGeneratingInsights, setIsGeneratingInsights] = useState(false);
     const [lastError, setLastError] = useState<string | undefined>(undefined);
-    const [anamnesis, setAnamnesis] = useState('');
+    const [anamnesis, setAnamnesis] = useState<AnamnesisDocument | null>(null);
     const [isGeneratingAnamnesis, setIsGeneratingAnamnesis] = useState(false);
     const [tokenStats, setTokenStats] = useState<TokenStats>(tokenTracker.getStats());
     const [anamnesisMode, setAnamnesisMode] = useState<'live' | 'manual'>('live');
@@ -179,19 +173,28 @@ const App: React.FC = () => {
 
     // UI & Settings State
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
-    const [anamnesisPrompt, setAnamnesisPrompt] = useState<string>(DEFAULT_ANAMNESIS_PROMPT);
+    const [templates, setTemplates] = useState<AnamnesisTemplate[]>(BUILT_IN_TEMPLATES);
+    const [defaultTemplateId, setDefaultTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
+    const [sessionTemplateId, setSessionTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
+    const [anamnesisUpdateMode, setAnamnesisUpdateMode] = useState<AnamnesisUpdateMode>('incremental');
     const [audioDevices, setAudioDevices] = useState<MediaDeviceInfo[]>([]);
     const [selectedDeviceId, setSelectedDeviceId] = useState<string | undefined>();
     const [theme, setTheme] = useState<Theme>('default');
     const [savedSessions, setSavedSessions] = useState<SessionData[]>([]);
+    const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(null);
+    const [patients, setPatients] = useState<Patient[]>([]);
+    const [sessionPatientId, setSessionPatientId] = useState<string>(''); // '' = identificar pelo nome na anamnese
     const [logoDataUrl, setLogoDataUrl] = useState<string | null>(null);
     const [logoSize, setLogoSize] = useState<number>(24);
     const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+    const [voiceActivity, setVoiceActivity] = useState<VadResult | null>(null); // Só nos motores em lote, que usam o detector de voz
     const [waveformStyle, setWaveformStyle] = useState<WaveformStyle>('traktor');
     const [insightsProvider, setInsightsProvider] = useState<InsightProvider>('gemini');
     const [activeInsightsProvider, setActiveInsightsProvider] = useState<InsightProvider | null>('gemini');
     const [voiceName, setVoiceName] = useState<PrebuiltVoice>('Zephyr');
-    const [apiKeys, setApiKeys] = useState({ gemini: '', openai: '', grok: '' });
+    const [apiKeys, setApiKeys] = useState<Record<LLMProviderId, string>>({});
+    const [providerOptions, setProviderOptions] = useState<Record<LLMProviderId, ProviderOptions>>({});
+    const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>(DEFAULT_TRANSCRIPTION_SETTINGS);
     const [gdriveSettings, setGdriveSettings] = useState<GDriveSettings>({
         clientId: '177602030589-ob4l1rms4snqmv5otl9bhiavn6uhjr0k.apps.googleusercontent.com',
         loginHint: '',
@@ -199,10 +202,22 @@ const App: React.FC = () => {
         user: null,
         token: null,
     });
+    const [saveSessionLogs, setSaveSessionLogs] = useState(true);
+    const [fhirBaseUrl, setFhirBaseUrl] = useState('');
+    const [audioArchive, setAudioArchive] = useState<AudioArchiveSettings>(DEFAULT_AUDIO_ARCHIVE_SETTINGS);
+    const [settingsLoaded, setSettingsLoaded] = useState(false); // A retenção das gravações espera a política salva
+    const [drivePending, setDrivePending] = useState(0);
+    const [driveAuthStatus, setDriveAuthStatus] = useState<DriveAuthStatus>('disconnected');
 
     // Refs
-    const transcriptionHistoryRef = useRef<string[]>([]);
-    const audioRecordingServiceRef = useRef<AudioRecordingService | null>(null);
+    const transcriptionHistoryRef = useRef<TranscriptTurn[]>([]);
+    const anamnesisRef = useRef<AnamnesisDocument | null>(null);
+    const anamnesisTurnCountRef = useRef(0); // Quantos turnos já foram incorporados à anamnese
+    // Histórico do paciente da sessão atual, carregado uma vez por paciente identificado
+    const priorVisitRef = useRef<{ patientId: string; context: PriorVisitContext | null } | null>(null);
+    const transcriptionManagerRef = useRef<TranscriptionManager | null>(null);
+    const audioRecorderRef = useRef<SessionAudioRecorder | null>(null);
+    const audioRetentionKeyRef = useRef<string | null>(null); // Evita repetir a retenção com o mesmo contexto
 
     // --- Initialize Knowledge Services ---
     useEffect(() => {
@@ -228,24 +243,17 @@ const App: React.FC = () => {
                     setIsGuest(false);
                     log('INFO', `Usuário ${firebaseUser.email} autenticado.`);
 
-                    const userSettings = await firebaseService.fetchUserSettings(firebaseUser.uid);
-                    if (userSettings) {
-                        setAnamnesisPrompt(userSettings.prompt || DEFAULT_ANAMNESIS_PROMPT);
-                        setTheme(userSettings.theme || 'default');
-                        setLogoDataUrl(userSettings.logoUrl || null);
-                        setLogoSize(userSettings.logoSize || 24);
-                        setWaveformStyle(userSettings.waveformStyle || 'line');
-                        setVoiceName(userSettings.voiceName || 'Zephyr');
-                        setInsightsProvider(userSettings.insightsProvider || 'gemini');
-                        setActiveInsightsProvider(userSettings.insightsProvider || 'gemini');
-                        setApiKeys(userSettings.apiKeys || { gemini: '', openai: '', grok: '' });
-                        setGdriveSettings(prev => ({ ...prev, ...userSettings.gdrive, token: null }));
-                        setSelectedDeviceId(userSettings.selectedDeviceId);
+                    try {
+                        const metadata = await firebaseService.fetchEncryptionMetadata(firebaseUser.uid);
+                        setEncryptionMetadata(metadata);
+                        setEncryptionState(cryptoService.isUnlocked() ? 'unlocked' : metadata ? 'locked' : 'setup');
+                    } catch (error: any) {
+                        log('ERROR', `Falha ao carregar as chaves de criptografia: ${error.message}`);
                     }
-
-                    const sessions = await firebaseService.fetchSessions(firebaseUser.uid);
-                    setSavedSessions(sessions);
                 } else {
+                    cryptoService.lock();
+                    setEncryptionState('locked');
+                    setEncryptionMetadata(null);
                     setUser(null);
                     setSavedSessions([]);
                 }
@@ -260,6 +268,191 @@ const App: React.FC = () => {
     }, [log]);
 
 
+    // Configurações são carregadas após o desbloqueio: as chaves de API estão criptografadas
+    useEffect(() => {
+        setSettingsLoaded(false);
+        if (!user || encryptionState !== 'unlocked') return;
+        const uid = user.uid;
+        const loadSettings = async () => {
+            const userSettings = await firebaseService.fetchUserSettings(uid);
+            if (userSettings) {
+                // Configurações antigas guardavam um único `prompt`
+                const legacyTemplate = userSettings.templates ? null : migrateLegacyPrompt(userSettings.prompt);
+                const loadedTemplates = mergeWithBuiltInTemplates(userSettings.templates || (legacyTemplate ? [legacyTemplate] : []));
+                const loadedDefaultId = findTemplate(loadedTemplates, userSettings.defaultTemplateId || legacyTemplate?.id).id;
+                setTemplates(loadedTemplates);
+                setDefaultTemplateId(loadedDefaultId);
+                setSessionTemplateId(loadedDefaultId);
+                setAnamnesisUpdateMode(userSettings.anamnesisUpdateMode || 'incremental');
+                setTheme(userSettings.theme || 'default');
+                setLogoDataUrl(userSettings.logoUrl || null);
+                setLogoSize(userSettings.logoSize || 24);
+                setWaveformStyle(userSettings.waveformStyle || 'line');
+                setVoiceName(userSettings.voiceName || 'Zephyr');
+                setInsightsProvider(userSettings.insightsProvider || 'gemini');
+                setActiveInsightsProvider(userSettings.insightsProvider || 'gemini');
+                setApiKeys(userSettings.apiKeys || {});
+                setProviderOptions(userSettings.providerOptions || {});
+                setTranscriptionSettings({
+                    ...DEFAULT_TRANSCRIPTION_SETTINGS,
+                    ...userSettings.transcription,
+                    whisper: { ...DEFAULT_TRANSCRIPTION_SETTINGS.whisper, ...userSettings.transcription?.whisper },
+                    vad: { ...DEFAULT_TRANSCRIPTION_SETTINGS.vad, ...userSettings.transcription?.vad },
+                });
+                // O token não é salvo: vem do driveAuthManager, que o renova sem interação
+                setGdriveSettings(prev => ({ ...prev, ...userSettings.gdrive, token: prev.token }));
+                setSaveSessionLogs(userSettings.saveSessionLogs ?? true);
+                setFhirBaseUrl(userSettings.fhirBaseUrl || '');
+                setAudioArchive({ ...DEFAULT_AUDIO_ARCHIVE_SETTINGS, ...userSettings.audioArchive });
+                setSelectedDeviceId(userSettings.selectedDeviceId);
+            }
+            setSettingsLoaded(true);
+        };
+        loadSettings().catch((error: any) => log('ERROR', `Falha ao carregar configurações: ${error.message}`));
+    }, [user, encryptionState, log]);
+
+    // Sessões salvas vêm do repositório local, sincronizado com o Firestore em segundo plano
+    useEffect(() => {
+        return sessionRepository.subscribe({
+            onSessionsChange: setSavedSessions,
+            onSyncStatusChange: setSyncStatus,
+            onConflict: (session) => log('WARN', `Sessão de ${session.startTime.toLocaleString('pt-BR')} alterada em outro dispositivo; a versão do servidor foi mantida.`),
+            onLog: (message) => log('INFO', message),
+        });
+    }, [log]);
+
+    useEffect(() => {
+        return driveSyncService.subscribe({
+            onQueueChange: setDrivePending,
+            onLog: log,
+        });
+    }, [log]);
+
+    useEffect(() => {
+        return driveAuthManager.subscribe({
+            onTokenChange: (token) => setGdriveSettings(prev => prev.token === token ? prev : { ...prev, token }),
+            onStatusChange: setDriveAuthStatus,
+            onLog: log,
+        });
+    }, [log]);
+
+    useEffect(() => {
+        driveAuthManager.configure({
+            clientId: gdriveSettings.clientId,
+            loginHint: gdriveSettings.loginHint || gdriveSettings.user?.email,
+            enabled: Boolean(user && gdriveSettings.user),
+        });
+    }, [user, gdriveSettings.clientId, gdriveSettings.loginHint, gdriveSettings.user]);
+
+    // Envios ao Google Drive passam pela fila persistente do driveSyncService
+    useEffect(() => {
+        if (!user) {
+            driveSyncService.configure(null);
+            return;
+        }
+        driveSyncService.configure({
+            uid: user.uid,
+            token: gdriveSettings.token?.access_token ?? null,
+            folderId: gdriveSettings.folder?.id ?? null,
+            formats: gdriveSettings.formats?.length ? gdriveSettings.formats : ['txt'],
+            subfolderMode: gdriveSettings.subfolderMode ?? 'none',
+            includeAudio: audioArchive.destination === 'drive',
+            exportOptions: (session) => ({
+                logoDataUrl,
+                logoSize,
+                brandName: CLINIC_NAME,
+                templateName: findTemplate(templates, session.templateId).name,
+            }),
+        });
+    }, [user, gdriveSettings, logoDataUrl, logoSize, templates, audioArchive.destination]);
+
+    // Retenção das gravações: ao carregar as sessões e de novo quando o acesso ao Drive muda
+    useEffect(() => {
+        if ((user ? !settingsLoaded : !isGuest) || savedSessions.length === 0 || audioArchive.retentionDays <= 0) return;
+        const driveToken = gdriveSettings.token?.access_token ?? null;
+        const key = `${user?.uid ?? 'guest'}:${audioArchive.retentionDays}:${driveToken !== null}`;
+        if (audioRetentionKeyRef.current === key) return;
+        audioRetentionKeyRef.current = key;
+        audioArchiveService.applyRetention(savedSessions, audioArchive.retentionDays, { uid: user?.uid ?? null, driveToken, onLog: log });
+    }, [user, isGuest, settingsLoaded, savedSessions, audioArchive.retentionDays, gdriveSettings.token, log]);
+
+    useEffect(() => {
+        return patientRepository.subscribe({
+            onPatientsChange: setPatients,
+            onLog: (message) => log('INFO', message),
+        });
+    }, [log]);
+
+    useEffect(() => {
+        if (user) {
+            // Sem a chave não é possível ler nem gravar as sessões criptografadas
+            if (encryptionState !== 'unlocked') return;
+            sessionRepository.setOwner(user.uid).then(() => {
+                if (!resyncAfterLoadRef.current) return;
+                resyncAfterLoadRef.current = false;
+                sessionRepository.resyncAll();
+            });
+            patientRepository.setOwner(user.uid);
+        } else if (isGuest) {
+            sessionRepository.setOwner(null);
+            patientRepository.setOwner(null);
+        }
+    }, [user, isGuest, encryptionState]);
+
+    // --- Criptografia ---
+    const handleUnlock = async (passphrase: string) => {
+        if (!user) return;
+        if (encryptionState === 'setup') {
+            const metadata = await cryptoService.setup(passphrase);
+            await firebaseService.saveEncryptionMetadata(user.uid, metadata);
+            setEncryptionMetadata(metadata);
+            // Dados salvos antes da criptografia são regravados criptografados
+            const existingSettings = await firebaseService.fetchUserSettings(user.uid);
+            if (existingSettings) await firebaseService.saveUserSettings(user.uid, existingSettings);
+            resyncAfterLoadRef.current = true;
+            log('INFO', 'Criptografia configurada.');
+        } else {
+            // Sem as chaves (falha ao carregar no login, ex.: offline): busca de novo a cada tentativa
+            let metadata = encryptionMetadata;
+            if (!metadata) {
+                try {
+                    metadata = await firebaseService.fetchEncryptionMetadata(user.uid);
+                } catch (error: any) {
+                    log('ERROR', `Falha ao carregar as chaves de criptografia: ${error.message}`);
+                    throw new Error('Chaves de criptografia indisponíveis. Verifique a conexão e tente novamente.');
+                }
+                if (!metadata) {
+                    setEncryptionState('setup');
+                    throw new Error('A criptografia ainda não foi configurada nesta conta. Defina uma senha para continuar.');
+                }
+                setEncryptionMetadata(metadata);
+            }
+            await cryptoService.unlock(passphrase, metadata);
+            log('INFO', 'Dados desbloqueados.');
+        }
+        setEncryptionState('unlocked');
+    };
+
+    const handleChangePassphrase = async (current: string, next: string) => {
+        if (!user || !encryptionMetadata) return;
+        const metadata = await cryptoService.changePassphrase(current, next, encryptionMetadata);
+        await firebaseService.saveEncryptionMetadata(user.uid, metadata);
+        setEncryptionMetadata(metadata);
+        log('INFO', 'Senha de criptografia alterada.');
+    };
+
+    const handleRotateKey = async (passphrase: string) => {
+        if (!user || !encryptionMetadata) return;
+        const metadata = await cryptoService.rotateDataKey(passphrase, encryptionMetadata);
+        await firebaseService.saveEncryptionMetadata(user.uid, metadata);
+        setEncryptionMetadata(metadata);
+        const existingSettings = await firebaseService.fetchUserSettings(user.uid);
+        if (existingSettings) await firebaseService.saveUserSettings(user.uid, existingSettings);
+        await sessionRepository.resyncAll();
+        await patientRepository.resyncAll();
+        log('INFO', 'Nova chave de criptografia gerada; sessões e pacientes sendo recriptografados.');
+    };
+
     useEffect(() => {
         document.body.setAttribute('data-theme', theme);
     }, [theme]);
@@ -284,6 +477,10 @@ const App: React.FC = () => {
         transcriptionHistoryRef.current = transcriptionHistory;
     }, [transcriptionHistory]);
 
+    useEffect(() => {
+        anamnesisRef.current = anamnesis;
+    }, [anamnesis]);
+
     // Populate devices on mount
     useEffect(() => {
         if (navigator?.mediaDevices) {
@@ -294,57 +491,140 @@ const App: React.FC = () => {
         }
     }, []);
 
-    const generateAndSetInsights = useCallback(async (transcript: string) => {
-        setIsGeneratingInsights(true);
-        try {
-            const { insight, provider } = await generateInsightsWithFailover(
-                transcript,
+    // Agendadores: coalescem os pedidos disparados a cada turno final e descartam resultados obsoletos
+    const providerCredentials = useMemo<ProviderCredentials>(() => ({ apiKeys, options: providerOptions }), [apiKeys, providerOptions]);
+
+    const [insightScheduler] = useState(() => new GenerationScheduler<{ insight: string; provider: InsightProvider | null }>('Insights', {
+        debounceMs: 1500,
+        maxWaitMs: 6000,
+        abortInFlight: true,
+        onBusyChange: setIsGeneratingInsights,
+        onLog: (message) => log('INFO', message),
+    }));
+    const [anamnesisScheduler] = useState(() => new GenerationScheduler<{ anamnesis: AnamnesisDocument | null; provider: InsightProvider | null }>('Anamnese', {
+        debounceMs: 2000,
+        maxWaitMs: 10000,
+        abortInFlight: false,
+        onBusyChange: setIsGeneratingAnamnesis,
+        onLog: (message) => log('INFO', message),
+    }));
+
+    const generateAndSetInsights = useCallback((turns: TranscriptTurn[]) => {
+        if (turns.length === 0) return;
+        insightScheduler.schedule({
+            revision: turns.length,
+            run: (signal) => generateInsightsWithFailover(
+                formatTurnsAsDialogue(turns),
                 insightsProvider,
-                { openai: apiKeys.openai, grok: apiKeys.grok }
-            );
-            setInsights(prev => [...prev, insight]);
-            if (provider) setActiveInsightsProvider(provider);
-            log('API', `Insight gerado com sucesso por: ${provider?.toUpperCase() ?? 'N/A'}`);
-        } catch (error: any) {
-            const message = error.message || String(error);
-            setLastError(message);
-            log('ERROR', `Erro ao gerar insight: ${message}`);
-            setInsights(prev => [...prev, 'Erro ao gerar insight.']);
-        } finally {
-            setIsGeneratingInsights(false);
+                providerCredentials,
+                signal,
+                phiVaultRef.current
+            ),
+            onResult: ({ insight, provider }) => {
+                setInsights(prev => [...prev, { text: insight, timestamp: new Date(), provider }]);
+                if (provider) setActiveInsightsProvider(provider);
+                log('API', `Insight gerado com sucesso por: ${provider?.toUpperCase() ?? 'N/A'}`);
+            },
+            onError: (error: any) => {
+                const message = error.message || String(error);
+                setLastError(message);
+                log('ERROR', `Erro ao gerar insight: ${message}`);
+                setInsights(prev => [...prev, { text: 'Erro ao gerar insight.', timestamp: new Date(), provider: null }]);
+            },
+        });
+    }, [insightScheduler, insightsProvider, providerCredentials, log]);
+
+    const anamnesisPrompt = findTemplate(templates, sessionTemplateId).prompt;
+
+    // Paciente escolhido antes da sessão ou, se não houver, reconhecido pelo nome na anamnese
+    const loadPriorVisit = useCallback(async (currentAnamnesis: AnamnesisDocument | null): Promise<PriorVisitContext | null> => {
+        const name = getPatientName(currentAnamnesis);
+        const patientId = patientRepository.get(sessionPatientId)?.id ?? (name ? patientRepository.findByName(name)?.id : undefined);
+        if (!patientId) return null;
+        if (priorVisitRef.current?.patientId !== patientId) {
+            const context = await priorVisitService.getContext(patientId);
+            priorVisitRef.current = { patientId, context };
+            if (context) log('INFO', `Histórico de ${context.visitCount} consulta(s) anterior(es) incluído na anamnese.`);
         }
-    }, [insightsProvider, apiKeys, log]);
+        return priorVisitRef.current.context;
+    }, [sessionPatientId, log]);
+
+    // No modo incremental envia apenas os turnos ainda não incorporados; `forceFull` regenera tudo.
+    // A decisão é tomada na execução, pois o pedido pode aguardar a geração anterior terminar.
+    const generateAndSetAnamnesis = useCallback((turns: TranscriptTurn[], forceFull = false) => {
+        if (turns.length === 0) return;
+        anamnesisScheduler.schedule({
+            revision: turns.length,
+            run: async (signal) => {
+                const currentAnamnesis = anamnesisRef.current;
+                const incorporatedTurns = anamnesisTurnCountRef.current;
+                const canPatch = !forceFull &&
+                    anamnesisUpdateMode === 'incremental' &&
+                    !isAnamnesisEmpty(currentAnamnesis) &&
+                    incorporatedTurns > 0 &&
+                    incorporatedTurns < turns.length;
+
+                const fullTranscript = formatTurnsAsDialogue(turns);
+                phiVaultRef.current.addNamesFromAnamnesis(currentAnamnesis);
+                const priorVisit = await loadPriorVisit(currentAnamnesis);
+
+                if (canPatch && currentAnamnesis) {
+                    const patched = await updateAnamnesisWithFailover(
+                        formatTurnsAsDialogue(turns.slice(incorporatedTurns)),
+                        fullTranscript,
+                        anamnesisPrompt,
+                        insightsProvider,
+                        providerCredentials,
+                        currentAnamnesis,
+                        signal,
+                        phiVaultRef.current,
+                        priorVisit
+                    );
+                    if (patched.anamnesis) return patched;
+                    log('WARN', 'Atualização incremental da anamnese falhou; regenerando por completo.');
+                }
 
-    const generateAndSetAnamnesis = useCallback(async (transcript: string) => {
-        if (!transcript) return;
-        setIsGeneratingAnamnesis(true);
-        try {
-            const { anamnesis: newAnamnesis, provider } = await generateAnamnesisWithFailover(
-                transcript,
-                anamnesisPrompt,
-                insightsProvider,
-                { openai: apiKeys.openai, grok: apiKeys.grok },
-                anamnesis
-            );
-            setAnamnesis(newAnamnesis);
-            if (provider) log('API', `Anamnese atualizada por: ${provider.toUpperCase()}`);
-        } catch (error: any) {
-            const message = error.message || String(error);
-            setLastError(message);
-            log('ERROR', `Erro ao atualizar anamnese: ${message}`);
-            setAnamnesis(prev => prev + '\n\nErro ao atualizar anamnese.');
-        } finally {
-            setIsGeneratingAnamnesis(false);
-        }
-    }, [anamnesisPrompt, insightsProvider, apiKeys, log, anamnesis]);
+                return generateAnamnesisWithFailover(
+                    fullTranscript,
+                    anamnesisPrompt,
+                    insightsProvider,
+                    providerCredentials,
+                    currentAnamnesis ?? undefined,
+                    signal,
+                    phiVaultRef.current,
+                    priorVisit
+                );
+            },
+            onResult: ({ anamnesis: newAnamnesis, provider }, revision) => {
+                if (newAnamnesis) {
+                    anamnesisRef.current = newAnamnesis;
+                    anamnesisTurnCountRef.current = revision;
+                    phiVaultRef.current.addNamesFromAnamnesis(newAnamnesis);
+                    setAnamnesis(newAnamnesis);
+                    if (provider) log('API', `Anamnese atualizada por: ${provider.toUpperCase()}`);
+                } else {
+                    // Nenhum provedor retornou um documento válido; mantém a anamnese anterior
+                    const message = 'Falha ao atualizar a anamnese. Verifique suas chaves de API e a conexão.';
+                    setLastError(message);
+                    log('ERROR', message);
+                }
+            },
+            onError: (error: any) => {
+                const message = error.message || String(error);
+                setLastError(message);
+                log('ERROR', `Erro ao atualizar anamnese: ${message}`);
+            },
+        });
+    }, [anamnesisScheduler, anamnesisPrompt, anamnesisUpdateMode, insightsProvider, providerCredentials, loadPriorVisit, log]);
 
     const stopEverything = useCallback(() => {
         log('INFO', 'Parando gravação e processos...');
 
-        if (audioRecordingServiceRef.current) {
-            audioRecordingServiceRef.current.stop();
-            audioRecordingServiceRef.current = null;
+        if (transcriptionManagerRef.current) {
+            transcriptionManagerRef.current.stop();
+            transcriptionManagerRef.current = null;
         }
+        audioRecorderRef.current?.pause();
 
         if (mediaStream) {
             mediaStream.getTracks().forEach(track => track.stop());
@@ -352,8 +632,10 @@ const App: React.FC = () => {
         }
 
         setIsListening(false);
+        setVoiceActivity(null);
         setStatusMessage('Pressione Iniciar para começar');
         setCurrentLiveTranscript('');
+        setCaptions([]);
     }, [mediaStream, log]);
 
     // Atualiza estatísticas de tokens periodicamente
@@ -364,137 +646,398 @@ const App: React.FC = () => {
         return () => clearInterval(interval);
     }, []);
 
-    // Salvamento automático de transcrições em localStorage (backup)
+    // Salvamento automático da sessão em localStorage (backup por sessão, para recuperação)
     useEffect(() => {
-        if (appState === 'in-session' && transcriptionHistory.length > 0) {
-            const backupData = {
-                timestamp: Date.now(),
+        if (appState === 'in-session' && sessionInfo && transcriptionHistory.length > 0) {
+            sessionBackupService.save({
+                sessionId: sessionInfo.id,
+                startTime: sessionInfo.startTime,
+                location: sessionInfo.location,
+                templateId: sessionTemplateId,
+                ...(sessionPatientId && { patientId: sessionPatientId }),
                 transcriptionHistory,
                 anamnesis,
+                anamnesisTurnCount: anamnesisTurnCountRef.current,
                 insights,
-                sessionInfo: sessionInfo ? {
-                    startTime: sessionInfo.startTime.toISOString(),
-                    location: sessionInfo.location
-                } : null
-            };
-            try {
-                localStorage.setItem('transcription_backup', JSON.stringify(backupData));
-                localStorage.setItem('transcription_backup_time', Date.now().toString());
-            } catch (e) {
-                console.warn('Falha ao salvar backup de transcrição:', e);
-            }
+            });
         }
-    }, [transcriptionHistory, anamnesis, insights, sessionInfo, appState]);
+    }, [transcriptionHistory, anamnesis, insights, sessionInfo, sessionTemplateId, sessionPatientId, appState]);
+
+    // Heartbeat: distingue a sessão aberta nesta aba de uma sessão interrompida
+    useEffect(() => {
+        if (appState !== 'in-session' || !sessionInfo) return;
+        sessionBackupService.startHeartbeat(sessionInfo.id);
+        return () => sessionBackupService.stopHeartbeat();
+    }, [appState, sessionInfo]);
+
+    // Na abertura do app, procura sessões que não foram encerradas
+    useEffect(() => {
+        if (authLoading || (!user && !isGuest) || recoveryCheckedRef.current) return;
+        recoveryCheckedRef.current = true;
+        const backups = sessionBackupService.findInterrupted();
+        if (backups.length > 0) {
+            log('WARN', `${backups.length} sessão(ões) interrompida(s) encontrada(s) no backup local.`);
+            setInterruptedBackups(backups);
+        }
+    }, [authLoading, user, isGuest, log]);
 
     const handleStartSession = () => {
         log('INFO', 'Iniciando nova sessão.');
         clearLogs();
+        log('INFO', `Modelo de anamnese: ${findTemplate(templates, sessionTemplateId).name}`);
         tokenTracker.reset();
         setTokenStats(tokenTracker.getStats());
+        phiVaultRef.current.reset();
+        phiVaultRef.current.addKnownName(patientRepository.get(sessionPatientId)?.name);
         const startTime = new Date();
+        const id = createSessionId();
         navigator.geolocation.getCurrentPosition(
             (position) => {
-                setSessionInfo({ startTime, location: position });
+                setSessionInfo({ id, startTime, location: toSerializableLocation(position) });
                 setAppState('in-session');
             },
             (error) => {
                 log('WARN', `Não foi possível obter a localização: ${error.message}`);
-                setSessionInfo({ startTime, location: null });
+                setSessionInfo({ id, startTime, location: null });
                 setAppState('in-session');
             },
             { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
         );
     };
 
-    const handleGoogleDriveUpload = async (sessionData: SessionData) => {
-        if (!gdriveSettings.token || !gdriveSettings.folder?.id) {
+    /**
+     * Links a session to the patient chosen before it started or, failing
+     * that, to the patient with the name found in the anamnesis, creating
+     * the patient record when the name is new.
+     */
+    const resolvePatientId = async (anamnesisDoc: AnamnesisDocument | null, selectedPatientId?: string): Promise<string | undefined> => {
+        if (selectedPatientId && patientRepository.get(selectedPatientId)) return selectedPatientId;
+        const name = getPatientName(anamnesisDoc);
+        if (!name) return undefined;
+        const existing = patientRepository.findByName(name);
+        if (existing) return existing.id;
+        const created = await patientRepository.save(createPatient(name));
+        log('INFO', `Paciente "${created.name}" cadastrado a partir da anamnese.`);
+        return created.id;
+    };
+
+    // Grava no repositório local (sincronizado com o Firebase quando há login) e envia ao Google Drive
+    const persistSession = async (sessionData: SessionData) => {
+        const saved = await sessionRepository.save(sessionData);
+        log('INFO', user ? 'Sessão salva; sincronização com o Firebase em segundo plano.' : 'Sessão salva localmente (modo convidado).');
+        if (user && gdriveSettings.folder) {
+            driveSyncService.enqueue(saved.id);
+        } else if (user) {
             log('WARN', 'Upload para o Google Drive ignorado: não configurado.');
-            return;
         }
-        log('INFO', 'Iniciando upload para o Google Drive...');
+    };
+
+    // Guarda a gravação neste aparelho antes de salvar a sessão: o envio ao Drive lê a cópia local
+    const storeRecording = async (sessionId: string, recording: RecordedAudio | null): Promise<SessionAudio | undefined> => {
+        if (!recording) return undefined;
         try {
-            const patientName = getPatientName(sessionData.anamnesis) || 'PacienteNaoIdentificado';
-            const timestamp = new Date(sessionData.startTime).toISOString().slice(0, 10);
-            const transcriptionFileName = `Transcricao-${patientName}-${timestamp}.txt`;
-            const transcriptionContent = `Transcrição da Sessão - ${patientName}\nInício: ${sessionData.startTime.toLocaleString('pt-BR')}\n\n${sessionData.transcriptionHistory.join('\n\n')}`;
-            await uploadFile(gdriveSettings.token.access_token, gdriveSettings.folder.id, transcriptionFileName, transcriptionContent);
-            log('API', `Arquivo de transcrição '${transcriptionFileName}' salvo no Google Drive.`);
-            const anamnesisFileName = `Anamnese-${patientName}-${timestamp}.txt`;
-            const anamnesisContent = `Anamnese da Sessão - ${patientName}\nData: ${sessionData.startTime.toLocaleString('pt-BR')}\n\n${sessionData.anamnesis}`;
-            await uploadFile(gdriveSettings.token.access_token, gdriveSettings.folder.id, anamnesisFileName, anamnesisContent);
-            log('API', `Arquivo de anamnese '${anamnesisFileName}' salvo no Google Drive.`);
+            await audioArchiveService.saveLocal(sessionId, recording.blob);
+            log('INFO', `Gravação da consulta salva (${(recording.audio.sizeBytes / 1024 / 1024).toFixed(1)} MB).`);
+            return recording.audio;
         } catch (error: any) {
-            log('ERROR', `Falha no upload para o Google Drive: ${error.message || 'Erro desconhecido'}`);
+            log('ERROR', `Falha ao guardar a gravação da consulta: ${error.message || error}`);
+            return undefined;
         }
     };
 
+    const uploadRecordingToFirebase = async (sessionId: string, recording: RecordedAudio) => {
+        if (!user) return;
+        try {
+            const storagePath = await firebaseService.uploadSessionAudio(user.uid, sessionId, recording.blob);
+            await sessionRepository.update(sessionId, { audio: { ...recording.audio, storagePath } });
+            log('API', 'Gravação da consulta enviada ao Firebase Storage.');
+        } catch (error: any) {
+            log('ERROR', `Falha ao enviar a gravação ao Firebase Storage: ${error.message || error}`);
+        }
+    };
 
     const handleEndAndSaveSession = async () => {
         log('INFO', 'Encerrando sessão...');
         stopEverything();
+        const recording = await audioRecorderRef.current?.finish() ?? null;
+        audioRecorderRef.current = null;
 
-        const isSessionEmpty = transcriptionHistory.length === 0 && !anamnesis;
+        const isSessionEmpty = transcriptionHistory.length === 0 && isAnamnesisEmpty(anamnesis);
+        let keepBackup = false;
 
-        if (isGuest || !user) {
-            alert('Você está no modo convidado. A sessão não será salva.\n\nFaça login para salvar seu progresso.');
-        } else if (isSessionEmpty) {
+        if (isSessionEmpty) {
             alert('A sessão estava vazia e não foi salva.');
-        } else {
+        } else if (sessionInfo) {
             log('INFO', 'Salvando dados da sessão.');
 
-            const locationData: SerializableLocation | null = sessionInfo?.location ? {
-                coords: {
-                    latitude: sessionInfo.location.coords.latitude,
-                    longitude: sessionInfo.location.coords.longitude,
-                    accuracy: sessionInfo.location.coords.accuracy,
-                    altitude: sessionInfo.location.coords.altitude,
-                    altitudeAccuracy: sessionInfo.location.coords.altitudeAccuracy,
-                    heading: sessionInfo.location.coords.heading,
-                    speed: sessionInfo.location.coords.speed,
-                },
-                timestamp: sessionInfo.location.timestamp,
-            } : null;
-
-            const sessionData: Omit<SessionData, 'id'> = {
-                startTime: sessionInfo!.startTime,
+            const sessionData: SessionData = {
+                id: sessionInfo.id,
+                startTime: sessionInfo.startTime,
                 endTime: new Date(),
-                location: locationData,
+                location: sessionInfo.location,
                 transcriptionHistory: transcriptionHistory,
-                anamnesis: anamnesis,
+                anamnesis: anamnesis ?? createEmptyAnamnesis(),
+                templateId: sessionTemplateId,
+                insights,
+                patientId: await resolvePatientId(anamnesis, sessionPatientId),
+                tokenSummary: tokenTracker.getSessionSummary(estimateCostUsd),
+                phiAudit: phiVaultRef.current.getAudit(),
+                // Firestore rejeita campos undefined: a chave só é incluída quando habilitada
+                ...(saveSessionLogs && { logExcerpt: logs.slice(-SESSION_LOG_EXCERPT_SIZE) }),
             };
+            const audio = await storeRecording(sessionInfo.id, recording);
+            if (audio) sessionData.audio = audio;
 
             try {
-                const newSessionId = await firebaseService.saveSession(user.uid, sessionData);
-                if (newSessionId) {
-                    const newSession = { ...sessionData, id: newSessionId, endTime: sessionData.endTime as Date };
-                    setSavedSessions(prev => [newSession, ...prev]);
-                    await handleGoogleDriveUpload(newSession);
-                    log('API', 'Sessão salva com sucesso no Firebase e Google Drive.');
+                await persistSession(sessionData);
+                if (audio && recording && audioArchive.destination === 'firebase') {
+                    uploadRecordingToFirebase(sessionInfo.id, recording);
                 }
             } catch (error: any) {
+                // Mantém o backup local para que a sessão possa ser recuperada depois
+                keepBackup = true;
                 log('ERROR', `Falha ao salvar a sessão: ${error.message}`);
-                alert(`Ocorreu um erro ao salvar a sessão no banco de dados: ${error.message}`);
+                alert(`Ocorreu um erro ao salvar a sessão: ${error.message}\n\nO backup local foi mantido e será oferecido para recuperação.`);
             }
         }
 
+        if (sessionInfo) {
+            sessionBackupService.stopHeartbeat();
+            if (!keepBackup) sessionBackupService.remove(sessionInfo.id);
+        }
         setTranscriptionHistory([]);
         setInsights([]);
-        setAnamnesis('');
+        phiVaultRef.current.reset();
+        insightScheduler.reset();
+        anamnesisScheduler.reset();
+        setAnamnesis(null);
+        anamnesisRef.current = null;
+        anamnesisTurnCountRef.current = 0;
+        priorVisitRef.current = null;
+        setSessionTemplateId(defaultTemplateId);
+        setSessionPatientId('');
         setSessionInfo(null);
         setAppState('pre-session');
     };
 
+    // --- Importação de consultas gravadas fora do app ---
+    const handleImportAudio = async (file: File, startTime: Date, onProgress: (progress: AudioImportProgress) => void, signal: AbortSignal) => {
+        const template = findTemplate(templates, sessionTemplateId);
+        log('INFO', `Importando o áudio "${file.name}" com o modelo "${template.name}"...`);
+        tokenTracker.reset();
+        setTokenStats(tokenTracker.getStats());
+        const { turns, durationMs } = await transcribeAudioFile(file, {
+            settings: transcriptionSettings,
+            geminiApiKey: apiKeys.gemini || import.meta.env.VITE_GEMINI_API_KEY as string | undefined,
+            onProgress,
+            onLog: (message) => log('INFO', `[Importação] ${message}`),
+            signal,
+        });
+        if (turns.length === 0) throw new Error('Nenhuma fala foi reconhecida no arquivo.');
+
+        onProgress({ stage: 'anamnesis', completed: 0, total: 1 });
+        const sessionId = createSessionId();
+        const selectedPatient = patientRepository.get(sessionPatientId);
+        const vault = new PhiVault();
+        vault.addKnownName(selectedPatient?.name);
+        const priorVisit = selectedPatient ? await priorVisitService.getContext(selectedPatient.id, startTime, sessionId) : null;
+        const { anamnesis: generated, provider } = await generateAnamnesisWithFailover(
+            formatTurnsAsDialogue(turns),
+            template.prompt,
+            insightsProvider,
+            providerCredentials,
+            undefined,
+            signal,
+            vault,
+            priorVisit
+        );
+        if (signal.aborted) throw new DOMException('Importação cancelada.', 'AbortError');
+        if (generated) {
+            if (provider) log('API', `Anamnese do áudio importado gerada por: ${provider.toUpperCase()}`);
+        } else {
+            log('WARN', 'Não foi possível gerar a anamnese do áudio importado; a sessão é salva com a transcrição e pode ser regenerada depois.');
+        }
+
+        onProgress({ stage: 'saving', completed: 0, total: 1 });
+        // Com a gravação habilitada, o arquivo original fica vinculado à sessão como a gravação da consulta
+        const recording: RecordedAudio | null = audioArchive.enabled
+            ? { blob: file, audio: { mimeType: file.type || 'audio/webm', sizeBytes: file.size, durationMs, segments: [{ sessionOffsetMs: 0, durationMs }] } }
+            : null;
+        const sessionData: SessionData = {
+            id: sessionId,
+            startTime,
+            endTime: new Date(startTime.getTime() + durationMs),
+            location: null,
+            transcriptionHistory: turns,
+            anamnesis: generated ?? createEmptyAnamnesis(),
+            templateId: template.id,
+            insights: [],
+            patientId: await resolvePatientId(generated, sessionPatientId),
+            tokenSummary: tokenTracker.getSessionSummary(estimateCostUsd),
+            phiAudit: vault.getAudit(),
+        };
+        const audio = await storeRecording(sessionId, recording);
+        if (audio) sessionData.audio = audio;
+        await persistSession(sessionData);
+        if (audio && recording && audioArchive.destination === 'firebase') {
+            uploadRecordingToFirebase(sessionId, recording);
+        }
+        onProgress({ stage: 'saving', completed: 1, total: 1 });
+        log('INFO', `Áudio importado: ${turns.length} turno(s) transcrito(s).`);
+    };
+
+    // --- Recuperação de sessões interrompidas ---
+    const dismissBackup = (sessionId: string) => {
+        setInterruptedBackups(prev => prev.filter(backup => backup.sessionId !== sessionId));
+    };
+
+    const handleResumeBackup = (backup: SessionBackup) => {
+        log('INFO', `Retomando sessão interrompida (${backup.transcriptionHistory.length} turnos).`);
+        tokenTracker.reset();
+        setTokenStats(tokenTracker.getStats());
+        setTranscriptionHistory(backup.transcriptionHistory);
+        setInsights(backup.insights);
+        phiVaultRef.current.reset();
+        phiVaultRef.current.addNamesFromAnamnesis(backup.anamnesis);
+        setAnamnesis(backup.anamnesis);
+        anamnesisRef.current = backup.anamnesis;
+        anamnesisTurnCountRef.current = backup.anamnesisTurnCount;
+        priorVisitRef.current = null;
+        setSessionTemplateId(findTemplate(templates, backup.templateId ?? defaultTemplateId).id);
+        setSessionPatientId(backup.patientId ?? '');
+        // Mantém o id: o mesmo backup continua sendo atualizado
+        setSessionInfo({ id: backup.sessionId, startTime: backup.startTime, location: backup.location });
+        setAppState('in-session');
+        // As demais sessões interrompidas serão oferecidas na próxima abertura do app
+        setInterruptedBackups([]);
+    };
+
+    const handleSaveBackup = async (backup: SessionBackup) => {
+        setIsSavingBackup(true);
+        try {
+            await persistSession({
+                id: backup.sessionId,
+                startTime: backup.startTime,
+                endTime: new Date(backup.savedAt),
+                location: backup.location,
+                transcriptionHistory: backup.transcriptionHistory,
+                anamnesis: backup.anamnesis ?? createEmptyAnamnesis(),
+                ...(backup.templateId && { templateId: backup.templateId }),
+                insights: backup.insights,
+                patientId: await resolvePatientId(backup.anamnesis, backup.patientId),
+            });
+            sessionBackupService.remove(backup.sessionId);
+            dismissBackup(backup.sessionId);
+        } catch (error: any) {
+            log('ERROR', `Falha ao salvar a sessão interrompida: ${error.message}`);
+            alert(`Ocorreu um erro ao salvar a sessão interrompida: ${error.message}`);
+        } finally {
+            setIsSavingBackup(false);
+        }
+    };
+
+    const handleDiscardBackup = (backup: SessionBackup) => {
+        if (!window.confirm('Descartar definitivamente esta sessão interrompida?')) return;
+        sessionBackupService.remove(backup.sessionId);
+        dismissBackup(backup.sessionId);
+        log('INFO', 'Sessão interrompida descartada.');
+    };
+
     const handleDeleteSession = async (sessionId: string) => {
-        if (!user) return;
-        await firebaseService.deleteSession(user.uid, sessionId);
-        const updatedSessions = savedSessions.filter(session => session.id !== sessionId);
-        setSavedSessions(updatedSessions);
+        try {
+            const session = savedSessions.find(s => s.id === sessionId);
+            if (session?.audio) {
+                await audioArchiveService.remove(session, { uid: user?.uid ?? null, driveToken: gdriveSettings.token?.access_token ?? null });
+            }
+            await sessionRepository.delete(sessionId);
+        } catch (error: any) {
+            log('ERROR', `Falha ao excluir a sessão: ${error.message}`);
+        }
+    };
+
+    const handleUpdateSession = async (sessionId: string, updates: Partial<SessionData>) => {
+        try {
+            await sessionRepository.update(sessionId, updates);
+            // Edições de conteúdo substituem os arquivos já enviados ao Drive
+            if (user && gdriveSettings.folder && (updates.anamnesis || updates.transcriptionHistory)) {
+                driveSyncService.enqueue(sessionId, DRIVE_UPDATE_DELAY_MS);
+            }
+        } catch (error: any) {
+            log('ERROR', `Falha ao atualizar a sessão: ${error.message}`);
+        }
+    };
+
+    // --- Pacientes ---
+    const handleSavePatient = async (patient: Patient) => {
+        try {
+            await patientRepository.save(patient);
+        } catch (error: any) {
+            log('ERROR', `Falha ao salvar o paciente: ${error.message}`);
+        }
+    };
+
+    // As sessões do paciente são mantidas, apenas desvinculadas
+    const handleDeletePatient = async (patientId: string) => {
+        try {
+            await patientRepository.delete(patientId);
+            for (const session of savedSessions.filter(s => s.patientId === patientId)) {
+                await sessionRepository.update(session.id, { patientId: undefined });
+            }
+            if (sessionPatientId === patientId) setSessionPatientId('');
+        } catch (error: any) {
+            log('ERROR', `Falha ao excluir o paciente: ${error.message}`);
+        }
+    };
+
+    // Vincula sessões anteriores ao cadastro de pacientes pelo nome da anamnese
+    const handleLinkSessionsToPatients = async () => {
+        let linked = 0;
+        for (const session of savedSessions) {
+            if (session.patientId && patientRepository.get(session.patientId)) continue;
+            const patientId = await resolvePatientId(session.anamnesis);
+            if (!patientId) continue;
+            await sessionRepository.update(session.id, { patientId });
+            linked++;
+        }
+        log('INFO', `${linked} sessão(ões) vinculada(s) a pacientes.`);
+    };
+
+    // Regenera a anamnese de uma sessão salva com o modelo usado originalmente
+    const handleRegenerateAnamnesis = async (session: SessionData): Promise<AnamnesisDocument | null> => {
+        const template = findTemplate(templates, session.templateId);
+        log('INFO', `Regenerando anamnese com o modelo "${template.name}"...`);
+        const vault = new PhiVault();
+        vault.addNamesFromAnamnesis(session.anamnesis);
+        // Compara apenas com as consultas anteriores a esta sessão
+        const priorVisit = session.patientId ? await priorVisitService.getContext(session.patientId, session.startTime, session.id) : null;
+        const { anamnesis: regenerated, provider } = await generateAnamnesisWithFailover(
+            formatTurnsAsDialogue(session.transcriptionHistory),
+            template.prompt,
+            insightsProvider,
+            providerCredentials,
+            undefined,
+            undefined,
+            vault,
+            priorVisit
+        );
+        if (!regenerated) {
+            log('ERROR', 'Falha ao regenerar a anamnese. Verifique suas chaves de API e a conexão.');
+            return null;
+        }
+        if (provider) log('API', `Anamnese regenerada por: ${provider.toUpperCase()}`);
+        await handleUpdateSession(session.id, { anamnesis: regenerated, templateId: template.id });
+        return regenerated;
     };
 
     const handleToggleMute = useCallback(() => setIsMuted(prev => !prev), []);
 
     const handleSaveSettings = async (settings: SettingsData) => {
-        setAnamnesisPrompt(settings.prompt);
+        setTemplates(settings.templates);
+        setDefaultTemplateId(settings.defaultTemplateId);
+        setAnamnesisUpdateMode(settings.anamnesisUpdateMode);
+        if (appState === 'pre-session') {
+            setSessionTemplateId(settings.defaultTemplateId);
+        }
         setTheme(settings.theme);
         setLogoDataUrl(settings.logoUrl);
         setLogoSize(settings.logoSize);
@@ -503,11 +1046,22 @@ const App: React.FC = () => {
         setInsightsProvider(settings.insightsProvider);
         setActiveInsightsProvider(settings.insightsProvider);
         setApiKeys(settings.apiKeys);
-        setGdriveSettings(settings.gdrive);
+        setProviderOptions(settings.providerOptions);
+        setTranscriptionSettings(settings.transcription);
+        // Conexão feita na tela de configurações passa a ser renovada pelo driveAuthManager
+        if (settings.gdrive.token && settings.gdrive.token !== gdriveSettings.token) {
+            driveAuthManager.setToken(settings.gdrive.token);
+        }
+        setGdriveSettings({ ...settings.gdrive, token: driveAuthManager.getToken() });
+        setSaveSessionLogs(settings.saveSessionLogs);
+        setFhirBaseUrl(settings.fhirBaseUrl);
+        setAudioArchive(settings.audioArchive);
 
         if (user) {
             const settingsToSave = {
-                prompt: settings.prompt,
+                templates: getCustomTemplates(settings.templates),
+                defaultTemplateId: settings.defaultTemplateId,
+                anamnesisUpdateMode: settings.anamnesisUpdateMode,
                 theme: settings.theme,
                 logoUrl: settings.logoUrl,
                 logoSize: settings.logoSize,
@@ -515,22 +1069,23 @@ const App: React.FC = () => {
                 voiceName: settings.voiceName,
                 insightsProvider: settings.insightsProvider,
                 apiKeys: settings.apiKeys,
+                providerOptions: settings.providerOptions,
+                transcription: settings.transcription,
                 gdrive: { ...settings.gdrive, token: null },
+                saveSessionLogs: settings.saveSessionLogs,
+                fhirBaseUrl: settings.fhirBaseUrl,
+                audioArchive: settings.audioArchive,
                 selectedDeviceId: selectedDeviceId,
             };
             await firebaseService.saveUserSettings(user.uid, settingsToSave);
         }
 
         if (transcriptionHistory.length > 0 && appState === 'in-session') {
-            generateAndSetAnamnesis(transcriptionHistory.join('\n\n'));
+            // O modelo pode ter mudado: regenera por completo
+            generateAndSetAnamnesis(transcriptionHistory, true);
         }
     };
 
-    const handleResetPrompt = () => {
-        setAnamnesisPrompt(DEFAULT_ANAMNESIS_PROMPT);
-        return DEFAULT_ANAMNESIS_PROMPT;
-    };
-
     const handleDeviceChange = (deviceId: string) => {
         log('INFO', `Dispositivo de áudio alterado para: ${deviceId}`);
         setSelectedDeviceId(deviceId);
@@ -550,86 +1105,89 @@ const App: React.FC = () => {
             log('WARN', 'Não há transcrição para gerar anamnese.');
             return;
         }
-        const fullTranscript = transcriptionHistory.join('\n\n');
-        generateAndSetAnamnesis(fullTranscript);
+        generateAndSetAnamnesis(transcriptionHistory);
+        anamnesisScheduler.flush(); // Pedido explícito: sem debounce
         log('INFO', 'Gerando anamnese manualmente...');
-    }, [transcriptionHistory, generateAndSetAnamnesis, log]);
+    }, [transcriptionHistory, generateAndSetAnamnesis, anamnesisScheduler, log]);
 
-    // --- Handle Toggle Listening with Gemini Live (WebSocket) ---
+    // Correção manual do locutor de um turno (atribuição humana = confiança total)
+    const handleSpeakerChange = useCallback((turnIndex: number, speaker: Speaker) => {
+        setTranscriptionHistory(prev => prev.map((turn, index) =>
+            index === turnIndex ? { ...turn, speaker, confidence: 1 } : turn
+        ));
+    }, []);
+
+    // --- Handle Toggle Listening (motor de transcrição selecionado, com failover) ---
     const handleToggleListening = useCallback(async () => {
         if (isListening) {
             stopEverything();
             return;
         }
 
-        const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY as string | undefined;
-        if (!GEMINI_API_KEY) {
-            alert("Erro: Chave de API do Gemini não encontrada. Verifique as configurações.");
-            return;
-        }
-
         setIsListening(true);
-        setStatusMessage('Conectando ao Gemini Live...');
-
-        const service = new GeminiLiveService(
-            GEMINI_API_KEY,
-            (text, isFinal) => {
-                if (isFinal) {
-                    // Turno completo - mover acumulado para histórico
-                    setCurrentLiveTranscript(current => {
-                        if (current.trim()) {
-                            setTranscriptionHistory(prev => {
-                                const newHistory = [...prev, current];
-                                const fullTranscript = newHistory.join('\n\n');
-                                // Trigger background tasks
-                                generateAndSetInsights(fullTranscript);
-                                if (anamnesisMode === 'live') {
-                                    generateAndSetAnamnesis(fullTranscript);
-                                }
-                                return newHistory;
-                            });
+        setStatusMessage('Iniciando transcrição...');
+
+        const manager = new TranscriptionManager(
+            {
+                settings: transcriptionSettings,
+                geminiApiKey: apiKeys.gemini || import.meta.env.VITE_GEMINI_API_KEY as string | undefined,
+                sessionStartMs: sessionInfo?.startTime.getTime() ?? Date.now(),
+            },
+            {
+                onInterim: setCurrentLiveTranscript,
+                onTurns: (newTurns) => {
+                    setTranscriptionHistory(prev => {
+                        const newHistory = [...prev, ...newTurns];
+                        // Trigger background tasks
+                        generateAndSetInsights(newHistory);
+                        if (anamnesisMode === 'live') {
+                            generateAndSetAnamnesis(newHistory);
                         }
-                        return ''; // Limpa atual
+                        return newHistory;
                     });
-                } else {
-                    // Texto incremental (stream)
-                    setCurrentLiveTranscript(prev => prev + text);
-                }
-            },
-            (error) => {
-                setStatusMessage(`Erro: ${error}`);
-                setLastError(error);
-                log('ERROR', error);
-                setIsListening(false);
-            },
-            (message) => {
-                // Log interno do serviço
-                if (message.includes('Conexão WebSocket estabelecida')) {
-                    setStatusMessage('🟢 Gemini Live Conectado (Escutando...)');
-                }
-                log('INFO', `[Gemini Live] ${message}`);
+                },
+                onError: (error) => {
+                    setLastError(error);
+                    log('ERROR', error);
+                },
+                onStatus: setStatusMessage,
+                onLog: (message) => log('INFO', message),
+                onCaptions: setCaptions,
+                onEngineChange: (engine, stream) => {
+                    log('INFO', `Motor de transcrição ativo: ${engine.name}`);
+                    setMediaStream(stream);
+                    setVoiceActivity(null);
+                },
+                onFailed: (error) => {
+                    setStatusMessage(`Erro: ${error}`);
+                    setLastError(error);
+                    log('ERROR', `Transcrição interrompida: ${error}`);
+                    transcriptionManagerRef.current = null;
+                    audioRecorderRef.current?.pause();
+                    setMediaStream(null);
+                    setVoiceActivity(null);
+                    setIsListening(false);
+                },
+                onVoiceActivity: setVoiceActivity,
             }
         );
+        transcriptionManagerRef.current = manager;
 
-        // Armazenamos como any para facilitar a troca, mas idealmente atualizaríamos o tipo da ref
-        (audioRecordingServiceRef.current as any) = service;
+        // A gravação usa o próprio microfone: independe do motor ativo e das trocas por failover
+        if (audioArchive.enabled && sessionInfo && SessionAudioRecorder.isSupported()) {
+            audioRecorderRef.current ??= new SessionAudioRecorder(sessionInfo.startTime.getTime());
+            audioRecorderRef.current.resume().catch((error: any) => log('WARN', `Não foi possível gravar o áudio da consulta: ${error.message || error}`));
+        }
 
         try {
-            await service.connect(); // Inicia conexão e áudio
-
-            // Hack para pegar o mediaStream do serviço Live para o visualizador
-            // Assumindo que criamos o método getMediaStream no GeminiLiveService
-            const stream = service.getMediaStream();
-            if (stream) {
-                setMediaStream(stream);
-            }
-
+            await manager.start();
         } catch (e: any) {
             setStatusMessage(`Erro ao iniciar: ${e.message}`);
+            audioRecorderRef.current?.pause();
             setIsListening(false);
         }
 
-    }, [isListening, stopEverything, generateAndSetInsights, generateAndSetAnamnesis, anamnesisMode, log]);
+    }, [isListening, stopEverything, generateAndSetInsights, generateAndSetAnamnesis, anamnesisMode, sessionInfo, transcriptionSettings, apiKeys, audioArchive.enabled, log]);
 
     if (authLoading) {
         return (
@@ -658,6 +1216,15 @@ const App: React.FC = () => {
                 />
             </Suspense>
         );
+    } else if (user && encryptionState !== 'unlocked') {
+        mainContent = (
+            <UnlockScreen
+                mode={encryptionState === 'setup' ? 'setup' : 'unlock'}
+                userEmail={user.email}
+                onSubmit={handleUnlock}
+                onSignOut={firebaseService.signOut}
+            />
+        );
     } else if (appState === 'pre-session') {
         mainContent = (
             <Suspense fallback={
@@ -671,10 +1238,27 @@ const App: React.FC = () => {
                     onLoginRequest={() => setIsGuest(false)}
                     onStartSession={handleStartSession}
                     savedSessions={savedSessions}
+                    syncStatus={syncStatus}
+                    drivePending={drivePending}
+                    driveAuthStatus={driveAuthStatus}
+                    onReconnectDrive={() => driveAuthManager.reconnect()}
                     onOpenSettings={() => setIsSettingsOpen(true)}
                     logoDataUrl={logoDataUrl}
                     logoSize={logoSize}
+                    fhirBaseUrl={fhirBaseUrl}
                     onDeleteSession={handleDeleteSession}
+                    onImportAudio={handleImportAudio}
+                    onUpdateSession={handleUpdateSession}
+                    templates={templates}
+                    selectedTemplateId={sessionTemplateId}
+                    onTemplateChange={setSessionTemplateId}
+                    onRegenerateAnamnesis={handleRegenerateAnamnesis}
+                    patients={patients}
+                    selectedPatientId={sessionPatientId}
+                    onPatientChange={setSessionPatientId}
+                    onSavePatient={handleSavePatient}
+                    onDeletePatient={handleDeletePatient}
+                    onLinkSessionsToPatients={handleLinkSessionsToPatients}
                 />
             </Suspense>
         );
@@ -710,12 +1294,14 @@ const App: React.FC = () => {
                 <main className="flex-grow p-4 grid grid-cols-1 lg:grid-cols-3 gap-4 overflow-hidden">
                     <TranscriptionPanel
                         history={transcriptionHistory}
+                        captions={captions}
                         anamnesis={anamnesis}
                         isAnamnesisLoading={isGeneratingAnamnesis}
                         sessionInfo={sessionInfo}
                         anamnesisMode={anamnesisMode}
                         onToggleAnamnesisMode={handleToggleAnamnesisMode}
                         onGenerateAnamnesis={handleGenerateAnamnesis}
+                        onSpeakerChange={handleSpeakerChange}
                     />
                     <ControlsPanel
                         isListening={isListening}
@@ -730,8 +1316,9 @@ const App: React.FC = () => {
                         mediaStream={mediaStream}
                         waveformStyle={waveformStyle}
                         activeBufferIndex={0}
+                        voiceActivity={voiceActivity}
                     />
-                    <InsightsPanel insights={insights} isLoading={isGeneratingInsights} activeInsightsProvider={activeInsightsProvider} />
+                    <InsightsPanel insights={insights.map(insight => insight.text)} isLoading={isGeneratingInsights} activeInsightsProvider={activeInsightsProvider} />
                 </main>
             </div>
         );
@@ -751,8 +1338,10 @@ const App: React.FC = () => {
                         isOpen={isSettingsOpen}
                         onClose={() => setIsSettingsOpen(false)}
                         onSave={handleSaveSettings}
-                        initialData={{
-                            prompt: anamnesisPrompt,
+                        initialSettings={{
+                            templates,
+                            defaultTemplateId,
+                            anamnesisUpdateMode,
                             theme,
                             logoUrl: logoDataUrl,
                             logoSize,
@@ -760,15 +1349,18 @@ const App: React.FC = () => {
                             voiceName,
                             insightsProvider,
                             apiKeys,
+                            providerOptions,
+                            transcription: transcriptionSettings,
                             gdrive: gdriveSettings,
-                            selectedDeviceId
+                            saveSessionLogs,
+                            fhirBaseUrl,
+                            audioArchive,
                         }}
-                        audioDevices={audioDevices}
-                        onResetPrompt={handleResetPrompt}
                         logs={logs}
                         onClearLogs={clearLogs}
                         lastError={lastError}
                         tokenStats={tokenStats}
+                        encryption={user && encryptionState === 'unlocked' ? { onChangePassphrase: handleChangePassphrase, onRotateKey: handleRotateKey } : undefined}
                     />
                 </Suspense>
             )}
@@ -799,6 +1391,15 @@ const App: React.FC = () => {
                     <path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"></path>
                 </svg>
             </button>
+            {appState === 'pre-session' && interruptedBackups.length > 0 && (
+                <RecoveryDialog
+                    backup={interruptedBackups[0]}
+                    isSaving={isSavingBackup}
+                    onResume={() => handleResumeBackup(interruptedBackups[0])}
+                    onSave={() => handleSaveBackup(interruptedBackups[0])}
+                    onDiscard={() => handleDiscardBackup(interruptedBackups[0])}
+                />
+            )}
             <SpeedInsights />
         </>
     );
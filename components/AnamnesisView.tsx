@@ -0,0 +1,106 @@
+import React from 'react';
+import { AnamnesisDocument, VITAL_SIGN_DEFINITIONS } from '../services/anamnesisSchema';
+
+interface AnamnesisViewProps {
+    anamnesis: AnamnesisDocument;
+}
+
+export const AnamnesisView: React.FC<AnamnesisViewProps> = ({ anamnesis }) => {
+    return (
+        <div className="space-y-5 text-sm">
+            <div>
+                <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-1">Nome do Paciente</h4>
+                <p className="text-secondary">{anamnesis.patientName || 'não informado'}</p>
+            </div>
+
+            {anamnesis.changesSinceLastVisit.length > 0 && (
+                <div className="p-3 rounded-md border border-accent/50 bg-accent/10">
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-1">Mudanças desde a última consulta</h4>
+                    <ul className="list-disc list-inside text-primary space-y-0.5">
+                        {anamnesis.changesSinceLastVisit.map((change, index) => (
+                            <li key={index}>{change}</li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {anamnesis.vitals.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-2">Sinais Vitais</h4>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                        {anamnesis.vitals.map((vital, index) => (
+                            <div key={`${vital.kind}-${index}`} className="p-2 rounded-md bg-primary/30 border border-primary">
+                                <div className="text-xs text-tertiary">{VITAL_SIGN_DEFINITIONS[vital.kind].label}</div>
+                                <div className="text-primary font-semibold">
+                                    {vital.value} <span className="text-xs font-normal text-secondary">{vital.unit}</span>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {anamnesis.sections.map(section => (
+                <div key={section.id}>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-1">{section.title}</h4>
+                    {section.content && (
+                        <p className="text-secondary whitespace-pre-wrap">{section.content}</p>
+                    )}
+                    {section.fields.length > 0 && (
+                        <dl className="mt-1 space-y-0.5">
+                            {section.fields.map((field, index) => (
+                                <div key={index} className="flex gap-2">
+                                    <dt className="text-tertiary">{field.label}:</dt>
+                                    <dd className="text-secondary">{field.value || 'não informado'}</dd>
+                                </div>
+                            ))}
+                        </dl>
+                    )}
+                    {!section.content && section.fields.length === 0 && (
+                        <p className="text-tertiary italic">não informado</p>
+                    )}
+                </div>
+            ))}
+
+            {anamnesis.medications.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-2">Medicamentos</h4>
+                    <table className="w-full text-left border-collapse">
+                        <thead>
+                            <tr className="text-xs text-tertiary border-b border-primary">
+                                <th className="py-1 pr-2 font-medium">Medicamento</th>
+                                <th className="py-1 pr-2 font-medium">Dose</th>
+                                <th className="py-1 pr-2 font-medium">Frequência</th>
+                                <th className="py-1 font-medium">Observações</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {anamnesis.medications.map((medication, index) => (
+                                <tr key={index} className="text-secondary border-b border-primary/50">
+                                    <td className="py-1 pr-2 text-primary">{medication.name}</td>
+                                    <td className="py-1 pr-2">{medication.dose || '—'}</td>
+                                    <td className="py-1 pr-2">{medication.frequency || '—'}</td>
+                                    <td className="py-1">{medication.notes || '—'}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {anamnesis.allergies.length > 0 && (
+                <div>
+                    <h4 className="text-xs font-semibold uppercase tracking-wide text-accent mb-1">Alergias</h4>
+                    <ul className="space-y-0.5">
+                        {anamnesis.allergies.map((allergy, index) => (
+                            <li key={index} className="text-secondary">
+                                <span className="text-primary">{allergy.substance}</span>
+                                {allergy.reaction && <span className="text-tertiary"> — {allergy.reaction}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { AUDIO_IMPORT_ACCEPT, AUDIO_IMPORT_STAGE_LABELS, AudioImportProgress } from '../services/audioImportService';
+
+interface AudioImportDialogProps {
+    onClose: () => void;
+    onImport: (file: File, startTime: Date, onProgress: (progress: AudioImportProgress) => void, signal: AbortSignal) => Promise<void>;
+    templateName: string;
+    patientName?: string; // Paciente escolhido no painel; sem ele, o nome é identificado na anamnese
+}
+
+const CloseIcon: React.FC<{className?: string}> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor">
+        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+    </svg>
+);
+
+// Valor aceito por <input type="datetime-local"> no fuso do navegador
+const toLocalInputValue = (date: Date) =>
+    new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+
+export const AudioImportDialog: React.FC<AudioImportDialogProps> = ({ onClose, onImport, templateName, patientName }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [startTime, setStartTime] = useState('');
+    const [progress, setProgress] = useState<AudioImportProgress | null>(null);
+    const [status, setStatus] = useState<'idle' | 'running' | 'done' | 'error'>('idle');
+    const [errorMessage, setErrorMessage] = useState('');
+    const abortRef = useRef<AbortController | null>(null);
+
+    const handleFileChange = (selected: File | null) => {
+        setFile(selected);
+        setStatus('idle');
+        // A data de modificação do arquivo costuma ser a da gravação
+        if (selected) setStartTime(toLocalInputValue(new Date(selected.lastModified)));
+    };
+
+    const handleImport = async () => {
+        if (!file) return;
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setStatus('running');
+        setProgress(null);
+        setErrorMessage('');
+        try {
+            await onImport(file, startTime ? new Date(startTime) : new Date(file.lastModified), setProgress, controller.signal);
+            setStatus('done');
+        } catch (error: any) {
+            if (controller.signal.aborted) {
+                setStatus('idle');
+                return;
+            }
+            setErrorMessage(error.message || 'erro desconhecido');
+            setStatus('error');
+        } finally {
+            abortRef.current = null;
+        }
+    };
+
+    const handleClose = () => {
+        abortRef.current?.abort();
+        onClose();
+    };
+
+    const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={status === 'running' ? undefined : handleClose}>
+            <div className="bg-panel-solid rounded-xl border border-primary w-full max-w-lg flex flex-col text-primary shadow-2xl animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <header className="flex justify-between items-center p-4 border-b border-primary">
+                    <h2 className="text-xl font-bold text-accent">Importar áudio de consulta</h2>
+                    <button onClick={handleClose} className="p-2 rounded-full hover:bg-gray-500/20 transition-colors">
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </header>
+                <div className="p-6 space-y-4">
+                    <p className="text-sm text-secondary">
+                        Transcreve uma consulta gravada no celular ou gravador (WAV, MP3, M4A ou WebM) e gera a anamnese com o modelo <span className="font-semibold text-primary">{templateName}</span>
+                        {patientName ? <> para <span className="font-semibold text-primary">{patientName}</span></> : ', identificando o paciente pelo nome'}.
+                    </p>
+                    <div>
+                        <label htmlFor="import-audio-file" className="block text-sm font-medium text-secondary mb-1">Arquivo</label>
+                        <input
+                            id="import-audio-file"
+                            type="file"
+                            accept={AUDIO_IMPORT_ACCEPT}
+                            disabled={status === 'running'}
+                            onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+                            className="w-full text-sm text-secondary"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="import-audio-start" className="block text-sm font-medium text-secondary mb-1">Data e hora da consulta</label>
+                        <input
+                            id="import-audio-start"
+                            type="datetime-local"
+                            value={startTime}
+                            disabled={status === 'running'}
+                            onChange={(e) => setStartTime(e.target.value)}
+                            className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                        />
+                    </div>
+                    {status === 'running' && (
+                        <div>
+                            <div className="flex justify-between text-xs text-secondary mb-1">
+                                <span>{progress ? AUDIO_IMPORT_STAGE_LABELS[progress.stage] : 'Preparando'}...</span>
+                                {progress?.stage === 'transcribing' && <span>{progress.completed} de {progress.total} trechos</span>}
+                            </div>
+                            <div className="h-2 rounded-full bg-primary/50 overflow-hidden">
+                                <div
+                                    className="h-full bg-accent transition-all"
+                                    style={{ width: `${progress?.stage === 'transcribing' ? percent : progress?.stage === 'decoding' || !progress ? 5 : 100}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+                    {status === 'done' && <p className="text-sm text-green-400">Consulta importada e salva entre as sessões.</p>}
+                    {status === 'error' && <p className="text-sm text-red-400">Falha na importação: {errorMessage}</p>}
+                </div>
+                <footer className="flex justify-end gap-2 p-4 border-t border-primary">
+                    {status === 'running' ? (
+                        <button onClick={() => abortRef.current?.abort()} className="px-4 py-2 text-sm font-medium rounded-md btn-danger text-white transition-colors">
+                            Cancelar
+                        </button>
+                    ) : status === 'done' ? (
+                        <button onClick={handleClose} className="px-4 py-2 btn-secondary text-white text-sm font-bold rounded-md transition-colors">
+                            Fechar
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleImport}
+                            disabled={!file}
+                            className="px-4 py-2 btn-secondary text-white text-sm font-bold rounded-md transition-colors disabled:opacity-50"
+                        >
+                            Importar e transcrever
+                        </button>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+};
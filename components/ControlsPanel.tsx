@@ -1,5 +1,6 @@
 import React from 'react';
 import { WaveformVisualizer, WaveformStyle } from './WaveformVisualizer';
+import type { VadResult } from '../services/voiceActivityDetector';
 
 interface ControlsPanelProps {
     isListening: boolean;
@@ -14,6 +15,7 @@ interface ControlsPanelProps {
     mediaStream: MediaStream | null;
     waveformStyle: WaveformStyle;
     activeBufferIndex?: number;
+    voiceActivity?: VadResult | null;
 }
 
 const MicrophoneIcon: React.FC<{className?: string}> = ({ className }) => (
@@ -36,7 +38,7 @@ const VolumeOffIcon: React.FC<{className?: string}> = ({ className }) => (
 );
 
 
-export const ControlsPanel: React.FC<ControlsPanelProps> = ({ isListening, statusMessage, currentTranscription, onToggleListening, isMuted, onToggleMute, audioDevices, selectedDeviceId, onDeviceChange, mediaStream, waveformStyle, activeBufferIndex = 0 }) => {
+export const ControlsPanel: React.FC<ControlsPanelProps> = ({ isListening, statusMessage, currentTranscription, onToggleListening, isMuted, onToggleMute, audioDevices, selectedDeviceId, onDeviceChange, mediaStream, waveformStyle, activeBufferIndex = 0, voiceActivity }) => {
     const renderLiveBuffers = () => {
         if (Array.isArray(currentTranscription)) {
             // Calcula estado visual de cada buffer baseado no ciclo
@@ -158,7 +160,7 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({ isListening, statu
             {isListening ? (
                 <>
                     <div className="w-full h-28 my-4 relative px-6">
-                        {mediaStream && <WaveformVisualizer stream={mediaStream} isListening={isListening} style={waveformStyle} />}
+                        {mediaStream && <WaveformVisualizer stream={mediaStream} isListening={isListening} style={waveformStyle} voiceActivity={voiceActivity} />}
                     </div>
                     <div className="flex items-center justify-center gap-6 pb-6">
                         <button
@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
 import { SessionData } from '../App';
 import { generateDailySummary } from '../services/geminiService';
+import { formatTurnsAsDialogue } from '../utils/transcriptUtils';
+import { getPatientName } from '../utils/sessionUtils';
 
 interface DailySummaryProps {
     sessions: SessionData[];
@@ -30,8 +32,9 @@ export const DailySummary: React.FC<DailySummaryProps> = ({ sessions }) => {
         setError('');
         setSummary('');
         try {
-            const transcripts = todaySessions.flatMap(s => s.transcriptionHistory);
-            const result = await generateDailySummary(transcripts);
+            const transcripts = todaySessions.map(s => formatTurnsAsDialogue(s.transcriptionHistory));
+            const patientNames = todaySessions.map(s => getPatientName(s.anamnesis)).filter((name): name is string => !!name);
+            const result = await generateDailySummary(transcripts, patientNames);
             setSummary(result);
         } catch (err: any) {
             setError(err.message || "Ocorreu um erro desconhecido.");
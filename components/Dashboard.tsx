@@ -6,6 +6,16 @@ import { DailySummary } from './DailySummary';
 import { SessionViewerModal } from './SessionViewerModal';
 import { User } from 'firebase/auth';
 import { signOut } from '../services/firebaseService';
+import { Speaker } from '../utils/transcriptUtils';
+import { AnamnesisDocument } from '../services/anamnesisSchema';
+import { AnamnesisTemplate, findTemplate } from '../services/anamnesisTemplates';
+import { SyncStatus } from '../services/sessionRepository';
+import { DriveAuthStatus } from '../services/driveAuthManager';
+import { Patient } from '../services/patientRepository';
+import { PatientList } from './PatientList';
+import { PatientTimeline } from './PatientTimeline';
+import { AudioImportDialog } from './AudioImportDialog';
+import type { AudioImportProgress } from '../services/audioImportService';
 
 interface DashboardProps {
     user: User | null;
@@ -13,10 +23,27 @@ interface DashboardProps {
     onLoginRequest: () => void;
     onStartSession: () => void;
     savedSessions: SessionData[];
+    syncStatus?: SyncStatus | null;
+    drivePending?: number; // Envios ao Google Drive aguardando na fila
+    driveAuthStatus?: DriveAuthStatus;
+    onReconnectDrive?: () => void;
     onOpenSettings: () => void;
     logoDataUrl: string | null;
     logoSize: number;
+    fhirBaseUrl: string;
     onDeleteSession: (sessionId: string) => void;
+    onUpdateSession: (sessionId: string, updates: Partial<SessionData>) => void;
+    templates: AnamnesisTemplate[];
+    selectedTemplateId: string;
+    onTemplateChange: (templateId: string) => void;
+    onRegenerateAnamnesis: (session: SessionData) => Promise<AnamnesisDocument | null>;
+    patients: Patient[];
+    selectedPatientId: string;
+    onPatientChange: (patientId: string) => void;
+    onSavePatient: (patient: Patient) => Promise<void>;
+    onDeletePatient: (patientId: string) => Promise<void>;
+    onLinkSessionsToPatients: () => Promise<void>;
+    onImportAudio: (file: File, startTime: Date, onProgress: (progress: AudioImportProgress) => void, signal: AbortSignal) => Promise<void>;
 }
 
 const UserMenu: React.FC<{user: User}> = ({ user }) => {
@@ -66,14 +93,68 @@ const InfoIcon: React.FC<{className?: string}> = ({ className }) => (
   </svg>
 );
 
-export const Dashboard: React.FC<DashboardProps> = ({ user, isGuest, onLoginRequest, onStartSession, savedSessions, onOpenSettings, logoDataUrl, logoSize, onDeleteSession }) => {
+const SyncBadge: React.FC<{ status: SyncStatus }> = ({ status }) => {
+    let text = 'Sincronizado';
+    let cls = 'text-success-600 dark:text-success-400';
+    if (!status.online) {
+        text = status.pending > 0 ? `Offline · ${status.pending} pendente(s)` : 'Offline';
+        cls = 'text-warning-600 dark:text-warning-400';
+    } else if (status.isSyncing) {
+        text = 'Sincronizando...';
+        cls = 'text-gray-500 dark:text-gray-400';
+    } else if (status.pending > 0) {
+        text = `${status.pending} pendente(s)`;
+        cls = 'text-warning-600 dark:text-warning-400';
+    }
+    return (
+        <span className={`text-theme-xs font-medium ${cls}`} title={status.lastError ?? undefined}>
+            {text}
+        </span>
+    );
+};
+
+export const Dashboard: React.FC<DashboardProps> = ({ user, isGuest, onLoginRequest, onStartSession, savedSessions, syncStatus, drivePending = 0, driveAuthStatus, onReconnectDrive, onOpenSettings, logoDataUrl, logoSize, fhirBaseUrl, onDeleteSession, onUpdateSession, templates, selectedTemplateId, onTemplateChange, onRegenerateAnamnesis, patients, selectedPatientId, onPatientChange, onSavePatient, onDeletePatient, onLinkSessionsToPatients, onImportAudio }) => {
     const [selectedSession, setSelectedSession] = useState<SessionData | null>(null);
+    const [timelinePatientId, setTimelinePatientId] = useState<string | null>(null);
+    const timelinePatient = patients.find(patient => patient.id === timelinePatientId) ?? null;
+    const [isRegenerating, setIsRegenerating] = useState(false);
+    const [isImportOpen, setIsImportOpen] = useState(false);
+
+    const handleSpeakerChange = (turnIndex: number, speaker: Speaker) => {
+        if (!selectedSession) return;
+        const transcriptionHistory = selectedSession.transcriptionHistory.map((turn, index) =>
+            index === turnIndex ? { ...turn, speaker, confidence: 1 } : turn
+        );
+        setSelectedSession({ ...selectedSession, transcriptionHistory });
+        onUpdateSession(selectedSession.id, { transcriptionHistory });
+    };
+
+    const handleRegenerateAnamnesis = async () => {
+        if (!selectedSession) return;
+        setIsRegenerating(true);
+        try {
+            const anamnesis = await onRegenerateAnamnesis(selectedSession);
+            if (anamnesis) {
+                setSelectedSession(prev => prev && prev.id === selectedSession.id
+                    ? { ...prev, anamnesis, templateId: findTemplate(templates, selectedSession.templateId).id }
+                    : prev);
+            }
+        } finally {
+            setIsRegenerating(false);
+        }
+    };
 
     return (
         <div className="min-h-screen w-full flex flex-col bg-gray-50 dark:bg-gray-900 p-4 md:p-6 font-outfit">
             <header className="flex-shrink-0 pb-4 flex justify-between items-center">
                 <Logo logoDataUrl={logoDataUrl} size={logoSize} />
                  <div className="flex items-center gap-3">
+                    {user && syncStatus && <SyncBadge status={syncStatus} />}
+                    {user && drivePending > 0 && (
+                        <span className="text-theme-xs font-medium text-warning-600 dark:text-warning-400" title="Serão enviados ao reconectar o Google Drive ou ao voltar a conexão">
+                            Drive · {drivePending} pendente(s)
+                        </span>
+                    )}
                     {user ? (
                         <UserMenu user={user} />
                     ) : (
@@ -95,20 +176,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, isGuest, onLoginRequ
             </header>
             <main className="flex-grow grid grid-cols-1 md:grid-cols-3 gap-4 md:gap-6 overflow-hidden">
                 <div className="md:col-span-2 flex flex-col gap-4 md:gap-6">
+                    {user && driveAuthStatus === 'reconnect-required' && onReconnectDrive && (
+                        <div className="card border-warning-200 bg-warning-50 dark:border-warning-800 dark:bg-warning-500/10">
+                            <div className="card-body flex items-start gap-3">
+                                <InfoIcon className="w-5 h-5 flex-shrink-0 text-warning-600 dark:text-warning-400 mt-0.5" />
+                                <p className="flex-1 text-sm text-warning-800 dark:text-warning-300">
+                                    O acesso ao Google Drive expirou
+                                    {drivePending > 0 ? ` e ${drivePending} envio(s) aguardam na fila` : ''}.{' '}
+                                    <button
+                                        onClick={onReconnectDrive}
+                                        className="font-semibold underline hover:text-warning-900 dark:hover:text-warning-200 transition-colors"
+                                    >
+                                        Reconectar Drive
+                                    </button>
+                                </p>
+                            </div>
+                        </div>
+                    )}
                     {isGuest && (
                         <div className="card border-warning-200 bg-warning-50 dark:border-warning-800 dark:bg-warning-500/10">
                             <div className="card-body flex items-start gap-3">
                                 <InfoIcon className="w-5 h-5 flex-shrink-0 text-warning-600 dark:text-warning-400 mt-0.5" />
                                 <div className="flex-1">
                                     <p className="text-sm text-warning-800 dark:text-warning-300">
-                                        Você está no modo convidado. Suas sessões não serão salvas.{' '}
+                                        Você está no modo convidado. Suas sessões ficam salvas apenas neste navegador.{' '}
                                         <button 
                                             onClick={onLoginRequest} 
                                             className="font-semibold underline hover:text-warning-900 dark:hover:text-warning-200 transition-colors"
                                         >
                                             Faça login
                                         </button>{' '}
-                                        para salvar.
+                                        para sincronizá-las com sua conta.
                                     </p>
                                 </div>
                             </div>
@@ -122,25 +220,99 @@ export const Dashboard: React.FC<DashboardProps> = ({ user, isGuest, onLoginRequ
                             <p className="text-theme-sm text-gray-600 dark:text-gray-400 mb-6">
                                 Pronto para sua próxima consulta?
                             </p>
-                            <button
-                                onClick={onStartSession}
-                                className="btn btn-primary px-8 py-4 text-lg font-semibold rounded-xl hover:scale-105 transition-transform focus-ring"
-                            >
-                                Iniciar Nova Sessão
-                            </button>
+                            <div className="mb-6 max-w-sm">
+                                <label htmlFor="template-picker" className="block text-theme-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                                    Modelo de anamnese
+                                </label>
+                                <select
+                                    id="template-picker"
+                                    value={selectedTemplateId}
+                                    onChange={(e) => onTemplateChange(e.target.value)}
+                                    className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-800 dark:border-gray-800 dark:bg-gray-900 dark:text-white/90 focus-ring"
+                                >
+                                    {templates.map(template => (
+                                        <option key={template.id} value={template.id}>
+                                            {template.name} — {template.specialty}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="mb-6 max-w-sm">
+                                <label htmlFor="patient-picker" className="block text-theme-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                                    Paciente
+                                </label>
+                                <select
+                                    id="patient-picker"
+                                    value={selectedPatientId}
+                                    onChange={(e) => onPatientChange(e.target.value)}
+                                    className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm text-gray-800 dark:border-gray-800 dark:bg-gray-900 dark:text-white/90 focus-ring"
+                                >
+                                    <option value="">Identificar pelo nome na anamnese</option>
+                                    {patients.map(patient => (
+                                        <option key={patient.id} value={patient.id}>{patient.name}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-4">
+                                <button
+                                    onClick={onStartSession}
+                                    className="btn btn-primary px-8 py-4 text-lg font-semibold rounded-xl hover:scale-105 transition-transform focus-ring"
+                                >
+                                    Iniciar Nova Sessão
+                                </button>
+                                <button onClick={() => setIsImportOpen(true)} className="btn btn-secondary">
+                                    Importar áudio gravado
+                                </button>
+                            </div>
                         </div>
                     </div>
                     <SessionExplorer sessions={savedSessions} onSessionSelect={setSelectedSession} onDeleteSession={onDeleteSession} />
                 </div>
-                <div className="md:col-span-1">
+                <div className="md:col-span-1 flex flex-col gap-4 md:gap-6">
+                    <PatientList
+                        patients={patients}
+                        sessions={savedSessions}
+                        onPatientSelect={(patient) => setTimelinePatientId(patient.id)}
+                        onCreatePatient={(patient) => {
+                            onSavePatient(patient);
+                            setTimelinePatientId(patient.id);
+                        }}
+                        onLinkSessions={onLinkSessionsToPatients}
+                    />
                     <DailySummary sessions={savedSessions} />
                 </div>
             </main>
+            {timelinePatient && (
+                <PatientTimeline
+                    patient={timelinePatient}
+                    sessions={savedSessions}
+                    templates={templates}
+                    onClose={() => setTimelinePatientId(null)}
+                    onSave={onSavePatient}
+                    onDelete={onDeletePatient}
+                    onSessionSelect={setSelectedSession}
+                />
+            )}
+            {isImportOpen && (
+                <AudioImportDialog
+                    onClose={() => setIsImportOpen(false)}
+                    onImport={onImportAudio}
+                    templateName={findTemplate(templates, selectedTemplateId).name}
+                    patientName={patients.find(patient => patient.id === selectedPatientId)?.name}
+                />
+            )}
             {selectedSession && (
                 <SessionViewerModal 
                     isOpen={!!selectedSession}
                     onClose={() => setSelectedSession(null)}
                     sessionData={selectedSession}
+                    onSpeakerChange={handleSpeakerChange}
+                    templateName={findTemplate(templates, selectedSession.templateId).name}
+                    onRegenerateAnamnesis={handleRegenerateAnamnesis}
+                    isRegenerating={isRegenerating}
+                    logoDataUrl={logoDataUrl}
+                    logoSize={logoSize}
+                    fhirBaseUrl={fhirBaseUrl}
                 />
             )}
         </div>
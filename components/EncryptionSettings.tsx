@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+
+interface EncryptionSettingsProps {
+    onChangePassphrase: (current: string, next: string) => Promise<void>;
+    onRotateKey: (passphrase: string) => Promise<void>;
+}
+
+const inputClass = "w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent";
+
+export const EncryptionSettings: React.FC<EncryptionSettingsProps> = ({ onChangePassphrase, onRotateKey }) => {
+    const [current, setCurrent] = useState('');
+    const [next, setNext] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [rotationPassphrase, setRotationPassphrase] = useState('');
+    const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const run = async (task: () => Promise<void>, successMessage: string) => {
+        setIsBusy(true);
+        setStatus(null);
+        try {
+            await task();
+            setStatus({ type: 'success', message: successMessage });
+            setCurrent('');
+            setNext('');
+            setConfirmation('');
+            setRotationPassphrase('');
+        } catch (error: any) {
+            setStatus({ type: 'error', message: error.message || String(error) });
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    const handleChangePassphrase = () => {
+        if (next.length < 8) {
+            setStatus({ type: 'error', message: 'A nova senha deve ter pelo menos 8 caracteres.' });
+            return;
+        }
+        if (next !== confirmation) {
+            setStatus({ type: 'error', message: 'As senhas não coincidem.' });
+            return;
+        }
+        run(() => onChangePassphrase(current, next), 'Senha alterada.');
+    };
+
+    const handleRotateKey = () => {
+        run(() => onRotateKey(rotationPassphrase), 'Nova chave gerada. As sessões estão sendo recriptografadas em segundo plano.');
+    };
+
+    return (
+        <div className="space-y-6">
+            <div className="p-4 rounded-lg bg-primary/50 border border-primary">
+                <h3 className="text-lg font-semibold text-primary mb-2">Alterar senha de criptografia</h3>
+                <p className="text-sm text-secondary mb-3">Os dados não são reescritos: apenas as chaves são protegidas pela nova senha.</p>
+                <div className="space-y-2 max-w-sm">
+                    <input type="password" autoComplete="current-password" value={current} onChange={(e) => setCurrent(e.target.value)} placeholder="Senha atual" className={inputClass} />
+                    <input type="password" autoComplete="new-password" value={next} onChange={(e) => setNext(e.target.value)} placeholder="Nova senha" className={inputClass} />
+                    <input type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} placeholder="Confirme a nova senha" className={inputClass} />
+                    <button
+                        onClick={handleChangePassphrase}
+                        disabled={isBusy || !current || !next}
+                        className="px-4 py-2 btn-secondary text-white text-sm font-medium rounded-md transition-colors disabled:opacity-50"
+                    >
+                        Alterar senha
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-4 rounded-lg bg-primary/50 border border-primary">
+                <h3 className="text-lg font-semibold text-primary mb-2">Rotação de chave</h3>
+                <p className="text-sm text-secondary mb-3">
+                    Gera uma nova chave de dados para as próximas gravações e recriptografa as sessões salvas com ela.
+                    As chaves anteriores continuam disponíveis para ler dados ainda não migrados.
+                </p>
+                <div className="space-y-2 max-w-sm">
+                    <input type="password" autoComplete="current-password" value={rotationPassphrase} onChange={(e) => setRotationPassphrase(e.target.value)} placeholder="Senha atual" className={inputClass} />
+                    <button
+                        onClick={handleRotateKey}
+                        disabled={isBusy || !rotationPassphrase}
+                        className="px-4 py-2 btn-secondary text-white text-sm font-medium rounded-md transition-colors disabled:opacity-50"
+                    >
+                        Gerar nova chave
+                    </button>
+                </div>
+            </div>
+
+            {status && (
+                <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`}>{status.message}</p>
+            )}
+        </div>
+    );
+};
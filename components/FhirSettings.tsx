@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { fhirExportService } from '../services/fhirExportService';
+
+interface FhirSettingsProps {
+    baseUrl: string;
+    onBaseUrlChange: (baseUrl: string) => void;
+}
+
+export const FhirSettings: React.FC<FhirSettingsProps> = ({ baseUrl, onBaseUrlChange }) => {
+    const [status, setStatus] = useState<'idle' | 'testing' | 'ok' | 'error'>('idle');
+    const [message, setMessage] = useState('');
+
+    const handleTest = async () => {
+        setStatus('testing');
+        try {
+            const info = await fhirExportService.testConnection(baseUrl);
+            setMessage(`Conectado: FHIR ${info.fhirVersion}${info.software ? ` (${info.software})` : ''}.`);
+            setStatus('ok');
+        } catch (error: any) {
+            setMessage(error.message || 'Falha ao acessar o servidor.');
+            setStatus('error');
+        }
+    };
+
+    return (
+        <div className="mt-8">
+            <h3 className="text-lg font-semibold mb-2 text-primary">Prontuário eletrônico (HL7 FHIR)</h3>
+            <p className="text-sm text-secondary mb-4">
+                Envia as sessões como um Bundle FHIR R4 (paciente, atendimento, sinais vitais, diagnósticos, medicamentos, alergias e a anamnese).
+                Sem servidor configurado, o Bundle ainda pode ser baixado pela visualização da sessão.
+            </p>
+            <div className="bg-primary/50 border border-secondary rounded-md p-4 space-y-3">
+                <label htmlFor="fhir-base-url" className="block text-sm font-medium text-secondary">
+                    URL base do servidor FHIR
+                </label>
+                <div className="flex gap-2">
+                    <input
+                        id="fhir-base-url"
+                        type="url"
+                        placeholder="http://localhost:8080/fhir"
+                        value={baseUrl}
+                        onChange={(e) => { onBaseUrlChange(e.target.value); setStatus('idle'); }}
+                        className="flex-grow bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                    />
+                    <button
+                        onClick={handleTest}
+                        disabled={!baseUrl.trim() || status === 'testing'}
+                        className="px-4 py-2 btn-secondary text-white text-sm font-bold rounded-md transition-colors disabled:opacity-50"
+                    >
+                        {status === 'testing' ? 'Testando...' : 'Testar conexão'}
+                    </button>
+                </div>
+                {status === 'ok' && <p className="text-sm text-green-400">{message}</p>}
+                {status === 'error' && <p className="text-sm text-red-400">{message}</p>}
+                <p className="text-xs text-tertiary">
+                    O servidor precisa aceitar requisições do navegador (CORS). Para testes, um HAPI FHIR local funciona: docker run -p 8080:8080 hapiproject/hapi:latest
+                </p>
+            </div>
+        </div>
+    );
+};
@@ -2,6 +2,7 @@ import React, { useState, useCallback } from 'react';
 // Fix: Update import path for GDriveSettings to resolve type errors.
 import { GDriveSettings } from '../services/googleDriveService';
 import * as GDriveService from '../services/googleDriveService';
+import { EXPORT_FORMAT_LABELS, ExportFormat } from '../services/documentExportService';
 
 interface GoogleDriveSettingsProps {
     settings: GDriveSettings;
@@ -85,6 +86,16 @@ export const GoogleDriveSettings: React.FC<GoogleDriveSettingsProps> = ({ settin
         });
     };
 
+    const selectedFormats: ExportFormat[] = settings.formats?.length ? settings.formats : ['txt'];
+
+    // Pelo menos um formato permanece selecionado
+    const toggleFormat = (format: ExportFormat) => {
+        const formats = selectedFormats.includes(format)
+            ? selectedFormats.filter(f => f !== format)
+            : [...selectedFormats, format];
+        if (formats.length > 0) onSettingsChange({ ...settings, formats });
+    };
+
     const handleSelectFolder = async () => {
         if (!settings.token) {
             setErrorMessage('Não autenticado. Por favor, conecte novamente.');
@@ -233,6 +244,38 @@ export const GoogleDriveSettings: React.FC<GoogleDriveSettingsProps> = ({ settin
                                 </p>
                             )}
                         </div>
+
+                        <div>
+                            <p className="text-sm font-medium text-secondary mb-2">Formatos salvos ao final de cada sessão</p>
+                            <div className="flex flex-wrap gap-4">
+                                {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                                    <label key={format} className="flex items-center gap-2 text-sm text-primary cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedFormats.includes(format)}
+                                            onChange={() => toggleFormat(format)}
+                                        />
+                                        {EXPORT_FORMAT_LABELS[format]}
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-tertiary mt-1">PDF e DOCX levam a logo como timbre e incluem a transcrição após a anamnese.</p>
+                        </div>
+
+                        <div>
+                            <label htmlFor="gdrive-subfolders" className="block text-sm font-medium text-secondary mb-2">Organização dos arquivos</label>
+                            <select
+                                id="gdrive-subfolders"
+                                value={settings.subfolderMode ?? 'none'}
+                                onChange={(e) => onSettingsChange({ ...settings, subfolderMode: e.target.value as GDriveService.DriveSubfolderMode })}
+                                className="bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                            >
+                                <option value="none">Todos na pasta selecionada</option>
+                                <option value="patient">Uma subpasta por paciente</option>
+                                <option value="date">Uma subpasta por data</option>
+                            </select>
+                            <p className="text-xs text-tertiary mt-1">Ao salvar de novo uma sessão, os arquivos já enviados são atualizados em vez de duplicados.</p>
+                        </div>
                     </div>
                 )}
                  {status === 'error' && (
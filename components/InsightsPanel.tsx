@@ -1,5 +1,6 @@
 import React, { useRef, useEffect } from 'react';
 import { InsightProvider } from './SettingsPanel';
+import { llmProviderRegistry } from '../services/llmProviders';
 
 interface InsightsPanelProps {
     insights: string[];
@@ -13,11 +14,7 @@ const SparkleIcon: React.FC<{className?: string}> = ({ className }) => (
     </svg>
 );
 
-const providerNames: Record<InsightProvider, string> = {
-    gemini: 'Google Gemini',
-    openai: 'OpenAI',
-    grok: 'Grok (xAI)',
-};
+const providerName = (id: InsightProvider) => llmProviderRegistry.get(id)?.name ?? id;
 
 
 export const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, isLoading, activeInsightsProvider }) => {
@@ -33,7 +30,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({ insights, isLoadin
                 <h2 className="text-xl font-semibold text-accent">Fluxo de Consciência (IA)</h2>
                 {activeInsightsProvider && (
                     <div className="text-xs text-tertiary bg-primary/50 px-2 py-1 rounded">
-                        Usando: {providerNames[activeInsightsProvider]}
+                        Usando: {providerName(activeInsightsProvider)}
                     </div>
                 )}
             </div>
@@ -3,7 +3,7 @@ import { LogEntry } from '../hooks/useLogger';
 
 interface LogViewerProps {
     logs: LogEntry[];
-    onClearLogs: () => void;
+    onClearLogs?: () => void; // Sem callback (ex.: logs de sessão salva) o botão Limpar é ocultado
 }
 
 const getLogTypeClass = (type: LogEntry['type']) => {
@@ -53,14 +53,16 @@ export const LogViewer: React.FC<LogViewerProps> = ({ logs, onClearLogs }) => {
                     </p>
                 </div>
                 <div className="flex gap-2">
-                     <button
-                        onClick={onClearLogs}
-                        className="flex items-center gap-2 px-3 py-1.5 bg-slate-600/50 hover:bg-slate-500/50 text-secondary text-xs font-medium rounded-md transition-colors"
-                        title="Limpar Logs"
-                    >
-                        <TrashIcon className="w-4 h-4" />
-                        <span>Limpar</span>
-                    </button>
+                    {onClearLogs && (
+                        <button
+                            onClick={onClearLogs}
+                            className="flex items-center gap-2 px-3 py-1.5 bg-slate-600/50 hover:bg-slate-500/50 text-secondary text-xs font-medium rounded-md transition-colors"
+                            title="Limpar Logs"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                            <span>Limpar</span>
+                        </button>
+                    )}
                     <button
                         onClick={handleCopy}
                         className="flex items-center gap-2 px-3 py-1.5 btn-secondary text-white text-xs font-medium rounded-md transition-colors"
@@ -1,5 +1,8 @@
 import React from 'react';
 
+// Também usado como timbre nos documentos exportados
+export const CLINIC_NAME = 'Dr. Paulo Guimaraes Jr.';
+
 interface LogoProps {
     logoDataUrl?: string | null;
     size?: number;
@@ -28,7 +31,7 @@ export const Logo: React.FC<LogoProps> = ({ logoDataUrl, size = 24 }) => (
             </svg>
         )}
         <span className="font-bold text-lg text-primary hidden sm:block">
-            Dr. Paulo Guimaraes Jr.
+            {CLINIC_NAME}
         </span>
     </div>
 );
\ No newline at end of file
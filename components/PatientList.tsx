@@ -0,0 +1,111 @@
+import React, { useMemo, useState } from 'react';
+import { SessionData } from '../App';
+import { createPatient, normalizePatientName, Patient } from '../services/patientRepository';
+import { calculateAge } from '../utils/sessionUtils';
+
+interface PatientListProps {
+    patients: Patient[];
+    sessions: SessionData[];
+    onPatientSelect: (patient: Patient) => void;
+    onCreatePatient: (patient: Patient) => void;
+    onLinkSessions: () => Promise<void>;
+}
+
+const UserIcon: React.FC<{className?: string}> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor"><path d="M12 12c2.21 0 4-1.79 4-4s-1.79-4-4-4-4 1.79-4 4 1.79 4 4 4zm0 2c-2.67 0-8 1.34-8 4v2h16v-2c0-2.66-5.33-4-8-4z"/></svg>
+);
+
+export const PatientList: React.FC<PatientListProps> = ({ patients, sessions, onPatientSelect, onCreatePatient, onLinkSessions }) => {
+    const [search, setSearch] = useState('');
+    const [isLinking, setIsLinking] = useState(false);
+
+    // Sessões por paciente, já ordenadas da mais recente para a mais antiga
+    const sessionsByPatient = useMemo(() => {
+        const grouped = new Map<string, SessionData[]>();
+        for (const session of sessions) {
+            if (!session.patientId) continue;
+            grouped.set(session.patientId, [...(grouped.get(session.patientId) ?? []), session]);
+        }
+        return grouped;
+    }, [sessions]);
+
+    const unlinkedCount = sessions.filter(session => !session.patientId || !patients.some(p => p.id === session.patientId)).length;
+    const normalizedSearch = normalizePatientName(search);
+    const filtered = normalizedSearch
+        ? patients.filter(patient => normalizePatientName(patient.name).includes(normalizedSearch))
+        : patients;
+
+    const handleCreate = () => {
+        const name = window.prompt('Nome do novo paciente:');
+        if (name?.trim()) onCreatePatient(createPatient(name));
+    };
+
+    const handleLink = async () => {
+        setIsLinking(true);
+        try {
+            await onLinkSessions();
+        } finally {
+            setIsLinking(false);
+        }
+    };
+
+    return (
+        <div className="bg-panel rounded-lg p-6 flex flex-col border border-primary overflow-hidden max-h-[50vh]">
+            <div className="flex justify-between items-center mb-4 flex-shrink-0">
+                <h2 className="text-xl font-semibold text-accent">Pacientes</h2>
+                <button onClick={handleCreate} className="px-3 py-1 text-sm btn-secondary text-white rounded-md transition-colors">
+                    Novo paciente
+                </button>
+            </div>
+            <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Buscar por nome"
+                className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent mb-3 flex-shrink-0"
+            />
+            <ul className="overflow-y-auto pr-2 flex-grow space-y-1">
+                {filtered.map(patient => {
+                    const patientSessions = sessionsByPatient.get(patient.id) ?? [];
+                    const lastVisit = patientSessions.reduce<Date | null>((latest, session) =>
+                        !latest || session.startTime > latest ? session.startTime : latest, null);
+                    const age = calculateAge(patient.birthDate);
+                    return (
+                        <li key={patient.id}>
+                            <button
+                                onClick={() => onPatientSelect(patient)}
+                                className="w-full flex items-center p-2 rounded-md hover:bg-primary/50 transition-colors text-left"
+                            >
+                                <UserIcon className="w-5 h-5 mr-2 text-accent flex-shrink-0" />
+                                <span className="flex-grow min-w-0">
+                                    <span className="block text-sm text-primary font-medium truncate">
+                                        {patient.name}{age !== null && <span className="text-tertiary font-normal"> · {age} anos</span>}
+                                    </span>
+                                    <span className="block text-xs text-tertiary">
+                                        {patientSessions.length} consulta(s)
+                                        {lastVisit && ` · última em ${lastVisit.toLocaleDateString('pt-BR')}`}
+                                    </span>
+                                </span>
+                            </button>
+                        </li>
+                    );
+                })}
+                {filtered.length === 0 && (
+                    <li className="text-sm text-tertiary p-2">
+                        {patients.length === 0 ? 'Nenhum paciente cadastrado ainda.' : 'Nenhum paciente encontrado.'}
+                    </li>
+                )}
+            </ul>
+            {unlinkedCount > 0 && (
+                <button
+                    onClick={handleLink}
+                    disabled={isLinking}
+                    className="mt-3 text-xs text-secondary hover:text-primary underline self-start disabled:opacity-50 flex-shrink-0"
+                    title="Agrupa as sessões sem paciente pelo nome registrado na anamnese"
+                >
+                    {isLinking ? 'Vinculando...' : `Vincular ${unlinkedCount} sessão(ões) sem paciente`}
+                </button>
+            )}
+        </div>
+    );
+};
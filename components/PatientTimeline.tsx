@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { SessionData } from '../App';
+import { Patient, PatientIdentifier, PatientIdentifierSystem, PATIENT_IDENTIFIER_LABELS } from '../services/patientRepository';
+import { AnamnesisTemplate, findTemplate } from '../services/anamnesisTemplates';
+import { VITAL_SIGN_DEFINITIONS } from '../services/anamnesisSchema';
+import { calculateAge } from '../utils/sessionUtils';
+
+interface PatientTimelineProps {
+    patient: Patient;
+    sessions: SessionData[]; // Todas as sessões; as do paciente são filtradas aqui
+    templates: AnamnesisTemplate[];
+    onClose: () => void;
+    onSave: (patient: Patient) => void;
+    onDelete: (patientId: string) => void;
+    onSessionSelect: (session: SessionData) => void;
+}
+
+const CloseIcon: React.FC<{className?: string}> = ({ className }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor">
+        <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z"/>
+    </svg>
+);
+
+const inputClass = "w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent";
+
+// Uma entrada por linha nas listas de alergias e medicamentos
+const toLines = (values: string[]) => values.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Primeira seção preenchida da anamnese (normalmente a queixa principal)
+const sessionSummary = (session: SessionData): string | null => {
+    const section = session.anamnesis.sections.find(s => s.content.trim());
+    return section ? `${section.title}: ${section.content.trim()}` : null;
+};
+
+export const PatientTimeline: React.FC<PatientTimelineProps> = ({ patient, sessions, templates, onClose, onSave, onDelete, onSessionSelect }) => {
+    const [draft, setDraft] = useState<Patient>(patient);
+    const [allergiesText, setAllergiesText] = useState(toLines(patient.allergies));
+    const [medicationsText, setMedicationsText] = useState(toLines(patient.chronicMedications));
+
+    useEffect(() => {
+        setDraft(patient);
+        setAllergiesText(toLines(patient.allergies));
+        setMedicationsText(toLines(patient.chronicMedications));
+    }, [patient]);
+
+    const patientSessions = sessions
+        .filter(session => session.patientId === patient.id)
+        .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    const age = calculateAge(draft.birthDate);
+
+    const updateIdentifier = (index: number, updates: Partial<PatientIdentifier>) => {
+        setDraft(prev => ({
+            ...prev,
+            identifiers: prev.identifiers.map((identifier, i) => i === index ? { ...identifier, ...updates } : identifier),
+        }));
+    };
+
+    const handleSave = () => {
+        if (!draft.name.trim()) return;
+        onSave({
+            ...draft,
+            identifiers: draft.identifiers.filter(identifier => identifier.value.trim()),
+            allergies: fromLines(allergiesText),
+            chronicMedications: fromLines(medicationsText),
+        });
+    };
+
+    const handleDelete = () => {
+        if (window.confirm(`Excluir o cadastro de ${patient.name}? As sessões serão mantidas, sem vínculo com o paciente.`)) {
+            onDelete(patient.id);
+            onClose();
+        }
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+            onClick={onClose}
+        >
+            <div
+                className="bg-panel-solid rounded-xl border border-primary w-full max-w-5xl max-h-[90vh] flex flex-col text-primary shadow-2xl animate-fade-in-up"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="flex justify-between items-center p-4 border-b border-primary flex-shrink-0">
+                    <h2 className="text-xl font-bold text-accent truncate">
+                        {patient.name}{age !== null && <span className="text-secondary font-normal text-base"> · {age} anos</span>}
+                    </h2>
+                    <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-500/20 transition-colors">
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </header>
+
+                <main className="p-6 flex-grow overflow-y-auto grid grid-cols-1 md:grid-cols-5 gap-6">
+                    <section className="md:col-span-2 space-y-3">
+                        <h3 className="text-sm font-semibold uppercase tracking-wide text-accent">Cadastro</h3>
+                        <label className="block text-xs text-secondary">
+                            Nome
+                            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="block text-xs text-secondary">
+                            Data de nascimento
+                            <input type="date" value={draft.birthDate ?? ''} onChange={(e) => setDraft({ ...draft, birthDate: e.target.value || null })} className={inputClass} />
+                        </label>
+                        <div className="text-xs text-secondary space-y-2">
+                            <span>Identificadores</span>
+                            {draft.identifiers.map((identifier, index) => (
+                                <div key={index} className="flex gap-2">
+                                    <select
+                                        value={identifier.system}
+                                        onChange={(e) => updateIdentifier(index, { system: e.target.value as PatientIdentifierSystem })}
+                                        className="bg-primary border border-secondary rounded-md p-2 text-sm text-primary"
+                                    >
+                                        {(Object.keys(PATIENT_IDENTIFIER_LABELS) as PatientIdentifierSystem[]).map(system => (
+                                            <option key={system} value={system}>{PATIENT_IDENTIFIER_LABELS[system]}</option>
+                                        ))}
+                                    </select>
+                                    <input value={identifier.value} onChange={(e) => updateIdentifier(index, { value: e.target.value })} className={inputClass} />
+                                    <button
+                                        onClick={() => setDraft(prev => ({ ...prev, identifiers: prev.identifiers.filter((_, i) => i !== index) }))}
+                                        className="px-2 text-tertiary hover:text-red-400"
+                                        aria-label="Remover identificador"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                            ))}
+                            <button
+                                onClick={() => setDraft(prev => ({ ...prev, identifiers: [...prev.identifiers, { system: 'cpf', value: '' }] }))}
+                                className="text-accent hover:underline"
+                            >
+                                + Adicionar identificador
+                            </button>
+                        </div>
+                        <label className="block text-xs text-secondary">
+                            Alergias (uma por linha)
+                            <textarea rows={3} value={allergiesText} onChange={(e) => setAllergiesText(e.target.value)} className={inputClass} />
+                        </label>
+                        <label className="block text-xs text-secondary">
+                            Medicamentos de uso contínuo (um por linha)
+                            <textarea rows={3} value={medicationsText} onChange={(e) => setMedicationsText(e.target.value)} className={inputClass} />
+                        </label>
+                        <div className="flex justify-between pt-2">
+                            <button onClick={handleDelete} className="px-4 py-2 text-sm rounded-md btn-danger text-white transition-colors">
+                                Excluir
+                            </button>
+                            <button onClick={handleSave} disabled={!draft.name.trim()} className="px-4 py-2 text-sm btn-primary text-white font-bold rounded-md transition-colors disabled:opacity-50">
+                                Salvar cadastro
+                            </button>
+                        </div>
+                    </section>
+
+                    <section className="md:col-span-3">
+                        <h3 className="text-sm font-semibold uppercase tracking-wide text-accent mb-3">
+                            Linha do tempo ({patientSessions.length} consulta(s))
+                        </h3>
+                        {patientSessions.length === 0 ? (
+                            <p className="text-sm text-tertiary">Nenhuma sessão vinculada a este paciente.</p>
+                        ) : (
+                            <ol className="relative border-l-2 border-secondary/50 ml-2 space-y-4">
+                                {patientSessions.map(session => {
+                                    const summary = sessionSummary(session);
+                                    return (
+                                        <li key={session.id} className="ml-4">
+                                            <span className="absolute -left-[7px] mt-2 w-3 h-3 rounded-full bg-accent" />
+                                            <button
+                                                onClick={() => onSessionSelect(session)}
+                                                className="w-full text-left rounded-md p-3 bg-primary/30 hover:bg-primary/50 transition-colors"
+                                            >
+                                                <div className="flex justify-between text-xs text-tertiary mb-1">
+                                                    <span>{session.startTime.toLocaleString('pt-BR', { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                                                    <span>{findTemplate(templates, session.templateId).name}</span>
+                                                </div>
+                                                {summary && <p className="text-sm text-primary line-clamp-2">{summary}</p>}
+                                                {session.anamnesis.vitals.length > 0 && (
+                                                    <p className="text-xs text-secondary mt-1">
+                                                        {session.anamnesis.vitals.map(vital => `${VITAL_SIGN_DEFINITIONS[vital.kind].label}: ${vital.value} ${vital.unit}`).join(' · ')}
+                                                    </p>
+                                                )}
+                                                {session.anamnesis.medications.length > 0 && (
+                                                    <p className="text-xs text-secondary mt-1">
+                                                        Medicamentos: {session.anamnesis.medications.map(medication => medication.name).join(', ')}
+                                                    </p>
+                                                )}
+                                                {(session.insights?.length ?? 0) > 0 && (
+                                                    <p className="text-xs text-tertiary mt-1">{session.insights!.length} insight(s)</p>
+                                                )}
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ol>
+                        )}
+                    </section>
+                </main>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { SessionBackup } from '../services/sessionBackupService';
+import { getPatientName } from '../utils/sessionUtils';
+
+interface RecoveryDialogProps {
+    backup: SessionBackup;
+    isSaving: boolean;
+    onResume: () => void;
+    onSave: () => void;
+    onDiscard: () => void;
+}
+
+const formatDateTime = (date: Date) => {
+    return date.toLocaleString('pt-BR', {
+        day: '2-digit',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+};
+
+export const RecoveryDialog: React.FC<RecoveryDialogProps> = ({ backup, isSaving, onResume, onSave, onDiscard }) => {
+    const patientName = getPatientName(backup.anamnesis);
+
+    return (
+        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+            <div className="bg-panel-solid rounded-xl border border-primary w-full max-w-lg flex flex-col text-primary shadow-2xl animate-fade-in-up">
+                <header className="p-4 border-b border-primary">
+                    <h2 className="text-xl font-bold text-accent">Sessão interrompida encontrada</h2>
+                </header>
+
+                <main className="p-6 space-y-3 text-sm">
+                    <p className="text-secondary">
+                        Uma sessão não foi encerrada corretamente (a aba foi fechada ou o navegador travou).
+                        Você pode retomá-la de onde parou ou salvá-la como está.
+                    </p>
+                    <div className="bg-primary/30 rounded-md p-3 text-xs text-secondary space-y-1">
+                        {patientName && <p><strong>Paciente:</strong> {patientName}</p>}
+                        <p><strong>Início:</strong> {formatDateTime(backup.startTime)}</p>
+                        <p><strong>Último backup:</strong> {formatDateTime(new Date(backup.savedAt))}</p>
+                        <p><strong>Turnos transcritos:</strong> {backup.transcriptionHistory.length}</p>
+                        <p><strong>Insights:</strong> {backup.insights.length}</p>
+                    </div>
+                </main>
+
+                <footer className="flex justify-between items-center gap-2 p-4 border-t border-primary">
+                    <button
+                        onClick={onDiscard}
+                        disabled={isSaving}
+                        className="px-4 py-2 text-sm font-medium text-secondary rounded-md hover:bg-gray-500/20 transition-colors disabled:opacity-50"
+                    >
+                        Descartar
+                    </button>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={onSave}
+                            disabled={isSaving}
+                            className="px-4 py-2 btn-secondary text-white font-medium text-sm rounded-md transition-colors disabled:opacity-50"
+                        >
+                            {isSaving ? 'Salvando...' : 'Salvar sessão interrompida'}
+                        </button>
+                        <button
+                            onClick={onResume}
+                            disabled={isSaving}
+                            className="px-4 py-2 btn-primary text-white font-bold text-sm rounded-md transition-colors disabled:opacity-50"
+                        >
+                            Retomar sessão
+                        </button>
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { SessionData } from '../App';
+import { audioArchiveService } from '../services/audioArchiveService';
+import { driveAuthManager } from '../services/driveAuthManager';
+
+interface SessionAudioPlayerProps {
+    session: SessionData;
+    audioRef: React.RefObject<HTMLAudioElement | null>;
+    onTimeUpdate?: (seconds: number) => void;
+}
+
+const formatDuration = (ms: number) => {
+    const totalSeconds = Math.round(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    return `${minutes}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+export const SessionAudioPlayer: React.FC<SessionAudioPlayerProps> = ({ session, audioRef, onTimeUpdate }) => {
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [status, setStatus] = useState<'loading' | 'ready' | 'missing' | 'error'>('loading');
+    const [errorMessage, setErrorMessage] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        let url: string | null = null;
+        setStatus('loading');
+        setAudioUrl(null);
+        audioArchiveService.loadRecording(session, driveAuthManager.getToken()?.access_token ?? null)
+            .then(blob => {
+                if (cancelled) return;
+                if (!blob) {
+                    setStatus('missing');
+                    return;
+                }
+                url = URL.createObjectURL(blob);
+                setAudioUrl(url);
+                setStatus('ready');
+            })
+            .catch((error: any) => {
+                if (cancelled) return;
+                setErrorMessage(error.message || 'erro desconhecido');
+                setStatus('error');
+            });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    // A gravação de uma sessão não muda: recarrega apenas ao trocar de sessão
+    }, [session.id]);
+
+    // WebM do MediaRecorder não informa a duração; buscar o fim força o navegador a calculá-la
+    const handleLoadedMetadata = (event: React.SyntheticEvent<HTMLAudioElement>) => {
+        const element = event.currentTarget;
+        if (element.duration !== Infinity) return;
+        const reset = () => {
+            element.removeEventListener('durationchange', reset);
+            element.currentTime = 0;
+        };
+        element.addEventListener('durationchange', reset);
+        element.currentTime = 1e101;
+    };
+
+    if (!session.audio) return null;
+
+    return (
+        <div className="sticky top-0 z-10 mb-4 p-3 rounded-md border border-primary bg-panel-solid">
+            {status === 'ready' && audioUrl ? (
+                <>
+                    <audio
+                        ref={audioRef}
+                        src={audioUrl}
+                        controls
+                        preload="metadata"
+                        onLoadedMetadata={handleLoadedMetadata}
+                        onTimeUpdate={(e) => onTimeUpdate?.(e.currentTarget.currentTime)}
+                        className="w-full"
+                    />
+                    <p className="text-xs text-tertiary mt-1">
+                        Gravação de {formatDuration(session.audio.durationMs)}. Clique no horário de uma fala para ouvi-la.
+                    </p>
+                </>
+            ) : (
+                <p className="text-sm text-secondary">
+                    {status === 'loading' && 'Carregando a gravação da consulta...'}
+                    {status === 'missing' && 'A gravação desta consulta não está disponível neste aparelho (conecte o Google Drive ou entre na conta para baixá-la).'}
+                    {status === 'error' && <span className="text-red-400">Falha ao carregar a gravação: {errorMessage}</span>}
+                </p>
+            )}
+        </div>
+    );
+};
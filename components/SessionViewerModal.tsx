@@ -1,13 +1,41 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { SessionData } from '../App';
 import { getPatientName } from '../utils/sessionUtils';
+import { Speaker, TranscriptTurn } from '../utils/transcriptUtils';
+import { TranscriptTurnList } from './TranscriptTurnList';
+import { SessionAudioPlayer } from './SessionAudioPlayer';
+import { AnamnesisView } from './AnamnesisView';
+import { LogViewer } from './LogViewer';
+import { llmProviderRegistry } from '../services/llmProviders';
+import { PhiCategory } from '../services/deidentificationService';
+import { documentExportService, EXPORT_FORMAT_LABELS, ExportFormat, exportFileName } from '../services/documentExportService';
+import { buildFhirBundle, fhirExportService } from '../services/fhirExportService';
+import { patientRepository } from '../services/patientRepository';
+import { audioTimeForSessionOffset, sessionOffsetForAudioTime } from '../services/audioArchiveService';
+import { CLINIC_NAME } from './Logo';
 
-type Tab = 'transcription' | 'anamnesis';
+type Tab = 'transcription' | 'anamnesis' | 'insights' | 'usage' | 'privacy' | 'logs';
+
+const TABS: { id: Tab; label: string }[] = [
+    { id: 'transcription', label: 'Transcrição Completa' },
+    { id: 'anamnesis', label: 'Anamnese' },
+    { id: 'insights', label: 'Insights' },
+    { id: 'usage', label: 'Tokens e Custo' },
+    { id: 'privacy', label: 'Privacidade' },
+    { id: 'logs', label: 'Logs' },
+];
 
 interface SessionViewerModalProps {
     isOpen: boolean;
     onClose: () => void;
     sessionData: SessionData;
+    onSpeakerChange?: (turnIndex: number, speaker: Speaker) => void;
+    templateName?: string;
+    onRegenerateAnamnesis?: () => void;
+    isRegenerating?: boolean;
+    logoDataUrl?: string | null;
+    logoSize?: number;
+    fhirBaseUrl?: string;
 }
 
 const CloseIcon: React.FC<{className?: string}> = ({ className }) => (
@@ -26,13 +54,36 @@ const formatDate = (date: Date) => {
     });
 };
 
-export const SessionViewerModal: React.FC<SessionViewerModalProps> = ({ isOpen, onClose, sessionData }) => {
+const providerName = (id: string | null) => id ? (llmProviderRegistry.get(id)?.name ?? id) : 'Nenhum provedor';
+
+const PHI_CATEGORY_LABELS: Record<PhiCategory, string> = {
+    name: 'Nome',
+    cpf: 'CPF',
+    rg: 'RG',
+    cns: 'Cartão SUS',
+    identifier: 'Identificador',
+    phone: 'Telefone',
+    email: 'E-mail',
+    cep: 'CEP',
+    address: 'Endereço',
+    date: 'Data',
+};
+
+const formatCost = (usd: number) => usd.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 4 });
+
+export const SessionViewerModal: React.FC<SessionViewerModalProps> = ({ isOpen, onClose, sessionData, onSpeakerChange, templateName, onRegenerateAnamnesis, isRegenerating, logoDataUrl = null, logoSize = 24, fhirBaseUrl }) => {
     const [activeTab, setActiveTab] = useState<Tab>('transcription');
+    const [includeTranscript, setIncludeTranscript] = useState(false);
+    const [exportingFormat, setExportingFormat] = useState<ExportFormat | 'fhir' | null>(null);
+    const [exportMessage, setExportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+    const [playbackOffsetMs, setPlaybackOffsetMs] = useState<number | null>(null);
     const endOfContentRef = useRef<HTMLDivElement>(null);
+    const audioRef = useRef<HTMLAudioElement>(null);
 
     useEffect(() => {
         if (isOpen) {
             setActiveTab('transcription');
+            setPlaybackOffsetMs(null);
         }
     }, [isOpen]);
 
@@ -43,23 +94,222 @@ export const SessionViewerModal: React.FC<SessionViewerModalProps> = ({ isOpen,
      if (!isOpen) {
         return null;
     }
+
+    const handleExport = async (format: ExportFormat) => {
+        setExportingFormat(format);
+        setExportMessage(null);
+        try {
+            const exported = await documentExportService.exportSession(sessionData, format, {
+                includeTranscript,
+                logoDataUrl,
+                logoSize,
+                brandName: CLINIC_NAME,
+                templateName,
+            });
+            documentExportService.download(exported);
+        } catch (error: any) {
+            setExportMessage({ text: `Falha ao exportar ${EXPORT_FORMAT_LABELS[format]}: ${error.message || 'erro desconhecido'}`, isError: true });
+        } finally {
+            setExportingFormat(null);
+        }
+    };
+
+    const buildBundle = () =>
+        buildFhirBundle(sessionData, sessionData.patientId ? patientRepository.get(sessionData.patientId) : undefined, CLINIC_NAME);
+
+    const handleDownloadFhir = () => {
+        documentExportService.download({
+            blob: fhirExportService.toBlob(buildBundle()),
+            fileName: exportFileName(sessionData, 'FHIR', 'json'),
+            mimeType: 'application/fhir+json',
+        });
+    };
+
+    const handleSendFhir = async () => {
+        if (!fhirBaseUrl) return;
+        setExportingFormat('fhir');
+        setExportMessage(null);
+        try {
+            const accepted = await fhirExportService.sendBundle(fhirBaseUrl, buildBundle());
+            setExportMessage({ text: `Enviado ao prontuário: ${accepted} recurso(s) gravado(s).`, isError: false });
+        } catch (error: any) {
+            setExportMessage({ text: `Falha no envio FHIR: ${error.message || 'erro desconhecido'}`, isError: true });
+        } finally {
+            setExportingFormat(null);
+        }
+    };
     
+    const handleTurnSelect = (turn: TranscriptTurn) => {
+        const audio = audioRef.current;
+        if (!audio || !sessionData.audio) return;
+        const seconds = audioTimeForSessionOffset(sessionData.audio, turn.startMs);
+        if (seconds === null) {
+            setExportMessage({ text: 'Este trecho foi transcrito depois do fim da gravação.', isError: true });
+            return;
+        }
+        audio.currentTime = seconds;
+        audio.play().catch(() => undefined);
+    };
+
+    // Último turno iniciado antes da posição da reprodução
+    const activeTurnIndex = playbackOffsetMs === null
+        ? undefined
+        : sessionData.transcriptionHistory.reduce((active, turn, index) => turn.endMs > 0 && turn.startMs <= playbackOffsetMs ? index : active, -1);
+
     const renderTabContent = () => {
         if (activeTab === 'transcription') {
             return (
-                sessionData.transcriptionHistory.map((text, index) => (
-                    <p key={index} className="mb-4 text-secondary whitespace-pre-wrap">
-                        {text}
-                    </p>
-                ))
+                <>
+                    {sessionData.audio && (
+                        <SessionAudioPlayer
+                            session={sessionData}
+                            audioRef={audioRef}
+                            onTimeUpdate={(seconds) => setPlaybackOffsetMs(sessionOffsetForAudioTime(sessionData.audio!, seconds))}
+                        />
+                    )}
+                    <TranscriptTurnList
+                        turns={sessionData.transcriptionHistory}
+                        onSpeakerChange={onSpeakerChange}
+                        {...(sessionData.audio && { onTurnSelect: handleTurnSelect, activeTurnIndex })}
+                    />
+                </>
             );
         }
 
         if (activeTab === 'anamnesis') {
             return (
-                <p className="text-secondary whitespace-pre-wrap">{sessionData.anamnesis}</p>
+                <>
+                    {(templateName || onRegenerateAnamnesis) && (
+                        <div className="flex items-center justify-between gap-2 mb-4 bg-primary/30 rounded-md p-2">
+                            <span className="text-xs text-secondary">
+                                Modelo: {templateName}{!sessionData.templateId && ' (padrão)'}
+                            </span>
+                            {onRegenerateAnamnesis && (
+                                <button
+                                    onClick={onRegenerateAnamnesis}
+                                    disabled={isRegenerating || sessionData.transcriptionHistory.length === 0}
+                                    className="px-3 py-1 text-xs font-medium bg-accent/20 hover:bg-accent/30 border border-accent/40 text-accent rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    {isRegenerating ? '⏳ Regenerando...' : '🔄 Regenerar Anamnese'}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    <AnamnesisView anamnesis={sessionData.anamnesis} />
+                </>
             );
         }
+
+        if (activeTab === 'insights') {
+            const insights = sessionData.insights ?? [];
+            if (insights.length === 0) {
+                return <p className="text-sm text-tertiary">Nenhum insight registrado nesta sessão.</p>;
+            }
+            return (
+                <ul className="space-y-3">
+                    {insights.map((insight, index) => (
+                        <li key={index} className="bg-primary/30 rounded-md p-3">
+                            <div className="flex justify-between text-xs text-tertiary mb-1">
+                                <span>{insight.timestamp.toLocaleTimeString('pt-BR', { hour12: false })}</span>
+                                <span>{providerName(insight.provider)}</span>
+                            </div>
+                            <p className="text-sm text-primary whitespace-pre-wrap">{insight.text}</p>
+                        </li>
+                    ))}
+                </ul>
+            );
+        }
+
+        if (activeTab === 'usage') {
+            const summary = sessionData.tokenSummary;
+            if (!summary) {
+                return <p className="text-sm text-tertiary">Esta sessão não possui registro de uso de tokens.</p>;
+            }
+            const rows = [
+                { label: 'Correções', usage: summary.corrections, calls: summary.callCount.corrections },
+                { label: 'Insights', usage: summary.insights, calls: summary.callCount.insights },
+                { label: 'Anamnese', usage: summary.anamnesis, calls: summary.callCount.anamnesis },
+            ];
+            return (
+                <div className="space-y-4 text-sm">
+                    <table className="w-full text-left">
+                        <thead className="text-xs text-tertiary">
+                            <tr><th className="py-1">Etapa</th><th>Chamadas</th><th>Entrada</th><th>Saída</th><th>Total</th></tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.label} className="border-t border-primary">
+                                    <td className="py-1">{row.label}</td>
+                                    <td>{row.calls}</td>
+                                    <td>{row.usage.promptTokens.toLocaleString()}</td>
+                                    <td>{row.usage.completionTokens.toLocaleString()}</td>
+                                    <td>{row.usage.totalTokens.toLocaleString()}</td>
+                                </tr>
+                            ))}
+                            <tr className="border-t border-primary font-semibold text-accent">
+                                <td className="py-1">Total</td>
+                                <td />
+                                <td>{summary.total.promptTokens.toLocaleString()}</td>
+                                <td>{summary.total.completionTokens.toLocaleString()}</td>
+                                <td>{summary.total.totalTokens.toLocaleString()}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    {Object.keys(summary.byProvider).length > 0 && (
+                        <div>
+                            <h4 className="text-xs font-semibold text-secondary mb-1">Por provedor</h4>
+                            <ul className="text-xs text-secondary space-y-1">
+                                {Object.entries(summary.byProvider).map(([id, usage]) => (
+                                    <li key={id}>{providerName(id)}: {usage.totalTokens.toLocaleString()} tokens</li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                    <p className="text-secondary">
+                        Custo estimado: <span className="text-primary font-semibold">{formatCost(summary.estimatedCostUsd)}</span>
+                    </p>
+                    <p className="text-xs text-tertiary">Estimativa com base no preço público do modelo padrão de cada provedor.</p>
+                </div>
+            );
+        }
+
+        if (activeTab === 'privacy') {
+            const audit = sessionData.phiAudit;
+            if (!audit) {
+                return <p className="text-sm text-tertiary">Esta sessão não possui registro de dados mascarados.</p>;
+            }
+            if (audit.length === 0) {
+                return <p className="text-sm text-tertiary">Nenhum dado identificável foi detectado nos envios a provedores em nuvem.</p>;
+            }
+            return (
+                <div className="space-y-3 text-sm">
+                    <p className="text-secondary">Dados substituídos por marcadores antes do envio a provedores em nuvem e restaurados localmente nas respostas.</p>
+                    <table className="w-full text-left">
+                        <thead className="text-xs text-tertiary">
+                            <tr><th className="py-1">Marcador</th><th>Tipo</th><th>Valor</th><th>Envios</th><th>Primeiro envio</th></tr>
+                        </thead>
+                        <tbody>
+                            {audit.map(entry => (
+                                <tr key={entry.placeholder} className="border-t border-primary">
+                                    <td className="py-1 font-mono text-xs">{entry.placeholder}</td>
+                                    <td>{PHI_CATEGORY_LABELS[entry.category]}</td>
+                                    <td>{entry.hint}</td>
+                                    <td>{entry.maskCount}</td>
+                                    <td>{entry.firstMaskedAt.toLocaleTimeString('pt-BR', { hour12: false })}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        }
+
+        if (activeTab === 'logs') {
+            if (!sessionData.logExcerpt) {
+                return <p className="text-sm text-tertiary">Os logs não foram salvos com esta sessão.</p>;
+            }
+            return <LogViewer logs={sessionData.logExcerpt} />;
+        }
     };
 
     const patientName = getPatientName(sessionData.anamnesis);
@@ -90,13 +340,12 @@ export const SessionViewerModal: React.FC<SessionViewerModalProps> = ({ isOpen,
                     </div>
 
                     <div className="mb-4 border-b border-primary">
-                        <nav className="flex -mb-px">
-                            <button onClick={() => setActiveTab('transcription')} className={`py-2 px-4 text-sm font-medium border-b-2 ${activeTab === 'transcription' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary hover:border-tertiary'}`}>
-                                Transcrição Completa
-                            </button>
-                            <button onClick={() => setActiveTab('anamnesis')} className={`py-2 px-4 text-sm font-medium border-b-2 ${activeTab === 'anamnesis' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary hover:border-tertiary'}`}>
-                                Anamnese
-                            </button>
+                        <nav className="flex -mb-px overflow-x-auto">
+                            {TABS.map(tab => (
+                                <button key={tab.id} onClick={() => setActiveTab(tab.id)} className={`py-2 px-4 text-sm font-medium border-b-2 whitespace-nowrap ${activeTab === tab.id ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary hover:border-tertiary'}`}>
+                                    {tab.label}
+                                </button>
+                            ))}
                         </nav>
                     </div>
 
@@ -106,7 +355,41 @@ export const SessionViewerModal: React.FC<SessionViewerModalProps> = ({ isOpen,
                     </div>
                 </main>
 
-                 <footer className="flex justify-end items-center p-4 border-t border-primary flex-shrink-0">
+                 <footer className="flex justify-between items-center gap-4 p-4 border-t border-primary flex-shrink-0">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        {(['pdf', 'docx'] as ExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => handleExport(format)}
+                                disabled={exportingFormat !== null}
+                                className="px-3 py-2 btn-secondary text-white rounded-md transition-colors disabled:opacity-50"
+                            >
+                                {exportingFormat === format ? 'Gerando...' : `Exportar ${EXPORT_FORMAT_LABELS[format]}`}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleDownloadFhir}
+                            className="px-3 py-2 btn-secondary text-white rounded-md transition-colors"
+                            title="Bundle HL7 FHIR R4 em JSON"
+                        >
+                            Baixar FHIR
+                        </button>
+                        {fhirBaseUrl && (
+                            <button
+                                onClick={handleSendFhir}
+                                disabled={exportingFormat !== null}
+                                className="px-3 py-2 btn-secondary text-white rounded-md transition-colors disabled:opacity-50"
+                                title={fhirBaseUrl}
+                            >
+                                {exportingFormat === 'fhir' ? 'Enviando...' : 'Enviar ao prontuário'}
+                            </button>
+                        )}
+                        <label className="flex items-center gap-2 text-secondary cursor-pointer">
+                            <input type="checkbox" checked={includeTranscript} onChange={(e) => setIncludeTranscript(e.target.checked)} />
+                            Incluir transcrição
+                        </label>
+                        {exportMessage && <span className={`text-xs ${exportMessage.isError ? 'text-red-400' : 'text-green-400'}`}>{exportMessage.text}</span>}
+                    </div>
                     <button
                         onClick={onClose}
                         className="px-6 py-2 btn-primary text-white font-bold text-sm rounded-md transition-colors"
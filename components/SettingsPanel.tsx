@@ -3,61 +3,63 @@ import { Theme } from '../App';
 import { LogEntry } from '../hooks/useLogger';
 import { LogViewer } from './LogViewer';
 import { GoogleDriveSettings } from './GoogleDriveSettings';
+import { FhirSettings } from './FhirSettings';
+import { EncryptionSettings } from './EncryptionSettings';
 import { GDriveSettings } from '../services/googleDriveService';
-import { validateOpenAIApiKey, validateGrokApiKey } from '../services/apiValidationService';
+import { validateLocalEndpoint, validateProviderApiKey } from '../services/apiValidationService';
+import { TRANSCRIPTION_ENGINES, TranscriptionSettings, WhisperSettings } from '../services/transcriptionEngines';
+import { llmProviderRegistry, LLMProvider, LLMProviderId, ProviderOptionField, ProviderOptions } from '../services/llmProviders';
 import { firebaseConfigPlaceholder } from '../services/firebaseService';
 import { TokenStats } from '../services/tokenTracker';
+import { sessionBackupService } from '../services/sessionBackupService';
+import { AnamnesisTemplate, DEFAULT_TEMPLATE_ID, createCustomTemplate, findTemplate } from '../services/anamnesisTemplates';
+import { AUDIO_DESTINATION_LABELS, AudioArchiveDestination, AudioArchiveSettings } from '../services/audioArchiveService';
+import { VadMode, VadSettings } from '../services/voiceActivityDetector';
 
 export type WaveformStyle = 'line' | 'bars' | 'traktor';
-export type InsightProvider = 'gemini' | 'openai' | 'grok';
+export type InsightProvider = LLMProviderId;
 export type PrebuiltVoice = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
+export type AnamnesisUpdateMode = 'full' | 'incremental';
 
 
 export interface SettingsData {
-    prompt: string;
+    templates: AnamnesisTemplate[];
+    defaultTemplateId: string;
+    anamnesisUpdateMode: AnamnesisUpdateMode;
     theme: Theme;
     logoUrl: string | null;
     logoSize: number;
     waveformStyle: WaveformStyle;
     voiceName: PrebuiltVoice;
     insightsProvider: InsightProvider;
-    apiKeys: {
-        gemini: string;
-        openai: string;
-        grok: string;
-    };
+    apiKeys: Record<LLMProviderId, string>;
+    providerOptions: Record<LLMProviderId, ProviderOptions>;
+    transcription: TranscriptionSettings;
     gdrive: GDriveSettings;
+    fhirBaseUrl: string; // Servidor FHIR R4 para envio das sessões; vazio desativa o envio
+    saveSessionLogs: boolean; // Anexa um trecho dos logs à sessão salva
+    audioArchive: AudioArchiveSettings;
 }
 
 interface SettingsPanelProps {
     isOpen: boolean;
     onClose: () => void;
     onSave: (settings: SettingsData) => void;
-    onResetPrompt: () => string;
     initialSettings: SettingsData;
     logs: LogEntry[];
     onClearLogs: () => void;
     lastError?: string;
     tokenStats?: TokenStats;
+    // Disponível apenas com login e a criptografia desbloqueada
+    encryption?: {
+        onChangePassphrase: (current: string, next: string) => Promise<void>;
+        onRotateKey: (passphrase: string) => Promise<void>;
+    };
 }
 
 type ValidationStatus = 'idle' | 'loading' | 'success' | 'error';
-interface ApiValidationState {
-    openai: { status: ValidationStatus; message: string };
-    grok: { status: ValidationStatus; message: string };
-}
-
+type ApiValidationState = Record<LLMProviderId, { status: ValidationStatus; message: string }>;
 
-const PLAUS_NOTE_REFERENCE = `Este é um exemplo de um prompt de anamnese detalhado que você pode usar como base para criar o seu.
-
----
-[NOME DO PACIENTE]
-(escreva o nome do paciente conforme sea detectado no audio)
-
-[QUEIXA PRINCIPAL]
-(descreva com as palavras do paciente)
-... (restante do prompt de referência)
----`;
 
 const CloseIcon: React.FC<{ className?: string }> = ({ className }) => (
     <svg xmlns="http://www.w3.org/2000/svg" className={className} viewBox="0 0 24 24" fill="currentColor">
@@ -105,30 +107,31 @@ const voices: { id: PrebuiltVoice; name: string }[] = [
     { id: 'Fenrir', name: 'Fenrir' },
 ];
 
-const insightProviders: { id: InsightProvider; name: string }[] = [
-    { id: 'gemini', name: 'Google Gemini' },
-    { id: 'openai', name: 'OpenAI' },
-    { id: 'grok', name: 'Grok (xAI)' },
+const anamnesisUpdateModes: { id: AnamnesisUpdateMode; name: string; description: string }[] = [
+    { id: 'incremental', name: 'Incremental', description: 'Envia apenas as novas falas e mescla as seções alteradas' },
+    { id: 'full', name: 'Completa', description: 'Reenvia toda a transcrição a cada turno' },
 ];
 
+const providerOptionLabels: Record<ProviderOptionField, { label: string; placeholder: string }> = {
+    baseUrl: { label: 'URL base', placeholder: 'https://...' },
+    model: { label: 'Modelo', placeholder: 'Nome do modelo ou implantação' },
+    apiVersion: { label: 'Versão da API', placeholder: '2024-06-01' },
+};
 
-export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave, onResetPrompt, initialSettings, logs, onClearLogs, lastError, tokenStats }) => {
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, onSave, initialSettings, logs, onClearLogs, lastError, tokenStats, encryption }) => {
     const [settings, setSettings] = useState<SettingsData>(initialSettings);
-    const [activeTab, setActiveTab] = useState<'firebase' | 'prompt' | 'appearance' | 'apis' | 'integrations' | 'diagnostics'>('firebase');
+    const [activeTab, setActiveTab] = useState<'firebase' | 'prompt' | 'appearance' | 'transcription' | 'apis' | 'integrations' | 'security' | 'diagnostics'>('firebase');
     const fileInputRef = useRef<HTMLInputElement>(null);
-    const [validationStatus, setValidationStatus] = useState<ApiValidationState>({
-        openai: { status: 'idle', message: '' },
-        grok: { status: 'idle', message: '' },
-    });
+    const [validationStatus, setValidationStatus] = useState<ApiValidationState>({});
     const [copyStatus, setCopyStatus] = useState('Copiar');
+    const [editingTemplateId, setEditingTemplateId] = useState(initialSettings.defaultTemplateId);
 
     useEffect(() => {
         if (isOpen) {
             setSettings(initialSettings);
-            setValidationStatus({
-                openai: { status: 'idle', message: '' },
-                grok: { status: 'idle', message: '' },
-            });
+            setEditingTemplateId(initialSettings.defaultTemplateId);
+            setValidationStatus({});
         }
     }, [initialSettings, isOpen]);
 
@@ -141,8 +144,30 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     };
 
     const handleReset = () => {
-        const defaultPrompt = onResetPrompt();
-        setSettings(prev => ({ ...prev, prompt: defaultPrompt }));
+        setSettings(prev => ({ ...prev, defaultTemplateId: DEFAULT_TEMPLATE_ID }));
+        setEditingTemplateId(DEFAULT_TEMPLATE_ID);
+    };
+
+    const updateTemplate = (id: string, updates: Partial<AnamnesisTemplate>) => {
+        setSettings(prev => ({
+            ...prev,
+            templates: prev.templates.map(t => t.id === id ? { ...t, ...updates } : t),
+        }));
+    };
+
+    const handleDuplicateTemplate = (template: AnamnesisTemplate) => {
+        const copy = createCustomTemplate(`${template.name} (cópia)`, template.prompt, template.specialty);
+        setSettings(prev => ({ ...prev, templates: [...prev.templates, copy] }));
+        setEditingTemplateId(copy.id);
+    };
+
+    const handleDeleteTemplate = (id: string) => {
+        setSettings(prev => ({
+            ...prev,
+            templates: prev.templates.filter(t => t.id !== id),
+            defaultTemplateId: prev.defaultTemplateId === id ? DEFAULT_TEMPLATE_ID : prev.defaultTemplateId,
+        }));
+        setEditingTemplateId(DEFAULT_TEMPLATE_ID);
     };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -156,22 +181,38 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         }
     };
 
-    const handleTestApiKey = async (provider: 'openai' | 'grok') => {
-        const key = settings.apiKeys[provider];
-        if (!key) {
-            setValidationStatus(prev => ({ ...prev, [provider]: { status: 'error', message: 'A chave de API não pode estar vazia.' } }));
+    const handleTestApiKey = async (provider: LLMProvider) => {
+        const key = settings.apiKeys[provider.id] || provider.defaultApiKey?.() || '';
+        if (!key && provider.requiresApiKey) {
+            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'error', message: 'A chave de API não pode estar vazia.' } }));
             return;
         }
-        setValidationStatus(prev => ({ ...prev, [provider]: { status: 'loading', message: '' } }));
+        setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'loading', message: '' } }));
         try {
-            const isValid = provider === 'openai' ? await validateOpenAIApiKey(key) : await validateGrokApiKey(key);
+            const isValid = await validateProviderApiKey(provider.id, key, settings.providerOptions[provider.id]);
             if (isValid) {
-                setValidationStatus(prev => ({ ...prev, [provider]: { status: 'success', message: 'Sucesso!' } }));
+                setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'success', message: 'Sucesso!' } }));
             } else {
                 throw new Error("Chave de API inválida ou expirada.");
             }
         } catch (error: any) {
-            setValidationStatus(prev => ({ ...prev, [provider]: { status: 'error', message: error.message || 'Falha no teste.' } }));
+            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'error', message: error.message || 'Falha no teste.' } }));
+        }
+    };
+
+    const handleTestLocalEndpoint = async (provider: LLMProvider) => {
+        const options = settings.providerOptions[provider.id] || {};
+        setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'loading', message: '' } }));
+        try {
+            const models = await validateLocalEndpoint(options.baseUrl || '', settings.apiKeys[provider.id]);
+            const model = options.model || provider.defaultModel;
+            if (models.length > 0 && !models.includes(model)) {
+                setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'error', message: `Conectado, mas o modelo "${model}" não está disponível. Modelos: ${models.join(', ')}` } }));
+                return;
+            }
+            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'success', message: `Conectado! ${models.length} modelo(s) disponível(is).` } }));
+        } catch (error: any) {
+            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'error', message: error.message || 'Falha no teste.' } }));
         }
     };
 
@@ -231,31 +272,109 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         </div>
     );
 
-    const renderPromptTab = () => (
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-6">
-            <div>
-                <h3 className="text-lg font-semibold mb-2 text-primary">Seu Prompt de Anamnese</h3>
-                <p className="text-sm text-secondary mb-4">
-                    Edite o texto abaixo para definir como a IA deve estruturar a anamnese.
-                </p>
-                <textarea
-                    value={settings.prompt}
-                    onChange={(e) => setSettings(prev => ({ ...prev, prompt: e.target.value }))}
-                    className="w-full h-96 bg-primary border border-secondary rounded-md p-3 text-sm font-mono focus:ring-2 focus-ring focus:border-accent transition-colors resize-y"
-                    placeholder="Digite seu prompt aqui..."
-                />
-            </div>
-            <div>
-                <h3 className="text-lg font-semibold mb-2 text-primary">Referência de Prompt</h3>
-                <p className="text-sm text-secondary mb-4">
-                    Use este exemplo como inspiração.
-                </p>
-                <div className="bg-primary/50 border border-primary rounded-md p-4 text-sm text-secondary whitespace-pre-wrap h-96 overflow-y-auto">
-                    {PLAUS_NOTE_REFERENCE}
+    const renderPromptTab = () => {
+        const editingTemplate = findTemplate(settings.templates, editingTemplateId);
+        return (
+            <div className="pt-6">
+                <div className="border-b border-primary pb-6 mb-6">
+                    <h3 className="text-lg font-semibold mb-2 text-primary">Atualização da Anamnese</h3>
+                    <p className="text-sm text-secondary mb-4">
+                        Define como a anamnese é atualizada a cada turno no modo ao vivo.
+                    </p>
+                    <div className="flex flex-wrap gap-3">
+                        {anamnesisUpdateModes.map(mode => (
+                            <button
+                                key={mode.id}
+                                onClick={() => setSettings(prev => ({ ...prev, anamnesisUpdateMode: mode.id }))}
+                                className={`px-4 py-2 text-left rounded-md border-2 transition-colors ${settings.anamnesisUpdateMode === mode.id ? 'border-accent bg-accent/10' : 'border-primary hover:border-secondary'}`}
+                            >
+                                <div className="text-sm font-semibold text-primary">{mode.name}</div>
+                                <div className="text-xs text-tertiary">{mode.description}</div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                        <h3 className="text-lg font-semibold mb-2 text-primary">Modelos de Anamnese</h3>
+                        <p className="text-sm text-secondary mb-4">
+                            Os modelos embutidos não podem ser editados; duplique um deles para criar o seu.
+                        </p>
+                        <div className="space-y-2">
+                            {settings.templates.map(template => (
+                                <button
+                                    key={template.id}
+                                    onClick={() => setEditingTemplateId(template.id)}
+                                    className={`w-full text-left p-3 rounded-md border transition-colors ${editingTemplate.id === template.id ? 'border-accent bg-accent/10' : 'border-primary hover:bg-gray-500/10'}`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <span className="text-sm font-medium text-primary truncate">{template.name}</span>
+                                        {settings.defaultTemplateId === template.id && (
+                                            <span className="text-xs px-2 py-0.5 rounded bg-green-600/30 text-green-300 border border-green-700/40">Padrão</span>
+                                        )}
+                                    </div>
+                                    <div className="text-xs text-tertiary">{template.specialty}{template.builtIn ? ' · embutido' : ''}</div>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="md:col-span-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                            <h3 className="text-lg font-semibold text-primary">{editingTemplate.name}</h3>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => setSettings(prev => ({ ...prev, defaultTemplateId: editingTemplate.id }))}
+                                    disabled={settings.defaultTemplateId === editingTemplate.id}
+                                    className="px-3 py-1.5 text-xs font-medium rounded-md btn-secondary text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                                >
+                                    Definir como padrão
+                                </button>
+                                <button
+                                    onClick={() => handleDuplicateTemplate(editingTemplate)}
+                                    className="px-3 py-1.5 text-xs font-medium rounded-md btn-secondary text-white"
+                                >
+                                    Duplicar
+                                </button>
+                                {!editingTemplate.builtIn && (
+                                    <button
+                                        onClick={() => handleDeleteTemplate(editingTemplate.id)}
+                                        className="px-3 py-1.5 text-xs font-medium rounded-md btn-danger text-white"
+                                    >
+                                        Excluir
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                        {!editingTemplate.builtIn && (
+                            <div className="grid grid-cols-2 gap-3 mb-3">
+                                <input
+                                    type="text"
+                                    value={editingTemplate.name}
+                                    onChange={(e) => updateTemplate(editingTemplate.id, { name: e.target.value })}
+                                    className="w-full bg-primary border border-secondary rounded-md p-2 text-sm focus:ring-2 focus-ring focus:border-accent"
+                                    placeholder="Nome do modelo"
+                                />
+                                <input
+                                    type="text"
+                                    value={editingTemplate.specialty}
+                                    onChange={(e) => updateTemplate(editingTemplate.id, { specialty: e.target.value })}
+                                    className="w-full bg-primary border border-secondary rounded-md p-2 text-sm focus:ring-2 focus-ring focus:border-accent"
+                                    placeholder="Especialidade"
+                                />
+                            </div>
+                        )}
+                        <textarea
+                            value={editingTemplate.prompt}
+                            onChange={(e) => updateTemplate(editingTemplate.id, { prompt: e.target.value })}
+                            readOnly={editingTemplate.builtIn}
+                            className="w-full h-96 bg-primary border border-secondary rounded-md p-3 text-sm font-mono focus:ring-2 focus-ring focus:border-accent transition-colors resize-y read-only:opacity-75"
+                            placeholder="Digite seu prompt aqui..."
+                        />
+                    </div>
                 </div>
             </div>
-        </div>
-    );
+        );
+    };
 
     const renderAppearanceTab = () => (
         <div className='pt-6'>
@@ -355,8 +474,272 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         </div>
     );
 
-    const ApiKeyInput = ({ provider, label, placeholder }: { provider: 'openai' | 'grok', label: string, placeholder: string }) => {
-        const { status, message } = validationStatus[provider];
+    const updateTranscription = (updates: Partial<TranscriptionSettings>) => {
+        setSettings(prev => ({ ...prev, transcription: { ...prev.transcription, ...updates } }));
+    };
+
+    const updateWhisper = (updates: Partial<WhisperSettings>) => {
+        setSettings(prev => ({ ...prev, transcription: { ...prev.transcription, whisper: { ...prev.transcription.whisper, ...updates } } }));
+    };
+
+    const updateVad = (updates: Partial<VadSettings>) => {
+        setSettings(prev => ({ ...prev, transcription: { ...prev.transcription, vad: { ...prev.transcription.vad, ...updates } } }));
+    };
+
+    const updateAudioArchive = (updates: Partial<AudioArchiveSettings>) => {
+        setSettings(prev => ({ ...prev, audioArchive: { ...prev.audioArchive, ...updates } }));
+    };
+
+    const renderTranscriptionTab = () => (
+        <div className='pt-6'>
+            <div className="border-b border-primary pb-6 mb-6">
+                <h3 className="text-lg font-semibold mb-2 text-primary">Motor de Transcrição</h3>
+                <p className="text-sm text-secondary mb-4">
+                    Escolha como o áudio da consulta é convertido em texto.
+                </p>
+                <div className="space-y-2">
+                    {TRANSCRIPTION_ENGINES.map(engine => (
+                        <label key={engine.id} className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${settings.transcription.engine === engine.id ? 'border-accent bg-primary/50' : 'border-primary hover:border-secondary'}`}>
+                            <input
+                                type="radio"
+                                name="transcription-engine"
+                                checked={settings.transcription.engine === engine.id}
+                                onChange={() => updateTranscription({ engine: engine.id })}
+                                className="mt-1 accent-accent"
+                            />
+                            <div>
+                                <div className="text-sm font-semibold text-primary">{engine.name}</div>
+                                <div className="text-xs text-tertiary">{engine.description}</div>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+                <label className="flex items-center gap-2 mt-4 text-sm text-secondary">
+                    <input
+                        type="checkbox"
+                        checked={settings.transcription.fallbackEnabled}
+                        onChange={(e) => updateTranscription({ fallbackEnabled: e.target.checked })}
+                        className="accent-accent"
+                    />
+                    Alternar automaticamente para outro motor se o atual falhar durante a sessão
+                </label>
+                <label className="flex items-center gap-2 mt-2 text-sm text-secondary">
+                    <input
+                        type="checkbox"
+                        checked={settings.transcription.dualTrackCaptions}
+                        onChange={(e) => updateTranscription({ dualTrackCaptions: e.target.checked })}
+                        className="accent-accent"
+                    />
+                    Legendas provisórias instantâneas (Web Speech) enquanto a transcrição principal é processada
+                </label>
+                <p className="text-xs text-tertiary mt-1 ml-6">
+                    Sem custo adicional. Desativadas automaticamente com motores locais e com o próprio motor Web Speech.
+                </p>
+                {settings.transcription.engine === 'whisper' && settings.transcription.fallbackEnabled && (
+                    <p className="text-xs text-green-400 mt-2">
+                        Whisper local só alterna para outros motores locais: o áudio não é enviado à nuvem.
+                    </p>
+                )}
+            </div>
+
+            <div className="border-b border-primary pb-6 mb-6">
+                <h3 className="text-lg font-semibold mb-2 text-primary">Geral</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="transcription-language" className="block text-sm font-medium text-secondary mb-1">Idioma</label>
+                        <input
+                            id="transcription-language"
+                            type="text"
+                            value={settings.transcription.language}
+                            onChange={(e) => updateTranscription({ language: e.target.value })}
+                            className="w-full bg-primary border border-secondary rounded-md p-2.5 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="batch-silence" className="block text-sm font-medium text-secondary mb-1">
+                            Silêncio para fechar um trecho: <span className="font-bold text-primary">{(settings.transcription.batchSilenceMs / 1000).toFixed(1)}s</span>
+                        </label>
+                        <input
+                            id="batch-silence"
+                            type="range"
+                            min="500"
+                            max="5000"
+                            step="250"
+                            value={settings.transcription.batchSilenceMs}
+                            onChange={(e) => updateTranscription({ batchSilenceMs: parseInt(e.target.value, 10) })}
+                            className="w-full h-2 bg-primary/50 rounded-lg appearance-none cursor-pointer accent-accent"
+                        />
+                        <p className="text-xs text-tertiary mt-1">Usado pelos motores Gemini (pacotes) e Whisper local.</p>
+                    </div>
+                </div>
+            </div>
+
+            <div className="border-b border-primary pb-6 mb-6">
+                <h3 className="text-lg font-semibold mb-2 text-primary">Detecção de Voz</h3>
+                <p className="text-sm text-secondary mb-4">
+                    Decide onde há fala para cortar os trechos nos motores Gemini (pacotes) e Whisper local e na importação de áudio. O modo adaptativo mede o ruído da sala no início da gravação e continua acompanhando-o.
+                </p>
+                <div className="flex gap-4 mb-4">
+                    {([['adaptive', 'Adaptativa (recomendado)'], ['fixed', 'Limiar fixo de volume']] as [VadMode, string][]).map(([mode, label]) => (
+                        <label key={mode} className="flex items-center gap-2 text-sm text-secondary cursor-pointer">
+                            <input
+                                type="radio"
+                                name="vad-mode"
+                                checked={settings.transcription.vad.mode === mode}
+                                onChange={() => updateVad({ mode })}
+                                className="accent-accent"
+                            />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {settings.transcription.vad.mode === 'adaptive' ? (
+                        <>
+                            <div>
+                                <label htmlFor="vad-sensitivity" className="block text-sm font-medium text-secondary mb-1">
+                                    Sensibilidade: <span className="font-bold text-primary">{Math.round(settings.transcription.vad.sensitivity * 100)}%</span>
+                                </label>
+                                <input
+                                    id="vad-sensitivity"
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    value={settings.transcription.vad.sensitivity}
+                                    onChange={(e) => updateVad({ sensitivity: parseFloat(e.target.value) })}
+                                    className="w-full h-2 bg-primary/50 rounded-lg appearance-none cursor-pointer accent-accent"
+                                />
+                                <p className="text-xs text-tertiary mt-1">Aumente se falas baixas são perdidas; diminua se ruídos viram trechos.</p>
+                            </div>
+                            <div>
+                                <label htmlFor="vad-calibration" className="block text-sm font-medium text-secondary mb-1">
+                                    Calibração do ruído: <span className="font-bold text-primary">{(settings.transcription.vad.calibrationMs / 1000).toFixed(1)}s</span>
+                                </label>
+                                <input
+                                    id="vad-calibration"
+                                    type="range"
+                                    min="500"
+                                    max="5000"
+                                    step="250"
+                                    value={settings.transcription.vad.calibrationMs}
+                                    onChange={(e) => updateVad({ calibrationMs: parseInt(e.target.value, 10) })}
+                                    className="w-full h-2 bg-primary/50 rounded-lg appearance-none cursor-pointer accent-accent"
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="vad-hangover" className="block text-sm font-medium text-secondary mb-1">
+                                    Pausa mantida como fala: <span className="font-bold text-primary">{settings.transcription.vad.hangoverMs} ms</span>
+                                </label>
+                                <input
+                                    id="vad-hangover"
+                                    type="range"
+                                    min="100"
+                                    max="1500"
+                                    step="50"
+                                    value={settings.transcription.vad.hangoverMs}
+                                    onChange={(e) => updateVad({ hangoverMs: parseInt(e.target.value, 10) })}
+                                    className="w-full h-2 bg-primary/50 rounded-lg appearance-none cursor-pointer accent-accent"
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <div>
+                            <label htmlFor="vad-threshold" className="block text-sm font-medium text-secondary mb-1">
+                                Limiar de volume: <span className="font-bold text-primary">{settings.transcription.vad.fixedThreshold.toFixed(3)}</span>
+                            </label>
+                            <input
+                                id="vad-threshold"
+                                type="range"
+                                min="0.002"
+                                max="0.05"
+                                step="0.001"
+                                value={settings.transcription.vad.fixedThreshold}
+                                onChange={(e) => updateVad({ fixedThreshold: parseFloat(e.target.value) })}
+                                className="w-full h-2 bg-primary/50 rounded-lg appearance-none cursor-pointer accent-accent"
+                            />
+                            <p className="text-xs text-tertiary mt-1">Qualquer som acima deste volume conta como fala.</p>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            <div className="border-b border-primary pb-6 mb-6">
+                <h3 className="text-lg font-semibold mb-2 text-primary">Gravação da Consulta</h3>
+                <p className="text-sm text-secondary mb-4">
+                    Guarda o áudio da consulta (Opus, cerca de 14 MB por hora) para ouvir depois a partir da transcrição. Informe o paciente antes de gravar.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-secondary">
+                    <input
+                        type="checkbox"
+                        checked={settings.audioArchive.enabled}
+                        onChange={(e) => updateAudioArchive({ enabled: e.target.checked })}
+                        className="accent-accent"
+                    />
+                    Gravar o áudio das consultas
+                </label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mt-4">
+                    <div>
+                        <label htmlFor="audio-destination" className="block text-sm font-medium text-secondary mb-1">Onde guardar</label>
+                        <select
+                            id="audio-destination"
+                            value={settings.audioArchive.destination}
+                            onChange={(e) => updateAudioArchive({ destination: e.target.value as AudioArchiveDestination })}
+                            className="w-full bg-primary border border-secondary rounded-md p-2.5 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                        >
+                            {(Object.keys(AUDIO_DESTINATION_LABELS) as AudioArchiveDestination[]).map(destination => (
+                                <option key={destination} value={destination}>{AUDIO_DESTINATION_LABELS[destination]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="audio-retention" className="block text-sm font-medium text-secondary mb-1">Manter gravações por</label>
+                        <select
+                            id="audio-retention"
+                            value={settings.audioArchive.retentionDays}
+                            onChange={(e) => updateAudioArchive({ retentionDays: parseInt(e.target.value, 10) })}
+                            className="w-full bg-primary border border-secondary rounded-md p-2.5 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                        >
+                            <option value={7}>7 dias</option>
+                            <option value={30}>30 dias</option>
+                            <option value={90}>90 dias</option>
+                            <option value={365}>1 ano</option>
+                            <option value={0}>Sem prazo</option>
+                        </select>
+                    </div>
+                </div>
+                <p className="text-xs text-tertiary mt-2">
+                    Ao fim do prazo a gravação é apagada deste aparelho e do destino remoto; a transcrição e a anamnese são mantidas.
+                    {settings.audioArchive.destination === 'drive' && ' O envio ao Drive usa a pasta configurada em Integrações.'}
+                </p>
+            </div>
+
+            <div>
+                <h3 className="text-lg font-semibold mb-2 text-primary">Servidor Whisper</h3>
+                <p className="text-sm text-secondary mb-4">
+                    Servidor compatível com o endpoint <code>/v1/audio/transcriptions</code> da OpenAI (faster-whisper-server, whisper.cpp, LocalAI).
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                    <div>
+                        <label htmlFor="whisper-url" className="block text-xs text-tertiary mb-1">URL base</label>
+                        <input id="whisper-url" type="text" value={settings.transcription.whisper.baseUrl} onChange={(e) => updateWhisper({ baseUrl: e.target.value })} placeholder="http://localhost:8000/v1" className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent" />
+                    </div>
+                    <div>
+                        <label htmlFor="whisper-model" className="block text-xs text-tertiary mb-1">Modelo</label>
+                        <input id="whisper-model" type="text" value={settings.transcription.whisper.model} onChange={(e) => updateWhisper({ model: e.target.value })} className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent" />
+                    </div>
+                    <div>
+                        <label htmlFor="whisper-key" className="block text-xs text-tertiary mb-1">Chave da API</label>
+                        <input id="whisper-key" type="password" value={settings.transcription.whisper.apiKey} onChange={(e) => updateWhisper({ apiKey: e.target.value })} placeholder="Opcional" className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent" />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+
+    const ApiKeyInput = ({ provider }: { provider: LLMProvider }) => {
+        const { status, message } = validationStatus[provider.id] || { status: 'idle', message: '' };
+        const options = settings.providerOptions[provider.id] || {};
         let statusIndicator = null;
         if (status === 'loading') {
             statusIndicator = <svg className="animate-spin h-5 w-5 text-secondary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>;
@@ -365,24 +748,48 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
         } else if (status === 'error') {
             statusIndicator = <ExclamationCircleIcon className="h-5 w-5 text-red-400" />;
         }
+        const updateOption = (field: ProviderOptionField, value: string) => {
+            setSettings(prev => ({
+                ...prev,
+                providerOptions: { ...prev.providerOptions, [provider.id]: { ...prev.providerOptions[provider.id], [field]: value } },
+            }));
+            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'idle', message: '' } }));
+        };
         return (
             <div>
-                <label htmlFor={`${provider}-key`} className="block text-sm font-medium text-secondary mb-1">{label}</label>
+                <label htmlFor={`${provider.id}-key`} className="block text-sm font-medium text-secondary mb-1">Chave da API {provider.name}</label>
                 <div className="flex items-center gap-2">
                     <input
-                        id={`${provider}-key`}
+                        id={`${provider.id}-key`}
                         type="password"
-                        placeholder={placeholder}
-                        value={settings.apiKeys[provider]}
+                        placeholder={provider.defaultApiKey ? 'Opcional: usa a chave do ambiente' : provider.requiresApiKey ? 'Chave da API...' : 'Opcional'}
+                        value={settings.apiKeys[provider.id] || ''}
                         onChange={(e) => {
-                            setSettings(prev => ({ ...prev, apiKeys: { ...prev.apiKeys, [provider]: e.target.value } }));
-                            setValidationStatus(prev => ({ ...prev, [provider]: { status: 'idle', message: '' } }));
+                            setSettings(prev => ({ ...prev, apiKeys: { ...prev.apiKeys, [provider.id]: e.target.value } }));
+                            setValidationStatus(prev => ({ ...prev, [provider.id]: { status: 'idle', message: '' } }));
                         }}
                         className="flex-grow bg-primary border border-secondary rounded-md p-2.5 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
                     />
-                    <button onClick={() => handleTestApiKey(provider)} disabled={status === 'loading'} className="px-4 py-2 text-sm font-semibold text-primary bg-primary/50 border border-secondary rounded-md hover:bg-primary transition-colors disabled:opacity-50">Testar</button>
+                    <button onClick={() => provider.isLocal ? handleTestLocalEndpoint(provider) : handleTestApiKey(provider)} disabled={status === 'loading'} className="px-4 py-2 text-sm font-semibold text-primary bg-primary/50 border border-secondary rounded-md hover:bg-primary transition-colors disabled:opacity-50">Testar</button>
                     <div className="w-5 h-5">{statusIndicator}</div>
                 </div>
+                {provider.optionFields.length > 0 && (
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 mt-2">
+                        {provider.optionFields.map(field => (
+                            <div key={field}>
+                                <label htmlFor={`${provider.id}-${field}`} className="block text-xs text-tertiary mb-1">{providerOptionLabels[field].label}</label>
+                                <input
+                                    id={`${provider.id}-${field}`}
+                                    type="text"
+                                    placeholder={field === 'model' && provider.defaultModel ? provider.defaultModel : providerOptionLabels[field].placeholder}
+                                    value={options[field] || ''}
+                                    onChange={(e) => updateOption(field, e.target.value)}
+                                    className="w-full bg-primary border border-secondary rounded-md p-2 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
                 {message && <p className={`text-xs mt-1 ${status === 'success' ? 'text-green-400' : 'text-red-400'}`}>{message}</p>}
             </div>
         );
@@ -393,24 +800,30 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
             <div className="border-b border-primary pb-6 mb-6">
                 <h3 className="text-lg font-semibold mb-2 text-primary">Provedor de Insights</h3>
                 <p className="text-sm text-secondary mb-4">
-                    Escolha qual modelo de IA será usado para gerar o "Fluxo de Consciência".
+                    Escolha qual modelo de IA será usado para gerar o "Fluxo de Consciência". Os demais provedores configurados são usados como alternativa em caso de falha.
                 </p>
-                <div className="flex flex-col sm:flex-row gap-2 rounded-lg bg-primary/50 p-1 border border-secondary w-full sm:w-auto">
-                    {insightProviders.map(provider => (
+                <div className="flex flex-col sm:flex-row flex-wrap gap-2 rounded-lg bg-primary/50 p-1 border border-secondary w-full sm:w-auto">
+                    {llmProviderRegistry.list().map(provider => (
                         <button key={provider.id} onClick={() => setSettings(prev => ({ ...prev, insightsProvider: provider.id }))} className={`flex-1 px-4 py-2 text-sm font-semibold rounded-md transition-colors ${settings.insightsProvider === provider.id ? 'bg-accent text-primary-bg' : 'text-secondary hover:bg-primary'}`}>
                             {provider.name}
                         </button>
                     ))}
                 </div>
+                {llmProviderRegistry.get(settings.insightsProvider)?.isLocal && (
+                    <p className="text-xs text-green-400 mt-3">
+                        Modo offline: insights e anamnese são gerados apenas pelo servidor local, sem alternativa na nuvem.
+                    </p>
+                )}
             </div>
             <div>
                 <h3 className="text-lg font-semibold mb-2 text-primary">Chaves de API</h3>
                 <p className="text-sm text-secondary mb-4">
-                    Insira e teste suas chaves de API. A chave do Gemini é gerenciada pelo ambiente do aplicativo.
+                    Insira e teste suas chaves de API. Sem chave informada, o Gemini usa a chave do ambiente do aplicativo.
                 </p>
                 <div className="space-y-6">
-                    <ApiKeyInput provider="openai" label="Chave da API OpenAI" placeholder="sk-..." />
-                    <ApiKeyInput provider="grok" label="Chave da API Grok (xAI)" placeholder="Chave da API..." />
+                    {llmProviderRegistry.list().map(provider => (
+                        <ApiKeyInput key={provider.id} provider={provider} />
+                    ))}
                 </div>
             </div>
         </div>
@@ -419,6 +832,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
     const renderIntegrationsTab = () => (
         <div className='pt-6'>
             <GoogleDriveSettings settings={settings.gdrive} onSettingsChange={(gdriveSettings) => setSettings(prev => ({ ...prev, gdrive: gdriveSettings }))} />
+            <FhirSettings baseUrl={settings.fhirBaseUrl} onBaseUrlChange={(fhirBaseUrl) => setSettings(prev => ({ ...prev, fhirBaseUrl }))} />
         </div>
     );
 
@@ -515,6 +929,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                                     </div>
                                 </div>
                             </div>
+                            {tokenStats.patchSavings.patchCalls > 0 && (
+                                <div className="text-sm text-secondary bg-green-600/10 border border-green-700/30 rounded p-2">
+                                    Atualizações incrementais: {tokenStats.patchSavings.patchCalls} · {tokenStats.patchSavings.actualTokens.toLocaleString()} tokens usados vs. ~{tokenStats.patchSavings.estimatedFullTokens.toLocaleString()} na regeneração completa
+                                    {' '}(<span className="text-green-300 font-semibold">~{tokenStats.patchSavings.savedTokens.toLocaleString()} economizados</span>)
+                                </div>
+                            )}
                             <div className="text-xs text-tertiary pt-2 border-t border-primary/30">
                                 💡 Estatísticas resetam ao iniciar uma nova sessão. Tokens mostram uso via REST API (mais econômico que Live API).
                             </div>
@@ -537,24 +957,25 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                         <button
                             onClick={() => {
                                 try {
-                                    const backupData = localStorage.getItem('transcription_backup');
-                                    const backupTime = localStorage.getItem('transcription_backup_time');
+                                    // Backup mais recente entre as sessões guardadas
+                                    const [data] = sessionBackupService.list();
 
-                                    if (!backupData) {
+                                    if (!data) {
                                         alert('Nenhum backup encontrado no localStorage.');
                                         return;
                                     }
 
-                                    const data = JSON.parse(backupData);
-                                    const timestamp = backupTime ? new Date(parseInt(backupTime)).toLocaleString('pt-BR') : 'Desconhecido';
-
                                     // Cria arquivo JSON com backup completo
                                     const exportData = {
-                                        backupTimestamp: timestamp,
-                                        transcriptionHistory: data.transcriptionHistory || [],
-                                        anamnesis: data.anamnesis || '',
-                                        insights: data.insights || [],
-                                        sessionInfo: data.sessionInfo || null,
+                                        backupTimestamp: new Date(data.savedAt).toLocaleString('pt-BR'),
+                                        transcriptionHistory: data.transcriptionHistory,
+                                        anamnesis: data.anamnesis,
+                                        insights: data.insights,
+                                        sessionInfo: {
+                                            id: data.sessionId,
+                                            startTime: data.startTime.toISOString(),
+                                            location: data.location
+                                        },
                                         logs: logs.map(log => ({
                                             timestamp: log.timestamp.toISOString(),
                                             type: log.type,
@@ -603,8 +1024,12 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                             <button onClick={() => setActiveTab('firebase')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'firebase' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Firebase</button>
                             <button onClick={() => setActiveTab('prompt')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'prompt' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Prompt</button>
                             <button onClick={() => setActiveTab('appearance')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'appearance' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Aparência</button>
+                            <button onClick={() => setActiveTab('transcription')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'transcription' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Transcrição</button>
                             <button onClick={() => setActiveTab('apis')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'apis' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>APIs</button>
                             <button onClick={() => setActiveTab('integrations')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'integrations' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Integrações</button>
+                            {encryption && (
+                                <button onClick={() => setActiveTab('security')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'security' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Segurança</button>
+                            )}
                             <button onClick={() => setActiveTab('diagnostics')} className={`py-3 px-1 text-sm font-semibold border-b-2 ${activeTab === 'diagnostics' ? 'border-accent text-accent' : 'border-transparent text-secondary hover:text-primary'}`}>Diagnóstico</button>
                         </nav>
                     </div>
@@ -612,16 +1037,33 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, o
                     {activeTab === 'firebase' && renderFirebaseTab()}
                     {activeTab === 'prompt' && renderPromptTab()}
                     {activeTab === 'appearance' && renderAppearanceTab()}
+                    {activeTab === 'transcription' && renderTranscriptionTab()}
                     {activeTab === 'apis' && renderApisTab()}
                     {activeTab === 'integrations' && renderIntegrationsTab()}
+                    {activeTab === 'security' && encryption && (
+                        <div className='pt-6'>
+                            <EncryptionSettings onChangePassphrase={encryption.onChangePassphrase} onRotateKey={encryption.onRotateKey} />
+                        </div>
+                    )}
                     {activeTab === 'diagnostics' && (
-                        <DiagnosticsSection logs={logs} onClearLogs={onClearLogs} lastError={lastError} tokenStats={tokenStats} />
+                        <>
+                            <label className="flex items-center gap-2 pt-6 text-sm text-secondary">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.saveSessionLogs}
+                                    onChange={(e) => setSettings(prev => ({ ...prev, saveSessionLogs: e.target.checked }))}
+                                    className="accent-accent"
+                                />
+                                Salvar um trecho dos logs junto com cada sessão
+                            </label>
+                            <DiagnosticsSection logs={logs} onClearLogs={onClearLogs} lastError={lastError} tokenStats={tokenStats} />
+                        </>
                     )}
 
                 </main>
 
                 <footer className="flex justify-between items-center p-4 border-t border-primary flex-shrink-0 gap-4">
-                    <button onClick={handleReset} disabled={activeTab !== 'prompt'} className="px-4 py-2 text-sm font-medium text-secondary rounded-md hover:bg-gray-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={activeTab !== 'prompt' ? 'Disponível apenas na aba de Prompt' : 'Restaurar prompt padrão'}>
+                    <button onClick={handleReset} disabled={activeTab !== 'prompt'} className="px-4 py-2 text-sm font-medium text-secondary rounded-md hover:bg-gray-500/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={activeTab !== 'prompt' ? 'Disponível apenas na aba de Prompt' : 'Restaurar modelo padrão'}>
                         Restaurar Padrão
                     </button>
                     <button onClick={handleSave} className="px-6 py-2 btn-primary text-white font-bold text-sm rounded-md transition-colors focus:outline-none focus:ring-2 focus-ring focus:ring-opacity-50">
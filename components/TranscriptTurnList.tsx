@@ -0,0 +1,65 @@
+import React from 'react';
+import { TranscriptTurn, Speaker, speakerLabels, formatTurnTimestamp } from '../utils/transcriptUtils';
+
+interface TranscriptTurnListProps {
+    turns: TranscriptTurn[];
+    onSpeakerChange?: (turnIndex: number, speaker: Speaker) => void;
+    onTurnSelect?: (turn: TranscriptTurn) => void; // Ouvir o trecho na gravação da consulta
+    activeTurnIndex?: number; // Turno em reprodução
+}
+
+const speakerStyles: Record<Speaker, string> = {
+    doctor: 'bg-blue-600/20 text-blue-300 border-blue-700/40',
+    patient: 'bg-green-600/20 text-green-300 border-green-700/40',
+    unknown: 'bg-slate-600/20 text-slate-300 border-slate-700/40',
+};
+
+const speakerOptions = Object.keys(speakerLabels) as Speaker[];
+
+export const TranscriptTurnList: React.FC<TranscriptTurnListProps> = ({ turns, onSpeakerChange, onTurnSelect, activeTurnIndex }) => {
+    return (
+        <>
+            {turns.map((turn, index) => (
+                <div key={index} className={`mb-4 ${index === activeTurnIndex ? 'border-l-2 border-accent pl-2' : ''}`}>
+                    <div className="flex items-center gap-2 mb-1">
+                        {onSpeakerChange ? (
+                            <select
+                                value={turn.speaker}
+                                onChange={(e) => onSpeakerChange(index, e.target.value as Speaker)}
+                                className={`px-2 py-0.5 text-xs font-semibold rounded border bg-transparent cursor-pointer focus:outline-none focus:ring-1 focus-ring ${speakerStyles[turn.speaker]}`}
+                                title="Alterar locutor"
+                            >
+                                {speakerOptions.map(speaker => (
+                                    <option key={speaker} value={speaker} className="bg-panel-solid text-primary">
+                                        {speakerLabels[speaker]}
+                                    </option>
+                                ))}
+                            </select>
+                        ) : (
+                            <span className={`px-2 py-0.5 text-xs font-semibold rounded border ${speakerStyles[turn.speaker]}`}>
+                                {speakerLabels[turn.speaker]}
+                            </span>
+                        )}
+                        {turn.endMs > 0 && (onTurnSelect ? (
+                            <button
+                                onClick={() => onTurnSelect(turn)}
+                                className="text-xs text-accent hover:underline"
+                                title="Ouvir este trecho"
+                            >
+                                ▶ {formatTurnTimestamp(turn.startMs)}
+                            </button>
+                        ) : (
+                            <span className="text-xs text-tertiary">{formatTurnTimestamp(turn.startMs)}</span>
+                        ))}
+                        {turn.confidence > 0 && turn.confidence < 0.5 && (
+                            <span className="text-xs text-tertiary italic" title="Locutor identificado com baixa confiança">
+                                (verificar)
+                            </span>
+                        )}
+                    </div>
+                    <p className="text-secondary whitespace-pre-wrap">{turn.text}</p>
+                </div>
+            ))}
+        </>
+    );
+};
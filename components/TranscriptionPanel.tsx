@@ -1,20 +1,28 @@
 import React, { useRef, useEffect, useState } from 'react';
+import { TranscriptTurn, Speaker, formatTurnsAsDialogue } from '../utils/transcriptUtils';
+import { TranscriptTurnList } from './TranscriptTurnList';
+import { AnamnesisView } from './AnamnesisView';
+import { AnamnesisDocument, anamnesisToText, isAnamnesisEmpty } from '../services/anamnesisSchema';
+import { CaptionSegment } from '../services/liveCaptionTrack';
+import type { SerializableLocation } from '../App';
 
 type Tab = 'transcription' | 'anamnesis';
 
 interface SessionInfo {
     startTime: Date;
-    location: GeolocationPosition | null;
+    location: SerializableLocation | null;
 }
 
 interface TranscriptionPanelProps {
-    history: string[];
-    anamnesis: string;
+    history: TranscriptTurn[];
+    captions?: CaptionSegment[]; // Legendas provisórias, substituídas quando a transcrição principal chega
+    anamnesis: AnamnesisDocument | null;
     isAnamnesisLoading: boolean;
     sessionInfo: SessionInfo | null;
     anamnesisMode: 'live' | 'manual';
     onToggleAnamnesisMode: () => void;
     onGenerateAnamnesis: () => void;
+    onSpeakerChange: (turnIndex: number, speaker: Speaker) => void;
 }
 
 const DownloadIcon: React.FC<{className?: string}> = ({ className }) => (
@@ -33,13 +41,13 @@ const formatDate = (date: Date) => {
     });
 };
 
-export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history, anamnesis, isAnamnesisLoading, sessionInfo, anamnesisMode, onToggleAnamnesisMode, onGenerateAnamnesis }) => {
+export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history, captions = [], anamnesis, isAnamnesisLoading, sessionInfo, anamnesisMode, onToggleAnamnesisMode, onGenerateAnamnesis, onSpeakerChange }) => {
     const endOfContentRef = useRef<HTMLDivElement>(null);
     const [activeTab, setActiveTab] = useState<Tab>('transcription');
 
     useEffect(() => {
         endOfContentRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [history, anamnesis, activeTab]);
+    }, [history, captions, anamnesis, activeTab]);
 
     const handleExport = () => {
         const sessionHeader = `Sessão iniciada em: ${sessionInfo ? formatDate(sessionInfo.startTime) : 'N/A'}\n`;
@@ -53,12 +61,12 @@ export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history,
         if (activeTab === 'transcription') {
             if (history.length === 0) return;
             const header = "Transcrição da Consulta\n";
-            content = sessionHeader + locationHeader + header + separator + history.join('\n\n');
+            content = sessionHeader + locationHeader + header + separator + formatTurnsAsDialogue(history);
             filename = `transcricao-${timestamp}.txt`;
         } else { // 'anamnesis' tab
-            if (!anamnesis) return;
+            if (!anamnesis || isAnamnesisEmpty(anamnesis)) return;
             const header = "Anamnese da Consulta\n";
-            content = sessionHeader + locationHeader + header + separator + anamnesis;
+            content = sessionHeader + locationHeader + header + separator + anamnesisToText(anamnesis);
             filename = `anamnese-${timestamp}.txt`;
         }
     
@@ -79,13 +87,20 @@ export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history,
         if (activeTab === 'transcription') {
             return (
                 <>
-                    {history.length > 0 ? (
-                        history.map((text, index) => (
-                            <p key={index} className="mb-4 text-secondary whitespace-pre-wrap">
-                                {text}
-                            </p>
-                        ))
-                    ) : (
+                    {history.length > 0 && (
+                        <TranscriptTurnList turns={history} onSpeakerChange={onSpeakerChange} />
+                    )}
+                    {captions.length > 0 && (
+                        <div className="mb-4 pl-3 border-l-2 border-dashed border-secondary" title="Legenda provisória do navegador; será substituída pela transcrição final">
+                            <span className="text-xs text-tertiary uppercase tracking-wide">Legenda provisória</span>
+                            {captions.map(caption => (
+                                <p key={caption.id} className={`text-tertiary italic whitespace-pre-wrap ${caption.isFinal ? '' : 'opacity-70'}`}>
+                                    {caption.text}
+                                </p>
+                            ))}
+                        </div>
+                    )}
+                    {history.length === 0 && captions.length === 0 && (
                         <div className="flex items-center justify-center h-full">
                             <p className="text-tertiary">A transcrição aparecerá aqui.</p>
                         </div>
@@ -97,8 +112,8 @@ export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history,
         if (activeTab === 'anamnesis') {
             return (
                 <>
-                    {anamnesis ? (
-                         <p className="text-secondary whitespace-pre-wrap">{anamnesis}</p>
+                    {anamnesis && !isAnamnesisEmpty(anamnesis) ? (
+                         <AnamnesisView anamnesis={anamnesis} />
                     ) : (
                         <div className="flex items-center justify-center h-full">
                             <p className="text-tertiary">A anamnese será gerada aqui.</p>
@@ -125,7 +140,7 @@ export const TranscriptionPanel: React.FC<TranscriptionPanelProps> = ({ history,
                     <h2 className="text-xl font-semibold text-accent">Registro da Sessão</h2>
                     <button
                         onClick={handleExport}
-                        disabled={(activeTab === 'transcription' && history.length === 0) || (activeTab === 'anamnesis' && !anamnesis)}
+                        disabled={(activeTab === 'transcription' && history.length === 0) || (activeTab === 'anamnesis' && isAnamnesisEmpty(anamnesis))}
                         className="flex items-center gap-2 px-3 py-1.5 btn-secondary text-white text-sm font-medium rounded-md transition-colors focus:outline-none focus:ring-2 focus-ring focus:ring-opacity-75 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed"
                         aria-label="Exportar"
                     >
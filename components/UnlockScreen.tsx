@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Logo } from './Logo';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface UnlockScreenProps {
+    mode: 'setup' | 'unlock'; // 'setup' quando o usuário ainda não criou a senha
+    userEmail: string | null;
+    onSubmit: (passphrase: string) => Promise<void>;
+    onSignOut: () => void;
+}
+
+export const UnlockScreen: React.FC<UnlockScreenProps> = ({ mode, userEmail, onSubmit, onSignOut }) => {
+    const [passphrase, setPassphrase] = useState('');
+    const [confirmation, setConfirmation] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        if (mode === 'setup') {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+                setError(`A senha deve ter pelo menos ${MIN_PASSPHRASE_LENGTH} caracteres.`);
+                return;
+            }
+            if (passphrase !== confirmation) {
+                setError('As senhas não coincidem.');
+                return;
+            }
+        }
+        setIsLoading(true);
+        try {
+            await onSubmit(passphrase);
+        } catch (err: any) {
+            setError(err.message || String(err));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    return (
+        <div className="h-screen w-screen flex flex-col items-center justify-center p-4 text-center">
+            <div className="mb-8">
+                <Logo logoDataUrl={null} size={48} />
+            </div>
+            <h1 className="text-3xl font-bold text-primary mb-2">
+                {mode === 'setup' ? 'Proteja seus dados' : 'Desbloquear dados'}
+            </h1>
+            <p className="text-secondary max-w-md mb-8">
+                {mode === 'setup'
+                    ? 'Crie uma senha de criptografia. Transcrições, anamneses e chaves de API serão criptografadas no navegador antes de serem salvas.'
+                    : `Digite sua senha de criptografia para acessar as sessões de ${userEmail ?? 'sua conta'}.`}
+            </p>
+            <form onSubmit={handleSubmit} className="w-full max-w-sm flex flex-col gap-3 text-left">
+                <input
+                    type="password"
+                    autoFocus
+                    autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="Senha de criptografia"
+                    className="w-full bg-primary border border-secondary rounded-md p-3 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                />
+                {mode === 'setup' && (
+                    <input
+                        type="password"
+                        autoComplete="new-password"
+                        value={confirmation}
+                        onChange={(e) => setConfirmation(e.target.value)}
+                        placeholder="Confirme a senha"
+                        className="w-full bg-primary border border-secondary rounded-md p-3 text-sm text-primary focus:ring-2 focus-ring focus:border-accent"
+                    />
+                )}
+                {mode === 'setup' && (
+                    <p className="text-xs text-yellow-400">
+                        A senha não pode ser recuperada. Se você esquecê-la, os dados criptografados ficarão inacessíveis.
+                    </p>
+                )}
+                {error && <p className="text-sm text-red-400">{error}</p>}
+                <button
+                    type="submit"
+                    disabled={isLoading || !passphrase}
+                    className="px-6 py-3 btn-primary text-white font-bold rounded-md transition-colors disabled:opacity-50 disabled:cursor-wait"
+                >
+                    {isLoading ? 'Processando...' : mode === 'setup' ? 'Criar senha e continuar' : 'Desbloquear'}
+                </button>
+            </form>
+            <button onClick={onSignOut} className="mt-6 text-sm text-secondary hover:text-primary underline">
+                Sair da conta
+            </button>
+        </div>
+    );
+};
@@ -1,4 +1,5 @@
 import React, { useRef, useEffect } from 'react';
+import type { VadResult } from '../services/voiceActivityDetector';
 
 export type WaveformStyle = 'line' | 'bars' | 'traktor';
 
@@ -6,13 +7,33 @@ interface WaveformVisualizerProps {
     stream: MediaStream;
     isListening: boolean;
     style: WaveformStyle;
+    voiceActivity?: VadResult | null; // Latest VAD decision; absent for engines that do not use it
 }
 
 const getThemeColor = (variableName: string, fallback: string): string => {
     return getComputedStyle(document.body).getPropertyValue(variableName).trim() || fallback;
 };
 
-export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream, isListening, style }) => {
+// Traktor RMS gain; also places the noise floor line on the waveform scale
+const VISUAL_GAIN = 5.0;
+
+// Badge with the current VAD decision, drawn over every style
+const drawVoiceActivityBadge = (ctx: CanvasRenderingContext2D, activity: VadResult, width: number) => {
+    const label = activity.calibrating ? 'Calibrando ruído' : activity.isSpeech ? 'Fala' : 'Silêncio';
+    const color = activity.calibrating ? '#facc15' : activity.isSpeech ? '#4ade80' : '#94a3b8';
+    ctx.font = '600 11px sans-serif';
+    const textWidth = ctx.measureText(label).width;
+    const x = width - textWidth - 30;
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.7)';
+    ctx.fillRect(x, 6, textWidth + 24, 18);
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.arc(x + 8, 15, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillText(label, x + 16, 19);
+};
+
+export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream, isListening, style, voiceActivity }) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
     const analyserRef = useRef<AnalyserNode | null>(null);
@@ -23,6 +44,11 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
     // Stores RMS (amplitude) values
     const waveformBufferRef = useRef<number[]>([]);
     const maxBufferPoints = 1000; // Adjust for scroll speed/density
+    // Parallel buffer with the VAD decision for each point, to shade the speech regions
+    const speechBufferRef = useRef<boolean[]>([]);
+    // Read inside the animation loop, so VAD updates do not restart the effect
+    const voiceActivityRef = useRef(voiceActivity);
+    voiceActivityRef.current = voiceActivity;
 
     useEffect(() => {
         if (!isListening || !stream) {
@@ -62,6 +88,7 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
         // Initialize buffer
         if (waveformBufferRef.current.length === 0) {
             waveformBufferRef.current = new Array(maxBufferPoints).fill(0);
+            speechBufferRef.current = new Array(maxBufferPoints).fill(false);
         }
 
         const dataArray = new Uint8Array(analyser.frequencyBinCount);
@@ -92,6 +119,7 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
             const accentColor = getThemeColor('--color-text-accent', '#00d4ff');
             const peakColor = getThemeColor('--color-waveform-peak', '#ffffff');
             const gridColor = 'rgba(255, 255, 255, 0.1)';
+            const activity = voiceActivityRef.current;
 
             if (style === 'traktor') {
                 // --- TRAKTOR STYLE SCROLLING WAVEFORM ---
@@ -106,11 +134,20 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
                 const rms = Math.sqrt(sum / dataArray.length);
 
                 // Amplify a bit for visual impact
-                const value = Math.min(1.0, rms * 5.0);
+                const value = Math.min(1.0, rms * VISUAL_GAIN);
 
                 // Update Buffer: Shift Left, Push New
                 waveformBufferRef.current.shift();
                 waveformBufferRef.current.push(value);
+                speechBufferRef.current.shift();
+                speechBufferRef.current.push(!!activity?.isSpeech);
+
+                // Shade the regions the VAD classified as speech
+                const barWidth = width / maxBufferPoints; // Ensure it fills the screen
+                ctx.fillStyle = 'rgba(74, 222, 128, 0.12)';
+                speechBufferRef.current.forEach((isSpeech, i) => {
+                    if (isSpeech) ctx.fillRect(i * barWidth, 0, barWidth + 0.5, height);
+                });
 
                 // Draw Grid/Center Line
                 ctx.beginPath();
@@ -131,7 +168,6 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
 
                 // Draw Mirrored Bars (creating a solid shape)
                 const buffer = waveformBufferRef.current;
-                const barWidth = width / maxBufferPoints; // Ensure it fills the screen
 
                 // Optimisation: Begin a path and fill it
                 ctx.beginPath();
@@ -157,6 +193,21 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
                 ctx.closePath();
                 ctx.fill();
 
+                // Estimated noise floor, mirrored like the waveform
+                if (activity && !activity.calibrating) {
+                    const floor = Math.min(1.0, Math.pow(10, activity.noiseFloorDb / 20) * VISUAL_GAIN) * (height / 2);
+                    ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)';
+                    ctx.lineWidth = 1;
+                    ctx.setLineDash([4, 4]);
+                    ctx.beginPath();
+                    ctx.moveTo(0, height / 2 - floor);
+                    ctx.lineTo(width, height / 2 - floor);
+                    ctx.moveTo(0, height / 2 + floor);
+                    ctx.lineTo(width, height / 2 + floor);
+                    ctx.stroke();
+                    ctx.setLineDash([]);
+                }
+
                 // Optional: Add a "Playhead" line at the right
                 ctx.strokeStyle = '#ff0000';
                 ctx.lineWidth = 2;
@@ -203,6 +254,8 @@ export const WaveformVisualizer: React.FC<WaveformVisualizerProps> = ({ stream,
                 ctx.stroke();
             }
 
+            if (activity) drawVoiceActivityBadge(ctx, activity, width);
+
             animationFrameId.current = requestAnimationFrame(draw);
         };
 
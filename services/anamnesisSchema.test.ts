@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { AnamnesisSchemaError, createEmptyAnamnesis, normalizeAnamnesis } from './anamnesisSchema';
+
+describe('normalizeAnamnesis', () => {
+    it('returns an empty document when nothing was stored', () => {
+        expect(normalizeAnamnesis(undefined)).toEqual(createEmptyAnamnesis());
+    });
+
+    it('converts legacy free text into sections', () => {
+        const doc = normalizeAnamnesis('[NOME DO PACIENTE]\nMaria\n\n[QUEIXA PRINCIPAL]\nDor de cabeça');
+        expect(doc.patientName).toBe('Maria');
+        expect(doc.sections).toEqual([{ id: 'queixa-principal', title: 'QUEIXA PRINCIPAL', content: 'Dor de cabeça', fields: [] }]);
+    });
+
+    it('throws the validation error for a document outside the schema', () => {
+        expect(() => normalizeAnamnesis({ sections: 'não é uma lista' })).toThrow(AnamnesisSchemaError);
+        expect(() => normalizeAnamnesis({ sections: 'não é uma lista' })).toThrow('$.sections');
+    });
+});
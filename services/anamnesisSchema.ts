@@ -0,0 +1,446 @@
+/**
+ * Anamnesis Schema
+ * Typed representation of the anamnesis returned by the LLM providers.
+ * Providers answer in JSON, which is validated here before reaching the UI,
+ * so no downstream feature has to regex-scan free text.
+ */
+
+export interface AnamnesisField {
+    label: string;
+    value: string;
+}
+
+export interface AnamnesisSection {
+    id: string;
+    title: string;
+    content: string; // Texto livre da seção
+    fields: AnamnesisField[]; // Itens rotulados (ex.: "Álcool" → "socialmente")
+}
+
+export interface MedicationRow {
+    name: string;
+    dose: string;
+    frequency: string;
+    notes: string;
+}
+
+export interface AllergyRow {
+    substance: string;
+    reaction: string;
+}
+
+export type VitalSignKind =
+    | 'weight'
+    | 'height'
+    | 'bmi'
+    | 'heartRate'
+    | 'respiratoryRate'
+    | 'bloodPressure'
+    | 'temperature'
+    | 'oxygenSaturation';
+
+export interface VitalSign {
+    kind: VitalSignKind;
+    value: string; // String para suportar valores compostos como "120/80"
+    unit: string;
+}
+
+export interface AnamnesisDocument {
+    patientName: string | null;
+    sections: AnamnesisSection[];
+    medications: MedicationRow[];
+    allergies: AllergyRow[];
+    vitals: VitalSign[];
+    changesSinceLastVisit: string[]; // Preenchido apenas para pacientes com consultas anteriores
+}
+
+export const VITAL_SIGN_DEFINITIONS: Record<VitalSignKind, { label: string; unit: string }> = {
+    weight: { label: 'Peso', unit: 'kg' },
+    height: { label: 'Altura', unit: 'm' },
+    bmi: { label: 'IMC', unit: 'kg/m²' },
+    heartRate: { label: 'Frequência cardíaca', unit: 'bpm' },
+    respiratoryRate: { label: 'Frequência respiratória', unit: 'rpm' },
+    bloodPressure: { label: 'Pressão arterial', unit: 'mmHg' },
+    temperature: { label: 'Temperatura', unit: '°C' },
+    oxygenSaturation: { label: 'Saturação de O₂', unit: '%' },
+};
+
+export class AnamnesisSchemaError extends Error {
+    constructor(message: string, public readonly path: string) {
+        super(`${path}: ${message}`);
+        this.name = 'AnamnesisSchemaError';
+    }
+}
+
+/**
+ * JSON format instructions appended to every anamnesis prompt
+ */
+export const ANAMNESIS_JSON_INSTRUCTIONS = `FORMATO DE RESPOSTA: responda SOMENTE com um objeto JSON válido, sem texto antes ou depois, no formato:
+{
+  "patientName": "nome do paciente ou null",
+  "sections": [
+    { "title": "TÍTULO DA SEÇÃO DO MODELO", "content": "texto livre da seção", "fields": [{ "label": "item", "value": "valor" }] }
+  ],
+  "medications": [{ "name": "medicamento", "dose": "dose", "frequency": "frequência", "notes": "" }],
+  "allergies": [{ "substance": "substância", "reaction": "tipo de reação" }],
+  "vitals": [{ "kind": "weight|height|bmi|heartRate|respiratoryRate|bloodPressure|temperature|oxygenSaturation", "value": "valor", "unit": "unidade" }]
+}
+Regras: crie uma entrada em "sections" para cada seção entre colchetes do modelo, na mesma ordem e com o mesmo título (sem os colchetes). Use "fields" para itens listados com "–" no modelo. Medicamentos, alergias e sinais vitais também devem ir nas listas estruturadas. Use "não informado" para informações ausentes e nunca invente dados.`;
+
+export const slugifySectionTitle = (title: string): string => {
+    return title
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readString = (value: unknown, path: string, required = false): string => {
+    if (value === undefined || value === null) {
+        if (required) throw new AnamnesisSchemaError('campo obrigatório ausente', path);
+        return '';
+    }
+    if (typeof value === 'number') return String(value);
+    if (typeof value !== 'string') {
+        throw new AnamnesisSchemaError(`esperado texto, recebido ${typeof value}`, path);
+    }
+    return value.trim();
+};
+
+const readArray = (value: unknown, path: string): unknown[] => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) throw new AnamnesisSchemaError('esperada uma lista', path);
+    return value;
+};
+
+const readStringList = (value: unknown, path: string): string[] =>
+    readArray(value, path).map((item, i) => readString(item, `${path}[${i}]`)).filter(Boolean);
+
+const validateSection = (value: unknown, path: string): AnamnesisSection => {
+    if (!isRecord(value)) throw new AnamnesisSchemaError('esperado um objeto', path);
+    const title = readString(value.title, `${path}.title`, true).replace(/^\[|\]$/g, '');
+    const fields = readArray(value.fields, `${path}.fields`).map((field, i) => {
+        const fieldPath = `${path}.fields[${i}]`;
+        if (!isRecord(field)) throw new AnamnesisSchemaError('esperado um objeto', fieldPath);
+        return {
+            label: readString(field.label, `${fieldPath}.label`, true),
+            value: readString(field.value, `${fieldPath}.value`),
+        };
+    });
+    return {
+        id: readString(value.id, `${path}.id`) || slugifySectionTitle(title),
+        title,
+        content: readString(value.content, `${path}.content`),
+        fields,
+    };
+};
+
+const validateVital = (value: unknown, path: string): VitalSign => {
+    if (!isRecord(value)) throw new AnamnesisSchemaError('esperado um objeto', path);
+    const kind = readString(value.kind, `${path}.kind`, true) as VitalSignKind;
+    if (!(kind in VITAL_SIGN_DEFINITIONS)) {
+        throw new AnamnesisSchemaError(`tipo de sinal vital desconhecido "${kind}"`, `${path}.kind`);
+    }
+    return {
+        kind,
+        value: readString(value.value, `${path}.value`, true),
+        unit: readString(value.unit, `${path}.unit`) || VITAL_SIGN_DEFINITIONS[kind].unit,
+    };
+};
+
+/**
+ * Validates an untrusted value (usually parsed model output) against the schema.
+ * Throws AnamnesisSchemaError pointing at the offending path.
+ */
+export const validateAnamnesisDocument = (value: unknown): AnamnesisDocument => {
+    if (!isRecord(value)) throw new AnamnesisSchemaError('esperado um objeto', '$');
+
+    const patientName = readString(value.patientName, '$.patientName');
+
+    return {
+        patientName: patientName && patientName.toLowerCase() !== 'null' ? patientName : null,
+        sections: readArray(value.sections, '$.sections').map((s, i) => validateSection(s, `$.sections[${i}]`)),
+        medications: readArray(value.medications, '$.medications').map((m, i) => {
+            const path = `$.medications[${i}]`;
+            if (!isRecord(m)) throw new AnamnesisSchemaError('esperado um objeto', path);
+            return {
+                name: readString(m.name, `${path}.name`, true),
+                dose: readString(m.dose, `${path}.dose`),
+                frequency: readString(m.frequency, `${path}.frequency`),
+                notes: readString(m.notes, `${path}.notes`),
+            };
+        }),
+        allergies: readArray(value.allergies, '$.allergies').map((a, i) => {
+            const path = `$.allergies[${i}]`;
+            if (!isRecord(a)) throw new AnamnesisSchemaError('esperado um objeto', path);
+            return {
+                substance: readString(a.substance, `${path}.substance`, true),
+                reaction: readString(a.reaction, `${path}.reaction`),
+            };
+        }),
+        vitals: readArray(value.vitals, '$.vitals').map((v, i) => validateVital(v, `$.vitals[${i}]`)),
+        changesSinceLastVisit: readStringList(value.changesSinceLastVisit, '$.changesSinceLastVisit'),
+    };
+};
+
+// Tolera blocos de código markdown e texto antes/depois do objeto
+const extractJsonObject = (raw: string): unknown => {
+    let text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const firstBrace = text.indexOf('{');
+    const lastBrace = text.lastIndexOf('}');
+    if (firstBrace === -1 || lastBrace <= firstBrace) {
+        throw new AnamnesisSchemaError('resposta não contém um objeto JSON', '$');
+    }
+    text = text.slice(firstBrace, lastBrace + 1);
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (error: any) {
+        throw new AnamnesisSchemaError(`JSON inválido (${error.message})`, '$');
+    }
+    return parsed;
+};
+
+/**
+ * Extracts and validates the JSON object from a raw model response.
+ */
+export const parseAnamnesisResponse = (raw: string): AnamnesisDocument => {
+    return validateAnamnesisDocument(extractJsonObject(raw));
+};
+
+export const createEmptyAnamnesis = (): AnamnesisDocument => ({
+    patientName: null,
+    sections: [],
+    medications: [],
+    allergies: [],
+    vitals: [],
+    changesSinceLastVisit: [],
+});
+
+export const isAnamnesisEmpty = (doc: AnamnesisDocument | null | undefined): boolean => {
+    if (!doc) return true;
+    return !doc.patientName &&
+        doc.sections.length === 0 &&
+        doc.medications.length === 0 &&
+        doc.allergies.length === 0 &&
+        doc.vitals.length === 0 &&
+        doc.changesSinceLastVisit.length === 0;
+};
+
+const isInformed = (value: string) => Boolean(value) && !/^n[ãa]o informad[oa]$/i.test(value.trim());
+
+export const countFilledSections = (doc: AnamnesisDocument): number => {
+    return doc.sections.filter(section =>
+        isInformed(section.content) || section.fields.some(field => isInformed(field.value))
+    ).length;
+};
+
+export const formatVitalSign = (vital: VitalSign): string => {
+    return `${VITAL_SIGN_DEFINITIONS[vital.kind].label}: ${vital.value} ${vital.unit}`.trim();
+};
+
+/**
+ * Renders the document in the bracket-section text format used by
+ * .txt exports and Google Drive uploads.
+ */
+export const anamnesisToText = (doc: AnamnesisDocument): string => {
+    const blocks: string[] = [];
+
+    blocks.push(`[NOME DO PACIENTE]\n${doc.patientName || 'não informado'}`);
+
+    if (doc.changesSinceLastVisit.length > 0) {
+        blocks.push(`[MUDANÇAS DESDE A ÚLTIMA CONSULTA]\n${doc.changesSinceLastVisit.map(change => `– ${change}`).join('\n')}`);
+    }
+
+    for (const section of doc.sections) {
+        const lines: string[] = [];
+        if (section.content) lines.push(section.content);
+        for (const field of section.fields) {
+            lines.push(`– ${field.label}: ${field.value || 'não informado'}`);
+        }
+        blocks.push(`[${section.title}]\n${lines.join('\n') || 'não informado'}`);
+    }
+
+    if (doc.medications.length > 0) {
+        const rows = doc.medications.map(m => `– ${[m.name, m.dose, m.frequency].filter(Boolean).join(' – ')}${m.notes ? ` (${m.notes})` : ''}`);
+        blocks.push(`[MEDICAMENTOS (ESTRUTURADO)]\n${rows.join('\n')}`);
+    }
+
+    if (doc.allergies.length > 0) {
+        const rows = doc.allergies.map(a => `– ${a.substance}${a.reaction ? `: ${a.reaction}` : ''}`);
+        blocks.push(`[ALERGIAS (ESTRUTURADO)]\n${rows.join('\n')}`);
+    }
+
+    if (doc.vitals.length > 0) {
+        blocks.push(`[SINAIS VITAIS]\n${doc.vitals.map(v => `– ${formatVitalSign(v)}`).join('\n')}`);
+    }
+
+    return blocks.join('\n\n');
+};
+
+/**
+ * Converts an anamnesis saved before the schema existed (free text with
+ * [SECTION] headings) into a document, keeping each section as free text.
+ */
+export const anamnesisFromLegacyText = (text: string): AnamnesisDocument => {
+    const doc = createEmptyAnamnesis();
+    if (!text || !text.trim()) return doc;
+
+    const headingRegex = /^\s*\[([^\]]+)\]\s*$/gm;
+    const headings = Array.from(text.matchAll(headingRegex));
+
+    if (headings.length === 0) {
+        doc.sections.push({ id: 'anamnese', title: 'ANAMNESE', content: text.trim(), fields: [] });
+        return doc;
+    }
+
+    headings.forEach((match, index) => {
+        const title = match[1].trim();
+        const start = (match.index ?? 0) + match[0].length;
+        const end = index + 1 < headings.length ? headings[index + 1].index ?? text.length : text.length;
+        const content = text.slice(start, end).trim();
+
+        if (title.toUpperCase() === 'NOME DO PACIENTE') {
+            const name = content.split('\n')[0]?.trim() || '';
+            doc.patientName = name || null;
+            return;
+        }
+        doc.sections.push({ id: slugifySectionTitle(title), title, content, fields: [] });
+    });
+
+    return doc;
+};
+
+/**
+ * Reads a stored anamnesis: Firestore keeps the document as a map, older
+ * sessions kept free text. Throws AnamnesisSchemaError when the stored
+ * document does not follow the schema, so the caller can keep the copy it
+ * already has instead of showing an empty anamnesis.
+ */
+export const normalizeAnamnesis = (value: unknown): AnamnesisDocument => {
+    if (value === undefined || value === null) return createEmptyAnamnesis();
+    if (typeof value === 'string') return anamnesisFromLegacyText(value);
+    return validateAnamnesisDocument(value);
+};
+
+// --- Incremental updates ---
+
+export interface AnamnesisPatch {
+    patientName?: string | null;
+    sections: AnamnesisSection[]; // Seções novas ou reescritas por completo
+    medications: MedicationRow[]; // Inseridos ou atualizados pelo nome
+    removedMedications: string[];
+    allergies: AllergyRow[]; // Inseridas ou atualizadas pela substância
+    vitals: VitalSign[]; // Substituem o valor anterior do mesmo tipo
+    changesSinceLastVisit?: string[]; // Lista completa, substitui a anterior
+}
+
+/**
+ * JSON format instructions for incremental (patch) updates
+ */
+export const ANAMNESIS_PATCH_INSTRUCTIONS = `FORMATO DE RESPOSTA: responda SOMENTE com um objeto JSON válido contendo APENAS o que mudou com as novas falas, no formato:
+{
+  "patientName": "somente se foi informado ou corrigido agora",
+  "sections": [{ "title": "TÍTULO DA SEÇÃO", "content": "texto completo e atualizado da seção", "fields": [{ "label": "item", "value": "valor" }] }],
+  "medications": [{ "name": "medicamento", "dose": "dose", "frequency": "frequência", "notes": "" }],
+  "removedMedications": ["nome de medicamento suspenso"],
+  "allergies": [{ "substance": "substância", "reaction": "tipo de reação" }],
+  "vitals": [{ "kind": "weight|height|bmi|heartRate|respiratoryRate|bloodPressure|temperature|oxygenSaturation", "value": "valor", "unit": "unidade" }]
+}
+Regras: inclua em "sections" somente as seções afetadas pelas novas falas, reescritas por completo (conteúdo anterior + novas informações), com o mesmo título usado na anamnese atual. Omita listas sem alterações. Se nada mudou, responda {}. Nunca invente dados.`;
+
+const normalizeKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Validates a patch returned by the model. Reuses the document validators,
+ * so a patch is held to the same schema as a full anamnesis.
+ */
+export const parseAnamnesisPatch = (raw: string): AnamnesisPatch => {
+    const parsed = extractJsonObject(raw);
+    const partial = validateAnamnesisDocument(parsed);
+    const removedMedications = readStringList((parsed as Record<string, unknown>).removedMedications, '$.removedMedications');
+    const hasChanges = isRecord(parsed) && parsed.changesSinceLastVisit !== undefined;
+
+    return {
+        ...(partial.patientName ? { patientName: partial.patientName } : {}),
+        sections: partial.sections,
+        medications: partial.medications,
+        removedMedications,
+        allergies: partial.allergies,
+        vitals: partial.vitals,
+        ...(hasChanges ? { changesSinceLastVisit: partial.changesSinceLastVisit } : {}),
+    };
+};
+
+export const isAnamnesisPatchEmpty = (patch: AnamnesisPatch): boolean => {
+    return patch.patientName === undefined &&
+        patch.sections.length === 0 &&
+        patch.medications.length === 0 &&
+        patch.removedMedications.length === 0 &&
+        patch.allergies.length === 0 &&
+        patch.vitals.length === 0 &&
+        patch.changesSinceLastVisit === undefined;
+};
+
+/**
+ * Merges a patch into the document without mutating it. Sections are matched
+ * by id (slug of the title) and replaced; unknown sections are appended.
+ */
+export const applyAnamnesisPatch = (doc: AnamnesisDocument, patch: AnamnesisPatch): AnamnesisDocument => {
+    const sections = [...doc.sections];
+    for (const section of patch.sections) {
+        const index = sections.findIndex(s => s.id === section.id);
+        if (index >= 0) {
+            sections[index] = { ...section, title: sections[index].title };
+        } else {
+            sections.push(section);
+        }
+    }
+
+    const removed = new Set(patch.removedMedications.map(normalizeKey));
+    const medications = doc.medications.filter(m => !removed.has(normalizeKey(m.name)));
+    for (const medication of patch.medications) {
+        const index = medications.findIndex(m => normalizeKey(m.name) === normalizeKey(medication.name));
+        if (index >= 0) {
+            medications[index] = medication;
+        } else {
+            medications.push(medication);
+        }
+    }
+
+    const allergies = [...doc.allergies];
+    for (const allergy of patch.allergies) {
+        const index = allergies.findIndex(a => normalizeKey(a.substance) === normalizeKey(allergy.substance));
+        if (index >= 0) {
+            allergies[index] = allergy;
+        } else {
+            allergies.push(allergy);
+        }
+    }
+
+    const vitals = [
+        ...doc.vitals.filter(v => !patch.vitals.some(p => p.kind === v.kind)),
+        ...patch.vitals,
+    ];
+
+    return {
+        patientName: patch.patientName !== undefined ? patch.patientName : doc.patientName,
+        sections,
+        medications,
+        allergies,
+        vitals,
+        changesSinceLastVisit: patch.changesSinceLastVisit ?? doc.changesSinceLastVisit,
+    };
+};
+
+// --- Returning patients ---
+
+/**
+ * Appended to full and patch prompts when the patient has prior visits
+ */
+export const PRIOR_VISIT_INSTRUCTIONS = `MUDANÇAS DESDE A ÚLTIMA CONSULTA: compare a consulta atual com o histórico do paciente e inclua no JSON o campo "changesSinceLastVisit": ["mudança 1", "mudança 2"], com itens curtos como queixas novas, queixas resolvidas, medicamentos iniciados, suspensos ou com dose alterada e novos diagnósticos. Use somente o que foi dito na consulta atual para descrever o presente; o histórico serve apenas para comparação e não deve ser copiado para as seções. Se nada mudou, use [].`;
@@ -0,0 +1,274 @@
+/**
+ * Anamnesis Templates
+ * Library of anamnesis prompts. Built-in templates ship with the app; custom
+ * templates are persisted per user through firebaseService.saveUserSettings.
+ */
+
+export interface AnamnesisTemplate {
+    id: string;
+    name: string;
+    specialty: string;
+    prompt: string;
+    builtIn: boolean;
+}
+
+const PROMPT_INTRO = `Você é um assistente de IA especializado em documentação médica. Sua tarefa é ouvir a transcrição de uma consulta e preencher a seguinte anamnese estruturada em tempo real. Use as informações fornecidas na transcrição para preencher cada seção da forma mais completa possível. Se uma informação não for mencionada, deixe o campo em branco ou indique "não informado". ATUALIZE a anamnese com base em TODA a transcrição a cada turno da conversa.`;
+
+export const DEFAULT_ANAMNESIS_PROMPT = `${PROMPT_INTRO}
+
+---
+[NOME DO PACIENTE]
+(escreva o nome do paciente conforme sea detectado no audio)
+
+[QUEIXA PRINCIPAL]
+(descreva com as palavras do paciente)
+
+[HISTÓRIA DA DOENÇA ATUAL]
+(tempo de início, evolução, fatores agravantes e atenuantes, tratamentos anteriores)
+
+[MEDICAMENTOS EM USO]
+(nome do medicamento – dose – frequência)
+
+[ALERGIAS]
+(a medicamentos, alimentos e ambientais – especificar tipo de reação)
+
+[PATOLOGIAS PREGRESSAS]
+(diabetes, hipertensão, dislipidemia, doenças autoimunes, etc)
+
+[CIRURGIAS PRÉVIas]
+(tipo de cirurgia – ano – intercorrências)
+
+[HISTÓRICO FAMILIAR]
+(câncer, diabetes, hipertensão, doenças neurológicas, etc)
+
+[HISTÓRICO SEXUAL E REPRODUTIVO]
+– Filhos? (quantos, idades)
+– Libido sexual (normal / reduzida / aumentada)
+– Preventivos em dia? (mamografia, papanicolau, toque retal)
+
+[ESTILO DE VIDA]
+– Álcool: (frequência / quantidade)
+– Tabagismo: (ativo / cessado / nunca fumou)
+– Drogas recreativas: (tipo / uso atual ou passado)
+– Sono: (horas por noite / qualidade)
+– Estresse: (nível subjetivo de 0 a 10)
+– Atividade física: (tipo / frequência)
+
+[HISTÓRICO NUTRICIONAL]
+– Frequência de consumo de ultraprocessados
+– Consome vegetais e frutas diariamente?
+– Hidratação adequada? (litros/dia)
+
+[FLEXIBilidade ALIMENTAR]
+(restrições – dietas – relação com a comida)
+
+[EXAME FÍSICO]
+
+Inspeção geral:
+– Estado geral, hidratação, coloração de pele e mucosas
+
+Antropometria:
+– Peso: ___ kg
+– Altura: ___ m
+– IMC: ___ kg/m²
+
+Sinais vitais:
+– Frequência respiratória: ___ rpm
+– Frequência cardíaca: ___ bpm
+– Pressão arterial: ___ mmHg
+
+Avaliação sistêmica:
+– Cardiorrespiratório: (ex. murmúrios vesiculares presentes e simétricos, bulhas normofonéticas)
+– Digestivo: (ex. abdome flácido, indolor, sem visceromegalia)
+– Neurológico: (ex. reflexos preservados, força muscular 5/5)
+
+[OBSERVAÇÕES FINAIS]
+(anotações livres, suspeitas diagnósticas, diagnósticos diferenciais, condutas iniciais)
+---`;
+
+const PEDIATRICS_PROMPT = `${PROMPT_INTRO}
+
+---
+[NOME DO PACIENTE]
+(nome da criança conforme detectado no áudio)
+
+[IDADE E RESPONSÁVEL]
+– Idade: (anos e meses)
+– Acompanhante: (nome e parentesco)
+
+[QUEIXA PRINCIPAL]
+(descreva com as palavras do responsável ou da criança)
+
+[HISTÓRIA DA DOENÇA ATUAL]
+(início, evolução, febre, sintomas associados, tratamentos já feitos)
+
+[ANTECEDENTES GESTACIONAIS E NEONATAIS]
+– Pré-natal: (número de consultas / intercorrências)
+– Parto: (tipo / idade gestacional)
+– Peso ao nascer: ___ g
+– Intercorrências neonatais:
+
+[ALIMENTAÇÃO]
+– Aleitamento materno: (exclusivo até / duração)
+– Alimentação atual: (introdução alimentar, rotina, seletividade)
+
+[DESENVOLVIMENTO NEUROPSICOMOTOR]
+(marcos: sustentar a cabeça, sentar, andar, falar; desempenho escolar)
+
+[VACINAÇÃO]
+(cartão em dia? vacinas atrasadas)
+
+[MEDICAMENTOS EM USO]
+(nome do medicamento – dose em mg/kg ou mL – frequência)
+
+[ALERGIAS]
+(a medicamentos, alimentos e ambientais – especificar tipo de reação)
+
+[HISTÓRICO FAMILIAR]
+(doenças hereditárias, atopia, consanguinidade)
+
+[EXAME FÍSICO]
+Antropometria:
+– Peso: ___ kg
+– Altura: ___ m
+– Perímetro cefálico: ___ cm
+Sinais vitais:
+– Frequência cardíaca: ___ bpm
+– Frequência respiratória: ___ rpm
+– Temperatura: ___ °C
+
+[OBSERVAÇÕES FINAIS]
+(hipóteses diagnósticas, orientações aos responsáveis, condutas)
+---`;
+
+const FOLLOW_UP_PROMPT = `${PROMPT_INTRO}
+
+---
+[NOME DO PACIENTE]
+(escreva o nome do paciente conforme detectado no áudio)
+
+[MOTIVO DO RETORNO]
+(reavaliação, resultado de exames, ajuste de tratamento)
+
+[EVOLUÇÃO DESDE A ÚLTIMA CONSULTA]
+(melhora, piora ou estabilidade dos sintomas; novos sintomas)
+
+[ADESÃO AO TRATAMENTO]
+– Uso das medicações conforme prescrito?
+– Efeitos adversos:
+– Mudanças de estilo de vida realizadas:
+
+[MEDICAMENTOS EM USO]
+(nome do medicamento – dose – frequência; destacar alterações)
+
+[EXAMES COMPLEMENTARES]
+(exames trazidos e principais resultados)
+
+[EXAME FÍSICO]
+– Peso: ___ kg
+– Pressão arterial: ___ mmHg
+– Frequência cardíaca: ___ bpm
+
+[CONDUTA]
+(ajustes de tratamento, novos exames, orientações, data do próximo retorno)
+---`;
+
+const FIRST_VISIT_PROMPT = `${PROMPT_INTRO}
+
+---
+[NOME DO PACIENTE]
+(escreva o nome do paciente conforme detectado no áudio)
+
+[IDENTIFICAÇÃO]
+– Idade:
+– Profissão:
+– Encaminhado por:
+
+[QUEIXA PRINCIPAL]
+(descreva com as palavras do paciente)
+
+[HISTÓRIA DA DOENÇA ATUAL]
+(tempo de início, evolução, fatores agravantes e atenuantes, tratamentos anteriores)
+
+[REVISÃO DE SISTEMAS]
+(sintomas gerais, cardiovasculares, respiratórios, digestivos, urinários, neurológicos)
+
+[MEDICAMENTOS EM USO]
+(nome do medicamento – dose – frequência)
+
+[ALERGIAS]
+(a medicamentos, alimentos e ambientais – especificar tipo de reação)
+
+[PATOLOGIAS PREGRESSAS]
+(doenças crônicas, internações)
+
+[CIRURGIAS PRÉVIAS]
+(tipo de cirurgia – ano – intercorrências)
+
+[HISTÓRICO FAMILIAR]
+(câncer, diabetes, hipertensão, doenças cardiovasculares, etc)
+
+[ESTILO DE VIDA]
+– Álcool:
+– Tabagismo:
+– Atividade física:
+– Sono:
+
+[EXAME FÍSICO]
+– Peso: ___ kg
+– Altura: ___ m
+– Pressão arterial: ___ mmHg
+– Frequência cardíaca: ___ bpm
+
+[HIPÓTESES DIAGNÓSTICAS E PLANO]
+(suspeitas diagnósticas, exames solicitados, condutas iniciais)
+---`;
+
+export const DEFAULT_TEMPLATE_ID = 'nutrologia';
+
+export const BUILT_IN_TEMPLATES: AnamnesisTemplate[] = [
+    { id: DEFAULT_TEMPLATE_ID, name: 'Nutrologia (completo)', specialty: 'Nutrologia', prompt: DEFAULT_ANAMNESIS_PROMPT, builtIn: true },
+    { id: 'pediatria', name: 'Pediatria', specialty: 'Pediatria', prompt: PEDIATRICS_PROMPT, builtIn: true },
+    { id: 'retorno', name: 'Retorno', specialty: 'Geral', prompt: FOLLOW_UP_PROMPT, builtIn: true },
+    { id: 'primeira-consulta', name: 'Primeira consulta', specialty: 'Geral', prompt: FIRST_VISIT_PROMPT, builtIn: true },
+];
+
+export const createCustomTemplate = (name: string, prompt: string, specialty = 'Personalizado'): AnamnesisTemplate => ({
+    id: `custom-${Date.now()}`,
+    name,
+    specialty,
+    prompt,
+    builtIn: false,
+});
+
+/**
+ * Combines the built-in templates with the user's saved custom templates.
+ * Saved entries that collide with a built-in id are ignored.
+ */
+export const mergeWithBuiltInTemplates = (customTemplates: AnamnesisTemplate[] = []): AnamnesisTemplate[] => {
+    const builtInIds = new Set(BUILT_IN_TEMPLATES.map(t => t.id));
+    const custom = customTemplates
+        .filter(t => t && t.id && !builtInIds.has(t.id) && typeof t.prompt === 'string')
+        .map(t => ({ ...t, builtIn: false }));
+    return [...BUILT_IN_TEMPLATES, ...custom];
+};
+
+// Apenas os modelos personalizados são salvos; os embutidos vêm do código
+export const getCustomTemplates = (templates: AnamnesisTemplate[]): AnamnesisTemplate[] => {
+    return templates.filter(t => !t.builtIn);
+};
+
+export const findTemplate = (templates: AnamnesisTemplate[], id?: string | null): AnamnesisTemplate => {
+    return templates.find(t => t.id === id)
+        ?? templates.find(t => t.id === DEFAULT_TEMPLATE_ID)
+        ?? BUILT_IN_TEMPLATES[0];
+};
+
+/**
+ * Settings saved before the template library stored a single `prompt` string.
+ * A prompt that differs from the default becomes a custom template.
+ */
+export const migrateLegacyPrompt = (prompt?: string): AnamnesisTemplate | null => {
+    if (!prompt || prompt.trim() === DEFAULT_ANAMNESIS_PROMPT.trim()) return null;
+    return { id: 'custom-legacy', name: 'Meu modelo', specialty: 'Personalizado', prompt, builtIn: false };
+};
@@ -1,67 +1,61 @@
 // This service contains functions to validate API keys for external providers.
+// Validation is delegated to the provider registered in llmProviders.
+
+import { llmProviderRegistry, LLMProviderId, LOCAL_PROVIDER_ID, ProviderOptions } from './llmProviders';
 
 /**
- * Validates an OpenAI API key by making a simple, low-cost API call.
- * @param apiKey The OpenAI API key to validate.
+ * Validates the credentials of a registered provider by making a simple,
+ * low-cost API call (usually listing the available models).
+ * @param providerId The id of the provider in the registry.
+ * @param apiKey The API key to validate.
+ * @param options Extra provider settings (base URL, model, API version).
  * @returns A boolean indicating if the key is valid.
  */
-export const validateOpenAIApiKey = async (apiKey: string): Promise<boolean> => {
-    try {
-        const response = await fetch("https://api.openai.com/v1/models", {
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`
-            }
-        });
-
-        if (response.status === 401) {
-            throw new Error("Chave de API inválida ou expirada.");
-        }
-        
-        if (!response.ok) {
-            throw new Error(`A API retornou um erro: ${response.statusText}`);
-        }
-        
-        // If we get a successful response, the key is valid.
-        return true;
-
-    } catch (error: any) {
-        console.error("OpenAI API key validation failed:", error);
-        // Re-throw the specific error message for the UI
-        throw error;
+export const validateProviderApiKey = async (
+    providerId: LLMProviderId,
+    apiKey: string,
+    options: ProviderOptions = {}
+): Promise<boolean> => {
+    const provider = llmProviderRegistry.get(providerId);
+    if (!provider) {
+        throw new Error(`Provedor desconhecido: ${providerId}`);
     }
+    // Re-throws the specific error message for the UI
+    return provider.validateKey({ ...options, apiKey });
 };
 
+/**
+ * Validates an OpenAI API key.
+ * @param apiKey The OpenAI API key to validate.
+ * @returns A boolean indicating if the key is valid.
+ */
+export const validateOpenAIApiKey = (apiKey: string): Promise<boolean> => validateProviderApiKey('openai', apiKey);
+
 /**
  * Validates a Grok (xAI) API key.
- * NOTE: This uses a placeholder endpoint and logic. This should be updated
- * when the actual Grok API is available and provides a simple validation endpoint.
  * @param apiKey The Grok API key to validate.
  * @returns A boolean indicating if the key is valid.
  */
-export const validateGrokApiKey = async (apiKey: string): Promise<boolean> => {
-    try {
-        const response = await fetch("https://api.x.ai/v1/models", { // Using a models endpoint, similar to OpenAI
-            method: 'GET',
-            headers: {
-                'Authorization': `Bearer ${apiKey}`
-            }
-        });
-        
-        if (response.status === 401) {
-            throw new Error("Chave de API inválida ou não autorizada.");
-        }
-
-        if (!response.ok) {
-             const errorData = await response.json().catch(() => ({}));
-             const errorMessage = errorData?.error?.message || response.statusText;
-            throw new Error(`A API retornou um erro: ${errorMessage}`);
-        }
-        
-        return true;
+export const validateGrokApiKey = (apiKey: string): Promise<boolean> => validateProviderApiKey('grok', apiKey);
 
+/**
+ * Tests a local OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM...).
+ * @param baseUrl The base URL of the endpoint, e.g. http://localhost:11434/v1.
+ * @param apiKey Optional key, for servers started with authentication.
+ * @returns The models served by the endpoint.
+ */
+export const validateLocalEndpoint = async (baseUrl: string, apiKey = ''): Promise<string[]> => {
+    if (!baseUrl.trim()) {
+        throw new Error("Informe a URL base do servidor local.");
+    }
+    const provider = llmProviderRegistry.get(LOCAL_PROVIDER_ID);
+    if (!provider) {
+        throw new Error(`Provedor desconhecido: ${LOCAL_PROVIDER_ID}`);
+    }
+    try {
+        return await provider.listModels({ baseUrl: baseUrl.trim(), apiKey });
     } catch (error: any) {
-        console.error("Grok API key validation failed:", error);
+        console.error("Local endpoint validation failed:", error);
         throw error;
     }
 };
@@ -0,0 +1,346 @@
+/**
+ * Audio Archive Service
+ * Records the consult audio as compressed Opus (WebM/Ogg) with MediaRecorder,
+ * independently of the transcription engines, which only keep PCM long enough
+ * to transcribe it. Recordings are kept in IndexedDB on this device and,
+ * depending on the settings, also in Google Drive (through driveSyncService)
+ * or encrypted in Firebase Storage. A retention policy removes old recordings
+ * from every destination.
+ */
+
+import type { SessionData } from "../App";
+import type { LogEntry } from "../hooks/useLogger";
+import * as firebaseService from "./firebaseService";
+import { deleteFile, downloadFile } from "./googleDriveService";
+import { sessionRepository } from "./sessionRepository";
+
+export type AudioArchiveDestination = 'local' | 'drive' | 'firebase';
+
+export interface AudioArchiveSettings {
+    enabled: boolean;
+    destination: AudioArchiveDestination; // A cópia local é sempre mantida para reprodução neste aparelho
+    retentionDays: number; // 0 = manter indefinidamente
+}
+
+export const DEFAULT_AUDIO_ARCHIVE_SETTINGS: AudioArchiveSettings = {
+    enabled: false,
+    destination: 'local',
+    retentionDays: 30,
+};
+
+export const AUDIO_DESTINATION_LABELS: Record<AudioArchiveDestination, string> = {
+    local: 'Somente neste aparelho',
+    drive: 'Neste aparelho e no Google Drive',
+    firebase: 'Neste aparelho e no Firebase (criptografado)',
+};
+
+// Trecho contínuo gravado entre um Iniciar e um Parar da transcrição
+export interface AudioSegment {
+    sessionOffsetMs: number; // Início do trecho desde o início da sessão (mesma base de TranscriptTurn.startMs)
+    durationMs: number;
+}
+
+export interface SessionAudio {
+    mimeType: string;
+    sizeBytes: number;
+    durationMs: number;
+    segments: AudioSegment[];
+    storagePath?: string; // Cópia criptografada no Firebase Storage
+}
+
+export interface RecordedAudio {
+    blob: Blob;
+    audio: SessionAudio;
+}
+
+export interface AudioRetentionContext {
+    uid: string | null;
+    driveToken: string | null;
+    onLog?: (type: LogEntry['type'], message: string) => void;
+}
+
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm'];
+const AUDIO_BITS_PER_SECOND = 32000; // Voz em Opus: ~14 MB por hora
+const RECORDER_TIMESLICE_MS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'consulta-audio';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+
+interface StoredRecording {
+    sessionId: string;
+    blob: Blob;
+    savedAt: number;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            request.result.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+// Gravações do app são WebM/Ogg; áudios importados mantêm o formato original
+export const audioFileExtension = (mimeType: string) => {
+    if (mimeType.includes('ogg')) return 'ogg';
+    if (mimeType.includes('mpeg') || mimeType.includes('mp3')) return 'mp3';
+    if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+    if (mimeType.includes('wav')) return 'wav';
+    return 'webm';
+};
+
+/**
+ * Converts a position on the session timeline (e.g. the start of a
+ * transcript turn) into seconds of the recording, skipping the pauses that
+ * were not recorded. Returns null when the moment falls outside the recording.
+ */
+export const audioTimeForSessionOffset = (audio: SessionAudio, sessionOffsetMs: number): number | null => {
+    let elapsedMs = 0;
+    for (const segment of audio.segments) {
+        const segmentEnd = segment.sessionOffsetMs + segment.durationMs;
+        if (sessionOffsetMs < segment.sessionOffsetMs) {
+            // Fala iniciada durante uma pausa da gravação: começa no trecho seguinte
+            return elapsedMs / 1000;
+        }
+        if (sessionOffsetMs <= segmentEnd) {
+            return (elapsedMs + sessionOffsetMs - segment.sessionOffsetMs) / 1000;
+        }
+        elapsedMs += segment.durationMs;
+    }
+    return null;
+};
+
+// Inverso de audioTimeForSessionOffset: posição da reprodução na linha do tempo da sessão
+export const sessionOffsetForAudioTime = (audio: SessionAudio, seconds: number): number => {
+    let remainingMs = seconds * 1000;
+    for (const segment of audio.segments) {
+        if (remainingMs <= segment.durationMs) return segment.sessionOffsetMs + remainingMs;
+        remainingMs -= segment.durationMs;
+    }
+    const last = audio.segments[audio.segments.length - 1];
+    return last ? last.sessionOffsetMs + last.durationMs : 0;
+};
+
+/**
+ * Records one session. Each listening period opens the microphone again, but
+ * all periods feed the same MediaRecorder through an audio graph, so the
+ * result is a single playable file; the segments map it back to the session
+ * timeline.
+ */
+export class SessionAudioRecorder {
+    private context: AudioContext | null = null;
+    private destination: MediaStreamAudioDestinationNode | null = null;
+    private recorder: MediaRecorder | null = null;
+    private micStream: MediaStream | null = null;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private chunks: Blob[] = [];
+    private segments: AudioSegment[] = [];
+    private segmentStartedAt: number | null = null;
+    private generation = 0;
+
+    constructor(private readonly sessionStartMs: number) {}
+
+    static isSupported(): boolean {
+        return typeof MediaRecorder !== 'undefined' && RECORDER_MIME_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+    }
+
+    // Abre o microfone e grava um novo trecho
+    async resume() {
+        if (this.segmentStartedAt !== null) return;
+        const generation = ++this.generation;
+        const stream = await navigator.mediaDevices.getUserMedia({
+            audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+        });
+
+        if (!this.context || !this.destination || !this.recorder) {
+            this.context = new AudioContext();
+            this.destination = this.context.createMediaStreamDestination();
+            const mimeType = RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+            this.recorder = new MediaRecorder(this.destination.stream, {
+                ...(mimeType && { mimeType }),
+                audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+            });
+            this.recorder.ondataavailable = (event) => {
+                if (event.data.size > 0) this.chunks.push(event.data);
+            };
+        }
+        await this.context.resume();
+        // Pausado enquanto o navegador liberava o microfone
+        if (generation !== this.generation) {
+            stream.getTracks().forEach(track => track.stop());
+            return;
+        }
+
+        this.micStream = stream;
+        this.source = this.context.createMediaStreamSource(stream);
+        this.source.connect(this.destination);
+        if (this.recorder.state === 'inactive') this.recorder.start(RECORDER_TIMESLICE_MS);
+        else if (this.recorder.state === 'paused') this.recorder.resume();
+        this.segmentStartedAt = Date.now();
+    }
+
+    // Fecha o trecho atual e libera o microfone; a gravação continua no mesmo arquivo ao retomar
+    pause() {
+        this.generation++;
+        if (this.segmentStartedAt !== null) {
+            this.segments.push({
+                sessionOffsetMs: Math.max(0, this.segmentStartedAt - this.sessionStartMs),
+                durationMs: Date.now() - this.segmentStartedAt,
+            });
+            this.segmentStartedAt = null;
+        }
+        if (this.recorder?.state === 'recording') this.recorder.pause();
+        this.source?.disconnect();
+        this.source = null;
+        this.micStream?.getTracks().forEach(track => track.stop());
+        this.micStream = null;
+    }
+
+    /**
+     * Ends the recording and releases the audio graph.
+     * @returns The recording, or null when nothing was recorded.
+     */
+    async finish(): Promise<RecordedAudio | null> {
+        this.pause();
+        const recorder = this.recorder;
+        if (recorder && recorder.state !== 'inactive') {
+            await new Promise<void>(resolve => {
+                recorder.onstop = () => resolve();
+                recorder.stop();
+            });
+        }
+        await this.context?.close().catch(() => undefined);
+        this.context = null;
+        this.destination = null;
+        this.recorder = null;
+
+        const chunks = this.chunks;
+        this.chunks = [];
+        if (!recorder || chunks.length === 0 || this.segments.length === 0) return null;
+
+        const blob = new Blob(chunks, { type: recorder.mimeType || chunks[0].type || 'audio/webm' });
+        return {
+            blob,
+            audio: {
+                mimeType: blob.type,
+                sizeBytes: blob.size,
+                durationMs: this.segments.reduce((total, segment) => total + segment.durationMs, 0),
+                segments: this.segments,
+            },
+        };
+    }
+}
+
+class AudioArchiveService {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    private getDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openDatabase().catch(error => {
+                this.dbPromise = null;
+                throw error;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    async saveLocal(sessionId: string, blob: Blob) {
+        const db = await this.getDb();
+        const record: StoredRecording = { sessionId, blob, savedAt: Date.now() };
+        await requestToPromise(db.transaction(RECORDINGS_STORE, 'readwrite').objectStore(RECORDINGS_STORE).put(record));
+    }
+
+    async getLocal(sessionId: string): Promise<Blob | null> {
+        const db = await this.getDb();
+        const record = await requestToPromise(db.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE).get(sessionId)) as StoredRecording | undefined;
+        return record?.blob ?? null;
+    }
+
+    async deleteLocal(sessionId: string) {
+        const db = await this.getDb();
+        await requestToPromise(db.transaction(RECORDINGS_STORE, 'readwrite').objectStore(RECORDINGS_STORE).delete(sessionId));
+    }
+
+    /**
+     * Finds the recording of a session for playback: the copy on this device
+     * first, then Firebase Storage and Google Drive. Remote copies are kept
+     * locally afterwards.
+     */
+    async loadRecording(session: SessionData, driveToken: string | null): Promise<Blob | null> {
+        if (!session.audio) return null;
+        const local = await this.getLocal(session.id).catch(() => null);
+        if (local) return local;
+
+        let remote: Blob | null = null;
+        if (session.audio.storagePath) {
+            remote = await firebaseService.fetchSessionAudio(session.audio.storagePath);
+        } else if (session.driveFiles?.audio && driveToken) {
+            const downloaded = await downloadFile(driveToken, session.driveFiles.audio);
+            remote = new Blob([downloaded], { type: session.audio.mimeType });
+        }
+        if (remote) await this.saveLocal(session.id, remote).catch(() => undefined);
+        return remote;
+    }
+
+    /**
+     * Removes the recording from every destination. Remote copies that cannot
+     * be reached now (signed out, Drive not connected) are kept.
+     * @returns Whether every copy was removed.
+     */
+    async remove(session: SessionData, context: AudioRetentionContext): Promise<boolean> {
+        await this.deleteLocal(session.id);
+        let complete = true;
+        if (session.audio?.storagePath) {
+            if (context.uid) await firebaseService.deleteSessionAudio(session.audio.storagePath);
+            else complete = false;
+        }
+        if (session.driveFiles?.audio) {
+            if (context.driveToken) await deleteFile(context.driveToken, session.driveFiles.audio);
+            else complete = false;
+        }
+        return complete;
+    }
+
+    /**
+     * Deletes recordings older than the retention period and unlinks them
+     * from their sessions. Recordings with copies that could not be removed
+     * stay linked and are tried again on the next run.
+     * @returns Number of recordings removed.
+     */
+    async applyRetention(sessions: SessionData[], retentionDays: number, context: AudioRetentionContext): Promise<number> {
+        if (retentionDays <= 0) return 0;
+        const cutoff = Date.now() - retentionDays * DAY_MS;
+        let removed = 0;
+        for (const session of sessions) {
+            if (!session.audio || session.startTime.getTime() >= cutoff) continue;
+            try {
+                if (!await this.remove(session, context)) continue;
+                const driveFiles = session.driveFiles && { ...session.driveFiles };
+                if (driveFiles) delete driveFiles.audio;
+                await sessionRepository.update(session.id, {
+                    audio: undefined,
+                    ...(driveFiles && { driveFiles }),
+                });
+                removed++;
+            } catch (error: any) {
+                context.onLog?.('WARN', `Falha ao remover a gravação de uma sessão antiga: ${error.message || error}`);
+            }
+        }
+        if (removed > 0) {
+            context.onLog?.('INFO', `${removed} gravação(ões) removida(s) pela política de retenção (${retentionDays} dias).`);
+        }
+        return removed;
+    }
+}
+
+export const audioArchiveService = new AudioArchiveService();
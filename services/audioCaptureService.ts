@@ -0,0 +1,216 @@
+/**
+ * Audio Capture Service
+ * Microphone capture shared by the transcription engines. An AudioWorklet
+ * mixes the input to mono, resamples it to the target rate (16 kHz by
+ * default), measures the level and packs 16-bit PCM frames, all on the audio
+ * rendering thread, so heavy React renders no longer cause dropouts.
+ */
+
+export interface AudioCaptureFrame {
+    pcm: Int16Array; // PCM 16-bit mono na taxa de saída
+    level: number; // Média do valor absoluto das amostras (0-1)
+    peak: number; // Maior valor absoluto das amostras (0-1)
+    offsetMs: number; // Posição do início do quadro desde o início da captura
+    timestamp: number; // Epoch (ms) do início do quadro
+}
+
+export interface AudioCaptureOptions {
+    sampleRate?: number; // Taxa de saída (padrão 16000)
+    frameSize?: number; // Amostras por quadro na taxa de saída (padrão 4096 ≈ 256 ms)
+    constraints?: MediaTrackConstraints; // Somadas às restrições padrão do microfone
+}
+
+const PROCESSOR_NAME = 'pcm-capture-processor';
+
+// Executado no AudioWorkletGlobalScope; `sampleRate` é a taxa nativa do contexto
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { targetSampleRate, frameSize } = options.processorOptions;
+        this.ratio = sampleRate / targetSampleRate;
+        this.frameSize = frameSize;
+        this.frame = new Int16Array(frameSize);
+        this.filled = 0;
+        this.levelSum = 0;
+        this.peak = 0;
+        // Decimação por média (filtro passa-baixa simples contra aliasing)
+        this.inputCount = 0;
+        this.nextBoundary = this.ratio;
+        this.accumulator = 0;
+        this.accumulated = 0;
+        this.lastSample = 0;
+        this.active = true;
+        this.port.onmessage = (event) => {
+            if (event.data === 'stop') {
+                this.flush();
+                this.active = false;
+                this.port.postMessage({ type: 'stopped' });
+            }
+        };
+    }
+
+    push(sample) {
+        const clamped = Math.max(-1, Math.min(1, sample));
+        const magnitude = Math.abs(clamped);
+        this.frame[this.filled++] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7FFF;
+        this.levelSum += magnitude;
+        if (magnitude > this.peak) this.peak = magnitude;
+        if (this.filled === this.frameSize) this.flush();
+    }
+
+    flush() {
+        if (this.filled === 0) return;
+        const pcm = this.frame.slice(0, this.filled);
+        this.port.postMessage({ type: 'frame', pcm, level: this.levelSum / this.filled, peak: this.peak }, [pcm.buffer]);
+        this.filled = 0;
+        this.levelSum = 0;
+        this.peak = 0;
+    }
+
+    process(inputs) {
+        const channels = inputs[0];
+        if (!this.active) return false;
+        if (!channels || channels.length === 0) return true;
+        const length = channels[0].length;
+        for (let i = 0; i < length; i++) {
+            let sample = 0;
+            for (let c = 0; c < channels.length; c++) sample += channels[c][i];
+            sample /= channels.length;
+            this.accumulator += sample;
+            this.accumulated++;
+            this.inputCount++;
+            while (this.inputCount >= this.nextBoundary) {
+                const output = this.accumulated > 0 ? this.accumulator / this.accumulated : this.lastSample;
+                this.lastSample = output;
+                this.accumulator = 0;
+                this.accumulated = 0;
+                this.nextBoundary += this.ratio;
+                this.push(output);
+            }
+        }
+        return true;
+    }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export class AudioCaptureService {
+    private mediaStream: MediaStream | null = null;
+    private audioContext: AudioContext | null = null;
+    private source: MediaStreamAudioSourceNode | null = null;
+    private workletNode: AudioWorkletNode | null = null;
+    private startedAt = 0;
+    private emittedSamples = 0;
+    private readonly sampleRate: number;
+    private readonly frameSize: number;
+    private readonly constraints: MediaTrackConstraints;
+
+    constructor(options: AudioCaptureOptions = {}) {
+        this.sampleRate = options.sampleRate ?? 16000;
+        this.frameSize = options.frameSize ?? 4096;
+        this.constraints = options.constraints ?? {};
+    }
+
+    /**
+     * Opens the microphone and starts delivering frames to `onFrame`.
+     * Throws when the microphone is denied or AudioWorklet is unavailable
+     * (e.g. pages not served over HTTPS).
+     */
+    async start(onFrame: (frame: AudioCaptureFrame) => void): Promise<MediaStream> {
+        if (this.mediaStream) return this.mediaStream;
+
+        this.mediaStream = await navigator.mediaDevices.getUserMedia({
+            audio: {
+                channelCount: 1,
+                echoCancellation: true,
+                noiseSuppression: true,
+                ...this.constraints,
+            },
+        });
+
+        try {
+            // O contexto usa a taxa nativa do dispositivo; a conversão para 16 kHz é feita no worklet
+            this.audioContext = new AudioContext({ latencyHint: 'interactive' });
+            if (!this.audioContext.audioWorklet) {
+                throw new Error('AudioWorklet indisponível neste navegador (é necessário HTTPS).');
+            }
+            const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+            try {
+                await this.audioContext.audioWorklet.addModule(moduleUrl);
+            } finally {
+                URL.revokeObjectURL(moduleUrl);
+            }
+
+            this.workletNode = new AudioWorkletNode(this.audioContext, PROCESSOR_NAME, {
+                numberOfInputs: 1,
+                numberOfOutputs: 0,
+                processorOptions: { targetSampleRate: this.sampleRate, frameSize: this.frameSize },
+            });
+
+            this.startedAt = Date.now();
+            this.emittedSamples = 0;
+            this.workletNode.port.onmessage = (event: MessageEvent) => {
+                if (event.data?.type !== 'frame') return;
+                const pcm = event.data.pcm as Int16Array;
+                // Tempo derivado das amostras: não sofre com atrasos da thread principal
+                const offsetMs = (this.emittedSamples / this.sampleRate) * 1000;
+                this.emittedSamples += pcm.length;
+                onFrame({ pcm, level: event.data.level, peak: event.data.peak, offsetMs, timestamp: this.startedAt + offsetMs });
+            };
+
+            this.source = this.audioContext.createMediaStreamSource(this.mediaStream);
+            this.source.connect(this.workletNode);
+            return this.mediaStream;
+        } catch (error) {
+            await this.stop();
+            throw error;
+        }
+    }
+
+    /**
+     * Stops the capture. The partial frame still in the worklet is delivered
+     * before the audio graph is closed.
+     */
+    async stop() {
+        if (this.workletNode) {
+            const node = this.workletNode;
+            await new Promise<void>(resolve => {
+                const timeout = setTimeout(resolve, 200);
+                node.port.addEventListener('message', (event: MessageEvent) => {
+                    if (event.data?.type === 'stopped') {
+                        clearTimeout(timeout);
+                        resolve();
+                    }
+                });
+                node.port.postMessage('stop');
+            });
+            node.port.onmessage = null;
+            node.disconnect();
+            this.workletNode = null;
+        }
+
+        if (this.source) {
+            this.source.disconnect();
+            this.source = null;
+        }
+
+        if (this.audioContext) {
+            await this.audioContext.close().catch(() => undefined);
+            this.audioContext = null;
+        }
+
+        if (this.mediaStream) {
+            this.mediaStream.getTracks().forEach(track => track.stop());
+            this.mediaStream = null;
+        }
+    }
+
+    getMediaStream(): MediaStream | null {
+        return this.mediaStream;
+    }
+
+    getSampleRate(): number {
+        return this.sampleRate;
+    }
+}
@@ -0,0 +1,156 @@
+/**
+ * Audio Import Service
+ * Transcribes consults recorded elsewhere (phone, dictaphone). The file is
+ * decoded and resampled to 16 kHz mono by the browser, split at pauses with
+ * the same voice detection and silence rule as the live recorder and
+ * transcribed chunk by chunk with the batch transcribers (Gemini or the
+ * local Whisper server).
+ */
+
+import { parseDiarizedTranscript, TranscriptTurn } from "../utils/transcriptUtils";
+import type { AudioChunkTranscriber } from "./audioRecordingService";
+import { DEFAULT_SILENCE_CHUNKING, PcmChunk, SilenceChunker, SilenceChunkingConfig } from "./silenceChunker";
+import { createGeminiChunkTranscriber, createWhisperChunkTranscriber, TranscriptionSettings } from "./transcriptionEngines";
+import { DEFAULT_VAD_SETTINGS, VadSettings, VoiceActivityDetector } from "./voiceActivityDetector";
+
+export const AUDIO_IMPORT_ACCEPT = '.wav,.mp3,.m4a,.webm,audio/wav,audio/x-wav,audio/mpeg,audio/mp4,audio/x-m4a,audio/webm';
+
+export type AudioImportStage = 'decoding' | 'transcribing' | 'anamnesis' | 'saving';
+
+export const AUDIO_IMPORT_STAGE_LABELS: Record<AudioImportStage, string> = {
+    decoding: 'Lendo o arquivo de áudio',
+    transcribing: 'Transcrevendo',
+    anamnesis: 'Gerando a anamnese',
+    saving: 'Salvando a sessão',
+};
+
+export interface AudioImportProgress {
+    stage: AudioImportStage;
+    completed: number; // Chunks transcritos (demais etapas: 0 ou 1)
+    total: number;
+}
+
+export interface DecodedAudio {
+    pcm: Int16Array;
+    sampleRate: number;
+    durationMs: number;
+}
+
+export interface AudioFileTranscription {
+    turns: TranscriptTurn[];
+    durationMs: number;
+}
+
+export interface AudioFileTranscriptionOptions {
+    settings: TranscriptionSettings;
+    geminiApiKey: string | undefined;
+    onProgress: (progress: AudioImportProgress) => void;
+    onLog?: (message: string) => void;
+    signal?: AbortSignal;
+}
+
+const IMPORT_SAMPLE_RATE = 16000;
+const FRAME_SIZE = 4096; // Mesmo tamanho de quadro da captura ao vivo
+const MAX_PARALLEL_CHUNKS = 3; // Mesmo paralelismo dos três buffers da gravação ao vivo
+const CHUNK_ATTEMPTS = 2;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new DOMException('Importação cancelada.', 'AbortError');
+};
+
+/**
+ * Decodes WAV, MP3, M4A or WebM into 16-bit mono PCM at `sampleRate`; the
+ * browser's decoder resamples to the rate of the offline context.
+ */
+export const decodeAudioFile = async (file: Blob, sampleRate = IMPORT_SAMPLE_RATE): Promise<DecodedAudio> => {
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    let decoded: AudioBuffer;
+    try {
+        decoded = await context.decodeAudioData(await file.arrayBuffer());
+    } catch {
+        throw new Error('Não foi possível ler o arquivo. Use WAV, MP3, M4A ou WebM.');
+    }
+
+    const channels = Array.from({ length: decoded.numberOfChannels }, (_, channel) => decoded.getChannelData(channel));
+    const pcm = new Int16Array(decoded.length);
+    for (let i = 0; i < decoded.length; i++) {
+        let sample = 0;
+        for (const channel of channels) sample += channel[i];
+        sample = Math.max(-1, Math.min(1, sample / channels.length));
+        pcm[i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+    }
+    return { pcm, sampleRate, durationMs: (decoded.length / sampleRate) * 1000 };
+};
+
+// O ruído de fundo é calibrado no início do arquivo, como no início de uma gravação ao vivo
+export const chunkAudio = (audio: DecodedAudio, config: SilenceChunkingConfig = DEFAULT_SILENCE_CHUNKING, vadSettings: VadSettings = DEFAULT_VAD_SETTINGS): PcmChunk[] => {
+    const chunker = new SilenceChunker(audio.sampleRate, config);
+    const vad = new VoiceActivityDetector(vadSettings, audio.sampleRate);
+    const chunks: PcmChunk[] = [];
+    for (let start = 0; start < audio.pcm.length; start += FRAME_SIZE) {
+        const pcm = audio.pcm.subarray(start, start + FRAME_SIZE);
+        const chunk = chunker.push({ pcm, isSpeech: vad.process(pcm).isSpeech, offsetMs: (start / audio.sampleRate) * 1000 });
+        if (chunk) chunks.push(chunk);
+    }
+    const last = chunker.flush();
+    if (last) chunks.push(last);
+    return chunks;
+};
+
+/**
+ * Picks the batch transcriber for the configured engine: the local Whisper
+ * server when it is the selected engine (the audio never goes to the cloud),
+ * Gemini otherwise, since the streaming engines cannot read files.
+ */
+export const createFileTranscriber = (settings: TranscriptionSettings, geminiApiKey: string | undefined): AudioChunkTranscriber => {
+    if (settings.engine === 'whisper') {
+        if (!settings.whisper.baseUrl.trim()) throw new Error('URL do servidor Whisper não configurada.');
+        return createWhisperChunkTranscriber(settings.whisper, settings.language);
+    }
+    if (!geminiApiKey) throw new Error('Chave de API do Gemini não configurada.');
+    return createGeminiChunkTranscriber(geminiApiKey);
+};
+
+export const transcribeAudioFile = async (file: Blob, options: AudioFileTranscriptionOptions): Promise<AudioFileTranscription> => {
+    const { settings, onProgress, onLog, signal } = options;
+    const transcriber = createFileTranscriber(settings, options.geminiApiKey);
+
+    onProgress({ stage: 'decoding', completed: 0, total: 1 });
+    const audio = await decodeAudioFile(file);
+    throwIfAborted(signal);
+    // Trechos só de silêncio não são enviados
+    const chunks = chunkAudio(audio, { ...DEFAULT_SILENCE_CHUNKING, silenceDuration: settings.batchSilenceMs }, settings.vad)
+        .filter(chunk => chunk.hasSound);
+    onLog?.(`Arquivo decodificado: ${Math.round(audio.durationMs / 1000)}s de áudio em ${chunks.length} trecho(s).`);
+
+    const results: TranscriptTurn[][] = new Array(chunks.length);
+    let completed = 0;
+    let next = 0;
+    onProgress({ stage: 'transcribing', completed, total: chunks.length });
+
+    const transcribeChunk = async (chunk: PcmChunk, index: number) => {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                const text = await transcriber(chunk.pcm, audio.sampleRate, signal);
+                return text.trim() ? parseDiarizedTranscript(text.trim(), chunk.startOffsetMs, chunk.startOffsetMs + chunk.durationMs) : [];
+            } catch (error: any) {
+                if (attempt >= CHUNK_ATTEMPTS || signal?.aborted) throw error;
+                onLog?.(`Trecho ${index + 1}: ${error.message}; tentando novamente.`);
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (next < chunks.length) {
+            throwIfAborted(signal);
+            const index = next++;
+            results[index] = await transcribeChunk(chunks[index], index);
+            completed++;
+            onProgress({ stage: 'transcribing', completed, total: chunks.length });
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(MAX_PARALLEL_CHUNKS, chunks.length) }, worker));
+    throwIfAborted(signal);
+
+    return { turns: results.flat(), durationMs: audio.durationMs };
+};
@@ -1,68 +1,81 @@
-import { GoogleGenAI } from "@google/genai";
+import { TranscriptTurn, parseDiarizedTranscript } from "../utils/transcriptUtils";
+import { AudioCaptureFrame, AudioCaptureService } from "./audioCaptureService";
+import { DEFAULT_SILENCE_CHUNKING, shouldCloseChunk } from "./silenceChunker";
+import { TranscriptStitcher } from "./transcriptStitcher";
+import { DEFAULT_VAD_SETTINGS, VadResult, VadSettings, VoiceActivityDetector } from "./voiceActivityDetector";
+
+// Transcreve um pacote de áudio PCM 16-bit mono; implementado por cada motor (Gemini, Whisper...)
+// signal: cancela a requisição em andamento (importação de arquivos)
+export type AudioChunkTranscriber = (pcm: Int16Array, sampleRate: number, signal?: AbortSignal) => Promise<string>;
 
 export interface AudioRecordingCallbacks {
-    onTranscript: (text: string) => void; // Chamado quando um pacote é transcrito
+    onTranscript: (turns: TranscriptTurn[]) => void; // Chamado quando um pacote é transcrito
     onError: (error: string) => void;
     onLog: (message: string) => void;
+    onVoiceActivity?: (result: VadResult) => void; // Decisão do detector de voz a cada quadro
 }
 
 export interface AudioRecordingConfig {
-    silenceThreshold?: number; // Nível de volume mínimo para considerar silêncio (0-1)
+    vad?: VadSettings; // Detecção de voz que separa fala de silêncio
     silenceDuration?: number; // Duração em ms de silêncio antes de empacotar
     minChunkDuration?: number; // Duração mínima do chunk em ms antes de enviar
     maxChunkDuration?: number; // Duração máxima do chunk em ms (força empacotamento)
     sampleRate?: number; // Taxa de amostragem (padrão 16000)
+    timeOrigin?: number; // Epoch (ms) de referência dos turnos; padrão: início da gravação
 }
 
 interface AudioBuffer {
-    chunks: Float32Array[];
+    chunks: Int16Array[];
     startTime: number;
+    startSample: number; // Posição do primeiro quadro no áudio capturado, para alinhar buffers sobrepostos
     lastSoundTime: number;
     isReady: boolean; // Se está pronto para transcrição
     isTranscribing: boolean; // Se está sendo transcrito
 }
 
 export class AudioRecordingService {
-    private mediaStream: MediaStream | null = null;
-    private audioContext: AudioContext | null = null;
-    private audioProcessor: ScriptProcessorNode | null = null;
-    private analyser: AnalyserNode | null = null;
+    private capture: AudioCaptureService | null = null;
     
     private isRecording: boolean = false;
     private shouldStop: boolean = false;
+    private recordingStartTime: number = 0; // Referência para os tempos dos turnos
+    private capturedSamples: number = 0; // Amostras recebidas desde o início da gravação
     
     // Três buffers rotativos para evitar gaps na gravação
     // IMPORTANTE: A API do Gemini suporta múltiplas requisições paralelas com UMA única chave
     // Não é necessário ter 3 chaves diferentes - uma chave pode processar múltiplos buffers simultaneamente
     private buffers: AudioBuffer[] = [
-        { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
-        { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
-        { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+        { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+        { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+        { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
     ];
     private activeBufferIndex: number = 0;
     
     private callbacks: AudioRecordingCallbacks;
-    private config: Required<AudioRecordingConfig>;
-    private client: GoogleGenAI; // Um único cliente pode fazer múltiplas requisições paralelas
-    private apiKey: string;
+    private config: Required<Omit<AudioRecordingConfig, 'timeOrigin'>> & Pick<AudioRecordingConfig, 'timeOrigin'>;
+    private vad: VoiceActivityDetector;
+    // Os buffers abertos recebem os mesmos quadros: remove as falas repetidas entre transcrições
+    private stitcher = new TranscriptStitcher();
+    private transcriber: AudioChunkTranscriber;
 
     constructor(
-        apiKey: string,
+        transcriber: AudioChunkTranscriber,
         callbacks: AudioRecordingCallbacks,
         config: AudioRecordingConfig = {}
     ) {
-        this.apiKey = apiKey;
-        this.client = new GoogleGenAI({ apiKey });
+        this.transcriber = transcriber;
         this.callbacks = callbacks;
         
-        // Configuração padrão
+        // Configuração padrão: a mesma regra de silêncio usada na importação de arquivos
         this.config = {
-            silenceThreshold: config.silenceThreshold ?? 0.01, // 1% do volume máximo
-            silenceDuration: config.silenceDuration ?? 2000, // 2 segundos de silêncio
-            minChunkDuration: config.minChunkDuration ?? 3000, // Mínimo 3 segundos
-            maxChunkDuration: config.maxChunkDuration ?? 60000, // Máximo 60 segundos
+            vad: config.vad ?? DEFAULT_VAD_SETTINGS,
+            silenceDuration: config.silenceDuration ?? DEFAULT_SILENCE_CHUNKING.silenceDuration,
+            minChunkDuration: config.minChunkDuration ?? DEFAULT_SILENCE_CHUNKING.minChunkDuration,
+            maxChunkDuration: config.maxChunkDuration ?? DEFAULT_SILENCE_CHUNKING.maxChunkDuration,
             sampleRate: config.sampleRate ?? 16000,
+            timeOrigin: config.timeOrigin,
         };
+        this.vad = new VoiceActivityDetector(this.config.vad, this.config.sampleRate);
     }
 
     async start() {
@@ -73,70 +86,18 @@ export class AudioRecordingService {
 
         this.shouldStop = false;
         this.isRecording = true;
+        this.recordingStartTime = this.config.timeOrigin ?? Date.now();
+        // Recalibra o ruído de fundo a cada início: a sala pode ter mudado
+        this.vad.reset();
+        this.capturedSamples = 0;
+        this.stitcher.reset();
         this.callbacks.onLog("Iniciando gravação de áudio com 3 buffers rotativos...");
 
         try {
-            // Solicitar acesso ao microfone
-            this.mediaStream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    channelCount: 1,
-                    sampleRate: this.config.sampleRate,
-                    echoCancellation: true,
-                    noiseSuppression: true,
-                }
-            });
-
+            // Captura em AudioWorklet: já entrega PCM 16 kHz e o nível de cada quadro
+            this.capture = new AudioCaptureService({ sampleRate: this.config.sampleRate });
+            await this.capture.start((frame) => this.handleFrame(frame));
             this.callbacks.onLog("Microfone acessado com sucesso");
-
-            // Criar AudioContext
-            this.audioContext = new AudioContext({ sampleRate: this.config.sampleRate });
-            const source = this.audioContext.createMediaStreamSource(this.mediaStream);
-
-            // Criar AnalyserNode para detecção de silêncio
-            this.analyser = this.audioContext.createAnalyser();
-            this.analyser.fftSize = 2048;
-            this.analyser.smoothingTimeConstant = 0.8;
-            source.connect(this.analyser);
-
-            // Criar ScriptProcessor para capturar áudio
-            this.audioProcessor = this.audioContext.createScriptProcessor(4096, 1, 1);
-            
-            this.audioProcessor.onaudioprocess = (e) => {
-                if (!this.isRecording || this.shouldStop) return;
-
-                const inputData = e.inputBuffer.getChannelData(0);
-                const volume = this.calculateVolume(inputData);
-                const hasSound = volume > this.config.silenceThreshold;
-                const now = Date.now();
-
-                // Adiciona áudio a TODOS os buffers ativos (que não estão sendo transcritos)
-                for (let i = 0; i < this.buffers.length; i++) {
-                    const buffer = this.buffers[i];
-                    
-                    // Pula buffers que estão sendo transcritos ou que já foram marcados como ready
-                    if (buffer.isTranscribing || buffer.isReady) continue;
-                    
-                    // Inicia novo buffer se necessário
-                    if (buffer.startTime === 0) {
-                        buffer.startTime = now;
-                        this.callbacks.onLog(`Buffer ${i + 1} iniciado`);
-                    }
-                    
-                    // Adiciona áudio ao buffer
-                    buffer.chunks.push(new Float32Array(inputData));
-                    
-                    if (hasSound) {
-                        buffer.lastSoundTime = now;
-                    }
-                }
-
-                // Verifica condições para empacotar cada buffer
-                this.checkAndPackageBuffers(now);
-            };
-
-            source.connect(this.audioProcessor);
-            this.audioProcessor.connect(this.audioContext.destination);
-            
             this.callbacks.onLog("Gravação iniciada com 3 buffers. Aguardando fala...");
 
         } catch (error: any) {
@@ -145,6 +106,42 @@ export class AudioRecordingService {
         }
     }
 
+    private handleFrame(frame: AudioCaptureFrame) {
+        if (!this.isRecording || this.shouldStop) return;
+
+        const activity = this.vad.process(frame.pcm);
+        this.callbacks.onVoiceActivity?.(activity);
+        const hasSound = activity.isSpeech;
+        const now = frame.timestamp;
+        const frameStartSample = this.capturedSamples;
+        this.capturedSamples += frame.pcm.length;
+
+        // Adiciona áudio a TODOS os buffers ativos (que não estão sendo transcritos)
+        for (let i = 0; i < this.buffers.length; i++) {
+            const buffer = this.buffers[i];
+            
+            // Pula buffers que estão sendo transcritos ou que já foram marcados como ready
+            if (buffer.isTranscribing || buffer.isReady) continue;
+            
+            // Inicia novo buffer se necessário
+            if (buffer.startTime === 0) {
+                buffer.startTime = now;
+                buffer.startSample = frameStartSample;
+                this.callbacks.onLog(`Buffer ${i + 1} iniciado`);
+            }
+            
+            // Adiciona áudio ao buffer
+            buffer.chunks.push(frame.pcm);
+            
+            if (hasSound) {
+                buffer.lastSoundTime = now;
+            }
+        }
+
+        // Verifica condições para empacotar cada buffer
+        this.checkAndPackageBuffers(now);
+    }
+
     private checkAndPackageBuffers(now: number) {
         for (let i = 0; i < this.buffers.length; i++) {
             const buffer = this.buffers[i];
@@ -158,10 +155,7 @@ export class AudioRecordingService {
             // Verifica condições para empacotar:
             // 1. Silêncio por tempo suficiente E chunk tem duração mínima
             // 2. OU chunk atingiu duração máxima
-            const shouldPackage = 
-                (silenceDuration >= this.config.silenceDuration && 
-                 chunkDuration >= this.config.minChunkDuration) ||
-                chunkDuration >= this.config.maxChunkDuration;
+            const shouldPackage = shouldCloseChunk(this.config, chunkDuration, silenceDuration);
             
             if (shouldPackage) {
                 this.callbacks.onLog(`Buffer ${i + 1} pronto para transcrição (${Math.round(chunkDuration/1000)}s de duração, ${Math.round(silenceDuration/1000)}s de silêncio)`);
@@ -180,10 +174,13 @@ export class AudioRecordingService {
         try {
             // Cria uma cópia dos chunks para processar
             const chunksToProcess = [...buffer.chunks];
+            const startOffsetMs = buffer.startTime - this.recordingStartTime;
+            const startSample = buffer.startSample;
             
             // Libera o buffer imediatamente para voltar ao ciclo (CRÍTICO: não espera transcrição)
             buffer.chunks = [];
             buffer.startTime = 0;
+            buffer.startSample = 0;
             buffer.lastSoundTime = 0;
             buffer.isReady = false;
             
@@ -193,7 +190,7 @@ export class AudioRecordingService {
             
             // Processa transcrição em paralelo (não bloqueia gravação)
             // IMPORTANTE: Não await aqui - processa em background
-            this.transcribeBuffer(chunksToProcess, duration, bufferIndex).finally(() => {
+            this.transcribeBuffer(chunksToProcess, duration, bufferIndex, startOffsetMs, startSample).finally(() => {
                 // Quando terminar, marca como disponível novamente
                 buffer.isTranscribing = false;
                 const remaining = this.buffers.filter(b => b.isTranscribing).length;
@@ -206,33 +203,35 @@ export class AudioRecordingService {
         }
     }
 
-    private async transcribeBuffer(chunks: Float32Array[], duration: number, bufferIndex: number) {
+    private async transcribeBuffer(chunks: Int16Array[], duration: number, bufferIndex: number, startOffsetMs: number, startSample: number) {
         try {
-            // Converter Float32Array para Int16Array (PCM)
+            // Concatena os quadros PCM do buffer
             const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
             const pcmData = new Int16Array(totalLength);
             
             let offset = 0;
             for (const chunk of chunks) {
-                for (let i = 0; i < chunk.length; i++) {
-                    const sample = Math.max(-1, Math.min(1, chunk[i]));
-                    pcmData[offset + i] = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-                }
+                pcmData.set(chunk, offset);
                 offset += chunk.length;
             }
 
-            // Converter para Base64
-            const base64Audio = this.arrayBufferToBase64(pcmData.buffer);
-            const audioSizeKB = Math.round(base64Audio.length * 3 / 4 / 1024); // Aproximação: base64 é ~33% maior
+            const audioSizeKB = Math.round(pcmData.byteLength / 1024);
             
-            this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Enviando ${Math.round(duration/1000)}s de áudio (${audioSizeKB}KB) para Gemini Flash...`);
+            this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Enviando ${Math.round(duration/1000)}s de áudio (${audioSizeKB}KB) para transcrição...`);
             
-            // Transcrever usando Gemini API (processamento paralelo - não bloqueia outros buffers)
-            const transcription = await this.transcribeAudio(base64Audio);
+            // Transcrição em paralelo - não bloqueia outros buffers
+            const startTime = Date.now();
+            const transcription = await this.transcriber(pcmData, this.config.sampleRate);
+            this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Transcrição respondeu em ${Math.round((Date.now() - startTime)/1000)}s`);
             
             if (transcription && transcription.trim()) {
-                this.callbacks.onTranscript(transcription.trim());
+                const turns = parseDiarizedTranscript(transcription.trim(), startOffsetMs, startOffsetMs + duration);
+                const stitched = this.stitcher.add({ startSample, endSample: startSample + pcmData.length, turns });
                 this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Transcrição recebida (${transcription.length} caracteres)`);
+                if (stitched !== turns) {
+                    this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Trecho repetido de um buffer sobreposto removido`);
+                }
+                if (stitched.length > 0) this.callbacks.onTranscript(stitched);
             } else {
                 this.callbacks.onLog(`Buffer ${bufferIndex + 1}: Nenhuma transcrição retornada (possível silêncio)`);
             }
@@ -242,62 +241,8 @@ export class AudioRecordingService {
         }
     }
 
-    private async transcribeAudio(base64Audio: string): Promise<string> {
-        const startTime = Date.now();
-        try {
-            // Chamada à API Gemini - pode rodar em paralelo com outras chamadas
-            const response = await this.client.models.generateContent({
-                model: 'gemini-2.0-flash-exp',
-                contents: [{
-                    role: 'user',
-                    parts: [
-                        {
-                            text: 'Transcreva esta gravação de consulta médica com precisão. Identifique falas de médico e paciente se possível. Não responda às perguntas, apenas transcreva o que é dito. Formate termos médicos corretamente.'
-                        },
-                        {
-                            inlineData: {
-                                data: base64Audio,
-                                mimeType: 'audio/pcm;rate=16000'
-                            }
-                        }
-                    ]
-                }],
-                config: {
-                    temperature: 0.0,
-                    maxOutputTokens: 4096,
-                }
-            });
-
-            const duration = Date.now() - startTime;
-            this.callbacks.onLog(`API Gemini respondeu em ${Math.round(duration/1000)}s`);
-            
-            return response.text || '';
-        } catch (error: any) {
-            const duration = Date.now() - startTime;
-            this.callbacks.onLog(`Erro na API Gemini após ${Math.round(duration/1000)}s: ${error.message}`);
-            throw new Error(`Falha na transcrição: ${error.message}`);
-        }
-    }
-
-    private calculateVolume(buffer: Float32Array): number {
-        let sum = 0;
-        for (let i = 0; i < buffer.length; i++) {
-            sum += Math.abs(buffer[i]);
-        }
-        return sum / buffer.length;
-    }
-
-    private arrayBufferToBase64(buffer: ArrayBuffer): string {
-        const bytes = new Uint8Array(buffer);
-        let binary = '';
-        for (let i = 0; i < bytes.byteLength; i++) {
-            binary += String.fromCharCode(bytes[i]);
-        }
-        return btoa(binary);
-    }
-
     getMediaStream(): MediaStream | null {
-        return this.mediaStream;
+        return this.capture?.getMediaStream() ?? null;
     }
 
     getActiveBufferIndex(): number {
@@ -314,9 +259,13 @@ export class AudioRecordingService {
     async stop() {
         if (!this.isRecording) return;
 
+        this.callbacks.onLog("Parando gravação...");
+
+        // Recebe o último quadro parcial antes de empacotar
+        await this.capture?.stop();
+        this.capture = null;
         this.shouldStop = true;
         this.isRecording = false;
-        this.callbacks.onLog("Parando gravação...");
 
         // Processar últimos chunks se houver
         const now = Date.now();
@@ -332,32 +281,11 @@ export class AudioRecordingService {
             }
         }
 
-        // Limpar recursos
-        if (this.audioProcessor) {
-            this.audioProcessor.disconnect();
-            this.audioProcessor = null;
-        }
-
-        if (this.analyser) {
-            this.analyser.disconnect();
-            this.analyser = null;
-        }
-
-        if (this.audioContext) {
-            await this.audioContext.close();
-            this.audioContext = null;
-        }
-
-        if (this.mediaStream) {
-            this.mediaStream.getTracks().forEach(track => track.stop());
-            this.mediaStream = null;
-        }
-
         // Reset buffers
         this.buffers = [
-            { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
-            { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
-            { chunks: [], startTime: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+            { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+            { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
+            { chunks: [], startTime: 0, startSample: 0, lastSoundTime: 0, isReady: false, isTranscribing: false },
         ];
         this.activeBufferIndex = 0;
         
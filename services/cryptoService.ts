@@ -0,0 +1,206 @@
+/**
+ * Crypto Service
+ * End-to-end encryption of consult data with WebCrypto. A key derived from
+ * the user's passphrase (PBKDF2) wraps random AES-GCM data keys; only the
+ * wrapped keys and the ciphertext ever leave the browser. Rotating creates a
+ * new data key while older keys stay in the keyring to read existing data.
+ */
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface WrappedDataKey {
+    id: string;
+    iv: string;
+    wrapped: string;
+    createdAt: number;
+}
+
+// Guardado no documento do usuário; não contém nenhum segredo em claro
+export interface EncryptionMetadata {
+    version: 1;
+    salt: string;
+    iterations: number;
+    activeKeyId: string;
+    keys: WrappedDataKey[];
+}
+
+export interface EncryptedPayload {
+    __encrypted: 1;
+    kid: string; // Chave de dados usada, para leitura após rotação
+    iv: string;
+    data: string;
+}
+
+// Conteúdo binário (ex.: gravação da consulta); o texto cifrado fica em bytes, sem base64
+export interface EncryptedBytes {
+    kid: string;
+    iv: string;
+    data: ArrayBuffer;
+}
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+    typeof value === 'object' && value !== null && (value as EncryptedPayload).__encrypted === 1;
+
+const toBase64 = (buffer: ArrayBuffer | Uint8Array): string => {
+    const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return window.btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+    const binary = window.atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const createKeyId = () => toBase64(randomBytes(9)).replace(/[+/=]/g, '');
+
+const deriveWrappingKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', salt: fromBase64(salt), iterations, hash: 'SHA-256' },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['wrapKey', 'unwrapKey']
+    );
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey, id: string, createdAt: number): Promise<WrappedDataKey> => {
+    const iv = randomBytes(IV_BYTES);
+    const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+    return { id, iv: toBase64(iv), wrapped: toBase64(wrapped), createdAt };
+};
+
+const unwrapDataKey = (entry: WrappedDataKey, wrappingKey: CryptoKey, extractable: boolean): Promise<CryptoKey> =>
+    crypto.subtle.unwrapKey(
+        'raw',
+        fromBase64(entry.wrapped),
+        wrappingKey,
+        { name: 'AES-GCM', iv: fromBase64(entry.iv) },
+        { name: 'AES-GCM', length: 256 },
+        extractable,
+        ['encrypt', 'decrypt']
+    );
+
+const generateDataKey = () =>
+    crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+class CryptoService {
+    private dataKeys = new Map<string, CryptoKey>();
+    private activeKeyId: string | null = null;
+
+    isUnlocked(): boolean {
+        return this.activeKeyId !== null;
+    }
+
+    /**
+     * Creates the keyring for a user without encryption yet and unlocks it.
+     * @returns Metadata to be stored with the user's settings.
+     */
+    async setup(passphrase: string): Promise<EncryptionMetadata> {
+        const salt = toBase64(randomBytes(SALT_BYTES));
+        const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+        const dataKey = await generateDataKey();
+        const entry = await wrapDataKey(dataKey, wrappingKey, createKeyId(), Date.now());
+        const metadata: EncryptionMetadata = { version: 1, salt, iterations: PBKDF2_ITERATIONS, activeKeyId: entry.id, keys: [entry] };
+        await this.unlock(passphrase, metadata);
+        return metadata;
+    }
+
+    // Lança erro quando a senha está incorreta (o AES-GCM não consegue desembrulhar as chaves)
+    async unlock(passphrase: string, metadata: EncryptionMetadata) {
+        const wrappingKey = await deriveWrappingKey(passphrase, metadata.salt, metadata.iterations);
+        const keys = new Map<string, CryptoKey>();
+        try {
+            for (const entry of metadata.keys) {
+                keys.set(entry.id, await unwrapDataKey(entry, wrappingKey, false));
+            }
+        } catch {
+            throw new Error('Senha de criptografia incorreta.');
+        }
+        this.dataKeys = keys;
+        this.activeKeyId = metadata.activeKeyId;
+    }
+
+    lock() {
+        this.dataKeys.clear();
+        this.activeKeyId = null;
+    }
+
+    // Troca a senha sem reescrever os dados: apenas as chaves são embrulhadas de novo
+    async changePassphrase(current: string, next: string, metadata: EncryptionMetadata): Promise<EncryptionMetadata> {
+        const currentKey = await deriveWrappingKey(current, metadata.salt, metadata.iterations);
+        const salt = toBase64(randomBytes(SALT_BYTES));
+        const nextKey = await deriveWrappingKey(next, salt, PBKDF2_ITERATIONS);
+        const keys: WrappedDataKey[] = [];
+        try {
+            for (const entry of metadata.keys) {
+                const dataKey = await unwrapDataKey(entry, currentKey, true);
+                keys.push(await wrapDataKey(dataKey, nextKey, entry.id, entry.createdAt));
+            }
+        } catch {
+            throw new Error('Senha atual incorreta.');
+        }
+        const updated: EncryptionMetadata = { ...metadata, salt, iterations: PBKDF2_ITERATIONS, keys };
+        await this.unlock(next, updated);
+        return updated;
+    }
+
+    /**
+     * Adds a new data key and makes it active for future writes. Existing
+     * ciphertext stays readable; callers re-save data to move it to the new key.
+     */
+    async rotateDataKey(passphrase: string, metadata: EncryptionMetadata): Promise<EncryptionMetadata> {
+        const wrappingKey = await deriveWrappingKey(passphrase, metadata.salt, metadata.iterations);
+        const entry = await wrapDataKey(await generateDataKey(), wrappingKey, createKeyId(), Date.now());
+        const updated: EncryptionMetadata = { ...metadata, activeKeyId: entry.id, keys: [...metadata.keys, entry] };
+        await this.unlock(passphrase, updated);
+        return updated;
+    }
+
+    async encrypt(value: unknown): Promise<EncryptedPayload> {
+        const { kid, iv, data } = await this.encryptBytes(new TextEncoder().encode(JSON.stringify(value)));
+        return { __encrypted: 1, kid, iv, data: toBase64(data) };
+    }
+
+    async decrypt<T>(payload: EncryptedPayload): Promise<T> {
+        const plaintext = await this.decryptBytes({ kid: payload.kid, iv: payload.iv, data: fromBase64(payload.data).buffer });
+        return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+    }
+
+    async encryptBytes(plaintext: BufferSource): Promise<EncryptedBytes> {
+        const key = this.activeKeyId ? this.dataKeys.get(this.activeKeyId) : undefined;
+        if (!this.activeKeyId || !key) {
+            throw new Error('Criptografia bloqueada: desbloqueie com sua senha antes de salvar.');
+        }
+        const iv = randomBytes(IV_BYTES);
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+        return { kid: this.activeKeyId, iv: toBase64(iv), data };
+    }
+
+    async decryptBytes(payload: EncryptedBytes): Promise<ArrayBuffer> {
+        const key = this.dataKeys.get(payload.kid);
+        if (!key) {
+            throw new Error('Criptografia bloqueada ou chave desconhecida para estes dados.');
+        }
+        return crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, payload.data);
+    }
+
+    // Dados salvos antes da criptografia continuam legíveis
+    async decryptIfNeeded<T>(value: unknown): Promise<T> {
+        return isEncryptedPayload(value) ? this.decrypt<T>(value) : value as T;
+    }
+}
+
+export const cryptoService = new CryptoService();
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { PhiVault } from './deidentificationService';
+
+const categoriesOf = (vault: PhiVault) => vault.getAudit().map(entry => entry.category);
+
+describe('PhiVault CPF detection', () => {
+    it('masks a formatted CPF', () => {
+        const vault = new PhiVault();
+        expect(vault.mask('CPF 529.982.247-25')).toBe('CPF [CPF_1]');
+        expect(categoriesOf(vault)).toEqual(['cpf']);
+    });
+
+    it('masks an unformatted CPF with valid check digits', () => {
+        const vault = new PhiVault();
+        expect(vault.mask('o documento é 52998224725')).toBe('o documento é [CPF_1]');
+        expect(categoriesOf(vault)).toEqual(['cpf']);
+    });
+
+    it('leaves an 11-digit mobile number to the phone pattern', () => {
+        const vault = new PhiVault();
+        expect(vault.mask('meu celular é 11987654321')).toBe('meu celular é [TELEFONE_1]');
+        expect(categoriesOf(vault)).toEqual(['phone']);
+    });
+
+    it('restores the original values', () => {
+        const vault = new PhiVault();
+        const masked = vault.mask('CPF 52998224725, celular 11987654321');
+        expect(vault.unmask(masked)).toBe('CPF 52998224725, celular 11987654321');
+    });
+});
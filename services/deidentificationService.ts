@@ -0,0 +1,186 @@
+/**
+ * De-identification Service
+ * Replaces protected health information (names, Brazilian identifiers,
+ * contacts, addresses and dates) with reversible placeholders before text
+ * is sent to a cloud LLM, and restores the original values in responses.
+ * A vault lives for one consult, so placeholders stay stable across calls,
+ * and it keeps an audit of everything it masked.
+ */
+
+import { AnamnesisDocument } from "./anamnesisSchema";
+import { getPatientName } from "../utils/sessionUtils";
+
+export type PhiCategory = 'name' | 'cpf' | 'rg' | 'cns' | 'identifier' | 'phone' | 'email' | 'cep' | 'address' | 'date';
+
+// Não guarda o valor original: apenas uma pista para conferência
+export interface PhiAuditEntry {
+    placeholder: string;
+    category: PhiCategory;
+    hint: string;
+    firstMaskedAt: Date;
+    maskCount: number; // Em quantos envios o valor foi mascarado
+}
+
+const PLACEHOLDER_LABELS: Record<PhiCategory, string> = {
+    name: 'NOME',
+    cpf: 'CPF',
+    rg: 'RG',
+    cns: 'CNS',
+    identifier: 'ID',
+    phone: 'TELEFONE',
+    email: 'EMAIL',
+    cep: 'CEP',
+    address: 'ENDERECO',
+    date: 'DATA',
+};
+
+export const PLACEHOLDER_INSTRUCTION = 'Dados identificáveis foram substituídos por marcadores entre colchetes (ex.: [NOME_1], [CPF_1]). Mantenha os marcadores exatamente como estão quando precisar se referir a esses dados.';
+
+// Dígitos verificadores do CPF; distingue um CPF sem pontuação de um celular com DDD
+const isValidCpf = (value: string): boolean => {
+    const digits = value.replace(/\D/g, '');
+    if (digits.length !== 11 || /^(\d)\1{10}$/.test(digits)) return false;
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        for (let i = 0; i < length; i++) sum += Number(digits[i]) * (length + 1 - i);
+        return ((sum * 10) % 11) % 10;
+    };
+    return checkDigit(9) === Number(digits[9]) && checkDigit(10) === Number(digits[10]);
+};
+
+// Ordem importa: padrões mais específicos primeiro (CPF antes de RG e telefone).
+// Quando `validate` recusa o trecho, ele fica para os padrões seguintes.
+const PHI_PATTERNS: { category: PhiCategory; pattern: RegExp; group?: number; validate?: (value: string) => boolean }[] = [
+    { category: 'email', pattern: /[\w.+-]+@[\w-]+\.[\w.-]+/g },
+    { category: 'cpf', pattern: /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g },
+    { category: 'cpf', pattern: /\b\d{11}\b/g, validate: isValidCpf },
+    { category: 'cns', pattern: /\b[1-9]\d{2}\s?\d{4}\s?\d{4}\s?\d{4}\b/g },
+    // Dicionário de identificadores brasileiros seguidos do número
+    { category: 'identifier', pattern: /\b(?:CPF|RG|CNS|CNH|cart[ãa]o (?:do )?SUS|prontu[áa]rio|matr[íi]cula|passaporte|NIS|PIS)\b[:\s]*(?:n[º°o.]?\s*|n[úu]mero\s*)?([\dXx][\d.\-\/\s]{3,18}[\dXx])/gi, group: 1 },
+    { category: 'rg', pattern: /\b\d{1,2}\.\d{3}\.\d{3}-[\dXx]\b/g },
+    { category: 'phone', pattern: /(?:\+?55\s?)?\(?\b\d{2}\)?\s?9?\d{4}[-\s]?\d{4}\b/g },
+    { category: 'cep', pattern: /\b\d{5}-\d{3}\b/g },
+    { category: 'address', pattern: /\b(?:Rua|R\.|Avenida|Av\.|Travessa|Alameda|Rodovia|Pra[çc]a|Estrada|Largo)\s+[A-ZÀ-Ýa-zà-ý0-9][\wÀ-ý.' ]{2,40}?(?:,\s*(?:n[º°o.]?\s*)?\d+)?(?=[,.;\n]|$)/g },
+    { category: 'date', pattern: /\b\d{1,2}\/\d{1,2}\/\d{2,4}\b/g },
+    { category: 'date', pattern: /\b\d{1,2} de (?:janeiro|fevereiro|março|marco|abril|maio|junho|julho|agosto|setembro|outubro|novembro|dezembro)(?: de \d{4})?\b/gi },
+];
+
+// Nomes anunciados na fala: "meu nome é ...", "Dona ...", "Dr. ..."
+const NAME_CUE_PATTERN = /\b(?:[Mm]eu nome é|[Mm]e chamo|[OoAa] paciente|Sr\.?|Sra\.?|Senhor|Senhora|Dona|Seu|Dr\.?|Dra\.?|Doutor|Doutora)\s+((?:[A-ZÀ-Ý][a-zà-ý]+)(?:\s+(?:d[aeo]s?\s+)?[A-ZÀ-Ý][a-zà-ý]+){0,4})/g;
+
+const NAME_PARTICLES = new Set(['da', 'de', 'do', 'das', 'dos', 'e']);
+const MIN_NAME_PART_LENGTH = 3;
+
+const PLACEHOLDER_PATTERN = /\[(NOME|CPF|RG|CNS|ID|TELEFONE|EMAIL|CEP|ENDERECO|DATA)_\d+\]/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const hintFor = (value: string) => value.length <= 2 ? '…' : `${value.slice(0, 2)}…`;
+
+export class PhiVault {
+    private placeholderByValue = new Map<string, string>();
+    private valueByPlaceholder = new Map<string, string>();
+    private counters = new Map<PhiCategory, number>();
+    private audit = new Map<string, PhiAuditEntry>();
+    private knownNames = new Set<string>();
+
+    // Nomes conhecidos (ex.: paciente da anamnese) e suas partes são mascarados em qualquer posição
+    addKnownName(name: string | null | undefined) {
+        const trimmed = name?.trim();
+        if (!trimmed) return;
+        this.knownNames.add(trimmed);
+        trimmed.split(/\s+/)
+            .filter(part => part.length >= MIN_NAME_PART_LENGTH && !NAME_PARTICLES.has(part.toLowerCase()))
+            .forEach(part => this.knownNames.add(part));
+    }
+
+    addNamesFromAnamnesis(anamnesis: AnamnesisDocument | null | undefined) {
+        this.addKnownName(getPatientName(anamnesis));
+    }
+
+    mask(text: string): string {
+        const maskedThisCall = new Set<string>();
+        const replace = (value: string, category: PhiCategory) => {
+            const placeholder = this.placeholderFor(value, category);
+            maskedThisCall.add(placeholder);
+            return placeholder;
+        };
+
+        // Nomes anunciados passam a ser conhecidos para as próximas ocorrências
+        for (const match of text.matchAll(NAME_CUE_PATTERN)) {
+            this.addKnownName(match[1]);
+        }
+
+        let masked = text;
+        for (const { category, pattern, group, validate } of PHI_PATTERNS) {
+            masked = masked.replace(pattern, (match, ...groups) => {
+                if (validate && !validate(match)) return match;
+                if (group === undefined) return replace(match, category);
+                const value = groups[group - 1] as string | undefined;
+                return value ? match.replace(value, replace(value.trim(), category)) : match;
+            });
+        }
+
+        // Nomes mais longos primeiro, para "Maria Silva" não virar "[NOME_x] Silva"
+        const names = [...this.knownNames].sort((a, b) => b.length - a.length);
+        for (const name of names) {
+            const pattern = new RegExp(`(?<![\\p{L}\\[_])${escapeRegExp(name)}(?![\\p{L}\\]])`, 'giu');
+            masked = masked.replace(pattern, () => replace(name, 'name'));
+        }
+
+        const now = new Date();
+        maskedThisCall.forEach(placeholder => {
+            const entry = this.audit.get(placeholder);
+            if (entry) {
+                entry.maskCount++;
+            } else {
+                const value = this.valueByPlaceholder.get(placeholder) ?? '';
+                const category = this.categoryOf(placeholder);
+                this.audit.set(placeholder, { placeholder, category, hint: hintFor(value), firstMaskedAt: now, maskCount: 1 });
+            }
+        });
+        return masked;
+    }
+
+    /**
+     * Restores the original values. With `json`, values are escaped so the
+     * text can still be parsed as JSON afterwards.
+     */
+    unmask(text: string, options: { json?: boolean } = {}): string {
+        return text.replace(PLACEHOLDER_PATTERN, placeholder => {
+            const value = this.valueByPlaceholder.get(placeholder);
+            if (value === undefined) return placeholder;
+            return options.json ? JSON.stringify(value).slice(1, -1) : value;
+        });
+    }
+
+    getAudit(): PhiAuditEntry[] {
+        return [...this.audit.values()].map(entry => ({ ...entry }));
+    }
+
+    reset() {
+        this.placeholderByValue.clear();
+        this.valueByPlaceholder.clear();
+        this.counters.clear();
+        this.audit.clear();
+        this.knownNames.clear();
+    }
+
+    // Mesmo valor (sem diferenciar maiúsculas) sempre recebe o mesmo marcador
+    private placeholderFor(value: string, category: PhiCategory): string {
+        const key = `${category}:${value.toLowerCase()}`;
+        const existing = this.placeholderByValue.get(key);
+        if (existing) return existing;
+        const next = (this.counters.get(category) ?? 0) + 1;
+        this.counters.set(category, next);
+        const placeholder = `[${PLACEHOLDER_LABELS[category]}_${next}]`;
+        this.placeholderByValue.set(key, placeholder);
+        this.valueByPlaceholder.set(placeholder, value);
+        return placeholder;
+    }
+
+    private categoryOf(placeholder: string): PhiCategory {
+        const label = placeholder.slice(1, placeholder.lastIndexOf('_'));
+        return (Object.keys(PLACEHOLDER_LABELS) as PhiCategory[]).find(category => PLACEHOLDER_LABELS[category] === label) ?? 'identifier';
+    }
+}
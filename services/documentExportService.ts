@@ -0,0 +1,383 @@
+/**
+ * Document Export Service
+ * Renders a saved session (anamnesis and, optionally, the transcript) into
+ * PDF or DOCX entirely in the browser, with the clinic logo as letterhead.
+ * Both formats are produced from the same document model; the libraries are
+ * loaded on demand so they stay out of the main bundle.
+ */
+
+import type { SessionData } from "../App";
+import { anamnesisToText, formatVitalSign } from "./anamnesisSchema";
+import { formatTurnsAsDialogue, formatTurnTimestamp, speakerLabels } from "../utils/transcriptUtils";
+import { getPatientName } from "../utils/sessionUtils";
+
+export type ExportFormat = 'pdf' | 'docx' | 'txt';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+    pdf: 'PDF',
+    docx: 'Word (DOCX)',
+    txt: 'Texto (TXT)',
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    txt: 'text/plain',
+};
+
+export interface ExportOptions {
+    includeTranscript: boolean;
+    logoDataUrl: string | null;
+    logoSize: number; // Altura da logo em px, a mesma usada no cabeçalho do app
+    brandName: string;
+    templateName?: string;
+}
+
+export interface ExportedDocument {
+    blob: Blob;
+    fileName: string;
+    mimeType: string;
+}
+
+type DocumentBlock =
+    | { kind: 'heading'; text: string }
+    | { kind: 'paragraph'; text: string }
+    | { kind: 'fields'; rows: { label: string; value: string }[] }
+    | { kind: 'bullets'; items: string[] }
+    | { kind: 'table'; header: string[]; rows: string[][] }
+    | { kind: 'dialogue'; turns: { label: string; time: string; text: string }[] };
+
+interface DocumentModel {
+    title: string;
+    meta: { label: string; value: string }[];
+    blocks: DocumentBlock[];
+}
+
+interface LetterheadLogo {
+    dataUrl: string; // PNG
+    bytes: Uint8Array;
+    width: number;
+    height: number;
+}
+
+const formatDuration = (start: Date, end: Date | null): string => {
+    if (!end) return 'não registrada';
+    const minutes = Math.max(0, Math.round((end.getTime() - start.getTime()) / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)} h ${minutes % 60} min` : `${minutes} min`;
+};
+
+const formatLocation = (session: SessionData): string =>
+    session.location
+        ? `${session.location.coords.latitude.toFixed(4)}, ${session.location.coords.longitude.toFixed(4)}`
+        : 'Não disponível';
+
+// Nome de arquivo compartilhado pelos downloads e pelo Google Drive
+export const exportFileName = (session: SessionData, prefix: string, extension: string): string => {
+    const patientName = (getPatientName(session.anamnesis) || 'PacienteNaoIdentificado').replace(/[\\/:*?"<>|]/g, '');
+    const date = new Date(session.startTime).toISOString().slice(0, 10);
+    return `${prefix}-${patientName}-${date}.${extension}`;
+};
+
+const buildDocumentModel = (session: SessionData, options: ExportOptions): DocumentModel => {
+    const { anamnesis } = session;
+    const blocks: DocumentBlock[] = [];
+
+    if (anamnesis.changesSinceLastVisit.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Mudanças desde a última consulta' });
+        blocks.push({ kind: 'bullets', items: anamnesis.changesSinceLastVisit });
+    }
+
+    if (anamnesis.vitals.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Sinais vitais' });
+        blocks.push({ kind: 'bullets', items: anamnesis.vitals.map(formatVitalSign) });
+    }
+
+    for (const section of anamnesis.sections) {
+        blocks.push({ kind: 'heading', text: section.title });
+        if (section.content) blocks.push({ kind: 'paragraph', text: section.content });
+        if (section.fields.length > 0) {
+            blocks.push({ kind: 'fields', rows: section.fields.map(field => ({ label: field.label, value: field.value || 'não informado' })) });
+        }
+        if (!section.content && section.fields.length === 0) blocks.push({ kind: 'paragraph', text: 'não informado' });
+    }
+
+    if (anamnesis.medications.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Medicamentos' });
+        blocks.push({
+            kind: 'table',
+            header: ['Medicamento', 'Dose', 'Frequência', 'Observações'],
+            rows: anamnesis.medications.map(m => [m.name, m.dose || '—', m.frequency || '—', m.notes || '—']),
+        });
+    }
+
+    if (anamnesis.allergies.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Alergias' });
+        blocks.push({ kind: 'table', header: ['Substância', 'Reação'], rows: anamnesis.allergies.map(a => [a.substance, a.reaction || '—']) });
+    }
+
+    if (options.includeTranscript && session.transcriptionHistory.length > 0) {
+        blocks.push({ kind: 'heading', text: 'Transcrição da consulta' });
+        blocks.push({
+            kind: 'dialogue',
+            turns: session.transcriptionHistory.map(turn => ({
+                label: speakerLabels[turn.speaker],
+                time: formatTurnTimestamp(turn.startMs),
+                text: turn.text,
+            })),
+        });
+    }
+
+    return {
+        title: 'Anamnese',
+        meta: [
+            { label: 'Paciente', value: getPatientName(anamnesis) || 'não informado' },
+            { label: 'Data', value: session.startTime.toLocaleString('pt-BR', { dateStyle: 'long', timeStyle: 'short' }) },
+            { label: 'Duração', value: formatDuration(session.startTime, session.endTime) },
+            { label: 'Local', value: formatLocation(session) },
+            ...(options.templateName ? [{ label: 'Modelo', value: options.templateName }] : []),
+        ],
+        blocks,
+    };
+};
+
+// Converte a logo (qualquer formato aceito pelo navegador) em PNG, mantendo a proporção
+const loadLetterheadLogo = (dataUrl: string, size: number): Promise<LetterheadLogo | null> =>
+    new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(size / image.naturalWidth, size / image.naturalHeight) || 1;
+            const width = Math.max(1, Math.round(image.naturalWidth * scale));
+            const height = Math.max(1, Math.round(image.naturalHeight * scale));
+            // Renderiza em resolução maior para não ficar serrilhada na impressão
+            const canvas = document.createElement('canvas');
+            canvas.width = width * 4;
+            canvas.height = height * 4;
+            const context = canvas.getContext('2d');
+            if (!context) return resolve(null);
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+            const pngDataUrl = canvas.toDataURL('image/png');
+            const binary = window.atob(pngDataUrl.split(',')[1]);
+            const bytes = new Uint8Array(binary.length);
+            for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+            resolve({ dataUrl: pngDataUrl, bytes, width, height });
+        };
+        image.onerror = () => resolve(null);
+        image.src = dataUrl;
+    });
+
+// As fontes padrão do PDF usam WinAnsi: caracteres fora dele são aproximados
+const toPdfText = (text: string) =>
+    text.replace(/₂/g, '2').replace(/[‐‑]/g, '-').replace(/[^\x09\x0A\x0D\x20-\x7E\xA0-\xFF–—‘’“”•…€]/g, '');
+
+const PX_TO_PT = 0.75;
+
+const renderPdf = async (model: DocumentModel, options: ExportOptions, logo: LetterheadLogo | null): Promise<Blob> => {
+    const { jsPDF } = await import('jspdf');
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 48;
+    const contentWidth = pageWidth - margin * 2;
+    let y = margin;
+
+    const ensureSpace = (height: number) => {
+        if (y + height > pageHeight - margin) {
+            pdf.addPage();
+            y = margin;
+        }
+    };
+
+    const writeWrapped = (text: string, fontSize: number, style: 'normal' | 'bold' = 'normal', indent = 0, color: [number, number, number] = [40, 40, 40]) => {
+        pdf.setFont('helvetica', style);
+        pdf.setFontSize(fontSize);
+        pdf.setTextColor(...color);
+        const lineHeight = fontSize * 1.35;
+        for (const line of pdf.splitTextToSize(toPdfText(text), contentWidth - indent) as string[]) {
+            ensureSpace(lineHeight);
+            pdf.text(line, margin + indent, y + fontSize);
+            y += lineHeight;
+        }
+    };
+
+    // Timbre: logo, nome e linha separadora
+    const logoHeight = logo ? logo.height * PX_TO_PT * 2 : 0;
+    if (logo) pdf.addImage(logo.dataUrl, 'PNG', margin, y, logo.width * PX_TO_PT * 2, logoHeight);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.setTextColor(40, 40, 40);
+    const brandX = logo ? margin + logo.width * PX_TO_PT * 2 + 10 : margin;
+    pdf.text(toPdfText(options.brandName), brandX, y + Math.max(logoHeight, 14) / 2 + 5);
+    y += Math.max(logoHeight, 20) + 10;
+    pdf.setDrawColor(180, 180, 180);
+    pdf.line(margin, y, pageWidth - margin, y);
+    y += 18;
+
+    writeWrapped(model.title, 18, 'bold');
+    y += 4;
+    for (const item of model.meta) {
+        writeWrapped(`${item.label}: ${item.value}`, 10, 'normal', 0, [90, 90, 90]);
+    }
+    y += 8;
+
+    for (const block of model.blocks) {
+        switch (block.kind) {
+            case 'heading':
+                y += 8;
+                ensureSpace(30);
+                writeWrapped(block.text.toUpperCase(), 11, 'bold', 0, [30, 64, 120]);
+                y += 2;
+                break;
+            case 'paragraph':
+                writeWrapped(block.text, 10);
+                break;
+            case 'fields':
+                block.rows.forEach(row => writeWrapped(`${row.label}: ${row.value}`, 10, 'normal', 10));
+                break;
+            case 'bullets':
+                block.items.forEach(item => writeWrapped(`• ${item}`, 10, 'normal', 10));
+                break;
+            case 'table':
+                // Tabelas simples viram linhas "coluna: valor" para caber em qualquer largura
+                block.rows.forEach(row => {
+                    writeWrapped(row[0], 10, 'bold', 10);
+                    const details = row.slice(1).map((cell, i) => `${block.header[i + 1]}: ${cell}`).join(' · ');
+                    if (details) writeWrapped(details, 9, 'normal', 20, [90, 90, 90]);
+                });
+                break;
+            case 'dialogue':
+                block.turns.forEach(turn => {
+                    writeWrapped(`[${turn.time}] ${turn.label}`, 9, 'bold', 0, [90, 90, 90]);
+                    writeWrapped(turn.text, 10, 'normal', 10);
+                    y += 2;
+                });
+                break;
+        }
+    }
+
+    // Rodapé com numeração
+    const pageCount = pdf.getNumberOfPages();
+    for (let page = 1; page <= pageCount; page++) {
+        pdf.setPage(page);
+        pdf.setFont('helvetica', 'normal');
+        pdf.setFontSize(8);
+        pdf.setTextColor(140, 140, 140);
+        pdf.text(`Página ${page} de ${pageCount}`, pageWidth - margin, pageHeight - 24, { align: 'right' });
+    }
+
+    return pdf.output('blob');
+};
+
+const renderDocx = async (model: DocumentModel, options: ExportOptions, logo: LetterheadLogo | null): Promise<Blob> => {
+    const {
+        AlignmentType, BorderStyle, Document, Footer, Header, HeadingLevel, ImageRun, Packer, PageNumber,
+        Paragraph, Table, TableCell, TableRow, TextRun, WidthType,
+    } = await import('docx');
+
+    const letterhead = new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'B4B4B4', space: 4 } },
+        children: [
+            ...(logo ? [new ImageRun({ type: 'png', data: logo.bytes, transformation: { width: logo.width * 2, height: logo.height * 2 } })] : []),
+            new TextRun({ text: `${logo ? '  ' : ''}${options.brandName}`, bold: true, size: 28 }),
+        ],
+    });
+
+    const children: (InstanceType<typeof Paragraph> | InstanceType<typeof Table>)[] = [
+        new Paragraph({ text: model.title, heading: HeadingLevel.TITLE }),
+        ...model.meta.map(item => new Paragraph({
+            children: [new TextRun({ text: `${item.label}: `, bold: true, color: '5A5A5A' }), new TextRun({ text: item.value, color: '5A5A5A' })],
+        })),
+    ];
+
+    const cell = (text: string, bold = false) => new TableCell({ children: [new Paragraph({ children: [new TextRun({ text, bold })] })] });
+
+    for (const block of model.blocks) {
+        switch (block.kind) {
+            case 'heading':
+                children.push(new Paragraph({ text: block.text, heading: HeadingLevel.HEADING_2, spacing: { before: 240 } }));
+                break;
+            case 'paragraph':
+                block.text.split('\n').forEach(line => children.push(new Paragraph({ text: line })));
+                break;
+            case 'fields':
+                block.rows.forEach(row => children.push(new Paragraph({
+                    indent: { left: 240 },
+                    children: [new TextRun({ text: `${row.label}: `, bold: true }), new TextRun(row.value)],
+                })));
+                break;
+            case 'bullets':
+                block.items.forEach(item => children.push(new Paragraph({ text: item, bullet: { level: 0 } })));
+                break;
+            case 'table':
+                children.push(new Table({
+                    width: { size: 100, type: WidthType.PERCENTAGE },
+                    rows: [
+                        new TableRow({ tableHeader: true, children: block.header.map(text => cell(text, true)) }),
+                        ...block.rows.map(row => new TableRow({ children: row.map(text => cell(text)) })),
+                    ],
+                }));
+                break;
+            case 'dialogue':
+                block.turns.forEach(turn => children.push(new Paragraph({
+                    spacing: { after: 80 },
+                    children: [
+                        new TextRun({ text: `[${turn.time}] ${turn.label}: `, bold: true, color: '5A5A5A' }),
+                        new TextRun(turn.text),
+                    ],
+                })));
+                break;
+        }
+    }
+
+    const document = new Document({
+        creator: options.brandName,
+        title: model.title,
+        sections: [{
+            headers: { default: new Header({ children: [letterhead] }) },
+            footers: {
+                default: new Footer({
+                    children: [new Paragraph({
+                        alignment: AlignmentType.RIGHT,
+                        children: [new TextRun({ children: ['Página ', PageNumber.CURRENT, ' de ', PageNumber.TOTAL_PAGES], size: 16, color: '8C8C8C' })],
+                    })],
+                }),
+            },
+            children,
+        }],
+    });
+    return Packer.toBlob(document);
+};
+
+const renderText = (session: SessionData, options: ExportOptions): Blob => {
+    const patientName = getPatientName(session.anamnesis) || 'PacienteNaoIdentificado';
+    let content = `Anamnese da Sessão - ${patientName}\nData: ${session.startTime.toLocaleString('pt-BR')}\n\n${anamnesisToText(session.anamnesis)}`;
+    if (options.includeTranscript) {
+        content += `\n\n[TRANSCRIÇÃO]\n${formatTurnsAsDialogue(session.transcriptionHistory)}`;
+    }
+    return new Blob([content], { type: MIME_TYPES.txt });
+};
+
+class DocumentExportService {
+    async exportSession(session: SessionData, format: ExportFormat, options: ExportOptions): Promise<ExportedDocument> {
+        const fileName = exportFileName(session, 'Anamnese', format);
+        if (format === 'txt') {
+            return { blob: renderText(session, options), fileName, mimeType: MIME_TYPES.txt };
+        }
+        const model = buildDocumentModel(session, options);
+        const logo = options.logoDataUrl ? await loadLetterheadLogo(options.logoDataUrl, options.logoSize) : null;
+        const blob = format === 'pdf'
+            ? await renderPdf(model, options, logo)
+            : await renderDocx(model, options, logo);
+        return { blob, fileName, mimeType: MIME_TYPES[format] };
+    }
+
+    download(document: ExportedDocument) {
+        const url = URL.createObjectURL(document.blob);
+        const link = window.document.createElement('a');
+        link.href = url;
+        link.download = document.fileName;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    }
+}
+
+export const documentExportService = new DocumentExportService();
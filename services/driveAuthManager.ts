@@ -0,0 +1,158 @@
+/**
+ * Drive Auth Manager
+ * Owns the lifecycle of the Google Drive access token. Tokens are kept only
+ * in memory; after a reload, or shortly before a token expires, a new one is
+ * requested silently with the saved login hint. When that fails (consent
+ * revoked, popup blocked) the status becomes 'reconnect-required' and the UI
+ * offers a reconnect button, which needs a user click to open the consent popup.
+ */
+
+import type { LogEntry } from "../hooks/useLogger";
+import { requestAccessToken } from "./googleDriveService";
+
+export type DriveAuthStatus = 'disconnected' | 'connected' | 'refreshing' | 'reconnect-required';
+
+type TokenResponse = google.accounts.oauth2.TokenResponse;
+
+export interface DriveAuthConfig {
+    clientId: string;
+    loginHint?: string;
+    enabled: boolean; // Há uma conta do Drive conectada nas configurações
+}
+
+export interface DriveAuthListener {
+    onTokenChange: (token: TokenResponse | null) => void;
+    onStatusChange?: (status: DriveAuthStatus) => void;
+    onLog?: (type: LogEntry['type'], message: string) => void;
+}
+
+const DEFAULT_LIFETIME_S = 3600;
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+class DriveAuthManager {
+    private config: DriveAuthConfig = { clientId: '', enabled: false };
+    private token: TokenResponse | null = null;
+    private expiresAt = 0;
+    private status: DriveAuthStatus = 'disconnected';
+    private listeners = new Set<DriveAuthListener>();
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    private refreshing: Promise<void> | null = null;
+
+    subscribe(listener: DriveAuthListener): () => void {
+        this.listeners.add(listener);
+        listener.onTokenChange(this.getToken());
+        listener.onStatusChange?.(this.status);
+        return () => this.listeners.delete(listener);
+    }
+
+    configure(config: DriveAuthConfig) {
+        const changed = config.clientId !== this.config.clientId || config.enabled !== this.config.enabled;
+        this.config = config;
+        if (!config.enabled || !config.clientId) {
+            this.clear('disconnected');
+            return;
+        }
+        if (changed && !this.getToken()) this.refresh();
+    }
+
+    getStatus(): DriveAuthStatus {
+        return this.status;
+    }
+
+    // Token ainda válido, ou null quando expirou
+    getToken(): TokenResponse | null {
+        return this.token && Date.now() < this.expiresAt ? this.token : null;
+    }
+
+    // Token obtido pela conexão interativa na tela de configurações
+    setToken(token: TokenResponse) {
+        const lifetime = Number(token.expires_in) || DEFAULT_LIFETIME_S;
+        this.token = token;
+        this.expiresAt = Date.now() + lifetime * 1000;
+        this.scheduleRefresh();
+        this.setStatus('connected');
+        this.emitToken();
+    }
+
+    /**
+     * Requests a new token without user interaction. Concurrent calls share
+     * the same attempt.
+     */
+    refresh(): Promise<void> {
+        if (!this.config.enabled || !this.config.clientId) return Promise.resolve();
+        if (!this.refreshing) {
+            this.setStatus('refreshing');
+            this.refreshing = requestAccessToken(this.config.clientId, this.config.loginHint, false)
+                .then(token => {
+                    this.setToken(token);
+                    this.log('INFO', 'Acesso ao Google Drive renovado automaticamente.');
+                })
+                .catch((error: any) => {
+                    this.clear('reconnect-required');
+                    this.log('WARN', `Não foi possível renovar o acesso ao Google Drive sem interação: ${error.message || error}`);
+                })
+                .finally(() => {
+                    this.refreshing = null;
+                });
+        }
+        return this.refreshing;
+    }
+
+    /**
+     * Interactive reconnection; must be called from a click handler so the
+     * browser allows the consent popup.
+     */
+    async reconnect() {
+        if (!this.config.clientId) return;
+        try {
+            this.setToken(await requestAccessToken(this.config.clientId, this.config.loginHint, true));
+            this.log('INFO', 'Google Drive reconectado.');
+        } catch (error: any) {
+            this.setStatus('reconnect-required');
+            this.log('ERROR', `Falha ao reconectar o Google Drive: ${error.message || error}`);
+        }
+    }
+
+    // Chamado quando a API recusa o token (401) antes do horário de expiração previsto
+    invalidate() {
+        if (!this.token) return;
+        this.clear(this.status);
+        this.refresh();
+    }
+
+    private clear(status: DriveAuthStatus) {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        this.refreshTimer = null;
+        const hadToken = this.token !== null;
+        this.token = null;
+        this.expiresAt = 0;
+        this.setStatus(status);
+        if (hadToken) this.emitToken();
+    }
+
+    private scheduleRefresh() {
+        if (this.refreshTimer) clearTimeout(this.refreshTimer);
+        const delay = Math.max(0, this.expiresAt - Date.now() - REFRESH_MARGIN_MS);
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.refresh();
+        }, delay);
+    }
+
+    private setStatus(status: DriveAuthStatus) {
+        if (status === this.status) return;
+        this.status = status;
+        this.listeners.forEach(listener => listener.onStatusChange?.(status));
+    }
+
+    private emitToken() {
+        const token = this.getToken();
+        this.listeners.forEach(listener => listener.onTokenChange(token));
+    }
+
+    private log(type: LogEntry['type'], message: string) {
+        this.listeners.forEach(listener => listener.onLog?.(type, message));
+    }
+}
+
+export const driveAuthManager = new DriveAuthManager();
@@ -0,0 +1,246 @@
+/**
+ * Drive Sync Service
+ * Uploads saved sessions to Google Drive in the formats chosen in the
+ * settings, optionally inside per-patient or per-date subfolders. The Drive
+ * file ids are stored on the session, so saving it again replaces the files
+ * instead of creating duplicates.
+ * Every upload goes through a queue persisted in localStorage: uploads that
+ * fail (expired token, offline) stay queued and are retried when a new token
+ * is configured, the browser comes back online or the app starts again.
+ * Token renewal is handled by driveAuthManager.
+ */
+
+import type { SessionData } from "../App";
+import type { LogEntry } from "../hooks/useLogger";
+import { audioArchiveService, audioFileExtension } from "./audioArchiveService";
+import { driveAuthManager } from "./driveAuthManager";
+import { documentExportService, ExportFormat, exportFileName, ExportOptions } from "./documentExportService";
+import { DriveSubfolderMode, findOrCreateFolder, GoogleDriveError, uploadFile } from "./googleDriveService";
+import { patientRepository } from "./patientRepository";
+import { sessionRepository } from "./sessionRepository";
+import { formatTurnsAsDialogue } from "../utils/transcriptUtils";
+import { getPatientName } from "../utils/sessionUtils";
+
+// Arquivo de transcrição separado só existe no formato txt; 'audio' é a gravação da consulta
+export type DriveFileKey = ExportFormat | 'transcript' | 'audio';
+export type DriveFileIds = Partial<Record<DriveFileKey, string>>;
+
+export interface DriveSyncConfig {
+    uid: string;
+    token: string | null;
+    folderId: string | null;
+    formats: ExportFormat[];
+    subfolderMode: DriveSubfolderMode;
+    includeAudio: boolean; // Envia a gravação da consulta (política de áudio com destino Drive)
+    exportOptions: (session: SessionData) => Omit<ExportOptions, 'includeTranscript'>;
+}
+
+export interface DriveSyncListener {
+    onQueueChange?: (pending: number) => void;
+    onLog?: (type: LogEntry['type'], message: string) => void;
+}
+
+interface QueueEntry {
+    sessionId: string;
+    queuedAt: number;
+    attempts: number; // Falhas que não são de autenticação
+    lastError: string | null;
+}
+
+const QUEUE_PREFIX = 'drive_queue:';
+const RETRY_MS = 60000;
+const MAX_ATTEMPTS = 5;
+
+const isAuthError = (error: unknown) => error instanceof GoogleDriveError && error.status === 401;
+
+class DriveSyncService {
+    private config: DriveSyncConfig | null = null;
+    private listeners = new Set<DriveSyncListener>();
+    private folderCache = new Map<string, string>();
+    private isProcessing = false;
+    private processRequested = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.processQueue());
+        }
+    }
+
+    subscribe(listener: DriveSyncListener): () => void {
+        this.listeners.add(listener);
+        listener.onQueueChange?.(this.pendingCount());
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Updates the upload configuration (null when signed out). A new token
+     * or folder triggers the pending uploads.
+     */
+    configure(config: DriveSyncConfig | null) {
+        const previous = this.config;
+        this.config = config;
+        if (previous?.folderId !== config?.folderId) this.folderCache.clear();
+        this.emitQueue();
+        if (config?.token && config.folderId) this.processQueue();
+    }
+
+    /**
+     * Queues a session for upload.
+     * @param delayMs Groups quick successive edits (e.g. speaker changes) into one upload.
+     */
+    enqueue(sessionId: string, delayMs = 0) {
+        if (!this.config) return;
+        const { uid } = this.config;
+        const queue = this.readQueue(uid).filter(entry => entry.sessionId !== sessionId);
+        this.writeQueue(uid, [...queue, { sessionId, queuedAt: Date.now(), attempts: 0, lastError: null }]);
+        this.emitQueue();
+        this.schedule(delayMs);
+    }
+
+    pendingCount(): number {
+        return this.config ? this.readQueue(this.config.uid).length : 0;
+    }
+
+    async processQueue() {
+        const config = this.config;
+        if (this.isProcessing) {
+            this.processRequested = true;
+            return;
+        }
+        if (!config?.token || !config.folderId || !navigator.onLine) return;
+        this.isProcessing = true;
+        this.processRequested = false;
+        let retryLater = false;
+        try {
+            for (const entry of this.readQueue(config.uid)) {
+                if (this.config !== config) break;
+                const session = await sessionRepository.get(entry.sessionId);
+                if (!session) {
+                    this.removeEntry(config.uid, entry);
+                    continue;
+                }
+                try {
+                    const driveFiles = await this.uploadSession(session, config);
+                    await sessionRepository.update(session.id, { driveFiles });
+                    this.removeEntry(config.uid, entry);
+                } catch (error: any) {
+                    if (isAuthError(error)) {
+                        // Sem token válido nenhum envio funciona: aguarda a renovação do acesso
+                        this.log('WARN', 'Token do Google Drive expirado; os envios pendentes serão retomados ao renovar o acesso.');
+                        driveAuthManager.invalidate();
+                        break;
+                    }
+                    this.recordFailure(config.uid, entry, error.message || String(error));
+                    retryLater = true;
+                }
+            }
+        } finally {
+            this.isProcessing = false;
+            this.emitQueue();
+            if (this.processRequested) this.processQueue();
+            else if (retryLater) this.schedule(RETRY_MS);
+        }
+    }
+
+    private async uploadSession(session: SessionData, config: DriveSyncConfig): Promise<DriveFileIds> {
+        const token = config.token!;
+        const folderId = await this.resolveFolder(session, config);
+        const driveFiles: DriveFileIds = { ...session.driveFiles };
+        const options = config.exportOptions(session);
+
+        for (const format of config.formats) {
+            if (format === 'txt') {
+                const patientName = getPatientName(session.anamnesis) || 'PacienteNaoIdentificado';
+                const fileName = exportFileName(session, 'Transcricao', 'txt');
+                const content = `Transcrição da Sessão - ${patientName}\nInício: ${session.startTime.toLocaleString('pt-BR')}\n\n${formatTurnsAsDialogue(session.transcriptionHistory)}`;
+                driveFiles.transcript = (await uploadFile(token, folderId, fileName, content, 'text/plain', driveFiles.transcript)).id;
+                this.log('API', `Arquivo de transcrição '${fileName}' salvo no Google Drive.`);
+            }
+            // Em PDF/DOCX a transcrição vai no mesmo documento, após a anamnese
+            const exported = await documentExportService.exportSession(session, format, { ...options, includeTranscript: format !== 'txt' });
+            driveFiles[format] = (await uploadFile(token, folderId, exported.fileName, exported.blob, exported.mimeType, driveFiles[format])).id;
+            this.log('API', `Arquivo de anamnese '${exported.fileName}' salvo no Google Drive.`);
+        }
+
+        // A gravação não muda depois de salva: é enviada uma única vez
+        if (config.includeAudio && session.audio && !driveFiles.audio) {
+            const recording = await audioArchiveService.getLocal(session.id);
+            if (recording) {
+                const fileName = exportFileName(session, 'Audio', audioFileExtension(session.audio.mimeType));
+                driveFiles.audio = (await uploadFile(token, folderId, fileName, recording, session.audio.mimeType)).id;
+                this.log('API', `Gravação '${fileName}' salva no Google Drive.`);
+            }
+        }
+        return driveFiles;
+    }
+
+    private async resolveFolder(session: SessionData, config: DriveSyncConfig): Promise<string> {
+        const rootId = config.folderId!;
+        let name: string | null = null;
+        if (config.subfolderMode === 'patient') {
+            const patient = session.patientId ? patientRepository.get(session.patientId) : undefined;
+            name = (patient?.name ?? getPatientName(session.anamnesis) ?? 'Paciente não identificado').replace(/[\\/]/g, '-');
+        } else if (config.subfolderMode === 'date') {
+            name = new Date(session.startTime).toISOString().slice(0, 10);
+        }
+        if (!name) return rootId;
+
+        const cacheKey = `${rootId}/${name}`;
+        const cached = this.folderCache.get(cacheKey);
+        if (cached) return cached;
+        const folderId = await findOrCreateFolder(config.token!, rootId, name);
+        this.folderCache.set(cacheKey, folderId);
+        return folderId;
+    }
+
+    private recordFailure(uid: string, entry: QueueEntry, message: string) {
+        const attempts = entry.attempts + 1;
+        const queue = this.readQueue(uid);
+        if (attempts >= MAX_ATTEMPTS) {
+            this.log('ERROR', `Upload para o Google Drive abandonado após ${attempts} tentativas: ${message}`);
+            this.writeQueue(uid, queue.filter(existing => existing.sessionId !== entry.sessionId));
+            return;
+        }
+        this.log('WARN', `Falha no upload para o Google Drive (tentativa ${attempts} de ${MAX_ATTEMPTS}): ${message}`);
+        this.writeQueue(uid, queue.map(existing => existing.sessionId === entry.sessionId && existing.queuedAt === entry.queuedAt
+            ? { ...existing, attempts, lastError: message }
+            : existing));
+    }
+
+    // Só remove se a sessão não foi enfileirada de novo durante o envio
+    private removeEntry(uid: string, entry: QueueEntry) {
+        this.writeQueue(uid, this.readQueue(uid).filter(existing => !(existing.sessionId === entry.sessionId && existing.queuedAt === entry.queuedAt)));
+    }
+
+    private schedule(delayMs: number) {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.processQueue();
+        }, delayMs);
+    }
+
+    private readQueue(uid: string): QueueEntry[] {
+        try {
+            return JSON.parse(localStorage.getItem(QUEUE_PREFIX + uid) || '[]');
+        } catch {
+            return [];
+        }
+    }
+
+    private writeQueue(uid: string, queue: QueueEntry[]) {
+        localStorage.setItem(QUEUE_PREFIX + uid, JSON.stringify(queue));
+    }
+
+    private emitQueue() {
+        const pending = this.pendingCount();
+        this.listeners.forEach(listener => listener.onQueueChange?.(pending));
+    }
+
+    private log(type: LogEntry['type'], message: string) {
+        this.listeners.forEach(listener => listener.onLog?.(type, message));
+    }
+}
+
+export const driveSyncService = new DriveSyncService();
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SessionData } from '../App';
+import { AnamnesisDocument, createEmptyAnamnesis } from './anamnesisSchema';
+import { buildFhirBundle, FhirBundle, fhirExportService } from './fhirExportService';
+
+const START_TIME = new Date('2026-10-01T10:00:00Z');
+
+const session = (anamnesis: Partial<AnamnesisDocument>): SessionData =>
+    ({ id: 'session-1', startTime: START_TIME, anamnesis: { ...createEmptyAnamnesis(), ...anamnesis } } as unknown as SessionData);
+
+const urlsOf = (bundle: FhirBundle, method: 'PUT' | 'DELETE') =>
+    bundle.entry.filter(entry => entry.request.method === method).map(entry => entry.request.url);
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('buildFhirBundle', () => {
+    it('keeps resource ids when items are reordered or removed', () => {
+        const dipirona = { name: 'Dipirona', dose: '500 mg', frequency: '6/6h', notes: '' };
+        const losartana = { name: 'Losartana', dose: '50 mg', frequency: '1x/dia', notes: '' };
+        const weight = { kind: 'weight' as const, value: '70', unit: 'kg' };
+        const heartRate = { kind: 'heartRate' as const, value: '80', unit: 'bpm' };
+
+        const before = urlsOf(buildFhirBundle(session({ medications: [dipirona, losartana], vitals: [weight, heartRate] }), null, 'Clínica'), 'PUT');
+        const after = urlsOf(buildFhirBundle(session({ medications: [losartana], vitals: [heartRate, weight] }), null, 'Clínica'), 'PUT');
+
+        expect(after).toContain('Observation/obs-session-1-weight');
+        expect(after).toContain('Observation/obs-session-1-heartRate');
+        expect(after.filter(url => url.startsWith('MedicationStatement/'))).toEqual(
+            before.filter(url => url.startsWith('MedicationStatement/')).slice(1));
+    });
+
+    it('keeps ids unique when two items share a key', () => {
+        const allergy = { substance: 'Penicilina', reaction: 'urticária' };
+        const bundle = buildFhirBundle(session({ allergies: [allergy, { ...allergy, reaction: 'edema' }] }), null, 'Clínica');
+        const allergies = urlsOf(bundle, 'PUT').filter(url => url.startsWith('AllergyIntolerance/'));
+        expect(new Set(allergies).size).toBe(2);
+    });
+});
+
+describe('sendBundle', () => {
+    it('deletes resources of the encounter that the session no longer lists', async () => {
+        const bundle = buildFhirBundle(session({ vitals: [{ kind: 'weight', value: '70', unit: 'kg' }] }), null, 'Clínica');
+        const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+            if (init?.method === 'POST') {
+                const sent = JSON.parse(String(init.body)) as FhirBundle;
+                return jsonResponse({ resourceType: 'Bundle', entry: sent.entry.map(() => ({ response: { status: '200 OK' } })) });
+            }
+            const found = url.includes('/Observation?')
+                ? [{ resource: { resourceType: 'Observation', id: 'obs-session-1-weight' } }, { resource: { resourceType: 'Observation', id: 'obs-session-1-bmi' } }]
+                : [];
+            return jsonResponse({ resourceType: 'Bundle', entry: found });
+        });
+        vi.stubGlobal('fetch', fetchMock);
+
+        const written = await fhirExportService.sendBundle('https://fhir.example/r4/', bundle);
+
+        const [, init] = fetchMock.mock.calls.find(([, init]) => init?.method === 'POST')!;
+        const sent = JSON.parse(String(init!.body)) as FhirBundle;
+        expect(urlsOf(sent, 'DELETE')).toEqual(['Observation/obs-session-1-bmi']);
+        expect(written).toBe(bundle.entry.length);
+        expect(fetchMock.mock.calls[0][0]).toContain('_tag=' + encodeURIComponent('https://consulta.app/fhir/encounter|enc-session-1'));
+    });
+});
@@ -0,0 +1,392 @@
+/**
+ * FHIR Export Service
+ * Maps a saved session to an HL7 FHIR R4 transaction Bundle (Patient,
+ * Encounter, Observation, Condition, MedicationStatement, AllergyIntolerance
+ * and a Composition with the anamnesis narrative) that can be downloaded or
+ * posted to the base URL of a FHIR server.
+ * Resource ids are derived from the session and from stable keys (vital sign
+ * kind, medication name, allergy substance, diagnosis section), so exporting
+ * the same session again updates the resources instead of duplicating them.
+ * Resources of the encounter carry a tag; on send, the ones the server still
+ * has but the session no longer lists are deleted in the same transaction.
+ */
+
+import type { SessionData } from "../App";
+import { VitalSign, VitalSignKind, VITAL_SIGN_DEFINITIONS } from "./anamnesisSchema";
+import { Patient, PatientIdentifierSystem, PATIENT_IDENTIFIER_LABELS } from "./patientRepository";
+import { getPatientName } from "../utils/sessionUtils";
+
+const FHIR_JSON = 'application/fhir+json';
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+
+// Marca os recursos de cada consulta, para encontrar no servidor os que deixaram de existir
+const ENCOUNTER_TAG_SYSTEM = 'https://consulta.app/fhir/encounter';
+// Tipos com um recurso por item da anamnese; os itens removidos são apagados no reenvio
+const ENCOUNTER_ITEM_TYPES = ['Observation', 'Condition', 'MedicationStatement', 'AllergyIntolerance'] as const;
+
+type FhirResource = { resourceType: string; id: string; [key: string]: unknown };
+
+export type FhirBundleEntry =
+    | { resource: FhirResource; request: { method: 'PUT'; url: string } }
+    | { request: { method: 'DELETE'; url: string } };
+
+export interface FhirBundle {
+    resourceType: 'Bundle';
+    type: 'transaction';
+    timestamp: string;
+    entry: FhirBundleEntry[];
+}
+
+interface OperationOutcome {
+    resourceType: 'OperationOutcome';
+    issue?: { severity?: string; code?: string; diagnostics?: string; details?: { text?: string } }[];
+}
+
+interface TransactionResponseBundle {
+    resourceType: 'Bundle';
+    entry?: { response?: { status?: string } }[];
+}
+
+interface SearchsetBundle {
+    resourceType: 'Bundle';
+    entry?: { resource?: { resourceType: string; id: string } }[];
+}
+
+export interface FhirServerInfo {
+    fhirVersion: string;
+    software: string | null;
+}
+
+export class FhirServerError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'FhirServerError';
+    }
+}
+
+// Sistemas de identificadores nacionais (RNDS); os demais vão apenas com o tipo
+const IDENTIFIER_SYSTEMS: Partial<Record<PatientIdentifierSystem, string>> = {
+    cpf: 'https://saude.gov.br/fhir/sid/cpf',
+    cns: 'https://saude.gov.br/fhir/sid/cns',
+};
+
+const VITAL_SIGN_CODES: Record<Exclude<VitalSignKind, 'bloodPressure'>, { loinc: string; display: string; ucum: string }> = {
+    weight: { loinc: '29463-7', display: 'Body weight', ucum: 'kg' },
+    height: { loinc: '8302-2', display: 'Body height', ucum: 'm' },
+    bmi: { loinc: '39156-5', display: 'Body mass index (BMI) [Ratio]', ucum: 'kg/m2' },
+    heartRate: { loinc: '8867-4', display: 'Heart rate', ucum: '/min' },
+    respiratoryRate: { loinc: '9279-1', display: 'Respiratory rate', ucum: '/min' },
+    temperature: { loinc: '8310-5', display: 'Body temperature', ucum: 'Cel' },
+    oxygenSaturation: { loinc: '2708-6', display: 'Oxygen saturation in Arterial blood', ucum: '%' },
+};
+
+const DIAGNOSIS_SECTION_PATTERN = /diagn|hip[óo]tese/i;
+
+const loinc = (code: string, display: string) => ({ coding: [{ system: LOINC, code, display }] });
+
+// FNV-1a de 32 bits: id curto e estável para chaves de texto livre (ids FHIR aceitam só [A-Za-z0-9-.])
+const hashKey = (key: string): string => {
+    const normalized = key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase().replace(/\s+/g, ' ');
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < normalized.length; i++) {
+        hash ^= normalized.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+};
+
+// Ids únicos no bundle mesmo com chaves repetidas (ex.: duas aferições do mesmo sinal vital)
+const createIdFactory = () => {
+    const used = new Set<string>();
+    return (base: string) => {
+        let id = base;
+        for (let n = 2; used.has(id); n++) id = `${base}-${n}`;
+        used.add(id);
+        return id;
+    };
+};
+
+const isInformed = (text: string) => Boolean(text.trim()) && !/^n[ãa]o informad[oa]\.?$/i.test(text.trim());
+
+const parseNumber = (value: string): number | null => {
+    const match = value.replace(',', '.').match(/-?\d+(\.\d+)?/);
+    return match ? Number(match[0]) : null;
+};
+
+const quantity = (value: number, unit: string) => ({ value, unit, system: UCUM, code: unit });
+
+const escapeXhtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const narrative = (lines: string[]) => ({
+    status: 'generated',
+    div: `<div xmlns="http://www.w3.org/1999/xhtml">${lines.map(line => `<p>${escapeXhtml(line)}</p>`).join('')}</div>`,
+});
+
+const buildPatient = (id: string, session: SessionData, patient?: Patient): FhirResource => {
+    const name = patient?.name ?? getPatientName(session.anamnesis);
+    return {
+        resourceType: 'Patient',
+        id,
+        ...(name && { name: [{ text: name }] }),
+        ...(patient?.birthDate && { birthDate: patient.birthDate }),
+        ...(patient && patient.identifiers.length > 0 && {
+            identifier: patient.identifiers.map(identifier => ({
+                ...(IDENTIFIER_SYSTEMS[identifier.system] && { system: IDENTIFIER_SYSTEMS[identifier.system] }),
+                type: { text: PATIENT_IDENTIFIER_LABELS[identifier.system] },
+                value: identifier.value,
+            })),
+        }),
+    };
+};
+
+const buildVitalObservation = (id: string, vital: VitalSign, refs: { subject: object; encounter: object; effectiveDateTime: string }): FhirResource => {
+    const base = {
+        resourceType: 'Observation',
+        id,
+        status: 'final',
+        category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/observation-category', code: 'vital-signs', display: 'Vital Signs' }] }],
+        ...refs,
+    };
+
+    if (vital.kind === 'bloodPressure') {
+        const match = vital.value.match(/(\d+)\s*[x/]\s*(\d+)/i);
+        return {
+            ...base,
+            code: loinc('85354-9', 'Blood pressure panel with all children optional'),
+            ...(match
+                ? {
+                    component: [
+                        { code: loinc('8480-6', 'Systolic blood pressure'), valueQuantity: quantity(Number(match[1]), 'mm[Hg]') },
+                        { code: loinc('8462-4', 'Diastolic blood pressure'), valueQuantity: quantity(Number(match[2]), 'mm[Hg]') },
+                    ],
+                }
+                : { valueString: vital.value }),
+        };
+    }
+
+    const coding = VITAL_SIGN_CODES[vital.kind];
+    const value = parseNumber(vital.value);
+    // Unidades diferentes da padrão (ex.: altura em cm) seguem como texto para não gerar valores errados
+    const usesDefaultUnit = !vital.unit || vital.unit === VITAL_SIGN_DEFINITIONS[vital.kind].unit;
+    return {
+        ...base,
+        code: loinc(coding.loinc, coding.display),
+        ...(value !== null && usesDefaultUnit
+            ? { valueQuantity: quantity(value, coding.ucum) }
+            : { valueString: `${vital.value} ${vital.unit}`.trim() }),
+    };
+};
+
+/**
+ * Builds the transaction Bundle for a session. The patient record, when the
+ * session is linked to one, supplies birth date and identifiers.
+ */
+export const buildFhirBundle = (session: SessionData, patient: Patient | undefined, authorName: string): FhirBundle => {
+    const { anamnesis } = session;
+    const patientId = patient ? `pat-${patient.id}` : `pat-${session.id}`;
+    const encounterId = `enc-${session.id}`;
+    const subject = { reference: `Patient/${patientId}` };
+    const encounter = { reference: `Encounter/${encounterId}` };
+    const recorded = (session.endTime ?? session.startTime).toISOString();
+    const resources: FhirResource[] = [];
+    const uniqueId = createIdFactory();
+    const meta = { tag: [{ system: ENCOUNTER_TAG_SYSTEM, code: encounterId }] };
+
+    resources.push(buildPatient(patientId, session, patient));
+    resources.push({
+        resourceType: 'Encounter',
+        id: encounterId,
+        status: 'finished',
+        class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'AMB', display: 'ambulatory' },
+        subject,
+        period: {
+            start: session.startTime.toISOString(),
+            ...(session.endTime && { end: session.endTime.toISOString() }),
+        },
+        ...(session.location && {
+            location: [{ location: { display: `${session.location.coords.latitude.toFixed(5)}, ${session.location.coords.longitude.toFixed(5)}` } }],
+        }),
+    });
+
+    const vitals = anamnesis.vitals.map(vital => ({
+        ...buildVitalObservation(uniqueId(`obs-${session.id}-${vital.kind}`), vital, { subject, encounter, effectiveDateTime: session.startTime.toISOString() }),
+        meta,
+    }));
+
+    const conditions = anamnesis.sections
+        .filter(section => DIAGNOSIS_SECTION_PATTERN.test(section.title))
+        .map(section => ({
+            key: section.title,
+            text: [section.content, ...section.fields.map(field => `${field.label}: ${field.value}`)].filter(isInformed).join('; '),
+        }))
+        .filter(({ text }) => Boolean(text))
+        .map(({ key, text }): FhirResource => ({
+            resourceType: 'Condition',
+            id: uniqueId(`cond-${session.id}-${hashKey(key)}`),
+            meta,
+            clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-clinical', code: 'active' }] },
+            verificationStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-ver-status', code: 'provisional' }] },
+            category: [{ coding: [{ system: 'http://terminology.hl7.org/CodeSystem/condition-category', code: 'encounter-diagnosis' }] }],
+            code: { text },
+            subject,
+            encounter,
+            recordedDate: recorded,
+        }));
+
+    const medications = anamnesis.medications.map((medication): FhirResource => {
+        const dosage = [medication.dose, medication.frequency].filter(Boolean).join(', ');
+        return {
+            resourceType: 'MedicationStatement',
+            id: uniqueId(`med-${session.id}-${hashKey(medication.name)}`),
+            meta,
+            status: 'active',
+            medicationCodeableConcept: { text: medication.name },
+            subject,
+            context: encounter,
+            dateAsserted: recorded,
+            ...(dosage && { dosage: [{ text: dosage }] }),
+            ...(medication.notes && { note: [{ text: medication.notes }] }),
+        };
+    });
+
+    const allergies = anamnesis.allergies.map((allergy): FhirResource => ({
+        resourceType: 'AllergyIntolerance',
+        id: uniqueId(`alg-${session.id}-${hashKey(allergy.substance)}`),
+        meta,
+        clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: 'active' }] },
+        code: { text: allergy.substance },
+        patient: subject,
+        encounter,
+        recordedDate: recorded,
+        ...(allergy.reaction && { reaction: [{ manifestation: [{ text: allergy.reaction }] }] }),
+    }));
+
+    const entriesOf = (items: FhirResource[]) => items.map(item => ({ reference: `${item.resourceType}/${item.id}` }));
+    const sections = [
+        ...(anamnesis.changesSinceLastVisit.length > 0
+            ? [{ title: 'Mudanças desde a última consulta', text: narrative(anamnesis.changesSinceLastVisit) }]
+            : []),
+        ...anamnesis.sections.map(section => ({
+            title: section.title,
+            text: narrative([
+                ...(section.content ? section.content.split('\n') : []),
+                ...section.fields.map(field => `${field.label}: ${field.value || 'não informado'}`),
+            ]),
+        })),
+        ...(vitals.length > 0 ? [{ title: 'Sinais vitais', code: loinc('8716-3', 'Vital signs'), entry: entriesOf(vitals) }] : []),
+        ...(medications.length > 0 ? [{ title: 'Medicamentos', code: loinc('10160-0', 'History of Medication use Narrative'), entry: entriesOf(medications) }] : []),
+        ...(allergies.length > 0 ? [{ title: 'Alergias', code: loinc('48765-2', 'Allergies and adverse reactions Document'), entry: entriesOf(allergies) }] : []),
+    ];
+
+    resources.push(...vitals, ...conditions, ...medications, ...allergies);
+    resources.push({
+        resourceType: 'Composition',
+        id: `comp-${session.id}`,
+        status: 'final',
+        type: loinc('34117-2', 'History and physical note'),
+        subject,
+        encounter,
+        date: recorded,
+        author: [{ display: authorName }],
+        title: 'Anamnese',
+        section: sections,
+    });
+
+    return {
+        resourceType: 'Bundle',
+        type: 'transaction',
+        timestamp: new Date().toISOString(),
+        entry: resources.map(resource => ({
+            resource,
+            request: { method: 'PUT', url: `${resource.resourceType}/${resource.id}` },
+        })),
+    };
+};
+
+/**
+ * Adds DELETE entries for resources the server holds for the encounter but
+ * the bundle no longer lists (items removed from the anamnesis).
+ * @param existing References ("Type/id") found on the server.
+ */
+export const withStaleResourceDeletes = (bundle: FhirBundle, existing: string[]): FhirBundle => {
+    const current = new Set(bundle.entry.map(entry => entry.request.url));
+    const stale = existing.filter(reference => !current.has(reference));
+    if (stale.length === 0) return bundle;
+    return { ...bundle, entry: [...bundle.entry, ...stale.map(url => ({ request: { method: 'DELETE' as const, url } }))] };
+};
+
+const normalizeBaseUrl = (baseUrl: string) => baseUrl.trim().replace(/\/+$/, '');
+
+// Resume o OperationOutcome devolvido pelo servidor em caso de erro
+const readServerError = async (response: Response): Promise<FhirServerError> => {
+    let detail = response.statusText;
+    try {
+        const outcome = await response.json() as Partial<OperationOutcome> | null;
+        const issues = (outcome?.issue ?? []).map(issue => issue.diagnostics || issue.details?.text).filter(Boolean);
+        if (issues.length > 0) detail = issues.join('; ');
+    } catch {
+        // Resposta sem corpo JSON
+    }
+    return new FhirServerError(`Servidor FHIR respondeu ${response.status}: ${detail}`, response.status);
+};
+
+class FhirExportService {
+    toBlob(bundle: FhirBundle): Blob {
+        return new Blob([JSON.stringify(bundle, null, 2)], { type: FHIR_JSON });
+    }
+
+    /**
+     * Checks that the server answers /metadata with an R4 CapabilityStatement.
+     */
+    async testConnection(baseUrl: string): Promise<FhirServerInfo> {
+        const response = await fetch(`${normalizeBaseUrl(baseUrl)}/metadata`, { headers: { Accept: FHIR_JSON } });
+        if (!response.ok) throw await readServerError(response);
+        const statement = await response.json();
+        if (statement?.resourceType !== 'CapabilityStatement') {
+            throw new FhirServerError('A resposta de /metadata não é um CapabilityStatement.', response.status);
+        }
+        if (!String(statement.fhirVersion ?? '').startsWith('4.0')) {
+            throw new FhirServerError(`Versão FHIR ${statement.fhirVersion ?? 'desconhecida'} não suportada; é necessário R4 (4.0.x).`, response.status);
+        }
+        return { fhirVersion: statement.fhirVersion, software: statement.software?.name ?? null };
+    }
+
+    /**
+     * Posts the transaction Bundle to the server base URL, deleting the
+     * resources of a previous export that the session no longer lists.
+     * @returns Number of resources written by the server.
+     */
+    async sendBundle(baseUrl: string, bundle: FhirBundle): Promise<number> {
+        const base = normalizeBaseUrl(baseUrl);
+        const encounter = bundle.entry.find(entry => 'resource' in entry && entry.resource.resourceType === 'Encounter');
+        const existing = encounter && 'resource' in encounter ? await this.findEncounterResources(base, encounter.resource.id) : [];
+
+        const sent = withStaleResourceDeletes(bundle, existing);
+        const response = await fetch(base, {
+            method: 'POST',
+            headers: { 'Content-Type': FHIR_JSON, Accept: FHIR_JSON },
+            body: JSON.stringify(sent),
+        });
+        if (!response.ok) throw await readServerError(response);
+        const result = await response.json() as Partial<TransactionResponseBundle> | null;
+        // A resposta segue a ordem das entradas; as exclusões não contam como gravadas
+        return (result?.entry ?? []).filter((entry, index) =>
+            sent.entry[index]?.request.method === 'PUT' && /^2\d\d/.test(entry.response?.status ?? '')).length;
+    }
+
+    // Referências ("Tipo/id") dos itens exportados antes para a consulta
+    private async findEncounterResources(base: string, encounterId: string): Promise<string[]> {
+        const tag = encodeURIComponent(`${ENCOUNTER_TAG_SYSTEM}|${encounterId}`);
+        const references = await Promise.all(ENCOUNTER_ITEM_TYPES.map(async type => {
+            const response = await fetch(`${base}/${type}?_tag=${tag}&_elements=id&_count=500`, { headers: { Accept: FHIR_JSON } });
+            if (!response.ok) throw await readServerError(response);
+            const result = await response.json() as Partial<SearchsetBundle> | null;
+            return (result?.entry ?? []).flatMap(entry => entry.resource ? [`${entry.resource.resourceType}/${entry.resource.id}`] : []);
+        }));
+        return references.flat();
+    }
+}
+
+export const fhirExportService = new FhirExportService();
@@ -0,0 +1,112 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SessionData } from '../App';
+
+const firestore = vi.hoisted(() => ({
+    remote: null as Record<string, any> | null,
+    collection: [] as { id: string; data: Record<string, any> }[],
+    set: vi.fn(),
+}));
+
+vi.mock('firebase/app', () => ({ initializeApp: () => ({}) }));
+vi.mock('firebase/auth', () => ({}));
+vi.mock('firebase/storage', () => ({}));
+vi.mock('./cryptoService', () => ({
+    cryptoService: {
+        encrypt: async (value: unknown) => value,
+        decryptIfNeeded: async (value: unknown) => value,
+    },
+}));
+vi.mock('firebase/firestore', () => {
+    class Timestamp {
+        constructor(private readonly date: Date) {}
+        static fromDate(date: Date) { return new Timestamp(date); }
+        toDate() { return this.date; }
+    }
+    return {
+        Timestamp,
+        getFirestore: () => ({}),
+        doc: (_db: unknown, ...path: string[]) => ({ id: path[path.length - 1] }),
+        serverTimestamp: () => 'server-timestamp',
+        collection: () => ({}),
+        orderBy: () => ({}),
+        query: () => ({}),
+        getDocs: async () => ({ docs: firestore.collection.map(({ id, data }) => ({ id, data: () => data })) }),
+        runTransaction: async (_db: unknown, update: (transaction: unknown) => Promise<unknown>) => update({
+            get: async (ref: { id: string }) => ({
+                id: ref.id,
+                exists: () => firestore.remote !== null,
+                data: () => firestore.remote,
+            }),
+            set: firestore.set,
+        }),
+    };
+});
+
+let firebaseService: typeof import('./firebaseService');
+
+const START_TIME = new Date('2026-10-01T10:00:00Z');
+
+const session = (revision: number, transcriptionHistory: string[]): SessionData =>
+    ({ id: 'session-1', startTime: START_TIME, transcriptionHistory, revision } as unknown as SessionData);
+
+// Documento como está no Firestore: sem o id, que é a chave do documento
+const remoteDoc = (revision: number, transcriptionHistory: string[]) =>
+    ({ startTime: START_TIME, transcriptionHistory, revision, createdAt: 'created' });
+
+beforeAll(async () => {
+    vi.stubEnv('VITE_FIREBASE_API_KEY', 'key');
+    vi.stubEnv('VITE_FIREBASE_AUTH_DOMAIN', 'example.firebaseapp.com');
+    vi.stubEnv('VITE_FIREBASE_PROJECT_ID', 'example');
+    vi.stubEnv('VITE_FIREBASE_APP_ID', 'app');
+    firebaseService = await import('./firebaseService');
+    firebaseService.initializeApp();
+});
+
+beforeEach(() => {
+    firestore.remote = null;
+    firestore.collection = [];
+    firestore.set.mockClear();
+});
+
+describe('saveSessionRevision', () => {
+    it('keeps a remote revision this device never synced, even with more local saves', async () => {
+        firestore.remote = remoteDoc(3, ['Paciente: versão do outro aparelho']);
+
+        const conflict = await firebaseService.saveSessionRevision('uid', session(5, ['Paciente: versão local']), 2);
+
+        expect(firestore.set).not.toHaveBeenCalled();
+        expect(conflict).toMatchObject({ id: 'session-1', revision: 3 });
+        expect(conflict?.transcriptionHistory.map(turn => turn.text)).toEqual(['Paciente: versão do outro aparelho']);
+    });
+
+    it('writes when the remote revision is the one this device last synced', async () => {
+        firestore.remote = remoteDoc(2, ['Paciente: versão anterior']);
+
+        const conflict = await firebaseService.saveSessionRevision('uid', session(3, ['Paciente: versão local']), 2);
+
+        expect(conflict).toBeNull();
+        expect(firestore.set).toHaveBeenCalledTimes(1);
+        expect(firestore.set.mock.calls[0][1]).toMatchObject({ revision: 3, createdAt: 'created' });
+    });
+
+    it('writes a session that does not exist remotely yet', async () => {
+        const conflict = await firebaseService.saveSessionRevision('uid', session(1, []), 0);
+
+        expect(conflict).toBeNull();
+        expect(firestore.set.mock.calls[0][1]).toMatchObject({ revision: 1, createdAt: 'server-timestamp' });
+    });
+});
+
+describe('fetchSessions', () => {
+    it('reports sessions whose stored anamnesis does not follow the schema instead of emptying it', async () => {
+        firestore.collection = [
+            { id: 'valid', data: remoteDoc(1, ['Paciente: tudo certo']) },
+            { id: 'broken', data: { ...remoteDoc(1, []), anamnesis: { sections: 'não é uma lista' } } },
+        ];
+
+        const { sessions, invalid } = await firebaseService.fetchSessions('uid');
+
+        expect(sessions.map(fetched => fetched.id)).toEqual(['valid']);
+        expect(invalid).toEqual([{ id: 'broken', error: expect.stringContaining('$.sections') }]);
+    });
+});
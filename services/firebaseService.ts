@@ -13,16 +13,21 @@ import {
     setDoc,
     getDoc,
     collection,
-    addDoc,
     query,
     getDocs,
     orderBy,
     deleteDoc,
+    runTransaction,
     Timestamp,
     serverTimestamp,
     DocumentData
 } from 'firebase/firestore';
+import { getStorage, ref as storageRef, uploadBytes, getBytes, getMetadata, deleteObject } from 'firebase/storage';
 import { SessionData } from '../App';
+import { normalizeTranscriptionHistory } from '../utils/transcriptUtils';
+import { AnamnesisSchemaError, normalizeAnamnesis } from './anamnesisSchema';
+import { cryptoService, EncryptionMetadata } from './cryptoService';
+import type { Patient } from './patientRepository';
 
 // Firebase config is sourced from Vite env vars. Create a .env.local with VITE_*
 // IMPORTANTE: Não use valores hardcoded. Configure as variáveis de ambiente no arquivo .env.local
@@ -103,25 +108,98 @@ const getDb = () => {
     return getFirestore(app);
 };
 
+const getBucket = () => {
+    if (!app) throw new Error("Firebase not initialized");
+    return getStorage(app);
+};
+
 // --- Settings ---
-export const saveUserSettings = (uid: string, settings: any) => {
+
+// As chaves de API são criptografadas antes de sair do navegador
+export const saveUserSettings = async (uid: string, settings: any) => {
     const db = getDb();
     const userSettingsRef = doc(db, 'users', uid);
-    return setDoc(userSettingsRef, { settings }, { merge: true });
+    const encryptedSettings = {
+        ...settings,
+        apiKeys: await cryptoService.encrypt(settings.apiKeys ?? {}),
+        ...(settings.transcription && {
+            transcription: {
+                ...settings.transcription,
+                whisper: { ...settings.transcription.whisper, apiKey: await cryptoService.encrypt(settings.transcription.whisper?.apiKey ?? '') },
+            },
+        }),
+    };
+    return setDoc(userSettingsRef, { settings: encryptedSettings }, { merge: true });
 };
 
+// Requer a criptografia desbloqueada quando as chaves já foram salvas criptografadas
 export const fetchUserSettings = async (uid: string) => {
     const db = getDb();
     const userSettingsRef = doc(db, 'users', uid);
     const docSnap = await getDoc(userSettingsRef);
-    if (docSnap.exists()) {
-        return docSnap.data().settings;
+    if (docSnap.exists() && docSnap.data().settings) {
+        const settings = docSnap.data().settings;
+        return {
+            ...settings,
+            apiKeys: await cryptoService.decryptIfNeeded(settings.apiKeys),
+            ...(settings.transcription?.whisper && {
+                transcription: {
+                    ...settings.transcription,
+                    whisper: { ...settings.transcription.whisper, apiKey: await cryptoService.decryptIfNeeded(settings.transcription.whisper.apiKey) },
+                },
+            }),
+        };
     }
     return null;
 };
 
+// --- Encryption keyring ---
+
+// Cópia local (sem segredos) para desbloquear mesmo sem conexão
+const encryptionCacheKey = (uid: string) => `encryption_metadata:${uid}`;
+
+export const fetchEncryptionMetadata = async (uid: string): Promise<EncryptionMetadata | null> => {
+    try {
+        const db = getDb();
+        const docSnap = await getDoc(doc(db, 'users', uid));
+        const metadata: EncryptionMetadata | null = docSnap.exists() ? (docSnap.data().encryption ?? null) : null;
+        if (metadata) localStorage.setItem(encryptionCacheKey(uid), JSON.stringify(metadata));
+        return metadata;
+    } catch (error) {
+        const cached = localStorage.getItem(encryptionCacheKey(uid));
+        if (cached) return JSON.parse(cached);
+        throw error;
+    }
+};
+
+export const saveEncryptionMetadata = async (uid: string, metadata: EncryptionMetadata) => {
+    const db = getDb();
+    await setDoc(doc(db, 'users', uid), { encryption: metadata }, { merge: true });
+    localStorage.setItem(encryptionCacheKey(uid), JSON.stringify(metadata));
+};
+
 // --- Sessions ---
 
+// Campos com o conteúdo da consulta: nunca são gravados em texto claro
+const ENCRYPTED_SESSION_FIELDS = ['transcriptionHistory', 'anamnesis', 'insights', 'logExcerpt', 'phiAudit'] as const;
+
+const encryptSessionFields = async (data: Record<string, any>) => {
+    const encrypted = { ...data };
+    for (const field of ENCRYPTED_SESSION_FIELDS) {
+        if (encrypted[field] !== undefined) encrypted[field] = await cryptoService.encrypt(encrypted[field]);
+    }
+    return encrypted;
+};
+
+// Sessões salvas antes da criptografia passam direto
+const readSessionDoc = async (docData: DocumentData): Promise<SessionData> => {
+    const data = { ...docData };
+    for (const field of ENCRYPTED_SESSION_FIELDS) {
+        if (data[field] !== undefined) data[field] = await cryptoService.decryptIfNeeded(data[field]);
+    }
+    return convertTimestampsToDates(data);
+};
+
 // Helper to convert Firestore Timestamps in session data to JS Dates
 const convertTimestampsToDates = (docData: DocumentData): SessionData => {
     const data = { ...docData };
@@ -131,40 +209,161 @@ const convertTimestampsToDates = (docData: DocumentData): SessionData => {
     if (data.endTime instanceof Timestamp) {
         data.endTime = data.endTime.toDate();
     }
+    // Sessões antigas guardavam a transcrição como string[]
+    data.transcriptionHistory = normalizeTranscriptionHistory(data.transcriptionHistory);
+    // Sessões antigas guardavam a anamnese como texto livre
+    data.anamnesis = normalizeAnamnesis(data.anamnesis);
+    // Insights, logs e auditoria de PHI guardam datas aninhadas, salvas como Timestamp
+    if (Array.isArray(data.insights)) {
+        data.insights = data.insights.map((insight: any) => ({
+            ...insight,
+            timestamp: insight.timestamp instanceof Timestamp ? insight.timestamp.toDate() : new Date(insight.timestamp),
+        }));
+    }
+    if (Array.isArray(data.logExcerpt)) {
+        data.logExcerpt = data.logExcerpt.map((entry: any) => ({
+            ...entry,
+            timestamp: entry.timestamp instanceof Timestamp ? entry.timestamp.toDate() : new Date(entry.timestamp),
+        }));
+    }
+    if (Array.isArray(data.phiAudit)) {
+        data.phiAudit = data.phiAudit.map((entry: any) => ({
+            ...entry,
+            firstMaskedAt: entry.firstMaskedAt instanceof Timestamp ? entry.firstMaskedAt.toDate() : new Date(entry.firstMaskedAt),
+        }));
+    }
     return data as SessionData;
 };
 
 
-export const saveSession = async (uid: string, sessionData: Omit<SessionData, 'id'>) => {
+// Firestore rejeita campos undefined
+const withoutUndefined = (data: Record<string, any>) =>
+    Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+/**
+ * Writes a session under its client-generated id, unless the remote copy has
+ * a revision the client never saw. In that case nothing is written and the
+ * remote session is returned so the caller can resolve the conflict.
+ * @param baseRevision Last revision of this session the client synced.
+ */
+export const saveSessionRevision = async (uid: string, session: SessionData, baseRevision: number): Promise<SessionData | null> => {
     const db = getDb();
-    const sessionsColRef = collection(db, 'users', uid, 'sessions');
+    const sessionDocRef = doc(db, 'users', uid, 'sessions', session.id);
 
-    // Convert Dates to Firestore Timestamps for proper indexing
-    const dataToSave = {
-        ...sessionData,
-        startTime: Timestamp.fromDate(sessionData.startTime),
-        endTime: sessionData.endTime ? Timestamp.fromDate(sessionData.endTime) : null,
-        createdAt: serverTimestamp() // For ordering
-    };
+    const { id, ...sessionData } = session;
+    const encryptedData = await encryptSessionFields(sessionData);
+
+    return runTransaction(db, async (transaction) => {
+        const snapshot = await transaction.get(sessionDocRef);
+        if (snapshot.exists()) {
+            const remoteRevision = snapshot.data().revision ?? 0;
+            // Vale mesmo com mais salvamentos locais: a edição remota nunca foi vista por este aparelho
+            if (remoteRevision > baseRevision) {
+                const remote = await readSessionDoc(snapshot.data());
+                return { ...remote, id: snapshot.id };
+            }
+        }
 
-    const docRef = await addDoc(sessionsColRef, dataToSave);
-    return docRef.id;
+        // Convert Dates to Firestore Timestamps for proper indexing
+        transaction.set(sessionDocRef, withoutUndefined({
+            ...encryptedData,
+            startTime: Timestamp.fromDate(sessionData.startTime),
+            endTime: sessionData.endTime ? Timestamp.fromDate(sessionData.endTime) : null,
+            createdAt: snapshot.exists() ? snapshot.data().createdAt : serverTimestamp() // For ordering
+        }));
+        return null;
+    });
 };
 
-export const fetchSessions = async (uid: string): Promise<SessionData[]> => {
+export interface FetchedSessions {
+    sessions: SessionData[];
+    // Sessões com anamnese fora do schema: quem chama mantém a cópia que já tem
+    invalid: { id: string; error: string }[];
+}
+
+export const fetchSessions = async (uid: string): Promise<FetchedSessions> => {
     const db = getDb();
     const sessionsColRef = collection(db, 'users', uid, 'sessions');
     const q = query(sessionsColRef, orderBy('startTime', 'desc'));
 
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => {
-        const data = convertTimestampsToDates(doc.data());
-        return { ...data, id: doc.id };
-    });
+    const invalid: FetchedSessions['invalid'] = [];
+    const sessions = await Promise.all(querySnapshot.docs.map(async (doc): Promise<SessionData | null> => {
+        try {
+            const data = await readSessionDoc(doc.data());
+            return { ...data, id: doc.id };
+        } catch (error) {
+            if (!(error instanceof AnamnesisSchemaError)) throw error;
+            invalid.push({ id: doc.id, error: error.message });
+            return null;
+        }
+    }));
+    return { sessions: sessions.filter((session): session is SessionData => session !== null), invalid };
 };
 
 export const deleteSession = (uid: string, sessionId: string) => {
     const db = getDb();
     const sessionDocRef = doc(db, 'users', uid, 'sessions', sessionId);
     return deleteDoc(sessionDocRef);
-};
\ No newline at end of file
+};
+
+// --- Gravações das consultas (Firebase Storage) ---
+
+// O áudio é criptografado como os demais dados da consulta; a chave e o IV ficam nos metadados do objeto
+export const uploadSessionAudio = async (uid: string, sessionId: string, audio: Blob): Promise<string> => {
+    const path = `users/${uid}/audio/${sessionId}`;
+    const { kid, iv, data } = await cryptoService.encryptBytes(await audio.arrayBuffer());
+    await uploadBytes(storageRef(getBucket(), path), data, {
+        contentType: 'application/octet-stream',
+        customMetadata: { kid, iv, mimeType: audio.type },
+    });
+    return path;
+};
+
+export const fetchSessionAudio = async (path: string): Promise<Blob> => {
+    const objectRef = storageRef(getBucket(), path);
+    const [metadata, data] = await Promise.all([getMetadata(objectRef), getBytes(objectRef)]);
+    const { kid, iv, mimeType } = metadata.customMetadata ?? {};
+    if (!kid || !iv) throw new Error('Gravação sem metadados de criptografia.');
+    return new Blob([await cryptoService.decryptBytes({ kid, iv, data })], { type: mimeType });
+};
+
+export const deleteSessionAudio = async (path: string) => {
+    try {
+        await deleteObject(storageRef(getBucket(), path));
+    } catch (error: any) {
+        // Já removida: nada a fazer
+        if (error?.code !== 'storage/object-not-found') throw error;
+    }
+};
+
+// --- Patients ---
+
+// O cadastro inteiro é criptografado; apenas a data de atualização fica em claro
+export const savePatient = async (uid: string, patient: Patient) => {
+    const db = getDb();
+    const { id, ...patientData } = patient;
+    return setDoc(doc(db, 'users', uid, 'patients', id), {
+        data: await cryptoService.encrypt(patientData),
+        updatedAt: Timestamp.fromDate(patient.updatedAt),
+    });
+};
+
+export const fetchPatients = async (uid: string): Promise<Patient[]> => {
+    const db = getDb();
+    const querySnapshot = await getDocs(collection(db, 'users', uid, 'patients'));
+    return Promise.all(querySnapshot.docs.map(async doc => {
+        const data = await cryptoService.decryptIfNeeded<any>(doc.data().data);
+        return {
+            ...data,
+            id: doc.id,
+            createdAt: new Date(data.createdAt),
+            updatedAt: new Date(data.updatedAt),
+        } as Patient;
+    }));
+};
+
+export const deletePatient = (uid: string, patientId: string) => {
+    const db = getDb();
+    return deleteDoc(doc(db, 'users', uid, 'patients', patientId));
+};
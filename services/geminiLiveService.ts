@@ -1,11 +1,11 @@
 import { GoogleGenAI } from "@google/genai";
+import { DIARIZATION_INSTRUCTION } from "../utils/transcriptUtils";
+import { AudioCaptureService } from "./audioCaptureService";
 
 export class GeminiLiveService {
     private client: GoogleGenAI;
     private connection: any | null = null;
-    private audioContext: AudioContext | null = null;
-    private audioProcessor: ScriptProcessorNode | null = null;
-    private mediaStream: MediaStream | null = null;
+    private capture: AudioCaptureService | null = null;
     private onTranscriptCallback: (text: string, isFinal: boolean) => void;
     private onErrorCallback: (error: string) => void;
     private onLogCallback: (message: string) => void;
@@ -67,7 +67,7 @@ export class GeminiLiveService {
                 },
                 systemInstruction: {
                     parts: [{
-                        text: "Você é um transcritor médico especialista. Sua tarefa é transcrever a consulta médica em tempo real com precisão absoluta. Identifique falas de médico e paciente se possível. Não responda às perguntas, apenas transcreva o que é dito. Formate termos médicos corretamente."
+                        text: `Você é um transcritor médico especialista. Sua tarefa é transcrever a consulta médica em tempo real com precisão absoluta. ${DIARIZATION_INSTRUCTION} Não responda às perguntas, apenas transcreva o que é dito. Formate termos médicos corretamente.`
                     }]
                 }
             };
@@ -87,6 +87,10 @@ export class GeminiLiveService {
                     onClose: () => {
                         this.onLogCallback("Conexão fechada pelo servidor via callback.");
                         this.isConnected = false;
+                        // Fechamento inesperado: tenta reconectar antes de desistir
+                        if (this.shouldStayConnected && !this.isReconnecting) {
+                            this.scheduleReconnect("Conexão com o Gemini Live perdida");
+                        }
                     }
                 }
             } as any);
@@ -97,7 +101,7 @@ export class GeminiLiveService {
             this.onLogCallback("Conexão WebSocket estabelecida com sucesso!");
 
             // Iniciar captura de áudio (se ainda não estiver ativa)
-            if (!this.mediaStream || !this.audioContext) {
+            if (!this.capture) {
                 await this.startAudioCapture();
             }
 
@@ -111,18 +115,25 @@ export class GeminiLiveService {
             this.isConnected = false;
 
             // Tenta reconectar se ainda deve ficar conectado
-            if (this.shouldStayConnected && this.reconnectAttempts < this.maxReconnectAttempts) {
-                this.reconnectAttempts++;
-                this.isReconnecting = true;
-                this.onLogCallback(`Falha na conexão. Tentando novamente em ${this.reconnectDelay / 1000}s...`);
-                setTimeout(() => this.attemptConnect(), this.reconnectDelay);
-            } else {
-                this.onErrorCallback(error.message || "Erro de conexão com Gemini Live");
-                this.disconnect();
+            if (this.shouldStayConnected) {
+                this.scheduleReconnect(error.message || "Erro de conexão com Gemini Live");
             }
         }
     }
 
+    private scheduleReconnect(reason: string) {
+        if (this.reconnectAttempts < this.maxReconnectAttempts) {
+            this.reconnectAttempts++;
+            this.isReconnecting = true;
+            this.onLogCallback(`Falha na conexão. Tentando novamente em ${this.reconnectDelay / 1000}s...`);
+            setTimeout(() => this.attemptConnect(), this.reconnectDelay);
+        } else {
+            // Desconecta antes de notificar: quem recebe o erro vê isActive() === false
+            this.disconnect();
+            this.onErrorCallback(reason);
+        }
+    }
+
     // Processamento de mensagem extraído para método separado
     private handleMessage(message: any) {
         if (!this.isConnected) return; // Ignora se desconectado
@@ -155,31 +166,15 @@ export class GeminiLiveService {
     private async startAudioCapture() {
         this.onLogCallback("Solicitando acesso ao microfone...");
         try {
-            this.mediaStream = await navigator.mediaDevices.getUserMedia({
-                audio: {
-                    channelCount: 1,
-                    sampleRate: 16000, // Gemini prefere 16kHz ou 24kHz
-                }
-            });
-            this.onLogCallback("Microfone acessado com sucesso.");
-
-            this.audioContext = new AudioContext({ sampleRate: 16000 });
-            const source = this.audioContext.createMediaStreamSource(this.mediaStream);
-
-            // Processador para converter áudio para PCM base64
-            this.audioProcessor = this.audioContext.createScriptProcessor(4096, 1, 1);
+            // PCM 16 kHz (taxa preferida pelo Gemini) produzido pelo AudioWorklet
+            const capture = new AudioCaptureService({ sampleRate: 16000 });
 
             let chunkCount = 0;
-            this.audioProcessor.onaudioprocess = (e) => {
+            await capture.start((frame) => {
                 if (!this.connection || !this.isConnected) return;
 
-                const inputData = e.inputBuffer.getChannelData(0);
-
-                // Converter Float32Array para Int16Array (PCM)
-                const pcmData = this.floatTo16BitPCM(inputData);
-
                 // Converter para Base64
-                const base64Audio = this.arrayBufferToBase64(pcmData.buffer as ArrayBuffer);
+                const base64Audio = this.arrayBufferToBase64(frame.pcm.buffer as ArrayBuffer);
 
                 // Enviar para o Gemini
                 this.connection.send([{
@@ -191,14 +186,20 @@ export class GeminiLiveService {
                 if (chunkCount % 50 === 0) { // Log a cada ~2 segundos (50 * 4096 / 16000)
                     this.onLogCallback(`Enviados ${chunkCount} chunks de áudio...`);
                 }
-            };
-
-            source.connect(this.audioProcessor);
-            this.audioProcessor.connect(this.audioContext.destination); // Necessário para o script processor rodar
+            });
+            // Desconectado enquanto o microfone era aberto: não deixa a captura ativa
+            if (!this.shouldStayConnected) {
+                await capture.stop();
+                return;
+            }
+            // Só após o início: se a captura falhar, a próxima conexão tenta de novo
+            this.capture = capture;
+            this.onLogCallback("Microfone acessado com sucesso.");
             this.onLogCallback("Processamento de áudio iniciado.");
 
         } catch (error: any) {
             console.error("Erro ao capturar áudio:", error);
+            this.disconnect();
             this.onErrorCallback("Erro ao acessar microfone: " + error.message);
         }
     }
@@ -221,19 +222,9 @@ export class GeminiLiveService {
             this.connection = null;
         }
 
-        if (this.mediaStream) {
-            this.mediaStream.getTracks().forEach(track => track.stop());
-            this.mediaStream = null;
-        }
-
-        if (this.audioProcessor) {
-            this.audioProcessor.disconnect();
-            this.audioProcessor = null;
-        }
-
-        if (this.audioContext) {
-            this.audioContext.close();
-            this.audioContext = null;
+        if (this.capture) {
+            this.capture.stop();
+            this.capture = null;
         }
 
         this.onLogCallback("Desconectado.");
@@ -241,15 +232,6 @@ export class GeminiLiveService {
 
     // Utilitários de Áudio
 
-    private floatTo16BitPCM(input: Float32Array): Int16Array {
-        const output = new Int16Array(input.length);
-        for (let i = 0; i < input.length; i++) {
-            const s = Math.max(-1, Math.min(1, input[i]));
-            output[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-        }
-        return output;
-    }
-
     private arrayBufferToBase64(buffer: ArrayBuffer): string {
         let binary = '';
         const bytes = new Uint8Array(buffer);
@@ -261,6 +243,11 @@ export class GeminiLiveService {
     }
 
     getMediaStream(): MediaStream | null {
-        return this.mediaStream;
+        return this.capture?.getMediaStream() ?? null;
+    }
+
+    // false após desconexão definitiva (pelo usuário ou após esgotar as tentativas)
+    isActive(): boolean {
+        return this.shouldStayConnected;
     }
 }
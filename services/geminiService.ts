@@ -1,17 +1,12 @@
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { InsightProvider } from "../components/SettingsPanel";
+import { GenerateContentResponse } from "@google/genai";
 import { medicalKnowledgeService } from "./medicalKnowledgeService";
 import { proceduralMemoryService } from "./proceduralMemoryService";
 import { reflectionService } from "./reflectionService";
 import { tokenTracker } from "./tokenTracker";
-
-const getGeminiAI = (apiKey?: string) => {
-    const finalApiKey = apiKey || import.meta.env.VITE_GEMINI_API_KEY as string | undefined;
-    if (!finalApiKey) {
-        throw new Error("API Key for Gemini not found. Configure VITE_GEMINI_API_KEY no arquivo .env.local");
-    }
-    return new GoogleGenAI({ apiKey: finalApiKey });
-}
+import { getGeminiAI, LLMProvider, LLMProviderId, ProviderConfig, ProviderCredentials, runWithProviderFailover, TextGenerationRequest, TextGenerationResult } from "./llmProviders";
+import { PhiVault, PLACEHOLDER_INSTRUCTION } from "./deidentificationService";
+import { AnamnesisDocument, ANAMNESIS_JSON_INSTRUCTIONS, ANAMNESIS_PATCH_INSTRUCTIONS, anamnesisToText, applyAnamnesisPatch, countFilledSections, parseAnamnesisPatch, parseAnamnesisResponse, PRIOR_VISIT_INSTRUCTIONS } from "./anamnesisSchema";
+import { formatPriorVisitContext, PriorVisitContext } from "./priorVisitService";
 
 // Correção/refinamento de transcrição usando Gemini 2.5 Flash REST
 export const correctTranscription = async (
@@ -39,7 +34,7 @@ INSTRUÇÃO: Corrija apenas erros de ortografia, gramática e termos médicos. R
         
         // Rastreia tokens
         const usage = tokenTracker.extractTokensFromResponse(response);
-        tokenTracker.recordCorrection(usage);
+        tokenTracker.recordCorrection(usage, 'gemini');
         
         // Limpa qualquer texto adicional que possa ter vindo da IA
         let correctedText = response.text.trim();
@@ -144,9 +139,21 @@ INSTRUÇÃO: Corrija apenas erros de ortografia, gramática e termos médicos. R
     }
 }
 
-const generateGeminiInsight = async (transcript: string, apiKey: string) => {
-    const ai = getGeminiAI(apiKey);
-    
+/**
+ * Sends the prompt with PHI replaced by placeholders when the provider runs in
+ * the cloud, and restores the original values in the response. Local
+ * providers receive the text unchanged.
+ */
+const generateDeidentified = async (provider: LLMProvider, config: ProviderConfig, request: TextGenerationRequest, vault?: PhiVault): Promise<TextGenerationResult> => {
+    if (!vault || provider.isLocal) {
+        return provider.generateText(config, request);
+    }
+    const prompt = `${vault.mask(request.prompt)}\n\n${PLACEHOLDER_INSTRUCTION}`;
+    const result = await provider.generateText(config, { ...request, prompt });
+    return { ...result, text: vault.unmask(result.text, { json: request.json }) };
+};
+
+const buildInsightPrompt = (transcript: string) => {
     // Enhance with medical knowledge
     const medicalContext = medicalKnowledgeService.getRelevantContext(transcript);
     const proceduralGuidance = proceduralMemoryService.getGuidance(transcript);
@@ -167,21 +174,21 @@ ${transcript}
 ---
 
 Insight Curto:`;
-    
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.0-flash-exp',
-        contents: prompt,
-        config: {
-            temperature: 0.2,
-            maxOutputTokens: 4096,
-        },
-    });
+    return prompt;
+};
+
+const generateInsight = async (provider: LLMProvider, config: ProviderConfig, transcript: string, signal?: AbortSignal, vault?: PhiVault) => {
+    const { text, usage } = await generateDeidentified(provider, config, {
+        prompt: buildInsightPrompt(transcript),
+        temperature: 0.2,
+        maxTokens: 4096,
+        signal,
+    }, vault);
     
     // Rastreia tokens
-    const usage = tokenTracker.extractTokensFromResponse(response);
-    tokenTracker.recordInsight(usage);
+    tokenTracker.recordInsight(usage, provider.id);
     
-    let insight = response.text.trim();
+    const insight = text;
     
     // Apply reflection to improve insight
     const reflection = await reflectionService.reflect(insight, {
@@ -206,113 +213,23 @@ Insight Curto:`;
     return reflection.improvedContent;
 };
 
-const generateOpenAIInsight = async (transcript: string, apiKey: string) => {
-    const prompt = `You are an AI assistant in a real-time medical consultation. Based on the following transcript, generate a brief, insightful thought, a potential connection, or next steps, as if it were the doctor's inner monologue or 'stream of consciousness'. Do not repeat the transcript. Focus on interpretation and synthesis. Keep each thought to a single short point. The most recent part of the conversation is the most important.
-
-Transcript:
----
-${transcript}
----
-
-Brief Insight:`;
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 60,
-            temperature: 0.7,
-        })
-    });
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenAI API error: ${errorData.error.message}`);
-    }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
-};
-
-const generateGrokInsight = async (transcript: string, apiKey: string) => {
-    const prompt = `You are an AI assistant with a sharp, insightful, and slightly unconventional perspective, observing a medical consultation. Based on the following transcript, provide a concise, non-obvious connection or a forward-thinking next step. Emulate a "stream of consciousness" from a brilliant, slightly maverick doctor. Be brief.
-
-Transcript:
----
-${transcript}
----
-
-Insight:`;
-
-    const response = await fetch("https://api.x.ai/v1/chat/completions", { // Placeholder URL
-        method: 'POST',
-        headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-            model: "grok-1", // Placeholder model
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 60,
-            temperature: 0.6,
-        })
-    });
-     if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Grok API error: ${errorData.error.message}`);
-    }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
-};
-
-const insightProviderFunctions: Record<InsightProvider, (transcript: string, apiKey: string) => Promise<string>> = {
-    gemini: generateGeminiInsight,
-    openai: generateOpenAIInsight,
-    grok: generateGrokInsight,
-};
-
-const providerPriority: InsightProvider[] = ['gemini', 'openai', 'grok'];
-
 export const generateInsightsWithFailover = async (
     transcript: string,
-    preferredProvider: InsightProvider,
-    apiKeys: { openai: string; grok: string }
-): Promise<{ insight: string; provider: InsightProvider | null }> => {
-    
-    // Reorder priority list to try preferred provider first, without duplicates
-    const orderedProviders = [
+    preferredProvider: LLMProviderId,
+    credentials: ProviderCredentials,
+    signal?: AbortSignal,
+    vault?: PhiVault
+): Promise<{ insight: string; provider: LLMProviderId | null }> => {
+    const outcome = await runWithProviderFailover(
+        'insight',
         preferredProvider,
-        ...providerPriority.filter(p => p !== preferredProvider)
-    ];
-
-    for (const provider of orderedProviders) {
-        const apiKey = provider === 'gemini' ? import.meta.env.VITE_GEMINI_API_KEY as string | undefined : apiKeys[provider as keyof typeof apiKeys];
-
-        if (!apiKey) {
-            console.warn(`API key for ${provider} is missing. Skipping.`);
-            continue; // Skip if no key
-        }
+        credentials,
+        (provider, config) => generateInsight(provider, config, transcript, signal, vault),
+        signal
+    );
 
-        try {
-            const insight = await insightProviderFunctions[provider](transcript, apiKey);
-            console.log(`Successfully generated insight with ${provider}`);
-            return { insight, provider };
-        } catch (error: any) {
-            const errorMsg = error?.message || String(error);
-            console.error(`Failed to generate insight with ${provider}:`, errorMsg);
-            // Log the full error for debugging
-            if (provider === 'gemini') {
-                console.error('Gemini API error details:', {
-                    hasApiKey: !!apiKey,
-                    apiKeyPrefix: apiKey?.substring(0, 10),
-                    error: errorMsg
-                });
-            }
-            // Continue to the next provider
-        }
+    if (outcome) {
+        return { insight: outcome.result, provider: outcome.provider };
     }
 
     // If all providers failed
@@ -324,9 +241,10 @@ export const generateInsightsWithFailover = async (
 
 // --- Anamnesis Generation with Failover ---
 
-const generateGeminiAnamnesis = async (transcript: string, anamnesisPrompt: string, apiKey: string, previousAnamnesis?: string): Promise<string> => {
-    const ai = getGeminiAI(apiKey);
-    
+const buildPriorVisitBlock = (priorVisit?: PriorVisitContext | null) =>
+    priorVisit ? `\n\n**Histórico do Paciente (consultas anteriores, apenas para comparação):**\n${formatPriorVisitContext(priorVisit)}` : '';
+
+const buildAnamnesisPrompt = (transcript: string, anamnesisPrompt: string, previousAnamnesis?: AnamnesisDocument, priorVisit?: PriorVisitContext | null) => {
     // Enhance with medical knowledge and similar patterns
     const medicalContext = medicalKnowledgeService.getRelevantContext(transcript);
     const similarPatterns = medicalKnowledgeService.findSimilarPatterns(transcript);
@@ -345,33 +263,33 @@ const generateGeminiAnamnesis = async (transcript: string, anamnesisPrompt: stri
     }
     
     if (previousAnamnesis) {
-        prompt += `\n\n**Anamnese Anterior (para referência e atualização):**\n${previousAnamnesis}\n\n**ATUALIZE** a anamnese anterior com as novas informações da transcrição abaixo. Mantenha o que já estava correto e adicione/melhore com base no novo contexto.`;
+        prompt += `\n\n**Anamnese Anterior (JSON, para referência e atualização):**\n${JSON.stringify(previousAnamnesis)}\n\n**ATUALIZE** a anamnese anterior com as novas informações da transcrição abaixo. Mantenha o que já estava correto e adicione/melhore com base no novo contexto.`;
     }
     
-    prompt += `\n\nTranscrição da Consulta para Análise:\n---\n${transcript}\n---\n\nPreencha o prontuário acima com base na transcrição fornecida:`;
-    
-    const response = await ai.models.generateContent({ 
-        model: 'gemini-2.0-flash-exp',
-        contents: prompt,
-        config: {
-            temperature: 0.1,
-            maxOutputTokens: 8192,
-        },
-    });
+    prompt += buildPriorVisitBlock(priorVisit);
+
+    prompt += `\n\nTranscrição da Consulta para Análise (cada fala é rotulada como Médico ou Paciente; use os rótulos para separar o relato do paciente das perguntas e conclusões do médico):\n---\n${transcript}\n---\n\nPreencha o prontuário acima com base na transcrição fornecida.\n\n${ANAMNESIS_JSON_INSTRUCTIONS}`;
+    if (priorVisit) prompt += `\n\n${PRIOR_VISIT_INSTRUCTIONS}`;
+    return prompt;
+};
+
+const generateAnamnesis = async (provider: LLMProvider, config: ProviderConfig, transcript: string, anamnesisPrompt: string, previousAnamnesis?: AnamnesisDocument, signal?: AbortSignal, vault?: PhiVault, priorVisit?: PriorVisitContext | null): Promise<AnamnesisDocument> => {
+    const { text, usage } = await generateDeidentified(provider, config, {
+        prompt: buildAnamnesisPrompt(transcript, anamnesisPrompt, previousAnamnesis, priorVisit),
+        temperature: 0.1,
+        maxTokens: 8192,
+        json: true,
+        signal,
+    }, vault);
     
     // Rastreia tokens
-    const usage = tokenTracker.extractTokensFromResponse(response);
-    tokenTracker.recordAnamnesis(usage);
+    tokenTracker.recordAnamnesis(usage, provider.id);
     
-    let anamnesis = response.text.trim();
+    // Lança AnamnesisSchemaError se a resposta não seguir o schema, acionando o failover
+    const anamnesis = parseAnamnesisResponse(text);
     
     // Apply reflection to improve anamnesis
-    const reflection = await reflectionService.reflect(anamnesis, {
-        originalContent: anamnesis,
-        transcript,
-        previousContent: previousAnamnesis,
-        type: 'anamnesis',
-    });
+    const reflection = await reflectionService.reflectOnAnamnesis(anamnesis, { transcript });
     
     // Record procedural step
     proceduralMemoryService.recordStep(
@@ -380,244 +298,168 @@ const generateGeminiAnamnesis = async (transcript: string, anamnesisPrompt: stri
         reflection.confidence > 0.7 ? 'success' : 'partial',
         { 
             confidence: reflection.confidence,
-            sectionsCount: (anamnesis.match(/\[[^\]]+\]/g) || []).length 
+            sectionsCount: anamnesis.sections.length 
         }
     );
     
     // Store successful pattern if high quality
-    if (reflection.confidence > 0.8 && anamnesis.length > 200) {
+    if (reflection.confidence > 0.8 && countFilledSections(anamnesis) >= 3) {
         const keywords = medicalKnowledgeService.extractPatterns(transcript).map(p => p.symptom);
         const insights = []; // Can extract from previous insights if available
         medicalKnowledgeService.storeConsultationPattern(
             keywords,
-            anamnesis,
+            anamnesisToText(anamnesis),
             insights
         );
     }
     
-    return reflection.improvedContent;
+    return reflection.improvedDocument;
 };
 
-const generateOpenAIAnamnesis = async (transcript: string, anamnesisPrompt: string, apiKey: string): Promise<string> => {
-    const prompt = `Based on the full consultation transcript below, update and complete the structured anamnesis provided. The anamnesis template is in Portuguese; maintain the structure and language. If information is missing, leave the field blank or write "não informado".
-
-Anamnesis Template & Instructions:
----
-${anamnesisPrompt}
----
+export const generateAnamnesisWithFailover = async (
+    transcript: string,
+    anamnesisPrompt: string,
+    preferredProvider: LLMProviderId,
+    credentials: ProviderCredentials,
+    previousAnamnesis?: AnamnesisDocument,
+    signal?: AbortSignal,
+    vault?: PhiVault,
+    priorVisit?: PriorVisitContext | null
+): Promise<{ anamnesis: AnamnesisDocument | null; provider: LLMProviderId | null }> => {
+    const outcome = await runWithProviderFailover(
+        'anamnesis',
+        preferredProvider,
+        credentials,
+        async (provider, config) => {
+            try {
+                return await generateAnamnesis(provider, config, transcript, anamnesisPrompt, previousAnamnesis, signal, vault, priorVisit);
+            } catch (error: any) {
+                if (!signal?.aborted) {
+                    // Record failure
+                    proceduralMemoryService.recordStep(
+                        'generate_anamnesis',
+                        transcript.substring(Math.max(0, transcript.length - 200)),
+                        'failure',
+                        { error: error?.message || String(error) }
+                    );
+                }
+                throw error;
+            }
+        },
+        signal
+    );
 
-Full Consultation Transcript:
----
-${transcript}
----
+    // Complete procedural sequence (partial failure when no provider succeeded)
+    proceduralMemoryService.completeSequence(outcome !== null);
 
-Completed Anamnesis (in Portuguese):`;
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-        body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 1024,
-            temperature: 0.2,
-        })
-    });
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenAI API error: ${errorData.error.message}`);
+    if (outcome) {
+        return { anamnesis: outcome.result, provider: outcome.provider };
     }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
-};
-
-const generateGrokAnamnesis = async (transcript: string, anamnesisPrompt: string, apiKey: string): Promise<string> => {
-    // Grok might be less formal, so we give it a very direct instruction.
-    const prompt = `Your task is to fill out a medical anamnesis form. The form template and instructions are in Portuguese. The consultation transcript is also provided. Read the transcript and fill out the form accurately. Maintain the original Portuguese language and structure.
-
-Anamnesis Template & Instructions:
----
-${anamnesisPrompt}
----
-
-Full Consultation Transcript:
----
-${transcript}
----
 
-Filled Anamnesis (in Portuguese):`;
-
-    const response = await fetch("https://api.x.ai/v1/chat/completions", {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-        body: JSON.stringify({
-            model: "grok-1",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 1024,
-            temperature: 0.2,
-        })
-    });
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Grok API error: ${errorData.error.message}`);
-    }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
+    // Sem documento válido: o chamador mantém a anamnese anterior
+    return {
+        anamnesis: null,
+        provider: null,
+    };
 };
 
 
-// Update function signatures to support previous anamnesis
-const generateOpenAIAnamnesisEnhanced = async (transcript: string, anamnesisPrompt: string, apiKey: string, previousAnamnesis?: string): Promise<string> => {
-    let prompt = `Based on the full consultation transcript below, update and complete the structured anamnesis provided. The anamnesis template is in Portuguese; maintain the structure and language. If information is missing, leave the field blank or write "não informado".`;
-
-    if (previousAnamnesis) {
-        prompt += `\n\n**Previous Anamnesis (for reference and update):**\n${previousAnamnesis}\n\n**UPDATE** the previous anamnesis with new information from the transcript below. Keep what was already correct and add/improve based on the new context.`;
-    }
-
-    prompt += `\n\nAnamnesis Template & Instructions:
----
-${anamnesisPrompt}
----
-
-Full Consultation Transcript:
----
-${transcript}
----
-
-Completed Anamnesis (in Portuguese):`;
-
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-        body: JSON.stringify({
-            model: "gpt-4o-mini",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 1024,
-            temperature: 0.2,
-        })
-    });
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenAI API error: ${errorData.error.message}`);
-    }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
-};
-
-const generateGrokAnamnesisEnhanced = async (transcript: string, anamnesisPrompt: string, apiKey: string, previousAnamnesis?: string): Promise<string> => {
-    let prompt = `Your task is to fill out a medical anamnesis form. The form template and instructions are in Portuguese. The consultation transcript is also provided. Read the transcript and fill out the form accurately. Maintain the original Portuguese language and structure.`;
+// --- Incremental Anamnesis Updates (patch) ---
 
-    if (previousAnamnesis) {
-        prompt += `\n\n**Previous Anamnesis (for reference and update):**\n${previousAnamnesis}\n\n**UPDATE** the previous anamnesis with new information from the transcript below.`;
-    }
+const buildAnamnesisPatchPrompt = (newTurns: string, anamnesisPrompt: string, currentAnamnesis: AnamnesisDocument, priorVisit?: PriorVisitContext | null) => `${anamnesisPrompt}
 
-    prompt += `\n\nAnamnesis Template & Instructions:
----
-${anamnesisPrompt}
----
+**Anamnese Atual (JSON):**
+${JSON.stringify(currentAnamnesis)}${buildPriorVisitBlock(priorVisit)}
 
-Full Consultation Transcript:
+**Novas Falas da Consulta** (cada fala é rotulada como Médico ou Paciente):
 ---
-${transcript}
+${newTurns}
 ---
 
-Filled Anamnesis (in Portuguese):`;
-
-    const response = await fetch("https://api.x.ai/v1/chat/completions", {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${apiKey}` },
-        body: JSON.stringify({
-            model: "grok-1",
-            messages: [{ role: "user", content: prompt }],
-            max_tokens: 1024,
-            temperature: 0.2,
-        })
-    });
-    if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`Grok API error: ${errorData.error.message}`);
-    }
-    const data = await response.json();
-    return data.choices[0].message.content.trim();
-};
+Atualize a anamnese atual somente com as informações trazidas pelas novas falas.
 
-const anamnesisProviderFunctions: Record<InsightProvider, (transcript: string, anamnesisPrompt: string, apiKey: string, previousAnamnesis?: string) => Promise<string>> = {
-    gemini: generateGeminiAnamnesis,
-    openai: generateOpenAIAnamnesisEnhanced,
-    grok: generateGrokAnamnesisEnhanced,
-};
+${ANAMNESIS_PATCH_INSTRUCTIONS}${priorVisit ? `\n\n${PRIOR_VISIT_INSTRUCTIONS} No patch, envie "changesSinceLastVisit" completo somente se a lista mudou.` : ''}`;
 
-export const generateAnamnesisWithFailover = async (
-    transcript: string,
+/**
+ * Sends only the turns not yet incorporated plus the current structured
+ * anamnesis, and merges the section-level patch returned by the model.
+ * `fullTranscript` is used only to estimate the cost of a full regeneration.
+ */
+export const updateAnamnesisWithFailover = async (
+    newTurnsTranscript: string,
+    fullTranscript: string,
     anamnesisPrompt: string,
-    preferredProvider: InsightProvider,
-    apiKeys: { openai: string; grok: string },
-    previousAnamnesis?: string
-): Promise<{ anamnesis: string; provider: InsightProvider | null }> => {
-    
-    const orderedProviders = [
+    preferredProvider: LLMProviderId,
+    credentials: ProviderCredentials,
+    currentAnamnesis: AnamnesisDocument,
+    signal?: AbortSignal,
+    vault?: PhiVault,
+    priorVisit?: PriorVisitContext | null
+): Promise<{ anamnesis: AnamnesisDocument | null; provider: LLMProviderId | null }> => {
+    const prompt = buildAnamnesisPatchPrompt(newTurnsTranscript, anamnesisPrompt, currentAnamnesis, priorVisit);
+
+    const outcome = await runWithProviderFailover(
+        'anamnesis patch',
         preferredProvider,
-        ...providerPriority.filter(p => p !== preferredProvider)
-    ];
-
-    for (const provider of orderedProviders) {
-        const apiKey = provider === 'gemini' ? import.meta.env.VITE_GEMINI_API_KEY as string | undefined : apiKeys[provider as keyof typeof apiKeys];
-
-        if (!apiKey) {
-            console.warn(`API key for ${provider} is missing. Skipping for anamnesis.`);
-            continue;
-        }
-
-        try {
-            // Use enhanced function with previous anamnesis support
-            const generateFunc = provider === 'gemini' 
-                ? generateGeminiAnamnesis 
-                : anamnesisProviderFunctions[provider];
-            
-            const anamnesis = await generateFunc(transcript, anamnesisPrompt, apiKey, previousAnamnesis);
-            console.log(`Successfully generated anamnesis with ${provider}`);
-            
-            // Complete procedural sequence on success
-            proceduralMemoryService.completeSequence(true);
-            
-            return { anamnesis, provider };
-        } catch (error: any) {
-            const errorMsg = error?.message || String(error);
-            console.error(`Failed to generate anamnesis with ${provider}:`, errorMsg);
-            // Log the full error for debugging
-            if (provider === 'gemini') {
-                console.error('Gemini API error details (anamnesis):', {
-                    hasApiKey: !!apiKey,
-                    apiKeyPrefix: apiKey?.substring(0, 10),
-                    error: errorMsg
-                });
+        credentials,
+        async (provider, config) => {
+            try {
+                const { text, usage } = await generateDeidentified(provider, config, {
+                    prompt,
+                    temperature: 0.1,
+                    maxTokens: 4096,
+                    json: true,
+                    signal,
+                }, vault);
+                const patch = parseAnamnesisPatch(text);
+                const anamnesis = applyAnamnesisPatch(currentAnamnesis, patch);
+
+                // Custo estimado da chamada equivalente com regeneração completa
+                const fullPrompt = `${anamnesisPrompt}\n${JSON.stringify(currentAnamnesis)}\n${fullTranscript}\n${ANAMNESIS_JSON_INSTRUCTIONS}`;
+                const estimatedFullTokens = tokenTracker.estimateTokens(fullPrompt) + tokenTracker.estimateTokens(JSON.stringify(anamnesis));
+                tokenTracker.recordAnamnesisPatch(usage, estimatedFullTokens, provider.id);
+
+                proceduralMemoryService.recordStep(
+                    'patch_anamnesis',
+                    newTurnsTranscript.substring(Math.max(0, newTurnsTranscript.length - 500)),
+                    'success',
+                    { sectionsChanged: patch.sections.length }
+                );
+                return anamnesis;
+            } catch (error: any) {
+                if (!signal?.aborted) {
+                    proceduralMemoryService.recordStep(
+                        'patch_anamnesis',
+                        newTurnsTranscript.substring(Math.max(0, newTurnsTranscript.length - 200)),
+                        'failure',
+                        { error: error?.message || String(error) }
+                    );
+                }
+                throw error;
             }
-            // Record failure
-            proceduralMemoryService.recordStep(
-                'generate_anamnesis',
-                transcript.substring(Math.max(0, transcript.length - 200)),
-                'failure',
-                { error: errorMsg }
-            );
-        }
-    }
-
-    // Complete sequence as partial failure
-    proceduralMemoryService.completeSequence(false);
+        },
+        signal
+    );
 
-    return {
-        anamnesis: 'Falha ao atualizar a anamnese. Verifique suas chaves de API e a conexão.',
-        provider: null,
-    };
+    return outcome
+        ? { anamnesis: outcome.result, provider: outcome.provider }
+        : { anamnesis: null, provider: null };
 };
 
-
-export const generateDailySummary = async (dailyTranscripts: string[]): Promise<string> => {
+/**
+ * @param patientNames Known patient names of the day, masked along with the
+ * identifiers detected in the transcripts. The placeholders are not restored:
+ * the output feeds public posts and must not name patients.
+ */
+export const generateDailySummary = async (dailyTranscripts: string[], patientNames: string[] = []): Promise<string> => {
     if (dailyTranscripts.length === 0) {
         return "Nenhuma consulta hoje para analisar.";
     }
 
     const ai = getGeminiAI(); // Daily summary continues to use Gemini
-    const fullDayTranscript = dailyTranscripts.join('\n\n---\n\n');
+    const vault = new PhiVault();
+    patientNames.forEach(name => vault.addKnownName(name));
+    const fullDayTranscript = vault.mask(dailyTranscripts.join('\n\n---\n\n'));
 
     const prompt = `
 Você é um consultor de marketing de conteúdo para um profissional de saúde. Analise o conjunto de transcrições de consultas de hoje, que foram anonimizadas. Seu objetivo é identificar os temas e preocupações mais recorrentes entre os pacientes e, com base neles, sugerir 3 ideias de posts para redes sociais.
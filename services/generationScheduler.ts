@@ -0,0 +1,151 @@
+/**
+ * Generation Scheduler
+ * Coalesces the bursts of generation requests (insights, anamnesis) fired on
+ * every final transcript turn. Requests are debounced, superseded requests
+ * are cancelled, and each result is tagged with the transcript revision it
+ * was based on so that results arriving after a newer one are dropped.
+ */
+
+export interface GenerationRequest<T> {
+    revision: number; // Revisão da transcrição usada como base (ex.: número de turnos)
+    run: (signal: AbortSignal) => Promise<T>;
+    onResult: (result: T, revision: number) => void;
+    onError?: (error: unknown, revision: number) => void;
+}
+
+export interface GenerationSchedulerOptions {
+    debounceMs: number;
+    // Limite para que turnos contínuos não adiem a geração indefinidamente
+    maxWaitMs?: number;
+    // true: um pedido mais novo aborta o que está em andamento.
+    // false: o mais novo aguarda o atual terminar (evita que gerações longas nunca concluam).
+    abortInFlight: boolean;
+    onBusyChange?: (busy: boolean) => void;
+    onLog?: (message: string) => void;
+}
+
+export const isAbortError = (error: unknown): boolean => {
+    return (error as { name?: string } | null)?.name === 'AbortError';
+};
+
+export class GenerationScheduler<T> {
+    private pending: GenerationRequest<T> | null = null;
+    private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+    private firstPendingAt: number | null = null;
+    private inFlight: { request: GenerationRequest<T>; controller: AbortController } | null = null;
+    private lastAppliedRevision = -1;
+    private busy = false;
+
+    constructor(private readonly name: string, private readonly options: GenerationSchedulerOptions) {}
+
+    /**
+     * Queues a request, replacing any request still waiting for the debounce.
+     */
+    schedule(request: GenerationRequest<T>) {
+        if (request.revision < this.lastAppliedRevision) {
+            this.options.onLog?.(`[${this.name}] Pedido da revisão ${request.revision} ignorado (já aplicada a ${this.lastAppliedRevision}).`);
+            return;
+        }
+
+        if (this.pending) {
+            this.options.onLog?.(`[${this.name}] Pedido da revisão ${this.pending.revision} substituído pela revisão ${request.revision}.`);
+        }
+        this.pending = request;
+
+        if (this.firstPendingAt === null) this.firstPendingAt = Date.now();
+        if (this.debounceTimer) clearTimeout(this.debounceTimer);
+
+        const { debounceMs, maxWaitMs } = this.options;
+        const delay = maxWaitMs !== undefined
+            ? Math.max(0, Math.min(debounceMs, maxWaitMs - (Date.now() - this.firstPendingAt)))
+            : debounceMs;
+        this.debounceTimer = setTimeout(() => this.flush(), delay);
+        this.updateBusy();
+    }
+
+    /**
+     * Starts the pending request now, skipping the remaining debounce.
+     */
+    flush() {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        this.firstPendingAt = null;
+
+        const request = this.pending;
+        if (!request) return;
+
+        if (this.inFlight) {
+            if (!this.options.abortInFlight) return; // Inicia quando o atual terminar
+            this.options.onLog?.(`[${this.name}] Cancelando revisão ${this.inFlight.request.revision}, superada pela ${request.revision}.`);
+            this.inFlight.controller.abort();
+            this.inFlight = null;
+        }
+
+        this.pending = null;
+        this.start(request);
+    }
+
+    /**
+     * Drops the pending request and aborts the one in flight.
+     */
+    cancel() {
+        if (this.debounceTimer) {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = null;
+        }
+        this.firstPendingAt = null;
+        this.pending = null;
+        this.inFlight?.controller.abort();
+        this.inFlight = null;
+        this.updateBusy();
+    }
+
+    // Cancela tudo e esquece a última revisão aplicada (nova sessão)
+    reset() {
+        this.cancel();
+        this.lastAppliedRevision = -1;
+    }
+
+    isBusy(): boolean {
+        return this.pending !== null || this.inFlight !== null;
+    }
+
+    private start(request: GenerationRequest<T>) {
+        const controller = new AbortController();
+        this.inFlight = { request, controller };
+        this.updateBusy();
+
+        request.run(controller.signal)
+            .then(result => {
+                if (controller.signal.aborted) return;
+                if (request.revision < this.lastAppliedRevision) {
+                    this.options.onLog?.(`[${this.name}] Resultado obsoleto da revisão ${request.revision} descartado.`);
+                    return;
+                }
+                this.lastAppliedRevision = request.revision;
+                request.onResult(result, request.revision);
+            })
+            .catch(error => {
+                if (controller.signal.aborted || isAbortError(error)) return;
+                request.onError?.(error, request.revision);
+            })
+            .finally(() => {
+                if (this.inFlight?.controller === controller) {
+                    this.inFlight = null;
+                    // Pedido que aguardava o término do atual e cujo debounce já expirou
+                    if (this.pending && !this.debounceTimer) this.flush();
+                }
+                this.updateBusy();
+            });
+    }
+
+    private updateBusy() {
+        const busy = this.isBusy();
+        if (busy !== this.busy) {
+            this.busy = busy;
+            this.options.onBusyChange?.(busy);
+        }
+    }
+}
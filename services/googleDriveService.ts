@@ -1,3 +1,5 @@
+import type { ExportFormat } from "./documentExportService";
+
 // Fix: Add google and gapi type declarations to fix TypeScript errors.
 // Fix: Combined `declare namespace google` and `declare global` into a single `declare global` block.
 // This makes the `google` namespace available globally, resolving TypeScript errors in other files.
@@ -7,17 +9,20 @@ declare global {
             namespace oauth2 {
                 interface TokenResponse {
                     access_token: string;
+                    expires_in?: number | string; // Seconds
                     error?: string;
                     error_description?: string;
                 }
                 interface TokenClient {
-                    requestAccessToken: () => void;
+                    requestAccessToken: (overrideConfig?: { prompt?: string; login_hint?: string }) => void;
                 }
                 interface TokenClientConfig {
                      client_id: string;
                     scope: string;
                     callback: (tokenResponse: TokenResponse) => void;
+                    error_callback?: (error: { type: string; message?: string }) => void;
                     login_hint?: string;
+                    prompt?: string;
                 }
                 function initTokenClient(config: TokenClientConfig): TokenClient;
                 function revoke(token: string, callback: () => void): void;
@@ -82,7 +87,6 @@ declare global {
     }
 }
 
-
 // Fix: Moved GDrive interfaces to this file to be co-located with the service logic.
 export interface GDriveFolder {
     id: string;
@@ -101,8 +105,12 @@ export interface GDriveSettings {
     folder: GDriveFolder | null;
     user: GDriveUser | null;
     token: google.accounts.oauth2.TokenResponse | null;
+    formats?: ExportFormat[]; // Formatos enviados ao final de cada sessão (padrão: txt)
+    subfolderMode?: DriveSubfolderMode; // Organização dentro da pasta escolhida (padrão: none)
 }
 
+export type DriveSubfolderMode = 'none' | 'patient' | 'date';
+
 // This service handles all interactions with the Google Drive API.
 // It uses the new Google Identity Services (GIS) for authentication and gapi for API calls.
 
@@ -171,6 +179,41 @@ export const initTokenClient = (
 };
 
 
+// Waits for the Google Identity Services script, which is loaded asynchronously.
+const loadGis = () => new Promise<void>((resolve, reject) => {
+    let attempts = 0;
+    const check = () => {
+        if (typeof google !== 'undefined' && google.accounts?.oauth2) {
+            resolve();
+        } else if (++attempts >= 100) {
+            reject(new Error('Google Identity Services failed to load within the timeout period.'));
+        } else {
+            setTimeout(check, 100);
+        }
+    };
+    check();
+});
+
+// Requests an access token with its own token client, so it does not replace the
+// callback used by the settings screen. An empty prompt reuses the consent already
+// granted, without showing the consent screen; it fails when consent is required.
+export const requestAccessToken = async (clientId: string, loginHint: string | undefined, interactive: boolean): Promise<google.accounts.oauth2.TokenResponse> => {
+    await loadGis();
+    return new Promise((resolve, reject) => {
+        const client = google.accounts.oauth2.initTokenClient({
+            client_id: clientId,
+            scope: DRIVE_SCOPES,
+            ...(loginHint && { login_hint: loginHint }),
+            callback: (response) => {
+                if (response.error) reject(new Error(response.error_description || response.error));
+                else resolve(response);
+            },
+            error_callback: (error) => reject(new Error(error.message || error.type)),
+        });
+        client.requestAccessToken(interactive ? {} : { prompt: '' });
+    });
+};
+
 // Prompts the user to grant access.
 export const requestToken = () => {
     if (tokenClient) {
@@ -231,30 +274,82 @@ export const showFolderPicker = async (token: string): Promise<{id: string, name
     });
 };
 
-// Uploads a text file to a specified folder in Google Drive.
-export const uploadFile = async (token: string, folderId: string, fileName: string, content: string) => {
-    await loadGapi();
-    
-    await window.gapi.client.setToken({ access_token: token });
+const DRIVE_FILES_URL = 'https://www.googleapis.com/drive/v3/files';
+const DRIVE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
 
-    const metadata = {
-        name: fileName,
-        mimeType: 'text/plain',
-        parents: [folderId]
-    };
+// Keeps the HTTP status so callers can tell an expired token (401) from other failures.
+export class GoogleDriveError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'GoogleDriveError';
+    }
+}
 
-    const response = await window.gapi.client.drive.files.create({
-        resource: metadata,
-        media: {
-            mimeType: 'text/plain',
-            body: content
-        },
-        fields: 'id'
+const driveFetch = async (url: string, token: string, init: RequestInit = {}): Promise<Response> => {
+    const response = await fetch(url, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${token}` },
     });
-    
-    if (response.status !== 200) {
-        throw new Error(`Google Drive API error: ${response.result.error.message}`);
+    if (!response.ok) {
+        const result = await response.json().catch(() => null);
+        throw new GoogleDriveError(`Google Drive API error: ${result?.error?.message || response.statusText}`, response.status);
+    }
+    return response;
+};
+
+const driveRequest = async <T>(url: string, token: string, init: RequestInit = {}): Promise<T> =>
+    (await driveFetch(url, token, init)).json() as Promise<T>;
+
+// Returns the id of the named subfolder, creating it when it does not exist yet.
+export const findOrCreateFolder = async (token: string, parentId: string, name: string): Promise<string> => {
+    const escapedName = name.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+    const query = `name = '${escapedName}' and '${parentId}' in parents and mimeType = '${FOLDER_MIME_TYPE}' and trashed = false`;
+    const found = await driveRequest<{ files: { id: string }[] }>(
+        `${DRIVE_FILES_URL}?q=${encodeURIComponent(query)}&fields=files(id)&pageSize=1`, token);
+    if (found.files.length > 0) return found.files[0].id;
+
+    const created = await driveRequest<{ id: string }>(`${DRIVE_FILES_URL}?fields=id`, token, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, mimeType: FOLDER_MIME_TYPE, parents: [parentId] }),
+    });
+    return created.id;
+};
+
+// Uploads a file to a folder in Google Drive, or replaces the content of `fileId` when given.
+// Multipart upload via fetch: the gapi client only sends text bodies, which would corrupt PDF/DOCX files.
+export const uploadFile = async (token: string, folderId: string, fileName: string, content: string | Blob, mimeType = 'text/plain', fileId?: string) => {
+    const metadata = fileId
+        ? { name: fileName, mimeType }
+        : { name: fileName, mimeType, parents: [folderId] };
+
+    const body = new FormData();
+    body.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+    body.append('file', typeof content === 'string' ? new Blob([content], { type: mimeType }) : content);
+
+    if (fileId) {
+        try {
+            return await driveRequest<{ id: string }>(`${DRIVE_UPLOAD_URL}/${fileId}?uploadType=multipart&fields=id`, token, { method: 'PATCH', body });
+        } catch (error) {
+            // The file was deleted in Drive: upload it again as a new file.
+            if (!(error instanceof GoogleDriveError && error.status === 404)) throw error;
+            return uploadFile(token, folderId, fileName, content, mimeType);
+        }
+    }
+
+    return driveRequest<{ id: string }>(`${DRIVE_UPLOAD_URL}?uploadType=multipart&fields=id`, token, { method: 'POST', body });
+};
+
+// Downloads the content of a file (e.g. an archived consult recording).
+export const downloadFile = async (token: string, fileId: string): Promise<Blob> =>
+    (await driveFetch(`${DRIVE_FILES_URL}/${fileId}?alt=media`, token)).blob();
+
+// Deletes a file permanently; files already removed in Drive are ignored.
+export const deleteFile = async (token: string, fileId: string) => {
+    try {
+        await driveFetch(`${DRIVE_FILES_URL}/${fileId}`, token, { method: 'DELETE' });
+    } catch (error) {
+        if (!(error instanceof GoogleDriveError && error.status === 404)) throw error;
     }
-    
-    return response.result;
 };
\ No newline at end of file
@@ -0,0 +1,110 @@
+/**
+ * Live Caption Track
+ * Runs the browser's Web Speech recognition next to the main transcription
+ * engine as a zero-cost, low-latency provisional caption layer. Captions are
+ * dropped once the main engine delivers turns covering the same time window.
+ */
+
+import { WebSpeechService } from "./webSpeechService";
+import { TranscriptTurn } from "../utils/transcriptUtils";
+
+// Tempos em ms relativos ao início da sessão, como nos turnos
+export interface CaptionSegment {
+    id: number;
+    text: string;
+    startMs: number;
+    endMs: number;
+    isFinal: boolean;
+}
+
+export interface LiveCaptionCallbacks {
+    onChange: (captions: CaptionSegment[]) => void;
+    onLog: (message: string) => void;
+}
+
+// Erros que encerram a trilha de legendas (a transcrição principal continua)
+const FATAL_CAPTION_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'recreate-failed'];
+
+/**
+ * Keeps only the captions not yet covered by transcribed turns. A caption is
+ * covered when its midpoint falls before the end of the latest turn; the
+ * caption still being spoken is always kept.
+ */
+export const reconcileCaptions = (captions: CaptionSegment[], turns: TranscriptTurn[]): CaptionSegment[] => {
+    if (turns.length === 0) return captions;
+    const coveredUntilMs = Math.max(...turns.map(turn => turn.endMs));
+    return captions.filter(caption => !caption.isFinal || (caption.startMs + caption.endMs) / 2 > coveredUntilMs);
+};
+
+export class LiveCaptionTrack {
+    private service: WebSpeechService | null = null;
+    private captions: CaptionSegment[] = [];
+    private current: CaptionSegment | null = null;
+    private nextId = 0;
+
+    constructor(
+        private readonly sessionStartMs: number,
+        private readonly language: string,
+        private readonly callbacks: LiveCaptionCallbacks
+    ) {}
+
+    static isSupported(): boolean {
+        return Boolean((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition);
+    }
+
+    start() {
+        if (this.service) return;
+        if (!LiveCaptionTrack.isSupported()) {
+            this.callbacks.onLog('Legendas provisórias indisponíveis: Web Speech API não suportada neste navegador.');
+            return;
+        }
+
+        this.service = new WebSpeechService({
+            onResult: (text, isFinal) => this.handleResult(text, isFinal),
+            onError: (error, message) => {
+                this.callbacks.onLog(`[Legendas] ${message}`);
+                if (FATAL_CAPTION_ERRORS.includes(error)) {
+                    this.callbacks.onLog('Legendas provisórias desativadas nesta sessão.');
+                    this.stop();
+                }
+            },
+        }, { lang: this.language });
+        this.service.start();
+        this.callbacks.onLog('Legendas provisórias (Web Speech) iniciadas.');
+    }
+
+    stop() {
+        this.service?.abort();
+        this.service = null;
+        this.captions = [];
+        this.current = null;
+        this.emit();
+    }
+
+    // Remove as legendas substituídas pelos turnos recém-transcritos
+    reconcile(turns: TranscriptTurn[]) {
+        const remaining = reconcileCaptions(this.captions, turns);
+        if (remaining.length !== this.captions.length) {
+            this.captions = remaining;
+            this.emit();
+        }
+    }
+
+    private handleResult(text: string, isFinal: boolean) {
+        const nowMs = Date.now() - this.sessionStartMs;
+        if (!this.current) {
+            this.current = { id: this.nextId++, text: '', startMs: nowMs, endMs: nowMs, isFinal: false };
+        }
+        this.current = { ...this.current, text: text.trim(), endMs: nowMs, isFinal };
+
+        if (isFinal) {
+            if (this.current.text) this.captions = [...this.captions, this.current];
+            this.current = null;
+        }
+        this.emit();
+    }
+
+    private emit() {
+        this.callbacks.onChange(this.current?.text ? [...this.captions, this.current] : this.captions);
+    }
+}
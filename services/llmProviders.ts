@@ -0,0 +1,468 @@
+/**
+ * LLM Providers
+ * Provider interface and registry used by insight and anamnesis generation.
+ * Adding a provider means registering it here; the failover logic iterates
+ * the registry and never references a specific provider.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { tokenTracker, TokenUsage } from "./tokenTracker";
+
+export type LLMProviderId = string;
+
+// Campos extras de configuração exibidos em Configurações → APIs
+export type ProviderOptionField = 'baseUrl' | 'model' | 'apiVersion';
+
+export interface ProviderOptions {
+    baseUrl?: string;
+    model?: string;
+    apiVersion?: string;
+}
+
+export interface ProviderConfig extends ProviderOptions {
+    apiKey: string;
+}
+
+export interface ProviderCredentials {
+    apiKeys: Record<LLMProviderId, string>;
+    options: Record<LLMProviderId, ProviderOptions>;
+}
+
+export interface TextGenerationRequest {
+    prompt: string;
+    temperature: number;
+    maxTokens: number;
+    json?: boolean; // Pede resposta em JSON quando o provedor suporta
+    signal?: AbortSignal;
+}
+
+export interface TextGenerationResult {
+    text: string;
+    usage: TokenUsage;
+}
+
+export interface LLMProvider {
+    id: LLMProviderId;
+    name: string;
+    defaultModel: string;
+    requiresApiKey: boolean;
+    optionFields: ProviderOptionField[];
+    // Roda na rede da clínica; quando preferido, o texto nunca é enviado à nuvem
+    isLocal?: boolean;
+    generateText(config: ProviderConfig, request: TextGenerationRequest): Promise<TextGenerationResult>;
+    validateKey(config: ProviderConfig): Promise<boolean>;
+    listModels(config: ProviderConfig): Promise<string[]>;
+    // Chave usada quando o usuário não informou uma (ex.: variável de ambiente)
+    defaultApiKey?: () => string | undefined;
+    // Preço aproximado do modelo padrão, em USD por milhão de tokens
+    pricing?: ProviderPricing;
+}
+
+export interface ProviderPricing {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export const getGeminiAI = (apiKey?: string) => {
+    const finalApiKey = apiKey || import.meta.env.VITE_GEMINI_API_KEY as string | undefined;
+    if (!finalApiKey) {
+        throw new Error("API Key for Gemini not found. Configure VITE_GEMINI_API_KEY no arquivo .env.local");
+    }
+    return new GoogleGenAI({ apiKey: finalApiKey });
+};
+
+// Uso informado pelas APIs compatíveis com OpenAI; estima quando ausente
+const usageFromChatCompletion = (data: any, prompt: string, text: string): TokenUsage => {
+    if (data.usage) {
+        return {
+            promptTokens: data.usage.prompt_tokens || 0,
+            completionTokens: data.usage.completion_tokens || 0,
+            totalTokens: data.usage.total_tokens || 0,
+        };
+    }
+    const promptTokens = tokenTracker.estimateTokens(prompt);
+    const completionTokens = tokenTracker.estimateTokens(text);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+};
+
+const readErrorMessage = async (response: Response): Promise<string> => {
+    const errorData = await response.json().catch(() => ({}));
+    return errorData?.error?.message || response.statusText;
+};
+
+interface OpenAICompatibleProviderDefinition {
+    id: LLMProviderId;
+    name: string;
+    baseUrl: string;
+    defaultModel: string;
+    requiresApiKey?: boolean;
+    optionFields?: ProviderOptionField[];
+    isLocal?: boolean;
+    supportsJsonMode?: boolean;
+    pricing?: ProviderPricing;
+}
+
+/**
+ * Factory for providers speaking the OpenAI chat-completions protocol
+ * (OpenAI, xAI, Ollama, llama.cpp, vLLM...). `config.baseUrl` overrides the
+ * definition's base URL when present.
+ */
+export const createOpenAICompatibleProvider = (definition: OpenAICompatibleProviderDefinition): LLMProvider => {
+    const requiresApiKey = definition.requiresApiKey ?? true;
+    const baseUrlFor = (config: ProviderConfig) => (config.baseUrl || definition.baseUrl).replace(/\/+$/, '');
+    const headersFor = (config: ProviderConfig): Record<string, string> => (
+        config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}
+    );
+
+    const fetchModels = async (config: ProviderConfig): Promise<Response> => {
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrlFor(config)}/models`, {
+                method: 'GET',
+                headers: headersFor(config),
+            });
+        } catch (error) {
+            // fetch só rejeita em falha de rede (servidor fora do ar, CORS, URL inválida)
+            throw new Error(`Não foi possível conectar a ${baseUrlFor(config)}. Verifique se o servidor está em execução e aceita requisições do navegador (CORS).`);
+        }
+        if (response.status === 401) {
+            throw new Error("Chave de API inválida ou expirada.");
+        }
+        if (!response.ok) {
+            throw new Error(`A API retornou um erro: ${await readErrorMessage(response)}`);
+        }
+        return response;
+    };
+
+    return {
+        id: definition.id,
+        name: definition.name,
+        defaultModel: definition.defaultModel,
+        requiresApiKey,
+        optionFields: definition.optionFields ?? [],
+        isLocal: definition.isLocal,
+        pricing: definition.pricing,
+
+        async generateText(config, request) {
+            const response = await fetch(`${baseUrlFor(config)}/chat/completions`, {
+                method: 'POST',
+                signal: request.signal,
+                headers: { 'Content-Type': 'application/json', ...headersFor(config) },
+                body: JSON.stringify({
+                    model: config.model || definition.defaultModel,
+                    messages: [{ role: "user", content: request.prompt }],
+                    max_tokens: request.maxTokens,
+                    temperature: request.temperature,
+                    ...(request.json && definition.supportsJsonMode !== false ? { response_format: { type: 'json_object' } } : {}),
+                })
+            });
+            if (!response.ok) {
+                throw new Error(`${definition.name} API error: ${await readErrorMessage(response)}`);
+            }
+            const data = await response.json();
+            const text = (data.choices?.[0]?.message?.content || '').trim();
+            return { text, usage: usageFromChatCompletion(data, request.prompt, text) };
+        },
+
+        async validateKey(config) {
+            try {
+                await fetchModels(config);
+                return true;
+            } catch (error: any) {
+                console.error(`${definition.name} API key validation failed:`, error);
+                throw error;
+            }
+        },
+
+        async listModels(config) {
+            const data = await (await fetchModels(config)).json();
+            return (data.data || []).map((model: { id: string }) => model.id);
+        },
+    };
+};
+
+const geminiProvider: LLMProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    defaultModel: 'gemini-2.0-flash-exp',
+    requiresApiKey: true,
+    optionFields: [],
+    defaultApiKey: () => import.meta.env.VITE_GEMINI_API_KEY as string | undefined,
+    pricing: { inputPerMillion: 0.10, outputPerMillion: 0.40 },
+
+    async generateText(config, request) {
+        const ai = getGeminiAI(config.apiKey);
+        const response = await ai.models.generateContent({
+            model: config.model || this.defaultModel,
+            contents: request.prompt,
+            config: {
+                abortSignal: request.signal,
+                temperature: request.temperature,
+                maxOutputTokens: request.maxTokens,
+                ...(request.json ? { responseMimeType: 'application/json' } : {}),
+            },
+        });
+        return { text: (response.text || '').trim(), usage: tokenTracker.extractTokensFromResponse(response) };
+    },
+
+    async validateKey(config) {
+        await this.listModels(config);
+        return true;
+    },
+
+    async listModels(config) {
+        const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(config.apiKey)}`);
+        if (response.status === 400 || response.status === 403) {
+            throw new Error("Chave de API inválida ou sem permissão.");
+        }
+        if (!response.ok) {
+            throw new Error(`A API retornou um erro: ${await readErrorMessage(response)}`);
+        }
+        const data = await response.json();
+        return (data.models || []).map((model: { name: string }) => model.name.replace(/^models\//, ''));
+    },
+};
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+const anthropicProvider: LLMProvider = {
+    id: 'anthropic',
+    name: 'Anthropic',
+    defaultModel: 'claude-3-5-haiku-latest',
+    requiresApiKey: true,
+    optionFields: ['model'],
+    pricing: { inputPerMillion: 0.80, outputPerMillion: 4.00 },
+
+    async generateText(config, request) {
+        const response = await fetch('https://api.anthropic.com/v1/messages', {
+            method: 'POST',
+            signal: request.signal,
+            headers: {
+                'Content-Type': 'application/json',
+                'x-api-key': config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                // Necessário para chamadas diretas do navegador
+                'anthropic-dangerous-direct-browser-access': 'true',
+            },
+            body: JSON.stringify({
+                model: config.model || this.defaultModel,
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+                messages: [{ role: 'user', content: request.prompt }],
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`Anthropic API error: ${await readErrorMessage(response)}`);
+        }
+        const data = await response.json();
+        const text = (data.content || [])
+            .filter((block: { type: string }) => block.type === 'text')
+            .map((block: { text: string }) => block.text)
+            .join('')
+            .trim();
+        const promptTokens = data.usage?.input_tokens || 0;
+        const completionTokens = data.usage?.output_tokens || 0;
+        return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } };
+    },
+
+    async validateKey(config) {
+        await this.listModels(config);
+        return true;
+    },
+
+    async listModels(config) {
+        const response = await fetch('https://api.anthropic.com/v1/models', {
+            method: 'GET',
+            headers: {
+                'x-api-key': config.apiKey,
+                'anthropic-version': ANTHROPIC_VERSION,
+                'anthropic-dangerous-direct-browser-access': 'true',
+            },
+        });
+        if (response.status === 401) {
+            throw new Error("Chave de API inválida ou expirada.");
+        }
+        if (!response.ok) {
+            throw new Error(`A API retornou um erro: ${await readErrorMessage(response)}`);
+        }
+        const data = await response.json();
+        return (data.data || []).map((model: { id: string }) => model.id);
+    },
+};
+
+const AZURE_DEFAULT_API_VERSION = '2024-06-01';
+
+// baseUrl = endpoint do recurso (https://<recurso>.openai.azure.com), model = nome da implantação
+const azureOpenAIProvider: LLMProvider = {
+    id: 'azure-openai',
+    name: 'Azure OpenAI',
+    defaultModel: '',
+    requiresApiKey: true,
+    optionFields: ['baseUrl', 'model', 'apiVersion'],
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+
+    async generateText(config, request) {
+        if (!config.baseUrl || !config.model) {
+            throw new Error('Azure OpenAI requer o endpoint e o nome da implantação.');
+        }
+        const endpoint = config.baseUrl.replace(/\/+$/, '');
+        const apiVersion = config.apiVersion || AZURE_DEFAULT_API_VERSION;
+        const response = await fetch(`${endpoint}/openai/deployments/${encodeURIComponent(config.model)}/chat/completions?api-version=${apiVersion}`, {
+            method: 'POST',
+            signal: request.signal,
+            headers: { 'Content-Type': 'application/json', 'api-key': config.apiKey },
+            body: JSON.stringify({
+                messages: [{ role: 'user', content: request.prompt }],
+                max_tokens: request.maxTokens,
+                temperature: request.temperature,
+                ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(`Azure OpenAI API error: ${await readErrorMessage(response)}`);
+        }
+        const data = await response.json();
+        const text = (data.choices?.[0]?.message?.content || '').trim();
+        return { text, usage: usageFromChatCompletion(data, request.prompt, text) };
+    },
+
+    async validateKey(config) {
+        await this.listModels(config);
+        return true;
+    },
+
+    async listModels(config) {
+        if (!config.baseUrl) {
+            throw new Error('Informe o endpoint do recurso Azure OpenAI.');
+        }
+        const endpoint = config.baseUrl.replace(/\/+$/, '');
+        const response = await fetch(`${endpoint}/openai/models?api-version=${config.apiVersion || AZURE_DEFAULT_API_VERSION}`, {
+            method: 'GET',
+            headers: { 'api-key': config.apiKey },
+        });
+        if (response.status === 401) {
+            throw new Error("Chave de API inválida ou expirada.");
+        }
+        if (!response.ok) {
+            throw new Error(`A API retornou um erro: ${await readErrorMessage(response)}`);
+        }
+        const data = await response.json();
+        return (data.data || []).map((model: { id: string }) => model.id);
+    },
+};
+
+class LLMProviderRegistry {
+    private providers = new Map<LLMProviderId, LLMProvider>();
+
+    register(provider: LLMProvider) {
+        this.providers.set(provider.id, provider);
+    }
+
+    get(id: LLMProviderId): LLMProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    // Em ordem de registro, que também é a ordem de failover
+    list(): LLMProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    /**
+     * Builds the config for a provider, or null when it is not configured:
+     * a required key is missing, or a local endpoint was never set up.
+     */
+    resolveConfig(provider: LLMProvider, credentials: ProviderCredentials): ProviderConfig | null {
+        const apiKey = credentials.apiKeys[provider.id] || provider.defaultApiKey?.() || '';
+        if (provider.requiresApiKey && !apiKey) return null;
+        const options = credentials.options[provider.id];
+        if (provider.isLocal && !options?.baseUrl) return null;
+        return { ...options, apiKey };
+    }
+}
+
+export const llmProviderRegistry = new LLMProviderRegistry();
+
+llmProviderRegistry.register(geminiProvider);
+llmProviderRegistry.register(createOpenAICompatibleProvider({
+    id: 'openai',
+    name: 'OpenAI',
+    baseUrl: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.60 },
+}));
+llmProviderRegistry.register(createOpenAICompatibleProvider({
+    id: 'grok',
+    name: 'Grok (xAI)',
+    baseUrl: 'https://api.x.ai/v1',
+    defaultModel: 'grok-1',
+    pricing: { inputPerMillion: 2.00, outputPerMillion: 10.00 },
+}));
+llmProviderRegistry.register(anthropicProvider);
+llmProviderRegistry.register(azureOpenAIProvider);
+llmProviderRegistry.register(createOpenAICompatibleProvider({
+    id: 'local',
+    name: 'Local (Ollama/llama.cpp)',
+    baseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    requiresApiKey: false,
+    optionFields: ['baseUrl', 'model'],
+    isLocal: true,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+}));
+
+export const LOCAL_PROVIDER_ID: LLMProviderId = 'local';
+
+/**
+ * Rough cost of the recorded usage, priced with each provider's default model.
+ */
+export const estimateCostUsd = (byProvider: Record<LLMProviderId, TokenUsage>): number => {
+    return Object.entries(byProvider).reduce((total, [id, usage]) => {
+        const pricing = llmProviderRegistry.get(id)?.pricing;
+        if (!pricing) return total;
+        return total
+            + usage.promptTokens / 1_000_000 * pricing.inputPerMillion
+            + usage.completionTokens / 1_000_000 * pricing.outputPerMillion;
+    }, 0);
+};
+
+/**
+ * Runs `attempt` against the preferred provider first and then every other
+ * registered provider with credentials, returning the first success.
+ * When the preferred provider is local, only local providers are tried so
+ * that consultation text never leaves the clinic network.
+ * An aborted signal stops the failover instead of trying the next provider.
+ */
+export const runWithProviderFailover = async <T>(
+    task: string,
+    preferredProvider: LLMProviderId,
+    credentials: ProviderCredentials,
+    attempt: (provider: LLMProvider, config: ProviderConfig) => Promise<T>,
+    signal?: AbortSignal
+): Promise<{ result: T; provider: LLMProviderId } | null> => {
+    const preferred = llmProviderRegistry.get(preferredProvider);
+    const registered = llmProviderRegistry.list().filter(p => !preferred?.isLocal || p.isLocal);
+    const orderedProviders = [
+        ...registered.filter(p => p.id === preferredProvider),
+        ...registered.filter(p => p.id !== preferredProvider),
+    ];
+
+    for (const provider of orderedProviders) {
+        const config = llmProviderRegistry.resolveConfig(provider, credentials);
+        if (!config) {
+            console.warn(`API key for ${provider.id} is missing. Skipping for ${task}.`);
+            continue;
+        }
+
+        try {
+            const result = await attempt(provider, config);
+            console.log(`Successfully completed ${task} with ${provider.id}`);
+            return { result, provider: provider.id };
+        } catch (error: any) {
+            // Cancelado pelo agendador: não tenta o próximo provedor
+            if (signal?.aborted) throw error;
+            console.error(`Failed ${task} with ${provider.id}:`, error?.message || String(error));
+        }
+    }
+
+    return null;
+};
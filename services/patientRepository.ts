@@ -0,0 +1,276 @@
+/**
+ * Patient Repository
+ * Patient records shared by all sessions of the same person. The list is
+ * cached in localStorage per owner and mirrored to Firestore when the user
+ * is signed in; writes made offline stay pending and are pushed later.
+ * Concurrent edits are resolved by the most recent `updatedAt`.
+ */
+
+import { createSessionId } from "./sessionBackupService";
+import { GUEST_OWNER_ID } from "./sessionRepository";
+import * as firebaseService from "./firebaseService";
+
+export type PatientIdentifierSystem = 'cpf' | 'cns' | 'rg' | 'prontuario' | 'other';
+
+export interface PatientIdentifier {
+    system: PatientIdentifierSystem;
+    value: string;
+}
+
+export interface Patient {
+    id: string;
+    name: string;
+    birthDate: string | null; // AAAA-MM-DD
+    identifiers: PatientIdentifier[];
+    allergies: string[];
+    chronicMedications: string[];
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface PatientRepositoryListener {
+    onPatientsChange: (patients: Patient[]) => void;
+    onLog?: (message: string) => void;
+}
+
+type PendingOp = { id: string; op: 'upsert' | 'delete'; queuedAt: number };
+
+const PATIENTS_PREFIX = 'patients:';
+const PENDING_PREFIX = 'patients_pending:';
+const SYNC_RETRY_MS = 30000;
+
+export const PATIENT_IDENTIFIER_LABELS: Record<PatientIdentifierSystem, string> = {
+    cpf: 'CPF',
+    cns: 'Cartão SUS',
+    rg: 'RG',
+    prontuario: 'Prontuário',
+    other: 'Outro',
+};
+
+// Compara nomes sem acentos, maiúsculas ou espaços extras
+export const normalizePatientName = (name: string) =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const createPatient = (name: string): Patient => {
+    const now = new Date();
+    return {
+        id: createSessionId(),
+        name: name.trim(),
+        birthDate: null,
+        identifiers: [],
+        allergies: [],
+        chronicMedications: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+const revivePatient = (raw: any): Patient => ({
+    ...raw,
+    identifiers: raw.identifiers ?? [],
+    allergies: raw.allergies ?? [],
+    chronicMedications: raw.chronicMedications ?? [],
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+});
+
+const byName = (a: Patient, b: Patient) => a.name.localeCompare(b.name, 'pt-BR');
+
+class PatientRepository {
+    private ownerId: string = GUEST_OWNER_ID;
+    private uid: string | null = null;
+    private patients: Patient[] = [];
+    private listeners = new Set<PatientRepositoryListener>();
+    private isSyncing = false;
+    private resyncRequested = false;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.sync());
+        }
+    }
+
+    subscribe(listener: PatientRepositoryListener): () => void {
+        this.listeners.add(listener);
+        listener.onPatientsChange(this.patients);
+        return () => this.listeners.delete(listener);
+    }
+
+    async setOwner(uid: string | null) {
+        this.uid = uid;
+        this.ownerId = uid ?? GUEST_OWNER_ID;
+        this.patients = this.readLocal(this.ownerId);
+        this.emit();
+        if (uid) {
+            this.adoptGuestPatients(uid);
+            await this.refreshFromRemote();
+            await this.sync();
+        }
+    }
+
+    list(): Patient[] {
+        return this.patients;
+    }
+
+    get(patientId: string): Patient | undefined {
+        return this.patients.find(patient => patient.id === patientId);
+    }
+
+    findByName(name: string): Patient | undefined {
+        const normalized = normalizePatientName(name);
+        return this.patients.find(patient => normalizePatientName(patient.name) === normalized);
+    }
+
+    async save(patient: Patient): Promise<Patient> {
+        const saved: Patient = { ...patient, name: patient.name.trim(), updatedAt: new Date() };
+        this.patients = [...this.patients.filter(p => p.id !== saved.id), saved].sort(byName);
+        this.commit(saved.id, 'upsert');
+        return saved;
+    }
+
+    async delete(patientId: string) {
+        this.patients = this.patients.filter(patient => patient.id !== patientId);
+        this.commit(patientId, 'delete');
+    }
+
+    // Reenvia todos os pacientes (ex.: após rotação da chave de criptografia)
+    async resyncAll() {
+        if (!this.uid) return;
+        this.patients.forEach(patient => this.addPending(this.ownerId, patient.id, 'upsert'));
+        await this.sync();
+    }
+
+    async sync() {
+        const uid = this.uid;
+        if (this.isSyncing) {
+            // Alterações feitas durante o envio entram numa nova rodada
+            this.resyncRequested = true;
+            return;
+        }
+        if (!uid || !navigator.onLine) return;
+        this.isSyncing = true;
+        this.resyncRequested = false;
+        try {
+            for (const entry of this.readPending(uid)) {
+                if (this.uid !== uid) break;
+                if (entry.op === 'delete') {
+                    await firebaseService.deletePatient(uid, entry.id);
+                } else {
+                    const patient = this.readLocal(uid).find(p => p.id === entry.id);
+                    if (patient) await firebaseService.savePatient(uid, patient);
+                }
+                this.removePending(uid, entry);
+            }
+        } catch (error: any) {
+            this.log(`Sincronização de pacientes adiada: ${error.message || error}`);
+            this.scheduleRetry();
+        } finally {
+            this.isSyncing = false;
+            if (this.resyncRequested && !this.retryTimer) this.sync();
+        }
+    }
+
+    private commit(patientId: string, op: PendingOp['op']) {
+        this.writeLocal(this.ownerId, this.patients);
+        // Convidados não sincronizam: não há fila
+        if (this.ownerId !== GUEST_OWNER_ID) this.addPending(this.ownerId, patientId, op);
+        this.emit();
+        this.sync();
+    }
+
+    // Pacientes criados no modo convidado passam para o usuário que fez login
+    private adoptGuestPatients(uid: string) {
+        const guestPatients = this.readLocal(GUEST_OWNER_ID);
+        if (guestPatients.length === 0) return;
+        const adopted = guestPatients.filter(guest => !this.patients.some(patient => patient.id === guest.id));
+        this.patients = [...this.patients, ...adopted].sort(byName);
+        this.writeLocal(uid, this.patients);
+        adopted.forEach(patient => this.addPending(uid, patient.id, 'upsert'));
+        localStorage.removeItem(PATIENTS_PREFIX + GUEST_OWNER_ID);
+        this.log(`${adopted.length} paciente(s) do modo convidado associado(s) à sua conta.`);
+        this.emit();
+    }
+
+    private async refreshFromRemote() {
+        const uid = this.uid;
+        if (!uid || !navigator.onLine) return;
+        try {
+            const remotePatients = await firebaseService.fetchPatients(uid);
+            if (this.uid !== uid) return;
+            const pending = this.readPending(uid);
+            const pendingIds = new Set(pending.map(entry => entry.id));
+            const pendingDeletes = new Set(pending.filter(entry => entry.op === 'delete').map(entry => entry.id));
+            const merged = new Map<string, Patient>();
+            // Pacientes sem alteração pendente e ausentes no servidor foram apagados em outro dispositivo
+            this.patients.filter(patient => pendingIds.has(patient.id)).forEach(patient => merged.set(patient.id, patient));
+            for (const remote of remotePatients) {
+                if (pendingDeletes.has(remote.id)) continue;
+                const local = merged.get(remote.id);
+                if (!local || remote.updatedAt.getTime() > local.updatedAt.getTime()) {
+                    merged.set(remote.id, remote);
+                }
+            }
+            this.patients = [...merged.values()].sort(byName);
+            this.writeLocal(uid, this.patients);
+            this.emit();
+        } catch (error: any) {
+            this.log(`Falha ao buscar pacientes do Firestore; usando cópia local: ${error.message || error}`);
+        }
+    }
+
+    private readLocal(ownerId: string): Patient[] {
+        try {
+            const raw = localStorage.getItem(PATIENTS_PREFIX + ownerId);
+            return raw ? (JSON.parse(raw) as any[]).map(revivePatient).sort(byName) : [];
+        } catch {
+            return [];
+        }
+    }
+
+    private writeLocal(ownerId: string, patients: Patient[]) {
+        try {
+            localStorage.setItem(PATIENTS_PREFIX + ownerId, JSON.stringify(patients));
+        } catch (error: any) {
+            this.log(`Falha ao salvar pacientes localmente: ${error.message || error}`);
+        }
+    }
+
+    // Uma única operação por paciente: a mais recente substitui as anteriores
+    private readPending(ownerId: string): PendingOp[] {
+        try {
+            return JSON.parse(localStorage.getItem(PENDING_PREFIX + ownerId) || '[]');
+        } catch {
+            return [];
+        }
+    }
+
+    private addPending(ownerId: string, patientId: string, op: PendingOp['op']) {
+        const pending = this.readPending(ownerId).filter(existing => existing.id !== patientId);
+        localStorage.setItem(PENDING_PREFIX + ownerId, JSON.stringify([...pending, { id: patientId, op, queuedAt: Date.now() }]));
+    }
+
+    // Só remove se não houve nova alteração do mesmo paciente durante o envio
+    private removePending(ownerId: string, entry: PendingOp) {
+        const pending = this.readPending(ownerId).filter(existing => !(existing.id === entry.id && existing.queuedAt === entry.queuedAt));
+        localStorage.setItem(PENDING_PREFIX + ownerId, JSON.stringify(pending));
+    }
+
+    private scheduleRetry() {
+        if (this.retryTimer) return;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.sync();
+        }, SYNC_RETRY_MS);
+    }
+
+    private emit() {
+        this.listeners.forEach(listener => listener.onPatientsChange(this.patients));
+    }
+
+    private log(message: string) {
+        this.listeners.forEach(listener => listener.onLog?.(message));
+    }
+}
+
+export const patientRepository = new PatientRepository();
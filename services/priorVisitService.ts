@@ -0,0 +1,118 @@
+/**
+ * Prior Visit Service
+ * Condenses the most recent saved anamneses of a returning patient into a
+ * short history (active medications, allergies, prior diagnoses and last
+ * complaint) that is added to anamnesis prompts, so the model can point out
+ * what changed since the last visit.
+ */
+
+import type { SessionData } from "../App";
+import { formatVitalSign, MedicationRow } from "./anamnesisSchema";
+import { Patient, patientRepository } from "./patientRepository";
+import { sessionRepository } from "./sessionRepository";
+
+const MAX_PRIOR_VISITS = 3;
+const MAX_SECTION_CHARS = 400;
+
+const DIAGNOSIS_SECTION_PATTERN = /diagn|hip[óo]tese|patologias pregressas|conduta/i;
+const COMPLAINT_SECTION_PATTERN = /queixa principal|motivo/i;
+
+export interface PriorVisitContext {
+    visitCount: number; // Consultas anteriores consideradas
+    lastVisitDate: Date;
+    activeMedications: string[];
+    allergies: string[];
+    priorDiagnoses: { date: Date; text: string }[];
+    lastComplaint: string | null;
+    lastVitals: string[];
+}
+
+const truncate = (text: string, max = MAX_SECTION_CHARS) =>
+    text.length > max ? `${text.slice(0, max).trimEnd()}…` : text;
+
+const isInformed = (text: string) => Boolean(text.trim()) && !/^n[ãa]o informad[oa]\.?$/i.test(text.trim());
+
+const formatMedication = (medication: MedicationRow) =>
+    [medication.name, medication.dose, medication.frequency].filter(Boolean).join(' ');
+
+const sectionText = (session: SessionData, pattern: RegExp): string | null => {
+    const parts = session.anamnesis.sections
+        .filter(section => pattern.test(section.title))
+        .flatMap(section => [section.content, ...section.fields.map(field => `${field.label}: ${field.value}`)])
+        .filter(isInformed);
+    return parts.length > 0 ? truncate(parts.join('; ')) : null;
+};
+
+const unique = (values: string[]) => {
+    const seen = new Set<string>();
+    return values.filter(value => {
+        const key = value.trim().toLowerCase();
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+/**
+ * Builds the history from the patient record and the latest saved sessions.
+ * Pure, so it can be reused for sessions already loaded in memory.
+ */
+export const buildPriorVisitContext = (patient: Patient | undefined, priorSessions: SessionData[]): PriorVisitContext | null => {
+    const recent = [...priorSessions]
+        .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+        .slice(0, MAX_PRIOR_VISITS);
+    if (recent.length === 0) return null;
+    const last = recent[0];
+
+    return {
+        visitCount: recent.length,
+        lastVisitDate: last.startTime,
+        // Os medicamentos da última consulta refletem o uso atual; os de uso contínuo vêm do cadastro
+        activeMedications: unique([...(patient?.chronicMedications ?? []), ...last.anamnesis.medications.map(formatMedication)]),
+        allergies: unique([
+            ...(patient?.allergies ?? []),
+            ...recent.flatMap(session => session.anamnesis.allergies.map(a => a.reaction ? `${a.substance} (${a.reaction})` : a.substance)),
+        ]),
+        priorDiagnoses: recent
+            .map(session => ({ date: session.startTime, text: sectionText(session, DIAGNOSIS_SECTION_PATTERN) }))
+            .filter((entry): entry is { date: Date; text: string } => entry.text !== null),
+        lastComplaint: sectionText(last, COMPLAINT_SECTION_PATTERN),
+        lastVitals: last.anamnesis.vitals.map(formatVitalSign),
+    };
+};
+
+// Texto condensado para os prompts de anamnese
+export const formatPriorVisitContext = (context: PriorVisitContext): string => {
+    const formatDate = (date: Date) => date.toLocaleDateString('pt-BR');
+    const lines = [
+        `Consultas anteriores consideradas: ${context.visitCount} (última em ${formatDate(context.lastVisitDate)})`,
+        `Medicamentos em uso na última consulta: ${context.activeMedications.join('; ') || 'nenhum registrado'}`,
+        `Alergias conhecidas: ${context.allergies.join('; ') || 'nenhuma registrada'}`,
+    ];
+    if (context.priorDiagnoses.length > 0) {
+        lines.push('Diagnósticos anteriores:');
+        context.priorDiagnoses.forEach(diagnosis => lines.push(`– ${formatDate(diagnosis.date)}: ${diagnosis.text}`));
+    }
+    if (context.lastComplaint) lines.push(`Queixa da última consulta: ${context.lastComplaint}`);
+    if (context.lastVitals.length > 0) lines.push(`Sinais vitais da última consulta: ${context.lastVitals.join('; ')}`);
+    return lines.join('\n');
+};
+
+class PriorVisitService {
+    /**
+     * Loads the history of a patient from the local session store.
+     * @param before Only visits that started before this date are used.
+     * @param excludeSessionId The session being generated, when already saved.
+     */
+    async getContext(patientId: string, before: Date = new Date(), excludeSessionId?: string): Promise<PriorVisitContext | null> {
+        const sessions = await sessionRepository.list();
+        const priorSessions = sessions.filter(session =>
+            session.patientId === patientId &&
+            session.id !== excludeSessionId &&
+            session.startTime.getTime() < before.getTime()
+        );
+        return buildPriorVisitContext(patientRepository.get(patientId), priorSessions);
+    }
+}
+
+export const priorVisitService = new PriorVisitService();
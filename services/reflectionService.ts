@@ -4,12 +4,20 @@
  * Reviews and improves AI-generated content before presenting to user
  */
 
+import { AnamnesisDocument, anamnesisToText, countFilledSections, validateAnamnesisDocument } from './anamnesisSchema';
+
 export interface ReflectionResult {
     improvedContent: string;
     improvements: string[];
     confidence: number;
 }
 
+export interface AnamnesisReflectionResult {
+    improvedDocument: AnamnesisDocument;
+    improvements: string[];
+    confidence: number;
+}
+
 export interface ReflectionContext {
     originalContent: string;
     transcript: string;
@@ -78,18 +86,6 @@ class ReflectionService {
             return { isValid: false, reason: 'Conteúdo vazio' };
         }
 
-        if (context.type === 'anamnesis') {
-            // Check if anamnesis has minimum structure
-            const requiredSections = ['[NOME DO PACIENTE]', '[QUEIXA PRINCIPAL]'];
-            const hasRequiredSections = requiredSections.some(section => 
-                content.includes(section)
-            );
-            
-            if (!hasRequiredSections) {
-                return { isValid: false, reason: 'Estrutura de anamnese incompleta' };
-            }
-        }
-
         // Check for obvious errors
         if (content.length < 10) {
             return { isValid: false, reason: 'Conteúdo muito curto' };
@@ -111,31 +107,84 @@ class ReflectionService {
         if (content.length > 100) confidence += 0.1;
         if (content.length > 500) confidence += 0.1;
 
-        // Structure-based confidence
-        if (context.type === 'anamnesis') {
-            const sections = content.match(/\[[^\]]+\]/g);
-            if (sections && sections.length > 5) {
-                confidence += 0.2;
-            }
-        }
-
         // Context relevance
         if (context.transcript) {
-            const transcriptLower = context.transcript.toLowerCase();
-            const contentLower = content.toLowerCase();
-            
-            // Check for overlap
-            const transcriptWords = new Set(transcriptLower.split(/\s+/));
-            const contentWords = contentLower.split(/\s+/);
-            const overlap = contentWords.filter(w => transcriptWords.has(w)).length;
-            const relevance = overlap / Math.max(contentWords.length, 1);
-            
-            confidence += Math.min(relevance * 0.2, 0.2);
+            confidence += this.calculateRelevance(content, context.transcript);
         }
 
         return Math.min(confidence, 1.0);
     }
 
+    /**
+     * Word overlap between content and transcript, scaled to at most 0.2
+     */
+    private calculateRelevance(content: string, transcript: string): number {
+        const transcriptWords = new Set(transcript.toLowerCase().split(/\s+/));
+        const contentWords = content.toLowerCase().split(/\s+/);
+        const overlap = contentWords.filter(w => transcriptWords.has(w)).length;
+        const relevance = overlap / Math.max(contentWords.length, 1);
+        return Math.min(relevance * 0.2, 0.2);
+    }
+
+    /**
+     * Reflect on a structured anamnesis document.
+     * Validation runs against the schema instead of scanning for bracket headings.
+     */
+    async reflectOnAnamnesis(
+        document: AnamnesisDocument,
+        context: Pick<ReflectionContext, 'transcript'>
+    ): Promise<AnamnesisReflectionResult> {
+        let validated: AnamnesisDocument;
+        try {
+            validated = validateAnamnesisDocument(document);
+        } catch (error: any) {
+            return {
+                improvedDocument: document,
+                improvements: [`Validação: ${error.message}`],
+                confidence: 0.5,
+            };
+        }
+
+        if (validated.sections.length === 0) {
+            return {
+                improvedDocument: validated,
+                improvements: ['Validação: Estrutura de anamnese incompleta'],
+                confidence: 0.5,
+            };
+        }
+
+        const improvements: string[] = [];
+        const normalizeText = (value: string) => value.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n').trim();
+
+        const improvedDocument: AnamnesisDocument = {
+            ...validated,
+            sections: validated.sections.map(section => ({
+                ...section,
+                content: normalizeText(section.content),
+                fields: section.fields.map(field => ({ ...field, value: normalizeText(field.value) })),
+            })),
+        };
+        if (JSON.stringify(improvedDocument) !== JSON.stringify(validated)) {
+            improvements.push('Corrigir espaçamento duplo');
+        }
+
+        const filledRatio = countFilledSections(improvedDocument) / improvedDocument.sections.length;
+        if (filledRatio < 0.3) {
+            improvements.push('Adicionar mais seções à anamnese');
+        }
+
+        let confidence = 0.5 + filledRatio * 0.3;
+        if (context.transcript) {
+            confidence += this.calculateRelevance(anamnesisToText(improvedDocument), context.transcript);
+        }
+
+        return {
+            improvedDocument,
+            improvements,
+            confidence: Math.min(confidence, 1.0),
+        };
+    }
+
     /**
      * Analyze content for improvements
      */
@@ -152,14 +201,6 @@ class ReflectionService {
             suggestions.push('Reduzir repetições de frases');
         }
 
-        // Check for completeness
-        if (context.type === 'anamnesis') {
-            const sections = content.match(/\[[^\]]+\]/g) || [];
-            if (sections.length < 5) {
-                suggestions.push('Adicionar mais seções à anamnese');
-            }
-        }
-
         // Check for relevance to transcript
         if (context.transcript) {
             const transcriptLower = context.transcript.toLowerCase();
@@ -222,26 +263,21 @@ class ReflectionService {
     }
 
     /**
-     * Compare with previous content to detect changes
+     * Compare with previous anamnesis to detect changes
      */
     compareWithPrevious(
-        current: string,
-        previous?: string
+        current: AnamnesisDocument,
+        previous?: AnamnesisDocument
     ): { hasChanged: boolean; changes: string[] } {
         if (!previous) {
             return { hasChanged: true, changes: ['Nova geração de conteúdo'] };
         }
 
         const changes: string[] = [];
-        
-        // Simple comparison
-        if (current.length !== previous.length) {
-            changes.push(`Tamanho: ${previous.length} → ${current.length} caracteres`);
-        }
 
         // Check for new sections in anamnesis
-        const currentSections = new Set(current.match(/\[[^\]]+\]/g) || []);
-        const previousSections = new Set(previous.match(/\[[^\]]+\]/g) || []);
+        const currentSections = new Set(current.sections.map(s => s.title));
+        const previousSections = new Set(previous.sections.map(s => s.title));
         
         const newSections = Array.from(currentSections).filter(s => !previousSections.has(s));
         const removedSections = Array.from(previousSections).filter(s => !currentSections.has(s));
@@ -253,8 +289,12 @@ class ReflectionService {
             changes.push(`Seções removidas: ${removedSections.join(', ')}`);
         }
 
+        if (current.medications.length !== previous.medications.length) {
+            changes.push(`Medicamentos: ${previous.medications.length} → ${current.medications.length}`);
+        }
+
         return {
-            hasChanged: changes.length > 0 || current !== previous,
+            hasChanged: changes.length > 0 || JSON.stringify(current) !== JSON.stringify(previous),
             changes,
         };
     }
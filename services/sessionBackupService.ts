@@ -0,0 +1,172 @@
+/**
+ * Session Backup Service
+ * Keeps a localStorage snapshot of every session in progress, one key per
+ * session id, so a crashed or closed tab can be resumed or saved later.
+ * Open sessions refresh a heartbeat; a backup whose heartbeat went stale
+ * belongs to an interrupted session rather than to another live tab.
+ */
+
+import type { SerializableLocation, SessionInsight } from "../App";
+import { TranscriptTurn, normalizeTranscriptionHistory } from "../utils/transcriptUtils";
+import { AnamnesisDocument, AnamnesisSchemaError, normalizeAnamnesis } from "./anamnesisSchema";
+
+export interface SessionBackup {
+    sessionId: string;
+    savedAt: number;
+    startTime: Date;
+    location: SerializableLocation | null;
+    templateId?: string; // Backups legados não registravam o modelo
+    patientId?: string; // Paciente escolhido antes de iniciar a sessão
+    transcriptionHistory: TranscriptTurn[];
+    anamnesis: AnamnesisDocument | null;
+    anamnesisTurnCount: number; // Turnos já incorporados à anamnese (modo incremental)
+    insights: SessionInsight[];
+}
+
+const BACKUP_PREFIX = 'transcription_backup:';
+const HEARTBEAT_PREFIX = 'transcription_backup_heartbeat:';
+const LEGACY_BACKUP_KEY = 'transcription_backup';
+const LEGACY_BACKUP_TIME_KEY = 'transcription_backup_time';
+
+const HEARTBEAT_INTERVAL_MS = 5000;
+// Sem heartbeat por esse tempo, a sessão é considerada interrompida
+const STALE_AFTER_MS = 20000;
+
+export const createSessionId = (): string =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// A transcrição do backup continua aproveitável mesmo com a anamnese fora do schema
+const reviveAnamnesis = (sessionId: string, value: unknown): AnamnesisDocument | null => {
+    if (!value) return null;
+    try {
+        return normalizeAnamnesis(value);
+    } catch (error) {
+        if (!(error instanceof AnamnesisSchemaError)) throw error;
+        console.warn(`Anamnese do backup ${sessionId} descartada: ${error.message}`);
+        return null;
+    }
+};
+
+// JSON transforma as datas em strings; aqui elas voltam a ser Date
+const reviveBackup = (raw: any): SessionBackup => ({
+    ...raw,
+    startTime: new Date(raw.startTime),
+    anamnesis: reviveAnamnesis(raw.sessionId, raw.anamnesis),
+    anamnesisTurnCount: raw.anamnesisTurnCount ?? 0,
+    transcriptionHistory: normalizeTranscriptionHistory(raw.transcriptionHistory),
+    insights: (raw.insights ?? []).map((insight: any) => ({ ...insight, timestamp: new Date(insight.timestamp) })),
+});
+
+class SessionBackupService {
+    private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+    save(backup: Omit<SessionBackup, 'savedAt'>) {
+        try {
+            localStorage.setItem(BACKUP_PREFIX + backup.sessionId, JSON.stringify({ ...backup, savedAt: Date.now() }));
+            this.touch(backup.sessionId);
+        } catch (e) {
+            console.warn('Falha ao salvar backup de transcrição:', e);
+        }
+    }
+
+    load(sessionId: string): SessionBackup | null {
+        try {
+            const data = localStorage.getItem(BACKUP_PREFIX + sessionId);
+            return data ? reviveBackup(JSON.parse(data)) : null;
+        } catch (e) {
+            console.warn('Backup de transcrição corrompido:', e);
+            return null;
+        }
+    }
+
+    remove(sessionId: string) {
+        localStorage.removeItem(BACKUP_PREFIX + sessionId);
+        localStorage.removeItem(HEARTBEAT_PREFIX + sessionId);
+    }
+
+    // Backups de todas as sessões, do mais recente para o mais antigo
+    list(): SessionBackup[] {
+        this.migrateLegacyBackup();
+        const backups: SessionBackup[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (!key?.startsWith(BACKUP_PREFIX)) continue;
+            const backup = this.load(key.slice(BACKUP_PREFIX.length));
+            if (backup) backups.push(backup);
+        }
+        return backups.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    // Sessões sem heartbeat recente: a aba fechou ou travou antes de encerrar
+    findInterrupted(): SessionBackup[] {
+        const now = Date.now();
+        return this.list().filter(backup => {
+            const heartbeat = Number(localStorage.getItem(HEARTBEAT_PREFIX + backup.sessionId) ?? 0);
+            return now - heartbeat > STALE_AFTER_MS;
+        });
+    }
+
+    startHeartbeat(sessionId: string) {
+        this.stopHeartbeat();
+        this.touch(sessionId);
+        this.heartbeatTimer = setInterval(() => this.touch(sessionId), HEARTBEAT_INTERVAL_MS);
+    }
+
+    stopHeartbeat() {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = null;
+        }
+    }
+
+    private touch(sessionId: string) {
+        try {
+            localStorage.setItem(HEARTBEAT_PREFIX + sessionId, Date.now().toString());
+        } catch (e) {
+            console.warn('Falha ao atualizar heartbeat do backup:', e);
+        }
+    }
+
+    // Versões anteriores guardavam um único backup compartilhado entre abas
+    private migrateLegacyBackup() {
+        const data = localStorage.getItem(LEGACY_BACKUP_KEY);
+        if (!data) return;
+        try {
+            const legacy = JSON.parse(data);
+            const savedAt = Number(localStorage.getItem(LEGACY_BACKUP_TIME_KEY)) || legacy.timestamp || Date.now();
+            const position = legacy.sessionInfo?.location;
+            const backup = {
+                sessionId: createSessionId(),
+                savedAt,
+                startTime: legacy.sessionInfo?.startTime ?? new Date(savedAt).toISOString(),
+                location: position?.coords ? {
+                    coords: {
+                        latitude: position.coords.latitude,
+                        longitude: position.coords.longitude,
+                        accuracy: position.coords.accuracy,
+                        altitude: position.coords.altitude ?? null,
+                        altitudeAccuracy: position.coords.altitudeAccuracy ?? null,
+                        heading: position.coords.heading ?? null,
+                        speed: position.coords.speed ?? null,
+                    },
+                    timestamp: position.timestamp,
+                } : null,
+                templateId: legacy.templateId,
+                transcriptionHistory: legacy.transcriptionHistory ?? [],
+                anamnesis: legacy.anamnesis ?? null,
+                anamnesisTurnCount: 0,
+                // Insights antigos eram apenas texto
+                insights: (legacy.insights ?? []).map((insight: any) => typeof insight === 'string'
+                    ? { text: insight, timestamp: new Date(savedAt).toISOString(), provider: null }
+                    : insight),
+            };
+            localStorage.setItem(BACKUP_PREFIX + backup.sessionId, JSON.stringify(backup));
+        } catch (e) {
+            console.warn('Backup legado de transcrição ignorado:', e);
+        }
+        localStorage.removeItem(LEGACY_BACKUP_KEY);
+        localStorage.removeItem(LEGACY_BACKUP_TIME_KEY);
+    }
+}
+
+export const sessionBackupService = new SessionBackupService();
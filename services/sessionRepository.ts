@@ -0,0 +1,410 @@
+/**
+ * Session Repository
+ * Offline-first store for saved sessions. Every write lands in IndexedDB
+ * first and is queued in an outbox that is pushed to Firestore whenever the
+ * user is signed in and online. Guests keep their sessions only locally.
+ * Conflicts are resolved by session revision: a remote copy with a revision
+ * this device never synced wins over local edits, which are reported.
+ */
+
+import type { SessionData } from "../App";
+import * as firebaseService from "./firebaseService";
+
+const DB_NAME = 'consulta-sessions';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const OUTBOX_STORE = 'outbox';
+
+export const GUEST_OWNER_ID = 'guest';
+const SYNC_RETRY_MS = 30000;
+
+interface StoredSession {
+    key: string; // `${ownerId}:${sessionId}`
+    ownerId: string;
+    session: SessionData;
+    syncedRevision: number; // Última revisão confirmada no Firestore (0 = nunca sincronizada)
+}
+
+interface OutboxEntry {
+    id?: number;
+    key: string;
+    ownerId: string;
+    sessionId: string;
+    op: 'upsert' | 'delete';
+    queuedAt: number;
+    attempts: number;
+}
+
+export interface SyncStatus {
+    pending: number;
+    online: boolean;
+    isSyncing: boolean;
+    lastError: string | null;
+}
+
+export interface SessionRepositoryListener {
+    onSessionsChange: (sessions: SessionData[]) => void;
+    onSyncStatusChange?: (status: SyncStatus) => void;
+    onConflict?: (session: SessionData) => void;
+    onLog?: (message: string) => void;
+}
+
+const storageKey = (ownerId: string, sessionId: string) => `${ownerId}:${sessionId}`;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'key' });
+            sessions.createIndex('ownerId', 'ownerId');
+            const outbox = db.createObjectStore(OUTBOX_STORE, { keyPath: 'id', autoIncrement: true });
+            outbox.createIndex('ownerId', 'ownerId');
+            outbox.createIndex('key', 'key');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+class SessionRepository {
+    private dbPromise: Promise<IDBDatabase> | null = null;
+    private ownerId: string = GUEST_OWNER_ID;
+    private uid: string | null = null;
+    private listeners = new Set<SessionRepositoryListener>();
+    private isSyncing = false;
+    private resyncRequested = false;
+    private lastError: string | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor() {
+        if (typeof window !== 'undefined') {
+            window.addEventListener('online', () => this.sync());
+            window.addEventListener('offline', () => this.emitStatus());
+        }
+    }
+
+    private getDb(): Promise<IDBDatabase> {
+        if (!this.dbPromise) {
+            this.dbPromise = openDatabase().catch(error => {
+                this.dbPromise = null;
+                throw error;
+            });
+        }
+        return this.dbPromise;
+    }
+
+    subscribe(listener: SessionRepositoryListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * Switches the repository to the signed-in user (or to guest mode with
+     * null), loads the local copy immediately and then merges Firestore.
+     */
+    async setOwner(uid: string | null) {
+        this.uid = uid;
+        this.ownerId = uid ?? GUEST_OWNER_ID;
+        await this.emitSessions();
+        if (uid) {
+            await this.adoptGuestSessions(uid);
+            await this.refreshFromRemote();
+            await this.sync();
+        } else {
+            this.emitStatus();
+        }
+    }
+
+    async list(): Promise<SessionData[]> {
+        const db = await this.getDb();
+        const index = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).index('ownerId');
+        const records = await requestToPromise(index.getAll(this.ownerId)) as StoredSession[];
+        return records
+            .map(record => record.session)
+            .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    }
+
+    async get(sessionId: string): Promise<SessionData | undefined> {
+        return (await this.getRecord(sessionId))?.session;
+    }
+
+    async save(session: SessionData): Promise<SessionData> {
+        const existing = await this.getRecord(session.id);
+        const saved: SessionData = { ...session, revision: (existing?.session.revision ?? 0) + 1 };
+        await this.writeLocal({
+            key: storageKey(this.ownerId, session.id),
+            ownerId: this.ownerId,
+            session: saved,
+            syncedRevision: existing?.syncedRevision ?? 0,
+        }, 'upsert');
+        this.sync();
+        return saved;
+    }
+
+    async update(sessionId: string, updates: Partial<Omit<SessionData, 'id'>>): Promise<SessionData | null> {
+        const existing = await this.getRecord(sessionId);
+        if (!existing) return null;
+        return this.save({ ...existing.session, ...updates });
+    }
+
+    async delete(sessionId: string) {
+        const db = await this.getDb();
+        const transaction = db.transaction([SESSIONS_STORE, OUTBOX_STORE], 'readwrite');
+        const key = storageKey(this.ownerId, sessionId);
+        transaction.objectStore(SESSIONS_STORE).delete(key);
+        this.enqueue(transaction, this.ownerId, sessionId, 'delete');
+        await transactionDone(transaction);
+        await this.emitSessions();
+        this.sync();
+    }
+
+    // Reenvia todas as sessões do usuário (ex.: após rotação da chave de criptografia)
+    async resyncAll() {
+        if (!this.uid) return;
+        const db = await this.getDb();
+        const transaction = db.transaction([SESSIONS_STORE, OUTBOX_STORE], 'readwrite');
+        const records = await requestToPromise(transaction.objectStore(SESSIONS_STORE).index('ownerId').getAll(this.ownerId)) as StoredSession[];
+        records.forEach(record => this.enqueue(transaction, record.ownerId, record.session.id, 'upsert'));
+        await transactionDone(transaction);
+        this.sync();
+    }
+
+    /**
+     * Pushes the outbox of the current user to Firestore. Stops at the first
+     * failure (usually offline) and schedules a retry.
+     */
+    async sync() {
+        if (this.isSyncing) {
+            // Alterações feitas durante o envio entram numa nova rodada
+            this.resyncRequested = true;
+            return;
+        }
+        if (!this.uid) {
+            this.emitStatus();
+            return;
+        }
+        if (!navigator.onLine) {
+            this.emitStatus();
+            return;
+        }
+
+        const uid = this.uid;
+        const ownerId = this.ownerId;
+        this.isSyncing = true;
+        this.resyncRequested = false;
+        this.emitStatus();
+        let changed = false;
+
+        try {
+            const entries = await this.getOutbox(ownerId);
+            for (const entry of entries) {
+                if (this.uid !== uid) break; // Usuário trocou durante a sincronização
+                try {
+                    changed = await this.pushEntry(uid, entry) || changed;
+                    await this.removeOutboxEntry(entry.id!);
+                } catch (error: any) {
+                    this.lastError = error.message || String(error);
+                    await this.putOutboxEntry({ ...entry, attempts: entry.attempts + 1 });
+                    this.log(`Sincronização de sessões adiada: ${this.lastError}`);
+                    this.scheduleRetry();
+                    return;
+                }
+            }
+            this.lastError = null;
+        } finally {
+            this.isSyncing = false;
+            if (changed) await this.emitSessions();
+            this.emitStatus();
+            if (this.resyncRequested && !this.retryTimer) this.sync();
+        }
+    }
+
+    async getSyncStatus(): Promise<SyncStatus> {
+        const pending = this.uid ? (await this.getOutbox(this.ownerId)).length : 0;
+        return { pending, online: navigator.onLine, isSyncing: this.isSyncing, lastError: this.lastError };
+    }
+
+    // Sessões feitas no modo convidado passam para o usuário que fez login
+    private async adoptGuestSessions(uid: string) {
+        const db = await this.getDb();
+        const transaction = db.transaction([SESSIONS_STORE, OUTBOX_STORE], 'readwrite');
+        const store = transaction.objectStore(SESSIONS_STORE);
+        const guestRecords = await requestToPromise(store.index('ownerId').getAll(GUEST_OWNER_ID)) as StoredSession[];
+        for (const record of guestRecords) {
+            store.delete(record.key);
+            store.put({ ...record, key: storageKey(uid, record.session.id), ownerId: uid, syncedRevision: 0 });
+            this.enqueue(transaction, uid, record.session.id, 'upsert');
+        }
+        await transactionDone(transaction);
+        if (guestRecords.length > 0) {
+            this.log(`${guestRecords.length} sessão(ões) do modo convidado associada(s) à sua conta.`);
+            await this.emitSessions();
+        }
+    }
+
+    // Traz do Firestore as sessões mais novas que a cópia local sem alterações pendentes
+    private async refreshFromRemote() {
+        const uid = this.uid;
+        if (!uid || !navigator.onLine) return;
+        try {
+            const { sessions: remoteSessions, invalid } = await firebaseService.fetchSessions(uid);
+            if (this.uid !== uid) return;
+            for (const { id, error } of invalid) {
+                this.lastError = `Anamnese inválida no servidor (${error})`;
+                this.log(`Sessão ${id}: anamnese inválida no servidor (${error}); a cópia local foi mantida.`);
+            }
+            const pendingKeys = new Set((await this.getOutbox(uid)).map(entry => entry.key));
+            const db = await this.getDb();
+            const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+            const store = transaction.objectStore(SESSIONS_STORE);
+            const localRecords = await requestToPromise(store.index('ownerId').getAll(uid)) as StoredSession[];
+            const localByKey = new Map(localRecords.map(record => [record.key, record]));
+
+            for (const remote of remoteSessions) {
+                const key = storageKey(uid, remote.id);
+                const local = localByKey.get(key);
+                const remoteRevision = remote.revision ?? 0;
+                if (pendingKeys.has(key) || (local && (local.session.revision ?? 0) > remoteRevision)) continue;
+                store.put({ key, ownerId: uid, session: remote, syncedRevision: remoteRevision } as StoredSession);
+            }
+            // Sessões apagadas em outro dispositivo (as inválidas existem no servidor)
+            const remoteKeys = new Set([...remoteSessions, ...invalid].map(remote => storageKey(uid, remote.id)));
+            for (const local of localRecords) {
+                if (local.syncedRevision > 0 && !remoteKeys.has(local.key) && !pendingKeys.has(local.key)) {
+                    store.delete(local.key);
+                }
+            }
+            await transactionDone(transaction);
+            await this.emitSessions();
+            if (invalid.length > 0) this.emitStatus();
+        } catch (error: any) {
+            this.lastError = error.message || String(error);
+            this.log(`Falha ao buscar sessões do Firestore; usando cópia local: ${this.lastError}`);
+        }
+    }
+
+    // Retorna true quando a cópia local foi substituída pela remota
+    private async pushEntry(uid: string, entry: OutboxEntry): Promise<boolean> {
+        if (entry.op === 'delete') {
+            await firebaseService.deleteSession(uid, entry.sessionId);
+            return false;
+        }
+
+        const record = await this.getRecord(entry.sessionId, entry.ownerId);
+        if (!record) return false;
+
+        const remote = await firebaseService.saveSessionRevision(uid, record.session, record.syncedRevision);
+        const db = await this.getDb();
+        const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+        if (remote) {
+            transaction.objectStore(SESSIONS_STORE).put({ ...record, session: remote, syncedRevision: remote.revision ?? 0 });
+            await transactionDone(transaction);
+            this.log(`Conflito na sessão ${entry.sessionId}: a versão do servidor (revisão ${remote.revision ?? 0}) foi mantida.`);
+            this.listeners.forEach(listener => listener.onConflict?.(remote));
+            return true;
+        }
+        // Relê o registro: pode ter sido editado de novo enquanto o envio acontecia
+        const store = transaction.objectStore(SESSIONS_STORE);
+        const current = await requestToPromise(store.get(record.key)) as StoredSession | undefined;
+        if (current) store.put({ ...current, syncedRevision: record.session.revision ?? 0 });
+        await transactionDone(transaction);
+        return false;
+    }
+
+    private async getRecord(sessionId: string, ownerId = this.ownerId): Promise<StoredSession | undefined> {
+        const db = await this.getDb();
+        const store = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE);
+        return requestToPromise(store.get(storageKey(ownerId, sessionId))) as Promise<StoredSession | undefined>;
+    }
+
+    private async writeLocal(record: StoredSession, op: OutboxEntry['op']) {
+        const db = await this.getDb();
+        const transaction = db.transaction([SESSIONS_STORE, OUTBOX_STORE], 'readwrite');
+        transaction.objectStore(SESSIONS_STORE).put(record);
+        this.enqueue(transaction, record.ownerId, record.session.id, op);
+        await transactionDone(transaction);
+        await this.emitSessions();
+    }
+
+    // Mantém uma única operação por sessão: a mais recente substitui as anteriores
+    private enqueue(transaction: IDBTransaction, ownerId: string, sessionId: string, op: OutboxEntry['op']) {
+        // Convidados não sincronizam: não há fila
+        if (ownerId === GUEST_OWNER_ID) return;
+        const key = storageKey(ownerId, sessionId);
+        const outbox = transaction.objectStore(OUTBOX_STORE);
+        const cursorRequest = outbox.index('key').openCursor(IDBKeyRange.only(key));
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (cursor) {
+                cursor.delete();
+                cursor.continue();
+            } else {
+                outbox.add({ key, ownerId, sessionId, op, queuedAt: Date.now(), attempts: 0 } as OutboxEntry);
+            }
+        };
+    }
+
+    private async getOutbox(ownerId: string): Promise<OutboxEntry[]> {
+        const db = await this.getDb();
+        const index = db.transaction(OUTBOX_STORE, 'readonly').objectStore(OUTBOX_STORE).index('ownerId');
+        const entries = await requestToPromise(index.getAll(ownerId)) as OutboxEntry[];
+        return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+    }
+
+    private async putOutboxEntry(entry: OutboxEntry) {
+        const db = await this.getDb();
+        const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+        transaction.objectStore(OUTBOX_STORE).put(entry);
+        await transactionDone(transaction);
+    }
+
+    private async removeOutboxEntry(id: number) {
+        const db = await this.getDb();
+        const transaction = db.transaction(OUTBOX_STORE, 'readwrite');
+        transaction.objectStore(OUTBOX_STORE).delete(id);
+        await transactionDone(transaction);
+    }
+
+    private scheduleRetry() {
+        if (this.retryTimer) return;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.sync();
+        }, SYNC_RETRY_MS);
+    }
+
+    private async emitSessions() {
+        try {
+            const sessions = await this.list();
+            this.listeners.forEach(listener => listener.onSessionsChange(sessions));
+        } catch (error: any) {
+            this.log(`Falha ao ler sessões locais: ${error.message || error}`);
+        }
+    }
+
+    private emitStatus() {
+        if (!this.listeners.size) return;
+        this.getSyncStatus().then(status => {
+            this.listeners.forEach(listener => listener.onSyncStatusChange?.(status));
+        }).catch(() => { /* IndexedDB indisponível: o erro já foi registrado */ });
+    }
+
+    private log(message: string) {
+        this.listeners.forEach(listener => listener.onLog?.(message));
+    }
+}
+
+export const sessionRepository = new SessionRepository();
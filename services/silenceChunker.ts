@@ -0,0 +1,86 @@
+/**
+ * Silence Chunker
+ * Splits 16-bit PCM into transcription chunks at pauses in speech, as
+ * classified by the voice activity detector. The same rule closes the chunks
+ * recorded live (AudioRecordingService) and the chunks of imported audio
+ * files (audioImportService): a chunk ends after a long enough silence once
+ * it has the minimum duration, or when it reaches the maximum duration.
+ */
+
+export interface SilenceChunkingConfig {
+    silenceDuration: number; // Duração em ms de silêncio antes de empacotar
+    minChunkDuration: number; // Duração mínima do chunk em ms antes de enviar
+    maxChunkDuration: number; // Duração máxima do chunk em ms (força empacotamento)
+}
+
+export const DEFAULT_SILENCE_CHUNKING: SilenceChunkingConfig = {
+    silenceDuration: 2000, // 2 segundos de silêncio
+    minChunkDuration: 3000, // Mínimo 3 segundos
+    maxChunkDuration: 60000, // Máximo 60 segundos
+};
+
+export const shouldCloseChunk = (config: SilenceChunkingConfig, chunkDurationMs: number, silenceDurationMs: number): boolean =>
+    (silenceDurationMs >= config.silenceDuration && chunkDurationMs >= config.minChunkDuration) ||
+    chunkDurationMs >= config.maxChunkDuration;
+
+export interface PcmChunk {
+    pcm: Int16Array;
+    startOffsetMs: number; // Início do chunk desde o início do áudio
+    durationMs: number;
+    hasSound: boolean; // Algum quadro classificado como fala
+}
+
+export interface PcmFrame {
+    pcm: Int16Array;
+    isSpeech: boolean; // Decisão do detector de voz para o quadro
+    offsetMs: number; // Início do quadro desde o início do áudio
+}
+
+/**
+ * Accumulates frames into a single chunk at a time; used where the audio is
+ * already available, so there is no need for the rotating buffers of the
+ * live recorder.
+ */
+export class SilenceChunker {
+    private frames: Int16Array[] = [];
+    private startMs = 0;
+    private endMs = 0;
+    private lastSoundMs = 0;
+    private hasSound = false;
+
+    constructor(private readonly sampleRate: number, private readonly config: SilenceChunkingConfig = DEFAULT_SILENCE_CHUNKING) {}
+
+    // Retorna o chunk fechado por este quadro, se houver
+    push(frame: PcmFrame): PcmChunk | null {
+        if (this.frames.length === 0) {
+            this.startMs = frame.offsetMs;
+            this.lastSoundMs = frame.offsetMs;
+        }
+        this.frames.push(frame.pcm);
+        this.endMs = frame.offsetMs + (frame.pcm.length / this.sampleRate) * 1000;
+        if (frame.isSpeech) {
+            this.lastSoundMs = this.endMs;
+            this.hasSound = true;
+        }
+        return shouldCloseChunk(this.config, this.endMs - this.startMs, this.endMs - this.lastSoundMs) ? this.take() : null;
+    }
+
+    // Chunk final com o áudio restante, de qualquer duração
+    flush(): PcmChunk | null {
+        return this.frames.length > 0 ? this.take() : null;
+    }
+
+    private take(): PcmChunk {
+        const length = this.frames.reduce((sum, frame) => sum + frame.length, 0);
+        const pcm = new Int16Array(length);
+        let offset = 0;
+        for (const frame of this.frames) {
+            pcm.set(frame, offset);
+            offset += frame.length;
+        }
+        const chunk: PcmChunk = { pcm, startOffsetMs: this.startMs, durationMs: this.endMs - this.startMs, hasSound: this.hasSound };
+        this.frames = [];
+        this.hasSound = false;
+        return chunk;
+    }
+}
@@ -6,6 +6,14 @@ export interface TokenUsage {
     totalTokens: number;
 }
 
+// Economia das atualizações incrementais (patch) da anamnese em relação à regeneração completa
+export interface PatchSavings {
+    patchCalls: number;
+    actualTokens: number;
+    estimatedFullTokens: number;
+    savedTokens: number;
+}
+
 export interface TokenStats {
     corrections: TokenUsage;
     insights: TokenUsage;
@@ -16,6 +24,13 @@ export interface TokenStats {
         insights: number;
         anamnesis: number;
     };
+    patchSavings: PatchSavings;
+    byProvider: Record<string, TokenUsage>; // Uso por provedor de LLM, base da estimativa de custo
+}
+
+// Resumo salvo junto com cada sessão
+export interface SessionTokenSummary extends TokenStats {
+    estimatedCostUsd: number;
 }
 
 class TokenTrackerService {
@@ -28,7 +43,9 @@ class TokenTrackerService {
             corrections: 0,
             insights: 0,
             anamnesis: 0,
-        }
+        },
+        patchSavings: { patchCalls: 0, actualTokens: 0, estimatedFullTokens: 0, savedTokens: 0 },
+        byProvider: {},
     };
 
     // Extrai tokens da resposta do Gemini
@@ -37,8 +54,12 @@ class TokenTrackerService {
             // O GoogleGenAI SDK pode retornar usage em diferentes formatos
             let usage = null;
             
+            // Formato atual do @google/genai
+            if (response.usageMetadata) {
+                usage = response.usageMetadata;
+            }
             // Tenta acessar diretamente
-            if (response.usage) {
+            else if (response.usage) {
                 usage = response.usage;
             } 
             // Tenta via response (se for uma resposta encapsulada)
@@ -70,9 +91,9 @@ class TokenTrackerService {
             }
 
             return {
-                promptTokens: usage.promptTokens || usage.inputTokens || usage.requestTokenCount || 0,
-                completionTokens: usage.completionTokens || usage.candidatesTokens || usage.outputTokens || usage.responseTokenCount || 0,
-                totalTokens: usage.totalTokens || usage.totalTokenCount || ((usage.promptTokens || usage.inputTokens || usage.requestTokenCount || 0) + (usage.completionTokens || usage.candidatesTokens || usage.outputTokens || usage.responseTokenCount || 0))
+                promptTokens: usage.promptTokens || usage.promptTokenCount || usage.inputTokens || usage.requestTokenCount || 0,
+                completionTokens: usage.completionTokens || usage.candidatesTokens || usage.candidatesTokenCount || usage.outputTokens || usage.responseTokenCount || 0,
+                totalTokens: usage.totalTokens || usage.totalTokenCount || ((usage.promptTokens || usage.promptTokenCount || usage.inputTokens || usage.requestTokenCount || 0) + (usage.completionTokens || usage.candidatesTokens || usage.candidatesTokenCount || usage.outputTokens || usage.responseTokenCount || 0))
             };
         } catch (error) {
             console.warn('Erro ao extrair tokens:', error);
@@ -92,32 +113,59 @@ class TokenTrackerService {
     }
 
     // Registra uso de tokens para correção de transcrição
-    recordCorrection(usage: TokenUsage) {
+    recordCorrection(usage: TokenUsage, providerId?: string) {
         this.stats.corrections.promptTokens += usage.promptTokens;
         this.stats.corrections.completionTokens += usage.completionTokens;
         this.stats.corrections.totalTokens += usage.totalTokens;
         this.stats.callCount.corrections++;
+        this.recordProvider(usage, providerId);
         this.updateTotal();
     }
 
     // Registra uso de tokens para insights
-    recordInsight(usage: TokenUsage) {
+    recordInsight(usage: TokenUsage, providerId?: string) {
         this.stats.insights.promptTokens += usage.promptTokens;
         this.stats.insights.completionTokens += usage.completionTokens;
         this.stats.insights.totalTokens += usage.totalTokens;
         this.stats.callCount.insights++;
+        this.recordProvider(usage, providerId);
         this.updateTotal();
     }
 
     // Registra uso de tokens para anamnese
-    recordAnamnesis(usage: TokenUsage) {
+    recordAnamnesis(usage: TokenUsage, providerId?: string) {
         this.stats.anamnesis.promptTokens += usage.promptTokens;
         this.stats.anamnesis.completionTokens += usage.completionTokens;
         this.stats.anamnesis.totalTokens += usage.totalTokens;
         this.stats.callCount.anamnesis++;
+        this.recordProvider(usage, providerId);
         this.updateTotal();
     }
 
+    // Estimativa aproximada (1 token ≈ 4 caracteres), usada quando a API não informa o uso
+    estimateTokens(text: string): number {
+        return Math.ceil(text.length / 4);
+    }
+
+    // Registra uma atualização incremental e o custo estimado da regeneração completa equivalente
+    recordAnamnesisPatch(usage: TokenUsage, estimatedFullTokens: number, providerId?: string) {
+        this.recordAnamnesis(usage, providerId);
+        const savings = this.stats.patchSavings;
+        savings.patchCalls++;
+        savings.actualTokens += usage.totalTokens;
+        savings.estimatedFullTokens += estimatedFullTokens;
+        savings.savedTokens = Math.max(0, savings.estimatedFullTokens - savings.actualTokens);
+    }
+
+    private recordProvider(usage: TokenUsage, providerId = 'gemini') {
+        const current = this.stats.byProvider[providerId] ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        this.stats.byProvider[providerId] = {
+            promptTokens: current.promptTokens + usage.promptTokens,
+            completionTokens: current.completionTokens + usage.completionTokens,
+            totalTokens: current.totalTokens + usage.totalTokens,
+        };
+    }
+
     private updateTotal() {
         this.stats.total.promptTokens = 
             this.stats.corrections.promptTokens + 
@@ -136,7 +184,13 @@ class TokenTrackerService {
 
     // Retorna estatísticas atuais
     getStats(): TokenStats {
-        return { ...this.stats };
+        return { ...this.stats, patchSavings: { ...this.stats.patchSavings }, byProvider: { ...this.stats.byProvider } };
+    }
+
+    // Cópia das estatísticas com o custo estimado, para salvar com a sessão
+    getSessionSummary(estimateCostUsd: (byProvider: Record<string, TokenUsage>) => number): SessionTokenSummary {
+        const stats = this.getStats();
+        return { ...stats, estimatedCostUsd: estimateCostUsd(stats.byProvider) };
     }
 
     // Reseta estatísticas
@@ -150,7 +204,9 @@ class TokenTrackerService {
                 corrections: 0,
                 insights: 0,
                 anamnesis: 0,
-            }
+            },
+            patchSavings: { patchCalls: 0, actualTokens: 0, estimatedFullTokens: 0, savedTokens: 0 },
+            byProvider: {},
         };
     }
 }
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptTurn } from '../utils/transcriptUtils';
+import { alignWords, findDuplicateSpan, removeWords, TranscriptSegment, TranscriptStitcher } from './transcriptStitcher';
+
+const SAMPLE_RATE = 16000;
+
+const turn = (speaker: TranscriptTurn['speaker'], text: string, startMs: number, endMs: number): TranscriptTurn =>
+    ({ speaker, text, startMs, endMs, confidence: 0.85 });
+
+// Segmento com a faixa de amostras de [startS, endS) segundos
+const segment = (startS: number, endS: number, turns: TranscriptTurn[]): TranscriptSegment =>
+    ({ startSample: startS * SAMPLE_RATE, endSample: endS * SAMPLE_RATE, turns });
+
+const countOccurrences = (turns: TranscriptTurn[], phrase: string) =>
+    turns.map(t => t.text).join(' ').split(phrase).length - 1;
+
+describe('alignWords', () => {
+    it('finds the shared span between two word sequences', () => {
+        const alignment = alignWords(['a', 'b', 'c', 'd', 'e'], ['x', 'c', 'd', 'e', 'y']);
+        expect(alignment).toEqual({ a: { start: 2, end: 5 }, b: { start: 1, end: 4 }, matches: 3 });
+    });
+
+    it('returns null when nothing matches', () => {
+        expect(alignWords(['a', 'b'], ['c', 'd'])).toBeNull();
+    });
+});
+
+describe('findDuplicateSpan', () => {
+    it('ignores segments whose sample ranges do not overlap', () => {
+        const previous = segment(0, 5, [turn('patient', 'tomei dipirona ontem à noite', 0, 5000)]);
+        const next = segment(5, 10, [turn('patient', 'tomei dipirona ontem à noite', 5000, 10000)]);
+        expect(findDuplicateSpan(previous, next)).toBeNull();
+    });
+
+    it('ignores overlapping audio when the texts differ', () => {
+        const previous = segment(0, 10, [turn('patient', 'Minha mãe teve diabetes e pressão alta.', 0, 10000)]);
+        const next = segment(5, 15, [turn('doctor', 'Algum caso de câncer na família?', 5000, 15000)]);
+        expect(findDuplicateSpan(previous, next)).toBeNull();
+    });
+});
+
+describe('removeWords', () => {
+    it('drops emptied turns and shrinks trimmed turn times in proportion to the removed words', () => {
+        const turns = [
+            turn('doctor', 'um dois', 0, 2000),
+            turn('patient', 'três quatro cinco seis', 2000, 6000),
+            turn('doctor', 'sete oito nove dez', 6000, 10000),
+        ];
+        const removed = [true, true, true, false, false, false, false, false, false, true];
+        expect(removeWords(turns, removed)).toEqual([
+            turn('patient', 'quatro cinco seis', 3000, 6000),
+            turn('doctor', 'sete oito nove', 6000, 9000),
+        ]);
+    });
+
+    it('keeps the text of the remaining words as transcribed', () => {
+        const [trimmed] = removeWords([turn('patient', 'Sim, perto do olho', 0, 4000)], [true, false, false, false]);
+        expect(trimmed.text).toBe('perto do olho');
+    });
+
+    it('keeps turn times when the removed span is in the middle', () => {
+        const [trimmed] = removeWords([turn('patient', 'a b c d', 0, 4000)], [false, true, true, false]);
+        expect(trimmed).toEqual(turn('patient', 'a d', 0, 4000));
+    });
+});
+
+describe('TranscriptStitcher', () => {
+    it('removes a phrase repeated by an overlapping buffer exactly once', () => {
+        const stitcher = new TranscriptStitcher();
+        const first = stitcher.add(segment(0, 12, [
+            turn('doctor', 'A dor é do lado direito ou esquerdo?', 0, 5000),
+            turn('patient', 'Do lado direito, perto do olho, e piora à noite.', 5000, 12000),
+        ]));
+        const second = stitcher.add(segment(7, 20, [
+            turn('patient', 'perto do olho, e piora à noite.', 7000, 10000),
+            turn('doctor', 'O senhor tomou algum remédio?', 10000, 15000),
+            turn('patient', 'Tomei dipirona ontem.', 15000, 20000),
+        ]));
+
+        expect(countOccurrences([...first, ...second], 'perto do olho')).toBe(1);
+        expect(second).toEqual([
+            turn('doctor', 'O senhor tomou algum remédio?', 10000, 15000),
+            turn('patient', 'Tomei dipirona ontem.', 15000, 20000),
+        ]);
+    });
+
+    it('drops a buffer that transcribed the same audio with small wording differences', () => {
+        const stitcher = new TranscriptStitcher();
+        stitcher.add(segment(0, 10, [turn('patient', 'Estou com dor de cabeça há três dias.', 0, 10000)]));
+        expect(stitcher.add(segment(0, 10, [turn('patient', 'Estou com dores de cabeça faz três dias.', 0, 10000)]))).toEqual([]);
+    });
+
+    it('keeps genuine repeats in segments that do not overlap', () => {
+        const stitcher = new TranscriptStitcher();
+        const first = stitcher.add(segment(0, 3, [turn('patient', 'sim sim sim', 0, 3000)]));
+        const second = stitcher.add(segment(3, 6, [turn('patient', 'sim sim sim', 3000, 6000)]));
+        expect(first).toEqual([turn('patient', 'sim sim sim', 0, 3000)]);
+        expect(second).toEqual([turn('patient', 'sim sim sim', 3000, 6000)]);
+    });
+
+    it('trims the tail of an earlier chunk that arrives after the later one', () => {
+        const stitcher = new TranscriptStitcher();
+        const later = stitcher.add(segment(8, 20, [
+            turn('patient', 'e a febre passou ontem à tarde.', 8000, 12000),
+            turn('doctor', 'Vamos examinar então.', 12000, 20000),
+        ]));
+        const earlier = stitcher.add(segment(0, 12, [
+            turn('doctor', 'E a febre?', 0, 4000),
+            turn('patient', 'Tive febre no sábado e a febre passou ontem à tarde.', 4000, 12000),
+        ]));
+
+        expect(later).toHaveLength(2);
+        expect(countOccurrences([...later, ...earlier], 'passou ontem à tarde')).toBe(1);
+        expect(earlier[1].text).toBe('Tive febre no sábado');
+        expect(earlier[1].endMs).toBeLessThan(12000);
+    });
+
+    it('removes an earlier transcript contained in a longer overlapping one', () => {
+        const stitcher = new TranscriptStitcher();
+        stitcher.add(segment(10, 15, [turn('patient', 'Não tenho alergia a nenhum medicamento.', 10000, 15000)]));
+        const longer = stitcher.add(segment(5, 20, [
+            turn('doctor', 'Alergias?', 5000, 10000),
+            turn('patient', 'Não tenho alergia a nenhum medicamento.', 10000, 15000),
+            turn('doctor', 'Certo, obrigado.', 15000, 20000),
+        ]));
+        expect(longer).toEqual([
+            turn('doctor', 'Alergias?', 5000, 10000),
+            turn('doctor', 'Certo, obrigado.', 15000, 20000),
+        ]);
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Transcript Stitcher
+ * The rotating buffers of AudioRecordingService receive the same frames while
+ * they are open, so consecutive buffers cover overlapping audio and their
+ * transcripts repeat phrases. Each transcript arrives with the sample range of
+ * its audio; where that range overlaps a transcript already emitted, the words
+ * of both in the overlapping region are aligned (local alignment tolerant to
+ * small transcription differences) and the matching span is removed from the
+ * new transcript before it reaches the history.
+ */
+
+import { TranscriptTurn } from "../utils/transcriptUtils";
+
+export interface TranscriptSegment {
+    startSample: number; // Primeira amostra do áudio transcrito desde o início da gravação
+    endSample: number; // Amostra seguinte à última (exclusivo)
+    turns: TranscriptTurn[];
+}
+
+export interface WordSpan {
+    start: number; // Índice da primeira palavra
+    end: number; // Índice após a última palavra (exclusivo)
+}
+
+export interface WordAlignment {
+    a: WordSpan;
+    b: WordSpan;
+    matches: number;
+}
+
+const MIN_MATCH_WORDS = 3; // Menos que isso pode ser repetição real ("sim, sim")
+const MIN_SIMILARITY = 0.6; // Palavras iguais / tamanho do maior trecho alinhado
+const WINDOW_SLACK = 0.2; // Folga da janela esperada, em fração das palavras do trecho
+const WINDOW_SLACK_WORDS = 3;
+const MAX_HISTORY = 8; // Trechos emitidos mantidos para comparação (3 buffers bastam com folga)
+
+const MATCH_SCORE = 2;
+const MISMATCH_SCORE = -1;
+const GAP_SCORE = -1;
+
+// Forma comparável de uma palavra: sem acentos, pontuação e caixa
+export const normalizeWord = (word: string): string =>
+    word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+/**
+ * Best local alignment (Smith-Waterman) between two word sequences. Returns
+ * null when nothing aligns; spans are relative to the given arrays.
+ */
+export const alignWords = (a: string[], b: string[]): WordAlignment | null => {
+    const cols = b.length + 1;
+    const scores = new Float64Array((a.length + 1) * cols);
+    let best = 0;
+    let bestI = 0;
+    let bestJ = 0;
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const diagonal = scores[(i - 1) * cols + j - 1] + (a[i - 1] === b[j - 1] ? MATCH_SCORE : MISMATCH_SCORE);
+            const score = Math.max(0, diagonal, scores[(i - 1) * cols + j] + GAP_SCORE, scores[i * cols + j - 1] + GAP_SCORE);
+            scores[i * cols + j] = score;
+            if (score > best) {
+                best = score;
+                bestI = i;
+                bestJ = j;
+            }
+        }
+    }
+    if (best === 0) return null;
+
+    // Volta pelo caminho até a pontuação zerar
+    let i = bestI;
+    let j = bestJ;
+    let matches = 0;
+    while (i > 0 && j > 0 && scores[i * cols + j] > 0) {
+        const score = scores[i * cols + j];
+        const isMatch = a[i - 1] === b[j - 1];
+        if (score === scores[(i - 1) * cols + j - 1] + (isMatch ? MATCH_SCORE : MISMATCH_SCORE)) {
+            if (isMatch) matches++;
+            i--;
+            j--;
+        } else if (score === scores[(i - 1) * cols + j] + GAP_SCORE) {
+            i--;
+        } else {
+            j--;
+        }
+    }
+    return { a: { start: i, end: bestI }, b: { start: j, end: bestJ }, matches };
+};
+
+// Palavras normalizadas de todos os turnos, na mesma divisão usada por removeWords
+const segmentWords = (turns: TranscriptTurn[]): string[] =>
+    turns.flatMap(turn => turn.text.split(/\s+/).filter(Boolean).map(normalizeWord));
+
+// Palavras que correspondem ao trecho [fromSample, toSample) do áudio do segmento, com folga
+const expectedWindow = (segment: TranscriptSegment, wordCount: number, fromSample: number, toSample: number): WordSpan => {
+    const length = Math.max(1, segment.endSample - segment.startSample);
+    const slack = Math.ceil(wordCount * WINDOW_SLACK) + WINDOW_SLACK_WORDS;
+    const start = Math.floor(((fromSample - segment.startSample) / length) * wordCount) - slack;
+    const end = Math.ceil(((toSample - segment.startSample) / length) * wordCount) + slack;
+    return { start: Math.max(0, start), end: Math.min(wordCount, end) };
+};
+
+/**
+ * Span of `next`'s words that repeats `previous` in the audio both cover, or
+ * null when the ranges do not overlap or the texts do not match well enough.
+ */
+export const findDuplicateSpan = (previous: TranscriptSegment, next: TranscriptSegment): WordSpan | null => {
+    const overlapStart = Math.max(previous.startSample, next.startSample);
+    const overlapEnd = Math.min(previous.endSample, next.endSample);
+    if (overlapEnd <= overlapStart) return null;
+
+    const previousWords = segmentWords(previous.turns);
+    const nextWords = segmentWords(next.turns);
+    const previousWindow = expectedWindow(previous, previousWords.length, overlapStart, overlapEnd);
+    const nextWindow = expectedWindow(next, nextWords.length, overlapStart, overlapEnd);
+
+    const alignment = alignWords(
+        nextWords.slice(nextWindow.start, nextWindow.end),
+        previousWords.slice(previousWindow.start, previousWindow.end),
+    );
+    if (!alignment || alignment.matches < MIN_MATCH_WORDS) return null;
+    const alignedLength = Math.max(alignment.a.end - alignment.a.start, alignment.b.end - alignment.b.start);
+    if (alignment.matches / alignedLength < MIN_SIMILARITY) return null;
+    return { start: nextWindow.start + alignment.a.start, end: nextWindow.start + alignment.a.end };
+};
+
+/**
+ * Rebuilds the turns keeping only the words not marked as removed. Turns left
+ * empty are dropped; trimmed turns have their times shrunk in proportion to
+ * the words removed from each end.
+ */
+export const removeWords = (turns: TranscriptTurn[], removed: boolean[]): TranscriptTurn[] => {
+    const result: TranscriptTurn[] = [];
+    let wordIndex = 0;
+    for (const turn of turns) {
+        const tokens = turn.text.split(/\s+/).filter(Boolean);
+        const keep = tokens.map((_, i) => !removed[wordIndex + i]);
+        wordIndex += tokens.length;
+
+        const kept = tokens.filter((_, i) => keep[i]);
+        if (kept.length === 0) continue;
+        if (kept.length === tokens.length) {
+            result.push(turn);
+            continue;
+        }
+
+        const headRemoved = keep.indexOf(true);
+        const tailRemoved = tokens.length - 1 - keep.lastIndexOf(true);
+        const msPerWord = (turn.endMs - turn.startMs) / tokens.length;
+        result.push({
+            ...turn,
+            text: kept.join(' '),
+            startMs: Math.round(turn.startMs + headRemoved * msPerWord),
+            endMs: Math.round(turn.endMs - tailRemoved * msPerWord),
+        });
+    }
+    return result;
+};
+
+/**
+ * Keeps the recently emitted transcripts and removes from each new one the
+ * spans already emitted. Transcripts may arrive out of order (the buffers are
+ * transcribed in parallel); the new one is always the one trimmed, since the
+ * previous ones are already in the history.
+ */
+export class TranscriptStitcher {
+    private emitted: TranscriptSegment[] = [];
+
+    add(segment: TranscriptSegment): TranscriptTurn[] {
+        const wordCount = segmentWords(segment.turns).length;
+        const removed: boolean[] = new Array(wordCount).fill(false);
+        for (const previous of this.emitted) {
+            const span = findDuplicateSpan(previous, segment);
+            if (span) removed.fill(true, span.start, span.end);
+        }
+
+        this.emitted.push(segment);
+        if (this.emitted.length > MAX_HISTORY) this.emitted.shift();
+
+        return removed.some(Boolean) ? removeWords(segment.turns, removed) : segment.turns;
+    }
+
+    reset() {
+        this.emitted = [];
+    }
+}
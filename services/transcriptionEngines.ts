@@ -0,0 +1,528 @@
+/**
+ * Transcription Engines
+ * Speech-to-text backends behind a common interface, plus a manager that
+ * starts the selected engine and falls back to the next available one when
+ * it fails mid-session. Turn timings are always relative to the session
+ * start, so turns from different engines interleave in one history.
+ */
+
+import { GoogleGenAI } from "@google/genai";
+import { AudioChunkTranscriber, AudioRecordingService } from "./audioRecordingService";
+import { GeminiLiveService } from "./geminiLiveService";
+import { WebSpeechService } from "./webSpeechService";
+import { CaptionSegment, LiveCaptionTrack } from "./liveCaptionTrack";
+import { DEFAULT_VAD_SETTINGS, VadResult, VadSettings } from "./voiceActivityDetector";
+import { TranscriptTurn, DIARIZATION_INSTRUCTION, parseDiarizedTranscript } from "../utils/transcriptUtils";
+
+export type TranscriptionEngineId = 'gemini-live' | 'gemini-batch' | 'web-speech' | 'whisper';
+
+export interface WhisperSettings {
+    baseUrl: string; // Servidor compatível com /v1/audio/transcriptions (faster-whisper-server, whisper.cpp...)
+    model: string;
+    apiKey: string;
+}
+
+export interface TranscriptionSettings {
+    engine: TranscriptionEngineId;
+    fallbackEnabled: boolean;
+    language: string; // BCP 47, ex.: pt-BR
+    batchSilenceMs: number; // Silêncio que fecha um pacote nos motores em lote
+    dualTrackCaptions: boolean; // Legendas provisórias da Web Speech enquanto o motor principal transcreve
+    vad: VadSettings; // Detecção de voz dos motores em lote (delimita os pacotes)
+    whisper: WhisperSettings;
+}
+
+export const DEFAULT_TRANSCRIPTION_SETTINGS: TranscriptionSettings = {
+    engine: 'gemini-live',
+    fallbackEnabled: true,
+    language: 'pt-BR',
+    batchSilenceMs: 2000,
+    dualTrackCaptions: true,
+    vad: DEFAULT_VAD_SETTINGS,
+    whisper: {
+        baseUrl: 'http://localhost:8000/v1',
+        model: 'Systran/faster-whisper-small',
+        apiKey: '',
+    },
+};
+
+export interface TranscriptionEngineCallbacks {
+    onInterim: (text: string) => void; // Texto parcial do turno em andamento
+    onTurns: (turns: TranscriptTurn[]) => void; // Turnos finalizados
+    onError: (error: string, fatal: boolean) => void;
+    onStatus: (message: string) => void;
+    onLog: (message: string) => void;
+    onVoiceActivity?: (result: VadResult) => void; // Só os motores que detectam voz localmente
+}
+
+export interface TranscriptionEngineContext {
+    settings: TranscriptionSettings;
+    geminiApiKey: string | undefined;
+    sessionStartMs: number; // Epoch do início da sessão
+}
+
+export interface TranscriptionEngine {
+    readonly id: TranscriptionEngineId;
+    start(): Promise<void>;
+    stop(): Promise<void>;
+    getMediaStream(): MediaStream | null;
+}
+
+export interface TranscriptionEngineDefinition {
+    id: TranscriptionEngineId;
+    name: string;
+    description: string;
+    // Processa o áudio sem sair da rede da clínica
+    isLocal: boolean;
+    // Motivo pelo qual o motor não pode ser usado, ou null se disponível
+    unavailableReason(context: TranscriptionEngineContext): string | null;
+    create(context: TranscriptionEngineContext, callbacks: TranscriptionEngineCallbacks): TranscriptionEngine;
+}
+
+// Falhas seguidas de pacotes nos motores em lote antes de considerar o motor inoperante
+const MAX_CONSECUTIVE_CHUNK_FAILURES = 3;
+
+const pcmToBase64 = (pcm: Int16Array): string => {
+    const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    let binary = '';
+    for (let i = 0; i < bytes.byteLength; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// WAV PCM 16-bit mono, formato aceito por qualquer servidor Whisper
+const pcmToWavBlob = (pcm: Int16Array, sampleRate: number): Blob => {
+    const header = new DataView(new ArrayBuffer(44));
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+    };
+    writeString(0, 'RIFF');
+    header.setUint32(4, 36 + pcm.byteLength, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    header.setUint32(16, 16, true); // Tamanho do bloco fmt
+    header.setUint16(20, 1, true); // PCM
+    header.setUint16(22, 1, true); // Mono
+    header.setUint32(24, sampleRate, true);
+    header.setUint32(28, sampleRate * 2, true); // Bytes por segundo
+    header.setUint16(32, 2, true); // Bytes por amostra
+    header.setUint16(34, 16, true); // Bits por amostra
+    writeString(36, 'data');
+    header.setUint32(40, pcm.byteLength, true);
+    return new Blob([header.buffer, pcm.buffer as ArrayBuffer], { type: 'audio/wav' });
+};
+
+export const createGeminiChunkTranscriber = (apiKey: string): AudioChunkTranscriber => {
+    // Um único cliente pode fazer múltiplas requisições paralelas
+    const client = new GoogleGenAI({ apiKey });
+    return async (pcm, sampleRate, signal) => {
+        try {
+            const response = await client.models.generateContent({
+                model: 'gemini-2.0-flash-exp',
+                contents: [{
+                    role: 'user',
+                    parts: [
+                        {
+                            text: `Transcreva esta gravação de consulta médica com precisão. ${DIARIZATION_INSTRUCTION} Não responda às perguntas, apenas transcreva o que é dito. Formate termos médicos corretamente.`
+                        },
+                        {
+                            inlineData: {
+                                data: pcmToBase64(pcm),
+                                mimeType: `audio/pcm;rate=${sampleRate}`
+                            }
+                        }
+                    ]
+                }],
+                config: {
+                    abortSignal: signal,
+                    temperature: 0.0,
+                    maxOutputTokens: 4096,
+                }
+            });
+            return response.text || '';
+        } catch (error: any) {
+            if (signal?.aborted) throw error;
+            throw new Error(`Falha na transcrição: ${error.message}`);
+        }
+    };
+};
+
+export const createWhisperChunkTranscriber = (whisper: WhisperSettings, language: string): AudioChunkTranscriber => {
+    const baseUrl = whisper.baseUrl.replace(/\/+$/, '');
+    return async (pcm, sampleRate, signal) => {
+        const form = new FormData();
+        form.append('file', pcmToWavBlob(pcm, sampleRate), 'chunk.wav');
+        form.append('model', whisper.model);
+        form.append('language', language.split('-')[0]); // Whisper usa ISO 639-1
+        form.append('response_format', 'json');
+
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl}/audio/transcriptions`, {
+                method: 'POST',
+                headers: whisper.apiKey ? { 'Authorization': `Bearer ${whisper.apiKey}` } : {},
+                body: form,
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new Error(`Não foi possível conectar ao servidor Whisper em ${baseUrl}.`);
+        }
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(`Whisper retornou um erro: ${errorData?.error?.message || errorData?.detail || response.statusText}`);
+        }
+        const data = await response.json();
+        return data.text || '';
+    };
+};
+
+class GeminiLiveEngine implements TranscriptionEngine {
+    readonly id = 'gemini-live' as const;
+    private service: GeminiLiveService;
+    private currentText = '';
+    private turnStartMs: number | null = null;
+
+    constructor(private context: TranscriptionEngineContext, private callbacks: TranscriptionEngineCallbacks) {
+        this.service = new GeminiLiveService(
+            context.geminiApiKey || '',
+            (text, isFinal) => isFinal ? this.finishTurn() : this.appendText(text),
+            (error) => this.callbacks.onError(error, !this.service.isActive()),
+            (message) => {
+                if (message.includes('Conexão WebSocket estabelecida')) {
+                    this.callbacks.onStatus('🟢 Gemini Live Conectado (Escutando...)');
+                }
+                this.callbacks.onLog(`[Gemini Live] ${message}`);
+            }
+        );
+    }
+
+    private elapsedMs() {
+        return Date.now() - this.context.sessionStartMs;
+    }
+
+    private appendText(text: string) {
+        if (this.turnStartMs === null) this.turnStartMs = this.elapsedMs();
+        this.currentText += text;
+        this.callbacks.onInterim(this.currentText);
+    }
+
+    private finishTurn() {
+        const text = this.currentText;
+        const startMs = this.turnStartMs ?? this.elapsedMs();
+        this.currentText = '';
+        this.turnStartMs = null;
+        this.callbacks.onInterim('');
+        if (text.trim()) {
+            this.callbacks.onTurns(parseDiarizedTranscript(text, startMs, this.elapsedMs()));
+        }
+    }
+
+    async start() {
+        this.callbacks.onStatus('Conectando ao Gemini Live...');
+        await this.service.connect();
+    }
+
+    async stop() {
+        this.service.disconnect();
+        this.finishTurn(); // Não perde o turno em andamento
+    }
+
+    getMediaStream() {
+        return this.service.getMediaStream();
+    }
+}
+
+// Motores que gravam pacotes delimitados por silêncio e os transcrevem em paralelo
+class BufferedTranscriptionEngine implements TranscriptionEngine {
+    private recorder: AudioRecordingService;
+    private consecutiveFailures = 0;
+    private failed = false;
+
+    constructor(
+        readonly id: TranscriptionEngineId,
+        private label: string,
+        transcriber: AudioChunkTranscriber,
+        context: TranscriptionEngineContext,
+        private callbacks: TranscriptionEngineCallbacks
+    ) {
+        const trackedTranscriber: AudioChunkTranscriber = async (pcm, sampleRate) => {
+            try {
+                const text = await transcriber(pcm, sampleRate);
+                this.consecutiveFailures = 0;
+                return text;
+            } catch (error) {
+                this.consecutiveFailures++;
+                throw error;
+            }
+        };
+
+        this.recorder = new AudioRecordingService(trackedTranscriber, {
+            onTranscript: (turns) => this.callbacks.onTurns(turns),
+            onError: (error) => {
+                const fatal = this.consecutiveFailures >= MAX_CONSECUTIVE_CHUNK_FAILURES || !this.recorder.getMediaStream();
+                if (fatal) {
+                    if (this.failed) return;
+                    this.failed = true;
+                }
+                this.callbacks.onError(error, fatal);
+            },
+            onLog: (message) => this.callbacks.onLog(`[${this.label}] ${message}`),
+            onVoiceActivity: (result) => this.callbacks.onVoiceActivity?.(result),
+        }, {
+            silenceDuration: context.settings.batchSilenceMs,
+            vad: context.settings.vad,
+            timeOrigin: context.sessionStartMs,
+        });
+    }
+
+    async start() {
+        await this.recorder.start();
+        if (this.recorder.getMediaStream()) {
+            this.callbacks.onStatus(`🟢 ${this.label} (Escutando...)`);
+        }
+    }
+
+    async stop() {
+        await this.recorder.stop();
+    }
+
+    getMediaStream() {
+        return this.recorder.getMediaStream();
+    }
+}
+
+// Erros da Web Speech API que impedem a continuidade do reconhecimento
+const FATAL_WEB_SPEECH_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture', 'network', 'recreate-failed'];
+
+class WebSpeechEngine implements TranscriptionEngine {
+    readonly id = 'web-speech' as const;
+    private service: WebSpeechService | null = null;
+    private turnStartMs: number | null = null;
+    private lastInterim = '';
+
+    constructor(private context: TranscriptionEngineContext, private callbacks: TranscriptionEngineCallbacks) {}
+
+    private elapsedMs() {
+        return Date.now() - this.context.sessionStartMs;
+    }
+
+    async start() {
+        this.service = new WebSpeechService({
+            onResult: (text, isFinal) => {
+                if (this.turnStartMs === null) this.turnStartMs = this.elapsedMs();
+                if (!isFinal) {
+                    this.lastInterim = text;
+                    this.callbacks.onInterim(text);
+                    return;
+                }
+                const startMs = this.turnStartMs;
+                this.turnStartMs = null;
+                this.lastInterim = '';
+                this.callbacks.onInterim('');
+                if (text.trim()) {
+                    // A Web Speech API não identifica o locutor
+                    this.callbacks.onTurns(parseDiarizedTranscript(text, startMs, this.elapsedMs()));
+                }
+            },
+            onError: (error, message) => {
+                this.callbacks.onError(`[Web Speech] ${message}`, FATAL_WEB_SPEECH_ERRORS.includes(error));
+            },
+            onStart: () => this.callbacks.onStatus('🟢 Web Speech (Escutando...)'),
+        }, { lang: this.context.settings.language });
+        this.service.start();
+    }
+
+    async stop() {
+        this.service?.stop();
+        this.service = null;
+        // Resultado parcial que não chegou a ser finalizado
+        if (this.lastInterim.trim() && this.turnStartMs !== null) {
+            this.callbacks.onTurns(parseDiarizedTranscript(this.lastInterim, this.turnStartMs, this.elapsedMs()));
+        }
+        this.lastInterim = '';
+        this.turnStartMs = null;
+        this.callbacks.onInterim('');
+    }
+
+    getMediaStream() {
+        return null; // O navegador não expõe o stream usado pela Web Speech API
+    }
+}
+
+const missingGeminiKey = (context: TranscriptionEngineContext) =>
+    context.geminiApiKey ? null : 'Chave de API do Gemini não configurada.';
+
+export const TRANSCRIPTION_ENGINES: TranscriptionEngineDefinition[] = [
+    {
+        id: 'gemini-live',
+        name: 'Gemini Live',
+        description: 'Streaming em tempo real com identificação de locutor.',
+        isLocal: false,
+        unavailableReason: missingGeminiKey,
+        create: (context, callbacks) => new GeminiLiveEngine(context, callbacks),
+    },
+    {
+        id: 'gemini-batch',
+        name: 'Gemini (pacotes)',
+        description: 'Grava trechos delimitados por silêncio e os transcreve em paralelo.',
+        isLocal: false,
+        unavailableReason: missingGeminiKey,
+        create: (context, callbacks) => new BufferedTranscriptionEngine(
+            'gemini-batch', 'Gemini (pacotes)', createGeminiChunkTranscriber(context.geminiApiKey || ''), context, callbacks
+        ),
+    },
+    {
+        id: 'web-speech',
+        name: 'Web Speech (navegador)',
+        description: 'Reconhecimento do próprio navegador; sem identificação de locutor.',
+        isLocal: false, // Chrome e Edge enviam o áudio aos servidores do fabricante
+        unavailableReason: () => ((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition)
+            ? null
+            : 'Web Speech API não está disponível neste navegador.',
+        create: (context, callbacks) => new WebSpeechEngine(context, callbacks),
+    },
+    {
+        id: 'whisper',
+        name: 'Whisper local',
+        description: 'Servidor Whisper/faster-whisper na rede da clínica; funciona offline.',
+        isLocal: true,
+        unavailableReason: (context) => context.settings.whisper.baseUrl.trim() ? null : 'URL do servidor Whisper não configurada.',
+        create: (context, callbacks) => new BufferedTranscriptionEngine(
+            'whisper', 'Whisper local', createWhisperChunkTranscriber(context.settings.whisper, context.settings.language), context, callbacks
+        ),
+    },
+];
+
+export const getTranscriptionEngine = (id: TranscriptionEngineId): TranscriptionEngineDefinition | undefined =>
+    TRANSCRIPTION_ENGINES.find(engine => engine.id === id);
+
+export interface TranscriptionManagerCallbacks extends Omit<TranscriptionEngineCallbacks, 'onError'> {
+    onError: (error: string) => void;
+    // Novo motor ativo (na partida ou após um failover)
+    onEngineChange: (engine: TranscriptionEngineDefinition, mediaStream: MediaStream | null) => void;
+    // Nenhum motor restante conseguiu transcrever
+    onFailed: (error: string) => void;
+    onCaptions: (captions: CaptionSegment[]) => void;
+}
+
+/**
+ * Runs the selected engine and, when it reports a fatal error, stops it and
+ * starts the next available engine. A local preferred engine only falls back
+ * to other local engines, so audio never leaves the clinic network.
+ * In dual-track mode a Web Speech caption track runs next to cloud engines.
+ */
+export class TranscriptionManager {
+    private active: { definition: TranscriptionEngineDefinition; engine: TranscriptionEngine } | null = null;
+    private remaining: TranscriptionEngineDefinition[] = [];
+    private stopped = false;
+    private captions: LiveCaptionTrack | null = null;
+
+    constructor(private context: TranscriptionEngineContext, private callbacks: TranscriptionManagerCallbacks) {}
+
+    async start() {
+        const { settings } = this.context;
+        const preferred = getTranscriptionEngine(settings.engine) ?? TRANSCRIPTION_ENGINES[0];
+        const fallbacks = settings.fallbackEnabled
+            ? TRANSCRIPTION_ENGINES.filter(e => e.id !== preferred.id && (!preferred.isLocal || e.isLocal))
+            : [];
+        this.remaining = [preferred, ...fallbacks];
+        this.stopped = false;
+        await this.startNext(null);
+    }
+
+    async stop() {
+        this.stopped = true;
+        this.updateCaptionTrack(null);
+        const active = this.active;
+        this.active = null;
+        await active?.engine.stop();
+    }
+
+    getActiveEngineId(): TranscriptionEngineId | null {
+        return this.active?.definition.id ?? null;
+    }
+
+    private async startNext(previousError: string | null) {
+        while (!this.stopped && this.remaining.length > 0) {
+            const definition = this.remaining.shift()!;
+            const reason = definition.unavailableReason(this.context);
+            if (reason) {
+                this.callbacks.onLog(`Motor ${definition.name} indisponível: ${reason}`);
+                continue;
+            }
+
+            let engine: TranscriptionEngine;
+            try {
+                engine = definition.create(this.context, {
+                    ...this.callbacks,
+                    onTurns: (turns) => {
+                        this.captions?.reconcile(turns);
+                        this.callbacks.onTurns(turns);
+                    },
+                    onError: (error, fatal) => this.handleEngineError(engine, error, fatal),
+                });
+            } catch (error: any) {
+                previousError = error.message || String(error);
+                this.callbacks.onLog(`Falha ao criar o motor ${definition.name}: ${previousError}`);
+                continue;
+            }
+
+            this.active = { definition, engine };
+            this.callbacks.onLog(`Iniciando transcrição com ${definition.name}...`);
+            try {
+                await engine.start();
+            } catch (error: any) {
+                await this.handleEngineError(engine, error.message || String(error), true);
+                return;
+            }
+            if (this.active?.engine === engine) {
+                this.updateCaptionTrack(definition);
+                this.callbacks.onEngineChange(definition, engine.getMediaStream());
+            }
+            return;
+        }
+
+        if (!this.stopped) {
+            this.active = null;
+            this.updateCaptionTrack(null);
+            this.callbacks.onFailed(previousError || 'Nenhum motor de transcrição disponível. Verifique as configurações.');
+        }
+    }
+
+    // Legendas só fazem sentido ao lado de um motor na nuvem que não seja a própria Web Speech;
+    // com motores locais o áudio não pode ser enviado ao serviço de reconhecimento do navegador
+    private updateCaptionTrack(active: TranscriptionEngineDefinition | null) {
+        const { settings, sessionStartMs } = this.context;
+        const wanted = active !== null && settings.dualTrackCaptions && active.id !== 'web-speech' && !active.isLocal;
+        if (wanted && !this.captions) {
+            this.captions = new LiveCaptionTrack(sessionStartMs, settings.language, {
+                onChange: this.callbacks.onCaptions,
+                onLog: this.callbacks.onLog,
+            });
+            this.captions.start();
+        } else if (!wanted && this.captions) {
+            this.captions.stop();
+            this.captions = null;
+        }
+    }
+
+    private async handleEngineError(engine: TranscriptionEngine, error: string, fatal: boolean) {
+        this.callbacks.onError(error);
+        // Erros de motores já substituídos são ignorados
+        if (!fatal || this.stopped || this.active?.engine !== engine) return;
+
+        const failedName = this.active.definition.name;
+        this.active = null;
+        try {
+            await engine.stop();
+        } catch {
+            // O motor já estava inoperante
+        }
+        if (this.remaining.length > 0) {
+            this.callbacks.onLog(`Motor ${failedName} falhou durante a sessão; alternando para o próximo disponível.`);
+        }
+        await this.startNext(error);
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * Voice Activity Detector
+ * Decides speech vs. silence for 16-bit PCM frames. Instead of a fixed
+ * amplitude threshold, the adaptive mode measures the room noise at the
+ * start (calibration) and keeps tracking it, and only accepts sub-frames
+ * that are loud enough above that noise floor and look like voice: energy
+ * concentrated in the speech band and a non-flat (harmonic) spectrum.
+ * Hangover smoothing keeps short pauses between words inside the speech.
+ */
+
+export type VadMode = 'adaptive' | 'fixed';
+
+export interface VadSettings {
+    mode: VadMode;
+    sensitivity: number; // 0-1: valores maiores aceitam falas mais baixas em relação ao ruído
+    calibrationMs: number; // Medição do ruído ambiente no início da captura
+    hangoverMs: number; // Mantém "fala" após o último trecho com voz (pausas entre palavras)
+    fixedThreshold: number; // Modo fixo: média do valor absoluto das amostras (0-1)
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+    mode: 'adaptive',
+    sensitivity: 0.5,
+    calibrationMs: 1500,
+    hangoverMs: 400,
+    fixedThreshold: 0.01,
+};
+
+export interface VadResult {
+    isSpeech: boolean;
+    speechRatio: number; // Fração do quadro classificada como fala (0-1)
+    energyDb: number; // Energia RMS do quadro em dBFS
+    noiseFloorDb: number; // Ruído de fundo estimado em dBFS
+    calibrating: boolean;
+}
+
+const SUBFRAME_SIZE = 512; // 32 ms a 16 kHz
+const MIN_ENERGY_DB = -70; // Abaixo disso é silêncio digital, qualquer que seja o ruído
+const MARGIN_DB_STRICT = 14; // Margem sobre o ruído com sensibilidade 0
+const MARGIN_DB_LOOSE = 4; // Margem sobre o ruído com sensibilidade 1
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+const MIN_SPEECH_BAND_RATIO = 0.25; // Baixo porque a fundamental de vozes graves fica abaixo da banda; zumbido e ruído grave ficam perto de 0
+const MAX_SPECTRAL_FLATNESS = 0.45; // Ruído branco tem planura ~0,56; voz é bem menor
+const ONSET_SUBFRAMES = 2; // Estalos isolados não iniciam fala
+const NOISE_WINDOW_MS = 5000; // Janela das estatísticas de mínimo
+const MIN_STATISTICS_BIAS_DB = 3; // O mínimo subestima o ruído médio
+const CALIBRATION_PERCENTILE = 0.2;
+
+const toDb = (meanSquare: number) => 10 * Math.log10(meanSquare + 1e-10);
+
+// FFT radix-2 in-place (tamanho potência de 2)
+const fft = (re: Float64Array, im: Float64Array) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        const wRe = Math.cos(angle);
+        const wIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let curRe = 1;
+            let curIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * curRe - im[b] * curIm;
+                const tIm = re[b] * curIm + im[b] * curRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = curRe * wRe - curIm * wIm;
+                curIm = curRe * wIm + curIm * wRe;
+                curRe = nextRe;
+            }
+        }
+    }
+};
+
+const HANN = Float64Array.from({ length: SUBFRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (SUBFRAME_SIZE - 1)));
+
+export class VoiceActivityDetector {
+    private readonly subframeMs: number;
+    private readonly bandBins: [number, number];
+    private readonly re = new Float64Array(SUBFRAME_SIZE);
+    private readonly im = new Float64Array(SUBFRAME_SIZE);
+    private pending = new Float64Array(0); // Amostras que não completaram um subquadro
+    private elapsedMs = 0;
+    private calibration: number[] = [];
+    private noiseFloorDb: number | null = null;
+    private noiseHistory: number[] = [];
+    private onsetCount = 0;
+    private hangoverLeftMs = 0;
+    private speaking = false;
+
+    constructor(private readonly settings: VadSettings = DEFAULT_VAD_SETTINGS, sampleRate = 16000) {
+        this.subframeMs = (SUBFRAME_SIZE / sampleRate) * 1000;
+        const binHz = sampleRate / SUBFRAME_SIZE;
+        this.bandBins = [Math.round(SPEECH_BAND_HZ[0] / binHz), Math.min(SUBFRAME_SIZE / 2, Math.round(SPEECH_BAND_HZ[1] / binHz))];
+    }
+
+    reset() {
+        this.pending = new Float64Array(0);
+        this.elapsedMs = 0;
+        this.calibration = [];
+        this.noiseFloorDb = null;
+        this.noiseHistory = [];
+        this.onsetCount = 0;
+        this.hangoverLeftMs = 0;
+        this.speaking = false;
+    }
+
+    process(pcm: Int16Array): VadResult {
+        const samples = new Float64Array(this.pending.length + pcm.length);
+        samples.set(this.pending);
+        let sumSquares = 0;
+        let sumAbs = 0;
+        for (let i = 0; i < pcm.length; i++) {
+            const sample = pcm[i] / 0x8000;
+            samples[this.pending.length + i] = sample;
+            sumSquares += sample * sample;
+            sumAbs += Math.abs(sample);
+        }
+        const energyDb = toDb(pcm.length > 0 ? sumSquares / pcm.length : 0);
+
+        // Modo fixo: o critério anterior, média do valor absoluto contra um limiar constante
+        if (this.settings.mode === 'fixed') {
+            this.pending = new Float64Array(0);
+            const isSpeech = pcm.length > 0 && sumAbs / pcm.length > this.settings.fixedThreshold;
+            return { isSpeech, speechRatio: isSpeech ? 1 : 0, energyDb, noiseFloorDb: toDb(this.settings.fixedThreshold ** 2), calibrating: false };
+        }
+
+        let subframes = 0;
+        let speechSubframes = 0;
+        let offset = 0;
+        for (; offset + SUBFRAME_SIZE <= samples.length; offset += SUBFRAME_SIZE) {
+            subframes++;
+            if (this.processSubframe(samples.subarray(offset, offset + SUBFRAME_SIZE))) speechSubframes++;
+        }
+        this.pending = samples.slice(offset);
+
+        return {
+            isSpeech: subframes > 0 ? speechSubframes > 0 : this.speaking,
+            speechRatio: subframes > 0 ? speechSubframes / subframes : (this.speaking ? 1 : 0),
+            energyDb,
+            noiseFloorDb: this.noiseFloorDb ?? this.percentileFloor(),
+            calibrating: this.noiseFloorDb === null,
+        };
+    }
+
+    private processSubframe(subframe: Float64Array): boolean {
+        let sumSquares = 0;
+        let sumAbs = 0;
+        for (let i = 0; i < SUBFRAME_SIZE; i++) {
+            sumSquares += subframe[i] * subframe[i];
+            sumAbs += Math.abs(subframe[i]);
+            this.re[i] = subframe[i] * HANN[i];
+            this.im[i] = 0;
+        }
+        const energyDb = toDb(sumSquares / SUBFRAME_SIZE);
+        this.elapsedMs += this.subframeMs;
+
+        if (this.noiseFloorDb === null) {
+            this.calibration.push(energyDb);
+            if (this.elapsedMs >= this.settings.calibrationMs) {
+                this.noiseFloorDb = this.percentileFloor();
+                this.noiseHistory = [...this.calibration];
+            }
+            // Durante a calibração vale o limiar fixo (na mesma escala do modo fixo), para não perder o início da fala
+            return this.smooth(sumAbs / SUBFRAME_SIZE > this.settings.fixedThreshold);
+        }
+
+        const candidate = energyDb > MIN_ENERGY_DB
+            && energyDb > this.noiseFloorDb + this.marginDb()
+            && this.looksLikeVoice();
+        this.trackNoiseFloor(energyDb);
+        return this.smooth(candidate);
+    }
+
+    // Energia concentrada na banda da voz e espectro não plano (harmônicos)
+    private looksLikeVoice(): boolean {
+        fft(this.re, this.im);
+        let total = 0;
+        let band = 0;
+        let logSum = 0;
+        const [bandStart, bandEnd] = this.bandBins;
+        for (let k = 1; k <= SUBFRAME_SIZE / 2; k++) { // Ignora só o nível DC
+            const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+            total += power;
+            if (k >= bandStart && k <= bandEnd) {
+                band += power;
+                logSum += Math.log(power);
+            }
+        }
+        const bandBins = bandEnd - bandStart + 1;
+        const flatness = Math.exp(logSum / bandBins) / (band / bandBins);
+        return band / total >= MIN_SPEECH_BAND_RATIO && flatness <= MAX_SPECTRAL_FLATNESS;
+    }
+
+    // Estatísticas de mínimo: as pausas da fala revelam o ruído mesmo durante a conversa
+    private trackNoiseFloor(energyDb: number) {
+        this.noiseHistory.push(energyDb);
+        const maxHistory = Math.ceil(NOISE_WINDOW_MS / this.subframeMs);
+        if (this.noiseHistory.length > maxHistory) this.noiseHistory.splice(0, this.noiseHistory.length - maxHistory);
+        const target = Math.min(...this.noiseHistory) + MIN_STATISTICS_BIAS_DB;
+        const floor = this.noiseFloorDb!;
+        // Desce rápido (o ambiente ficou silencioso), sobe devagar (não confunde fala longa com ruído)
+        this.noiseFloorDb = floor + (target - floor) * (target < floor ? 0.5 : 0.05);
+    }
+
+    private smooth(candidate: boolean): boolean {
+        if (candidate) {
+            this.onsetCount++;
+            if (this.speaking || this.onsetCount >= ONSET_SUBFRAMES) {
+                this.speaking = true;
+                this.hangoverLeftMs = this.settings.hangoverMs;
+            }
+        } else {
+            this.onsetCount = 0;
+            if (this.speaking) {
+                this.hangoverLeftMs -= this.subframeMs;
+                if (this.hangoverLeftMs <= 0) this.speaking = false;
+            }
+        }
+        return this.speaking;
+    }
+
+    private marginDb(): number {
+        const sensitivity = Math.max(0, Math.min(1, this.settings.sensitivity));
+        return MARGIN_DB_STRICT + (MARGIN_DB_LOOSE - MARGIN_DB_STRICT) * sensitivity;
+    }
+
+    private percentileFloor(): number {
+        if (this.calibration.length === 0) return MIN_ENERGY_DB;
+        const sorted = [...this.calibration].sort((a, b) => a - b);
+        return sorted[Math.floor((sorted.length - 1) * CALIBRATION_PERCENTILE)];
+    }
+}
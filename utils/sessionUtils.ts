@@ -1,10 +1,23 @@
-export const getPatientName = (anamnesis: string): string | null => {
+import { AnamnesisDocument } from '../services/anamnesisSchema';
+
+export const getPatientName = (anamnesis: AnamnesisDocument | null | undefined): string | null => {
     if (!anamnesis) return null;
-    const match = anamnesis.match(/\[NOME DO PACIENTE\]\s*\n(.*?)\n/);
-    const name = match && match[1] ? match[1].trim() : '';
-    
+    const name = anamnesis.patientName?.trim() || '';
+
     if (!name || name.toLowerCase().includes('escreva o nome') || name.toLowerCase().includes('não informado')) {
         return null;
     }
     return name;
 };
+
+// Idade em anos completos a partir de uma data AAAA-MM-DD
+export const calculateAge = (birthDate: string | null): number | null => {
+    if (!birthDate) return null;
+    const birth = new Date(`${birthDate}T00:00:00`);
+    if (isNaN(birth.getTime())) return null;
+    const today = new Date();
+    let age = today.getFullYear() - birth.getFullYear();
+    const hadBirthday = today.getMonth() > birth.getMonth() || (today.getMonth() === birth.getMonth() && today.getDate() >= birth.getDate());
+    if (!hadBirthday) age--;
+    return age;
+};
@@ -0,0 +1,119 @@
+export type Speaker = 'doctor' | 'patient' | 'unknown';
+
+// Um turno de fala da consulta. Tempos em ms relativos ao início da sessão.
+// `confidence` refere-se à atribuição do locutor (0-1), não ao texto transcrito.
+export interface TranscriptTurn {
+    speaker: Speaker;
+    text: string;
+    startMs: number;
+    endMs: number;
+    confidence: number;
+}
+
+export const speakerLabels: Record<Speaker, string> = {
+    doctor: 'Médico',
+    patient: 'Paciente',
+    unknown: 'Não identificado',
+};
+
+// Instrução compartilhada pelos serviços de transcrição para obter falas rotuladas
+export const DIARIZATION_INSTRUCTION = 'Identifique quem está falando e comece cada fala em uma nova linha com "Médico:" ou "Paciente:". Se não for possível identificar o locutor, use "Locutor:".';
+
+const SPEAKER_PREFIXES: { pattern: RegExp; speaker: Speaker }[] = [
+    { pattern: /^(?:\*\*)?(m[ée]dic[oa]|doutor[a]?|dr[a]?\.?)(?:\*\*)?\s*:\s*/i, speaker: 'doctor' },
+    { pattern: /^(?:\*\*)?(paciente)(?:\*\*)?\s*:\s*/i, speaker: 'patient' },
+    { pattern: /^(?:\*\*)?(locutor|falante|desconhecido)(?:\*\*)?\s*:\s*/i, speaker: 'unknown' },
+];
+
+// Confiança atribuída quando o modelo rotula explicitamente o locutor vs. quando não rotula
+const LABELED_CONFIDENCE = 0.85;
+const UNLABELED_CONFIDENCE = 0.3;
+
+const matchSpeakerPrefix = (line: string): { speaker: Speaker; text: string } | null => {
+    for (const { pattern, speaker } of SPEAKER_PREFIXES) {
+        const match = line.match(pattern);
+        if (match) {
+            return { speaker, text: line.slice(match[0].length).trim() };
+        }
+    }
+    return null;
+};
+
+/**
+ * Converte o texto retornado pelo modelo ("Médico: ...\nPaciente: ...") em turnos.
+ * O intervalo [startMs, endMs] do trecho de áudio é distribuído proporcionalmente
+ * ao tamanho de cada fala, já que o modelo não retorna timestamps por fala.
+ */
+export const parseDiarizedTranscript = (raw: string, startMs: number, endMs: number): TranscriptTurn[] => {
+    const segments: { speaker: Speaker; text: string; labeled: boolean }[] = [];
+
+    for (const line of raw.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+
+        const prefixed = matchSpeakerPrefix(trimmed);
+        if (prefixed) {
+            if (prefixed.text) {
+                segments.push({ ...prefixed, labeled: prefixed.speaker !== 'unknown' });
+            }
+        } else if (segments.length > 0) {
+            // Continuação da fala anterior
+            segments[segments.length - 1].text += ` ${trimmed}`;
+        } else {
+            segments.push({ speaker: 'unknown', text: trimmed, labeled: false });
+        }
+    }
+
+    const totalChars = segments.reduce((sum, s) => sum + s.text.length, 0) || 1;
+    const span = Math.max(0, endMs - startMs);
+    let cursor = startMs;
+
+    return segments.map((segment, index) => {
+        const isLast = index === segments.length - 1;
+        const segmentEnd = isLast ? endMs : cursor + Math.round(span * (segment.text.length / totalChars));
+        const turn: TranscriptTurn = {
+            speaker: segment.speaker,
+            text: segment.text,
+            startMs: cursor,
+            endMs: segmentEnd,
+            confidence: segment.labeled ? LABELED_CONFIDENCE : UNLABELED_CONFIDENCE,
+        };
+        cursor = segmentEnd;
+        return turn;
+    });
+};
+
+// Sessões antigas armazenavam a transcrição como string[]; converte para turnos
+export const normalizeTranscriptionHistory = (history: unknown): TranscriptTurn[] => {
+    if (!Array.isArray(history)) return [];
+    return history
+        .map((entry): TranscriptTurn | null => {
+            if (typeof entry === 'string') {
+                return { speaker: 'unknown', text: entry, startMs: 0, endMs: 0, confidence: 0 };
+            }
+            if (entry && typeof entry === 'object' && typeof (entry as TranscriptTurn).text === 'string') {
+                const turn = entry as Partial<TranscriptTurn>;
+                return {
+                    speaker: turn.speaker && turn.speaker in speakerLabels ? turn.speaker : 'unknown',
+                    text: turn.text as string,
+                    startMs: turn.startMs ?? 0,
+                    endMs: turn.endMs ?? 0,
+                    confidence: turn.confidence ?? 0,
+                };
+            }
+            return null;
+        })
+        .filter((turn): turn is TranscriptTurn => turn !== null);
+};
+
+// Diálogo rotulado usado nos prompts de anamnese, exportações e uploads
+export const formatTurnsAsDialogue = (turns: TranscriptTurn[]): string => {
+    return turns.map(turn => `${speakerLabels[turn.speaker]}: ${turn.text}`).join('\n\n');
+};
+
+export const formatTurnTimestamp = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};